@@ -1,15 +1,15 @@
 import type { Handler, HandlerEvent, HandlerContext } from "@netlify/functions";
+import { getAIProvider, AIProviderConfigError } from "../lib/ai";
+import type { AIProviderKind } from "../lib/ai";
 
 /**
  * Netlify Function: Colorize (PastPalette)
  *
- * Uses Google's Gemini API (Nano Banana) for intelligent artifact colorization.
+ * Uses an image model (Gemini 2.5 Flash Image "Nano Banana" by default, see
+ * lib/ai) for intelligent artifact colorization.
  * Supports both colorization and restoration with historically accurate results.
  */
 
-// Gemini 2.5 Flash Image (Nano Banana) for image generation/editing
-const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image:generateContent";
-
 interface ColorizeRequest {
   imageBase64: string;
   colorScheme: 'roman' | 'greek' | 'egyptian' | 'mesopotamian' | 'weathered' | 'original' | 'custom';
@@ -81,18 +81,15 @@ Make it look as it did when an ancient craftsman just completed it.`,
 };
 
 /**
- * Colorize using Gemini API
+ * Colorize using the configured image model
  */
-async function colorizeWithGemini(
+async function colorizeImage(
   imageBase64: string,
   colorScheme: string,
   customPrompt?: string,
-  includeRestoration?: boolean,
-  apiKey?: string
-): Promise<{ colorizedImageBase64: string }> {
-  if (!apiKey) {
-    throw new Error('GOOGLE_AI_API_KEY is not configured');
-  }
+  includeRestoration?: boolean
+): Promise<{ colorizedImageBase64: string; provider: AIProviderKind }> {
+  const provider = getAIProvider('image');
 
   // Build the prompt
   let prompt = customPrompt || COLOR_SCHEME_PROMPTS[colorScheme] || COLOR_SCHEME_PROMPTS.original;
@@ -111,50 +108,13 @@ Then, ${prompt}`;
   // Ensure we're asking for an image output
   prompt += "\n\nIMPORTANT: Generate the colorized image as output.";
 
-  const requestBody = {
-    contents: [{
-      parts: [
-        { text: prompt },
-        {
-          inline_data: {
-            mime_type: "image/png",
-            data: imageBase64.includes(',') ? imageBase64.split(',')[1] : imageBase64
-          }
-        }
-      ]
-    }],
-    generationConfig: {
-      responseModalities: ["TEXT", "IMAGE"]
-    }
-  };
-
-  const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(requestBody),
+  const result = await provider.editImage({
+    task: 'colorize',
+    prompt,
+    image: { base64: imageBase64, mimeType: "image/png" },
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Gemini API error:', errorText);
-    throw new Error(`Gemini API error: ${response.status} - ${errorText.substring(0, 200)}`);
-  }
-
-  const result = await response.json();
-
-  // Extract the image from the response
-  if (result.candidates && result.candidates[0]?.content?.parts) {
-    for (const part of result.candidates[0].content.parts) {
-      if (part.inlineData?.data) {
-        return { colorizedImageBase64: part.inlineData.data };
-      }
-    }
-  }
-
-  console.error('Gemini response:', JSON.stringify(result).substring(0, 500));
-  throw new Error('No image returned from Gemini API');
+  return { colorizedImageBase64: result.imageBase64, provider: provider.kind };
 }
 
 /**
@@ -229,32 +189,20 @@ const handler: Handler = async (
       };
     }
 
-    // Get API key from environment
-    const apiKey = process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-      return {
-        statusCode: 503,
-        body: JSON.stringify({
-          success: false,
-          error: 'Colorization service is not configured. Please add GOOGLE_AI_API_KEY.',
-        }),
-        headers,
-      };
-    }
-
     // Perform colorization
-    const result = await colorizeWithGemini(
+    const result = await colorizeImage(
       imageBase64,
       colorScheme,
       customPrompt,
-      includeRestoration,
-      apiKey
+      includeRestoration
     );
 
     const response: ColorizeResponse = {
       success: true,
       colorizedImageBase64: result.colorizedImageBase64,
-      method: `gemini-nano-banana-${colorScheme}`,
+      method: result.provider === 'gemini'
+        ? `gemini-nano-banana-${colorScheme}`
+        : `${result.provider}-${colorScheme}`,
       processingTimeMs: Date.now() - startTime,
     };
 
@@ -266,6 +214,18 @@ const handler: Handler = async (
   } catch (error) {
     console.error('Colorization error:', error);
 
+    if (error instanceof AIProviderConfigError) {
+      return {
+        statusCode: 503,
+        body: JSON.stringify({
+          success: false,
+          error: `Colorization service is not configured. Please add ${error.setting}.`,
+          processingTimeMs: Date.now() - startTime,
+        }),
+        headers,
+      };
+    }
+
     const response: ColorizeResponse = {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error during colorization',
@@ -1,44 +1,64 @@
 import type { Handler, HandlerEvent, HandlerContext } from "@netlify/functions";
+import { getAIProvider, AIProviderConfigError, AIProviderError } from "../lib/ai";
+import {
+  LANGUAGES,
+  LANGUAGE_RULES,
+  getRequestLanguage,
+  generateValidInfoCard,
+  translateInfoCard,
+  getRequestImages,
+  checkRequestImages,
+  describeImages,
+  describeMetadata,
+  toProviderImages,
+} from "../lib/infoCard";
+import type { InfoCardImage, LocalizedInfoCard } from "../lib/infoCard";
+import { INFO_CARD_LANGUAGES } from "../../src/lib/api/infoCardSchema";
+import type { InfoCardFieldError, InfoCardLanguage } from "../../src/lib/api/infoCardSchema";
 
 /**
  * Netlify Function: Generate Info Card
  *
- * Uses Google's Gemini API for archaeological artifact analysis.
- * Generates detailed information cards with material, age, cultural context, etc.
+ * Uses a vision model (Gemini by default, see lib/ai) for archaeological
+ * artifact analysis. Generates detailed information cards with material,
+ * age, cultural context, etc., in the reader's language (English or Hebrew),
+ * optionally with a translation into the other.
  */
 
-const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent";
-
 interface InfoCardRequest {
-  imageBase64: string;
+  /** Single photo (older clients) */
+  imageBase64?: string;
+  /** Several views of the same artifact */
+  images?: InfoCardImage[];
+  /** Language to write the card in (default 'en') */
+  language?: InfoCardLanguage;
+  /** Also translate the card into the other supported language */
+  bilingual?: boolean;
   metadata?: {
     discoveryLocation?: string;
     excavationLayer?: string;
     siteName?: string;
     notes?: string;
+    material?: string;
+    period?: string;
+    objectType?: string;
   };
 }
 
 interface InfoCardResponse {
   success: boolean;
-  infoCard?: {
-    material: string;
-    estimatedAge: {
-      range: string;
-      confidence: 'high' | 'medium' | 'low';
-      reasoning?: string;
-    };
-    possibleUse: string;
-    culturalContext: string;
-    similarArtifacts: string[];
-    preservationNotes: string;
-    aiConfidence: number;
-    disclaimer: string;
-  };
+  infoCard?: LocalizedInfoCard;
+  /** The card in the other language(s), for bilingual requests */
+  translations?: Partial<Record<InfoCardLanguage, LocalizedInfoCard>>;
+  /** Model that wrote the card */
+  aiModel?: string;
   error?: string;
+  /** Set when the AI's card still failed validation after a repair attempt */
+  errorType?: 'invalid-info-card';
+  validationErrors?: InfoCardFieldError[];
 }
 
-const SYSTEM_PROMPT = `You are an expert archaeological artifact analyst. Given an image of an artifact and optional context, generate a detailed information card.
+const SYSTEM_PROMPT = `You are an expert archaeological artifact analyst. Given one or more images of an artifact and optional context, generate a detailed information card.
 
 IMPORTANT: Be factual and note uncertainties. All conclusions are speculative based on visual analysis alone.
 
@@ -84,117 +104,56 @@ const handler: Handler = async (
   }
 
   try {
-    const apiKey = process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-      return {
-        statusCode: 500,
-        body: JSON.stringify({ error: 'GOOGLE_AI_API_KEY not configured' }),
-        headers,
-      };
-    }
+    const provider = getAIProvider('text');
 
     const body: InfoCardRequest = JSON.parse(event.body || '{}');
-    const { imageBase64, metadata } = body;
+    const { metadata, bilingual } = body;
+    const images = getRequestImages(body);
+    const language = getRequestLanguage(body.language);
 
-    if (!imageBase64) {
+    if (images.length === 0) {
       return {
         statusCode: 400,
-        body: JSON.stringify({ error: 'Missing imageBase64' }),
+        body: JSON.stringify({ error: 'Missing imageBase64 or images' }),
         headers,
       };
     }
 
-    // Build user message with context
-    let userMessage = 'Analyze this archaeological artifact image and generate an information card.';
-    if (metadata) {
-      if (metadata.discoveryLocation) {
-        userMessage += `\n\nDiscovery Location: ${metadata.discoveryLocation}`;
-      }
-      if (metadata.excavationLayer) {
-        userMessage += `\nExcavation Layer: ${metadata.excavationLayer}`;
-      }
-      if (metadata.siteName) {
-        userMessage += `\nSite Name: ${metadata.siteName}`;
-      }
-      if (metadata.notes) {
-        userMessage += `\nAdditional Notes: ${metadata.notes}`;
-      }
-    }
-
-    // Call Gemini API
-    const requestBody = {
-      contents: [{
-        parts: [
-          { text: SYSTEM_PROMPT + "\n\n" + userMessage },
-          {
-            inline_data: {
-              mime_type: "image/jpeg",
-              data: imageBase64.includes(',') ? imageBase64.split(',')[1] : imageBase64
-            }
-          }
-        ]
-      }],
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 1024,
-      }
-    };
-
-    const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API error:', errorText);
+    const imagesError = checkRequestImages(images);
+    if (imagesError) {
       return {
-        statusCode: response.status,
-        body: JSON.stringify({
-          success: false,
-          error: `Gemini API error: ${response.status}`
-        }),
+        statusCode: 400,
+        body: JSON.stringify({ error: imagesError }),
         headers,
       };
     }
 
-    const geminiData = await response.json();
-    const content = geminiData.candidates?.[0]?.content?.parts?.[0]?.text;
+    // Build user message with context
+    let userMessage = images.length > 1
+      ? 'Analyze these photos of an archaeological artifact and generate an information card.'
+      : 'Analyze this archaeological artifact image and generate an information card.';
+    userMessage += describeImages(images);
+    userMessage += describeMetadata(metadata);
+
+    const result = await generateValidInfoCard(provider, {
+      task: 'info-card',
+      prompt: `${SYSTEM_PROMPT}\n\n${LANGUAGES[language].instructions} ${LANGUAGE_RULES}\n\n${userMessage}`,
+      images: toProviderImages(images),
+      temperature: 0.3,
+      maxOutputTokens: 1024,
+      json: true,
+    });
 
-    if (!content) {
-      return {
-        statusCode: 500,
-        body: JSON.stringify({ success: false, error: 'Empty response from Gemini' }),
-        headers,
+    if ('errors' in result) {
+      const invalidResponse: InfoCardResponse = {
+        success: false,
+        error: 'AI returned an invalid info card',
+        errorType: 'invalid-info-card',
+        validationErrors: result.errors,
       };
-    }
-
-    // Parse the JSON response - handle potential markdown code blocks
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith('```json')) {
-      jsonContent = jsonContent.slice(7);
-    } else if (jsonContent.startsWith('```')) {
-      jsonContent = jsonContent.slice(3);
-    }
-    if (jsonContent.endsWith('```')) {
-      jsonContent = jsonContent.slice(0, -3);
-    }
-    jsonContent = jsonContent.trim();
-
-    let infoCardData;
-    try {
-      infoCardData = JSON.parse(jsonContent);
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', content);
       return {
         statusCode: 500,
-        body: JSON.stringify({
-          success: false,
-          error: 'AI returned invalid JSON response',
-        }),
+        body: JSON.stringify(invalidResponse),
         headers,
       };
     }
@@ -202,11 +161,24 @@ const handler: Handler = async (
     const infoCardResponse: InfoCardResponse = {
       success: true,
       infoCard: {
-        ...infoCardData,
-        disclaimer: 'This analysis was generated by AI and should be verified by qualified archaeologists. All estimates are speculative based on visual analysis.',
+        ...result.data,
+        disclaimer: LANGUAGES[language].disclaimer,
+        language,
       },
+      aiModel: provider.textModel,
     };
 
+    if (bilingual) {
+      const translations: InfoCardResponse['translations'] = {};
+      for (const other of INFO_CARD_LANGUAGES.filter((lang) => lang !== language)) {
+        const translation = await translateInfoCard(provider, result.data, other);
+        if (translation) {
+          translations[other] = translation;
+        }
+      }
+      infoCardResponse.translations = translations;
+    }
+
     return {
       statusCode: 200,
       body: JSON.stringify(infoCardResponse),
@@ -214,6 +186,23 @@ const handler: Handler = async (
     };
   } catch (error) {
     console.error('Info card generation error:', error);
+
+    if (error instanceof AIProviderConfigError) {
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ success: false, error: error.message }),
+        headers,
+      };
+    }
+
+    if (error instanceof AIProviderError && error.status) {
+      return {
+        statusCode: error.status,
+        body: JSON.stringify({ success: false, error: error.message }),
+        headers,
+      };
+    }
+
     return {
       statusCode: 500,
       body: JSON.stringify({
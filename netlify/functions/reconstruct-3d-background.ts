@@ -0,0 +1,81 @@
+import type { Handler, HandlerEvent } from "@netlify/functions";
+import { reconstruct3D } from "../lib/reconstruction";
+import { getJobStore } from "../lib/jobStore";
+import {
+  getJob,
+  getJobInput,
+  updateJob,
+  finishJob,
+  progressToJobChanges,
+  type ReconstructionJob,
+} from "../lib/reconstructionJobs";
+
+/**
+ * Netlify Background Function: Run a 3D Reconstruction Job
+ *
+ * Invoked by reconstruct-3d-start. The "-background" suffix lets it run for up
+ * to 15 minutes, long enough for TRELLIS.2 retries and the TripoSR fallback.
+ * Progress is written to the job store for reconstruct-3d-status to report.
+ */
+
+// Queue position and step updates can arrive several times a second
+const MIN_WRITE_INTERVAL_MS = 1000;
+
+/**
+ * Netlify Function Handler
+ */
+const handler: Handler = async (
+  event: HandlerEvent
+): Promise<{ statusCode: number; body: string }> => {
+  const { jobId } = JSON.parse(event.body || '{}') as { jobId?: string };
+  if (!jobId) {
+    console.error('Background reconstruction invoked without a job id');
+    return { statusCode: 400, body: '' };
+  }
+
+  const store = getJobStore(event);
+  const [job, input] = await Promise.all([getJob(store, jobId), getJobInput(store, jobId)]);
+
+  if (!job || !input || job.phase !== 'pending') {
+    console.error(`Reconstruction job ${jobId} is missing or already started`);
+    return { statusCode: 404, body: '' };
+  }
+
+  // A lost progress update only makes the status lag; it never fails the job
+  const logProgressWriteError = (error: unknown) => {
+    console.error(`Failed to write progress of reconstruction job ${jobId}:`, error);
+  };
+
+  // Serialize writes so a slow write never overwrites a newer one
+  let writes: Promise<unknown> = updateJob(store, jobId, { phase: 'connecting' }).catch(logProgressWriteError);
+  let lastPhase: ReconstructionJob['phase'] = 'connecting';
+  let lastWriteAt = 0;
+
+  try {
+    const result = await reconstruct3D(input, (update) => {
+      const now = Date.now();
+      if (update.phase === lastPhase && now - lastWriteAt < MIN_WRITE_INTERVAL_MS) {
+        return;
+      }
+      lastPhase = update.phase;
+      lastWriteAt = now;
+      writes = writes
+        .then(() => updateJob(store, jobId, progressToJobChanges(update)))
+        .catch(logProgressWriteError);
+    });
+
+    await writes;
+    await finishJob(store, jobId, result);
+  } catch (error) {
+    console.error(`Reconstruction job ${jobId} failed:`, error);
+    await writes;
+    await finishJob(store, jobId, {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return { statusCode: 200, body: '' };
+};
+
+export { handler };
@@ -0,0 +1,24 @@
+import { schedule, type HandlerEvent } from "@netlify/functions";
+import { getJobStore } from "../lib/jobStore";
+import { purgeExpiredJobs } from "../lib/reconstructionJobs";
+
+/**
+ * Netlify Scheduled Function: Clean Up 3D Reconstruction Jobs
+ *
+ * Runs every hour and deletes jobs, with their input and result, once
+ * they're past the retention period.
+ */
+
+/**
+ * Netlify Function Handler
+ */
+const handler = schedule("@hourly", async (event: HandlerEvent) => {
+  try {
+    await purgeExpiredJobs(getJobStore(event));
+  } catch (error) {
+    console.error('Failed to purge expired reconstruction jobs:', error);
+  }
+  return { statusCode: 200 };
+});
+
+export { handler };
@@ -0,0 +1,142 @@
+import { Readable } from "stream";
+import { stream, SYNCHRONOUS_FUNCTION_TIMEOUT } from "@netlify/functions";
+import type { HandlerEvent, StreamingResponse } from "@netlify/functions";
+import { getJobStore, type JobStore } from "../lib/jobStore";
+import { getJob, type ReconstructionJob } from "../lib/reconstructionJobs";
+
+/**
+ * Netlify Function: 3D Reconstruction Job Events
+ *
+ * GET ?jobId=... streams the job as Server-Sent Events while the background
+ * function runs it. Every event carries the full job; the event name says what
+ * changed:
+ *
+ *   status   - phase, HuggingFace queue position, ETA or progress
+ *   retry    - an attempt failed and will be retried (retryInSeconds, lastError)
+ *   fallback - TRELLIS.2 failed and TripoSR is being used instead
+ *   complete - the model is ready at reconstruct-3d-result
+ *   error    - the job failed
+ *
+ * The stream closes before the function timeout; clients reconnect with
+ * Last-Event-ID and only get an event if the job changed in the meantime.
+ */
+
+type JobEventType = 'status' | 'retry' | 'fallback' | 'complete' | 'error';
+
+const POLL_INTERVAL_MS = 1000;
+// Leave headroom before the synchronous function timeout
+const STREAM_DURATION_MS = (SYNCHRONOUS_FUNCTION_TIMEOUT - 5) * 1000;
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+// Tells EventSource how soon to reconnect after the stream closes
+const RECONNECT_DELAY_MS = 1000;
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Name the change between two snapshots of a job
+ */
+const getEventType = (
+  previous: ReconstructionJob | null,
+  job: ReconstructionJob
+): JobEventType => {
+  if (job.phase === 'complete' || job.phase === 'error') return job.phase;
+  if (job.phase === 'retrying' && previous?.phase !== 'retrying') return 'retry';
+  if (job.fallback && !previous?.fallback) return 'fallback';
+  return 'status';
+};
+
+const formatEvent = (type: JobEventType, job: ReconstructionJob): string =>
+  `id: ${job.updatedAt}\nevent: ${type}\ndata: ${JSON.stringify(job)}\n\n`;
+
+/**
+ * Poll the job store and yield an event whenever the job changes
+ */
+async function* jobEvents(
+  store: JobStore,
+  jobId: string,
+  lastEventId: string | undefined
+): AsyncGenerator<string> {
+  const deadline = Date.now() + STREAM_DURATION_MS;
+  let previous: ReconstructionJob | null = null;
+  let lastSentAt = Date.now();
+
+  yield `retry: ${RECONNECT_DELAY_MS}\n\n`;
+
+  while (Date.now() < deadline) {
+    const job = await getJob(store, jobId);
+    if (!job) {
+      yield `event: error\ndata: ${JSON.stringify({ error: 'Job not found' })}\n\n`;
+      return;
+    }
+
+    const isFinished = job.phase === 'complete' || job.phase === 'error';
+    // Skip the snapshot a reconnecting client already has, unless it's final
+    const alreadySent = previous
+      ? job.updatedAt === previous.updatedAt
+      : job.updatedAt === lastEventId && !isFinished;
+
+    if (!alreadySent) {
+      yield formatEvent(getEventType(previous, job), job);
+      lastSentAt = Date.now();
+    } else if (Date.now() - lastSentAt >= KEEP_ALIVE_INTERVAL_MS) {
+      yield ': keep-alive\n\n';
+      lastSentAt = Date.now();
+    }
+
+    if (isFinished) return;
+    previous = job;
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Netlify Function Handler
+ */
+const handler = stream(async (event: HandlerEvent): Promise<StreamingResponse> => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, body: '', headers };
+  }
+
+  // Only accept GET
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    };
+  }
+
+  const jobId = event.queryStringParameters?.jobId;
+  if (!jobId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: 'Missing jobId' }),
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    };
+  }
+
+  const lastEventId = event.headers['last-event-id'];
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+    body: Readable.from(jobEvents(getJobStore(event), jobId, lastEventId)),
+  };
+});
+
+export { handler };
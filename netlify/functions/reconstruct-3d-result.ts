@@ -0,0 +1,95 @@
+import type { Handler, HandlerEvent } from "@netlify/functions";
+import { getJobStore } from "../lib/jobStore";
+import { getJob, getJobResult } from "../lib/reconstructionJobs";
+
+/**
+ * Netlify Function: 3D Reconstruction Job Result
+ *
+ * GET ?jobId=... returns the generated model once the job is complete,
+ * in the same shape as the synchronous reconstruct-3d response.
+ */
+
+/**
+ * Netlify Function Handler
+ */
+const handler: Handler = async (
+  event: HandlerEvent
+): Promise<{ statusCode: number; body: string; headers: Record<string, string> }> => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, body: '', headers };
+  }
+
+  // Only accept GET
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+      headers,
+    };
+  }
+
+  const jobId = event.queryStringParameters?.jobId;
+  if (!jobId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: 'Missing jobId' }),
+      headers,
+    };
+  }
+
+  try {
+    const store = getJobStore(event);
+    const job = await getJob(store, jobId);
+    if (!job) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ success: false, error: 'Job not found' }),
+        headers,
+      };
+    }
+
+    if (job.phase === 'error') {
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ success: false, error: job.error, errorType: job.errorType, method: job.method }),
+        headers,
+      };
+    }
+
+    const result = job.phase === 'complete' ? await getJobResult(store, jobId) : null;
+    if (!result) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ success: false, error: 'Job is not complete yet' }),
+        headers,
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(result),
+      headers,
+    };
+  } catch (error) {
+    console.error('Failed to read reconstruction job result:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      headers,
+    };
+  }
+};
+
+export { handler };
@@ -0,0 +1,110 @@
+import type { Handler, HandlerEvent } from "@netlify/functions";
+import { validateReconstructRequest, type ReconstructRequest } from "../lib/reconstruction";
+import { getJobStore } from "../lib/jobStore";
+import { createJob, createJobId, updateJob } from "../lib/reconstructionJobs";
+
+/**
+ * Netlify Function: Start a 3D Reconstruction Job
+ *
+ * Stores the request, hands it to the reconstruct-3d-background function and
+ * returns a job id right away. Poll reconstruct-3d-status for progress and
+ * fetch the model from reconstruct-3d-result once the job is complete.
+ */
+
+const BACKGROUND_FUNCTION = "reconstruct-3d-background";
+
+/**
+ * Netlify Function Handler
+ */
+const handler: Handler = async (
+  event: HandlerEvent
+): Promise<{ statusCode: number; body: string; headers: Record<string, string> }> => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, body: '', headers };
+  }
+
+  // Only accept POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+      headers,
+    };
+  }
+
+  try {
+    // Parse and validate request body
+    const body: ReconstructRequest = JSON.parse(event.body || '{}');
+
+    const validationError = validateReconstructRequest(body);
+    if (validationError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: validationError }),
+        headers,
+      };
+    }
+
+    const store = getJobStore(event);
+    const jobId = createJobId();
+    const job = await createJob(store, jobId, body);
+
+    // Background functions answer 202 immediately and keep running for up to 15 minutes
+    const origin = new URL(event.rawUrl).origin;
+    const response = await fetch(`${origin}/.netlify/functions/${BACKGROUND_FUNCTION}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobId }),
+    });
+
+    if (!response.ok) {
+      const error = `Failed to start background job (${response.status})`;
+      await updateJob(store, jobId, { phase: 'error', error });
+      return {
+        statusCode: 502,
+        body: JSON.stringify({ success: false, error }),
+        headers,
+      };
+    }
+
+    return {
+      statusCode: 202,
+      body: JSON.stringify({ success: true, jobId, job }),
+      headers,
+    };
+  } catch (error) {
+    console.error('Failed to start 3D reconstruction job:', error);
+
+    // Handle JSON parse errors
+    if (error instanceof SyntaxError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          success: false,
+          error: 'Invalid JSON in request body',
+        }),
+        headers,
+      };
+    }
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      headers,
+    };
+  }
+};
+
+export { handler };
@@ -0,0 +1,77 @@
+import type { Handler, HandlerEvent } from "@netlify/functions";
+import { getJobStore } from "../lib/jobStore";
+import { getJob } from "../lib/reconstructionJobs";
+
+/**
+ * Netlify Function: 3D Reconstruction Job Status
+ *
+ * GET ?jobId=... returns the job's phase, HuggingFace queue position,
+ * ETA and progress estimate.
+ */
+
+/**
+ * Netlify Function Handler
+ */
+const handler: Handler = async (
+  event: HandlerEvent
+): Promise<{ statusCode: number; body: string; headers: Record<string, string> }> => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, body: '', headers };
+  }
+
+  // Only accept GET
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+      headers,
+    };
+  }
+
+  const jobId = event.queryStringParameters?.jobId;
+  if (!jobId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: 'Missing jobId' }),
+      headers,
+    };
+  }
+
+  try {
+    const job = await getJob(getJobStore(event), jobId);
+    if (!job) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ success: false, error: 'Job not found' }),
+        headers,
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, job }),
+      headers,
+    };
+  } catch (error) {
+    console.error('Failed to read reconstruction job status:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      headers,
+    };
+  }
+};
+
+export { handler };
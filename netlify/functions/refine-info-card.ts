@@ -0,0 +1,309 @@
+import type { Handler, HandlerEvent } from "@netlify/functions";
+import { getAIProvider, AIProviderConfigError, AIProviderError } from "../lib/ai";
+import {
+  LANGUAGES,
+  LANGUAGE_RULES,
+  getRequestLanguage,
+  generateValidInfoCard,
+  translateInfoCard,
+  checkRequestImages,
+  describeImages,
+  describeMetadata,
+  toProviderImages,
+} from "../lib/infoCard";
+import type { InfoCardImage } from "../lib/infoCard";
+import { validateInfoCard, INFO_CARD_FIELDS, INFO_CARD_LANGUAGES } from "../../src/lib/api/infoCardSchema";
+import type {
+  InfoCardFields,
+  InfoCardFieldError,
+  InfoCardFieldName,
+  InfoCardLanguage,
+} from "../../src/lib/api/infoCardSchema";
+
+/**
+ * Netlify Function: Refine Info Card
+ *
+ * Follow-ups on an existing card without regenerating all of it:
+ * - regenerate: rewrite one field, optionally with extra context from the
+ *   archaeologist ("it was found sealed under a Byzantine floor")
+ * - ask: answer a question about the artifact, continuing the card's thread
+ */
+
+interface RefineInfoCardRequest {
+  action: 'regenerate' | 'ask';
+  /** The card as it is now (in `language`) */
+  card: InfoCardFields;
+  /** Photos the card was made from */
+  images?: InfoCardImage[];
+  /** Language of the card (default 'en') */
+  language?: InfoCardLanguage;
+  metadata?: {
+    discoveryLocation?: string;
+    excavationLayer?: string;
+    siteName?: string;
+    notes?: string;
+    material?: string;
+    period?: string;
+    objectType?: string;
+  };
+  /** regenerate: the field to rewrite */
+  field?: InfoCardFieldName;
+  /** regenerate: extra context for the new version */
+  context?: string;
+  /** regenerate: also return the new value in these languages (for bilingual cards) */
+  translateTo?: InfoCardLanguage[];
+  /** ask: the question */
+  question?: string;
+  /** ask: earlier questions and answers in the thread, oldest first */
+  history?: { question: string; answer: string }[];
+}
+
+type FieldValue = InfoCardFields[InfoCardFieldName];
+
+interface RefineInfoCardResponse {
+  success: boolean;
+  /** regenerate: the field and its new value */
+  field?: InfoCardFieldName;
+  value?: FieldValue;
+  /** regenerate: the new value in the requested other languages */
+  translations?: Partial<Record<InfoCardLanguage, FieldValue>>;
+  /** ask: the answer */
+  answer?: string;
+  /** Model that produced the value or answer */
+  aiModel?: string;
+  error?: string;
+  errorType?: 'invalid-info-card';
+  validationErrors?: InfoCardFieldError[];
+}
+
+// Earlier turns beyond this are dropped from the prompt, oldest first
+const MAX_HISTORY = 10;
+const MAX_QUESTION_LENGTH = 2000;
+
+// What each field should contain, as in generate-info-card's prompt
+const FIELD_DESCRIPTIONS: Record<InfoCardFieldName, string> = {
+  material: 'identified or likely material',
+  estimatedAge: 'time period range, confidence (high|medium|low) and a brief explanation of the dating',
+  possibleUse: 'likely function or purpose of the artifact',
+  culturalContext: 'cultural/historical context and significance',
+  similarArtifacts: 'list of similar known artifacts or types',
+  preservationNotes: 'recommendations for preservation and handling',
+};
+
+const ANALYST_PROMPT = `You are an expert archaeological artifact analyst. Be factual and note uncertainties. All conclusions are speculative based on visual analysis alone.`;
+
+/**
+ * Rewrite one field; the model returns the whole card so the result can be
+ * checked against the same schema as a new card
+ */
+const buildRegeneratePrompt = (body: RefineInfoCardRequest, field: InfoCardFieldName, language: InfoCardLanguage, images: InfoCardImage[]): string => {
+  let prompt = `${ANALYST_PROMPT}
+
+This is the current information card for the artifact in the photos:
+${JSON.stringify(body.card, null, 2)}
+
+Re-examine the artifact and write a new "${field}" field (${FIELD_DESCRIPTIONS[field]}). Do not simply rephrase the current value; reconsider it.`;
+
+  if (body.context?.trim()) {
+    prompt += `\n\nAdditional context from the archaeologist, which takes precedence over your visual impression:\n${body.context.trim()}`;
+  }
+
+  prompt += describeImages(images);
+  prompt += describeMetadata(body.metadata);
+  prompt += `\n\n${LANGUAGES[language].instructions} ${LANGUAGE_RULES}
+Respond with the complete card as JSON in the same structure, with every other field copied unchanged.
+Return ONLY valid JSON, no markdown code blocks or other formatting.`;
+  return prompt;
+};
+
+const buildQuestionPrompt = (body: RefineInfoCardRequest, question: string, images: InfoCardImage[]): string => {
+  let prompt = `${ANALYST_PROMPT}
+
+An archaeologist is asking about the artifact in the photos. This is its current information card:
+${JSON.stringify(body.card, null, 2)}`;
+
+  prompt += describeImages(images);
+  prompt += describeMetadata(body.metadata);
+
+  const history = (body.history || []).slice(-MAX_HISTORY);
+  if (history.length > 0) {
+    prompt += `\n\nEarlier in this conversation:\n${history
+      .map((turn) => `Q: ${turn.question}\nA: ${turn.answer}`)
+      .join('\n\n')}`;
+  }
+
+  prompt += `\n\nQuestion: ${question}
+
+Answer in the language of the question, in a few short paragraphs of plain text (no markdown). Say what in the photos supports or argues against each possibility, and what would settle it.`;
+  return prompt;
+};
+
+const handler: Handler = async (
+  event: HandlerEvent
+): Promise<{ statusCode: number; body: string; headers: Record<string, string> }> => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Content-Type': 'application/json',
+  };
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, body: '', headers };
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+      headers,
+    };
+  }
+
+  const badRequest = (error: string) => ({
+    statusCode: 400,
+    body: JSON.stringify({ success: false, error }),
+    headers,
+  });
+
+  try {
+    const body: RefineInfoCardRequest = JSON.parse(event.body || '{}');
+    const images = body.images || [];
+    const language = getRequestLanguage(body.language);
+
+    const card = validateInfoCard(body.card);
+    if (!card.valid) {
+      return badRequest('card must be a complete info card');
+    }
+
+    const imagesError = images.length > 0 ? checkRequestImages(images) : null;
+    if (imagesError) {
+      return badRequest(imagesError);
+    }
+
+    if (body.action === 'regenerate') {
+      const field = body.field;
+      if (!field || !INFO_CARD_FIELDS.includes(field)) {
+        return badRequest(`field must be one of ${INFO_CARD_FIELDS.join(', ')}`);
+      }
+
+      const provider = getAIProvider('text');
+      const result = await generateValidInfoCard(provider, {
+        task: 'regenerate-info-card-field',
+        prompt: buildRegeneratePrompt(body, field, language, images),
+        images: toProviderImages(images),
+        temperature: 0.4,
+        maxOutputTokens: 1024,
+        json: true,
+      });
+
+      if ('errors' in result) {
+        const invalidResponse: RefineInfoCardResponse = {
+          success: false,
+          error: 'AI returned an invalid info card',
+          errorType: 'invalid-info-card',
+          validationErrors: result.errors,
+        };
+        return {
+          statusCode: 500,
+          body: JSON.stringify(invalidResponse),
+          headers,
+        };
+      }
+
+      // Only the requested field changes, whatever else the model rewrote
+      const updated: InfoCardFields = { ...card.data, [field]: result.data[field] };
+      const response: RefineInfoCardResponse = {
+        success: true,
+        field,
+        value: updated[field],
+        aiModel: provider.textModel,
+      };
+
+      const translateTo = (body.translateTo || []).filter(
+        (other) => other !== language && INFO_CARD_LANGUAGES.includes(other)
+      );
+      if (translateTo.length > 0) {
+        const translations: RefineInfoCardResponse['translations'] = {};
+        for (const other of translateTo) {
+          const translation = await translateInfoCard(provider, updated, other);
+          if (translation) {
+            translations[other] = translation[field];
+          }
+        }
+        response.translations = translations;
+      }
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify(response),
+        headers,
+      };
+    }
+
+    if (body.action === 'ask') {
+      const question = body.question?.trim();
+      if (!question) {
+        return badRequest('Missing question');
+      }
+      if (question.length > MAX_QUESTION_LENGTH) {
+        return badRequest(`question must be at most ${MAX_QUESTION_LENGTH} characters`);
+      }
+
+      const provider = getAIProvider('text');
+      const answer = (await provider.generateText({
+        task: 'ask-info-card',
+        prompt: buildQuestionPrompt(body, question, images),
+        images: toProviderImages(images),
+        temperature: 0.4,
+        maxOutputTokens: 1024,
+      })).trim();
+
+      if (!answer) {
+        return {
+          statusCode: 500,
+          body: JSON.stringify({ success: false, error: 'AI returned an empty answer' }),
+          headers,
+        };
+      }
+
+      const response: RefineInfoCardResponse = { success: true, answer, aiModel: provider.textModel };
+      return {
+        statusCode: 200,
+        body: JSON.stringify(response),
+        headers,
+      };
+    }
+
+    return badRequest("action must be 'regenerate' or 'ask'");
+  } catch (error) {
+    console.error('Info card refinement error:', error);
+
+    if (error instanceof AIProviderConfigError) {
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ success: false, error: error.message }),
+        headers,
+      };
+    }
+
+    if (error instanceof AIProviderError && error.status) {
+      return {
+        statusCode: error.status,
+        body: JSON.stringify({ success: false, error: error.message }),
+        headers,
+      };
+    }
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      headers,
+    };
+  }
+};
+
+export { handler };
@@ -0,0 +1,111 @@
+import { AIProviderConfigError, AIProviderError, parseImage } from "./types";
+import type { AIImage, AIProvider, ImageRequest, TextRequest } from "./types";
+
+/**
+ * Google Gemini (generateContent API)
+ */
+
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
+
+const DEFAULT_TEXT_MODEL = "gemini-2.0-flash-exp";
+// Gemini 2.5 Flash Image (Nano Banana) for image generation/editing
+const DEFAULT_IMAGE_MODEL = "gemini-2.5-flash-image";
+
+interface GeminiPart {
+  text?: string;
+  inlineData?: { data?: string; mimeType?: string };
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] } }>;
+}
+
+export const createGeminiProvider = (options: {
+  textModel?: string;
+  imageModel?: string;
+}): AIProvider => {
+  const textModel = options.textModel || DEFAULT_TEXT_MODEL;
+  const imageModel = options.imageModel || DEFAULT_IMAGE_MODEL;
+
+  const generateContent = async (model: string, body: unknown): Promise<GeminiResponse> => {
+    const apiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!apiKey) {
+      throw new AIProviderConfigError('GOOGLE_AI_API_KEY');
+    }
+
+    const response = await fetch(`${GEMINI_API_BASE}/${model}:generateContent?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Gemini API error:', errorText);
+      throw new AIProviderError('gemini', `Gemini API error: ${response.status}`, response.status);
+    }
+
+    return response.json();
+  };
+
+  const toInlineData = (image: AIImage, defaultMimeType: string) => {
+    const { data, mimeType } = parseImage(image, defaultMimeType);
+    return { inline_data: { mime_type: mimeType, data } };
+  };
+
+  return {
+    kind: 'gemini',
+    textModel,
+    imageModel,
+
+    async generateText(request: TextRequest) {
+      const result = await generateContent(textModel, {
+        contents: [{
+          parts: [
+            { text: request.prompt },
+            ...(request.images || []).map((image) => toInlineData(image, 'image/jpeg')),
+          ],
+        }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          ...(request.json ? { responseMimeType: 'application/json' } : {}),
+        },
+      });
+
+      const content = result.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!content) {
+        throw new AIProviderError('gemini', 'Empty response from Gemini');
+      }
+      return content;
+    },
+
+    async editImage(request: ImageRequest) {
+      const result = await generateContent(imageModel, {
+        contents: [{
+          parts: [
+            { text: request.prompt },
+            toInlineData(request.image, 'image/png'),
+          ],
+        }],
+        generationConfig: {
+          responseModalities: ["TEXT", "IMAGE"],
+        },
+      });
+
+      for (const part of result.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+          return {
+            imageBase64: part.inlineData.data,
+            mimeType: part.inlineData.mimeType || 'image/png',
+          };
+        }
+      }
+
+      console.error('Gemini response:', JSON.stringify(result).substring(0, 500));
+      throw new AIProviderError('gemini', 'No image returned from Gemini API');
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import { createGeminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { createMockProvider } from "./mock";
+import type { AIProvider, AIProviderKind } from "./types";
+
+/**
+ * AI Providers
+ *
+ * Selected by environment so models can be switched without code changes:
+ *   AI_PROVIDER        gemini (default) | openai | mock
+ *   AI_TEXT_MODEL      model for text/vision requests
+ *   AI_IMAGE_MODEL     model for image editing
+ * Each can be overridden for one capability, e.g. AI_IMAGE_PROVIDER=gemini
+ * with AI_PROVIDER=openai.
+ */
+
+export * from "./types";
+
+type Capability = 'text' | 'image';
+
+const PROVIDER_KINDS: AIProviderKind[] = ['gemini', 'openai', 'mock'];
+
+const getProviderKind = (capability: Capability): AIProviderKind => {
+  const override = capability === 'text'
+    ? process.env.AI_TEXT_PROVIDER
+    : process.env.AI_IMAGE_PROVIDER;
+  const kind = (override || process.env.AI_PROVIDER || 'gemini').toLowerCase();
+
+  if (!PROVIDER_KINDS.includes(kind as AIProviderKind)) {
+    console.warn(`Unknown AI provider "${kind}", using gemini`);
+    return 'gemini';
+  }
+  return kind as AIProviderKind;
+};
+
+/**
+ * Get the configured provider for text (vision analysis) or image editing
+ */
+export const getAIProvider = (capability: Capability): AIProvider => {
+  const options = {
+    textModel: process.env.AI_TEXT_MODEL,
+    imageModel: process.env.AI_IMAGE_MODEL,
+  };
+
+  switch (getProviderKind(capability)) {
+    case 'openai':
+      return createOpenAIProvider(options);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(options);
+  }
+};
@@ -0,0 +1,51 @@
+import { parseImage } from "./types";
+import type { AIProvider, AITask, ImageRequest, TextRequest } from "./types";
+
+/**
+ * Mock provider with deterministic fixtures, for developing and testing the
+ * functions without network access or API keys (AI_PROVIDER=mock)
+ */
+
+const INFO_CARD_FIXTURE = JSON.stringify({
+  material: 'Terracotta with traces of red ochre pigment',
+  estimatedAge: {
+    range: '300-100 BCE',
+    confidence: 'medium',
+    reasoning: 'Based on the manufacturing technique and stylistic elements typical of Hellenistic period pottery',
+  },
+  possibleUse: 'Likely a votive figurine used in household religious practices',
+  culturalContext: 'This type of figurine is characteristic of Greek domestic worship, often placed in household shrines as offerings to protective deities',
+  similarArtifacts: [
+    'Tanagra figurines from Boeotia',
+    'Myrina terracottas from Asia Minor',
+    'Hellenistic coroplastic works from South Italy',
+  ],
+  preservationNotes: 'Store in stable humidity (45-55% RH). Handle with gloves to prevent oil transfer. The surface pigment is fragile - avoid direct contact.',
+  aiConfidence: 0.75,
+});
+
+const TEXT_FIXTURES: Record<AITask, string> = {
+  'info-card': INFO_CARD_FIXTURE,
+  // Not actually translated; enough to exercise the bilingual flow
+  'translate-info-card': INFO_CARD_FIXTURE,
+  // Only the requested field is taken from the card
+  'regenerate-info-card-field': INFO_CARD_FIXTURE,
+  'ask-info-card': 'The flattened base and central perforation are consistent with a loom weight, but the modelled features on the front argue for a figurine. A wear pattern around the hole would settle it.',
+  colorize: 'Colorized image attached.',
+};
+
+export const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+  textModel: 'mock',
+  imageModel: 'mock',
+
+  async generateText(request: TextRequest) {
+    return TEXT_FIXTURES[request.task];
+  },
+
+  // Returns the input image unchanged
+  async editImage(request: ImageRequest) {
+    const { data, mimeType } = parseImage(request.image, 'image/png');
+    return { imageBase64: data, mimeType };
+  },
+});
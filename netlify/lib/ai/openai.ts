@@ -0,0 +1,117 @@
+import { AIProviderConfigError, AIProviderError, parseImage } from "./types";
+import type { AIProvider, ImageRequest, TextRequest } from "./types";
+
+/**
+ * OpenAI-compatible APIs (chat completions with vision, image edits)
+ *
+ * Works with OpenAI itself and with services exposing the same API
+ * (Groq, OpenRouter, a local vLLM/Ollama server...) through OPENAI_BASE_URL.
+ */
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+const DEFAULT_TEXT_MODEL = "gpt-4o-mini";
+const DEFAULT_IMAGE_MODEL = "gpt-image-1";
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ImageEditResponse {
+  data?: Array<{ b64_json?: string; url?: string }>;
+}
+
+export const createOpenAIProvider = (options: {
+  textModel?: string;
+  imageModel?: string;
+}): AIProvider => {
+  const textModel = options.textModel || DEFAULT_TEXT_MODEL;
+  const imageModel = options.imageModel || DEFAULT_IMAGE_MODEL;
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const getApiKey = (): string => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new AIProviderConfigError('OPENAI_API_KEY');
+    }
+    return apiKey;
+  };
+
+  const request = async <T>(path: string, body: string | FormData): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${getApiKey()}`,
+        // FormData sets its own multipart boundary
+        ...(typeof body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI-compatible API error:', errorText);
+      throw new AIProviderError('openai', `AI API error: ${response.status}`, response.status);
+    }
+
+    return response.json();
+  };
+
+  return {
+    kind: 'openai',
+    textModel,
+    imageModel,
+
+    async generateText(textRequest: TextRequest) {
+      const result = await request<ChatCompletionResponse>('/chat/completions', JSON.stringify({
+        model: textModel,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: textRequest.prompt },
+            ...(textRequest.images || []).map((image) => {
+              const { data, mimeType } = parseImage(image);
+              return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+            }),
+          ],
+        }],
+        temperature: textRequest.temperature,
+        max_tokens: textRequest.maxOutputTokens,
+        ...(textRequest.json ? { response_format: { type: 'json_object' } } : {}),
+      }));
+
+      const content = result.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new AIProviderError('openai', 'Empty response from AI API');
+      }
+      return content;
+    },
+
+    async editImage(imageRequest: ImageRequest) {
+      const { data, mimeType } = parseImage(imageRequest.image, 'image/png');
+      const form = new FormData();
+      form.append('model', imageModel);
+      form.append('prompt', imageRequest.prompt);
+      form.append('image', new Blob([Buffer.from(data, 'base64')], { type: mimeType }), 'image.png');
+
+      const result = await request<ImageEditResponse>('/images/edits', form);
+      const image = result.data?.[0];
+
+      if (image?.b64_json) {
+        return { imageBase64: image.b64_json, mimeType: 'image/png' };
+      }
+      // Some compatible servers only return a URL
+      if (image?.url) {
+        const response = await fetch(image.url);
+        if (response.ok) {
+          return {
+            imageBase64: Buffer.from(await response.arrayBuffer()).toString('base64'),
+            mimeType: response.headers.get('content-type') || 'image/png',
+          };
+        }
+      }
+
+      throw new AIProviderError('openai', 'No image returned from AI API');
+    },
+  };
+};
@@ -0,0 +1,99 @@
+/**
+ * AI Provider Types
+ *
+ * The functions talk to vision and image models through this interface, so
+ * the provider and model can change (or be mocked) without touching them.
+ */
+
+export type AIProviderKind = 'gemini' | 'openai' | 'mock';
+
+/**
+ * What a request is for; the mock provider picks its fixture by this
+ */
+export type AITask =
+  | 'info-card'
+  | 'translate-info-card'
+  | 'regenerate-info-card-field'
+  | 'ask-info-card'
+  | 'colorize';
+
+export interface AIImage {
+  /** Base64 data, with or without a data URL prefix */
+  base64: string;
+  mimeType?: string;
+}
+
+export interface TextRequest {
+  task: AITask;
+  prompt: string;
+  images?: AIImage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Ask the model for a JSON object */
+  json?: boolean;
+}
+
+export interface ImageRequest {
+  task: AITask;
+  prompt: string;
+  image: AIImage;
+}
+
+export interface ImageResult {
+  /** Base64 image data, without a data URL prefix */
+  imageBase64: string;
+  mimeType: string;
+}
+
+export interface AIProvider {
+  kind: AIProviderKind;
+  /** Model used for generateText */
+  textModel: string;
+  /** Model used for editImage */
+  imageModel: string;
+  /** Generate text (optionally from images) */
+  generateText(request: TextRequest): Promise<string>;
+  /** Generate a new image from an image and instructions */
+  editImage(request: ImageRequest): Promise<ImageResult>;
+}
+
+/**
+ * The selected provider is missing its API key or other settings
+ */
+export class AIProviderConfigError extends Error {
+  readonly code = 'AI_PROVIDER_NOT_CONFIGURED';
+  setting: string;
+
+  constructor(setting: string) {
+    super(`${setting} not configured`);
+    this.name = 'AIProviderConfigError';
+    this.setting = setting;
+  }
+}
+
+/**
+ * The provider's API rejected the request or returned nothing usable
+ */
+export class AIProviderError extends Error {
+  provider: AIProviderKind;
+  /** HTTP status from the provider, if it responded */
+  status?: number;
+
+  constructor(provider: AIProviderKind, message: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+/**
+ * Split an image into bare base64 data and its MIME type
+ */
+export const parseImage = (image: AIImage, defaultMimeType = 'image/jpeg'): { data: string; mimeType: string } => {
+  const match = image.base64.match(/^data:([^;]+);base64,(.*)$/);
+  if (match) {
+    return { data: match[2], mimeType: image.mimeType || match[1] };
+  }
+  return { data: image.base64, mimeType: image.mimeType || defaultMimeType };
+};
@@ -0,0 +1,242 @@
+import { validateInfoCard, INFO_CARD_LANGUAGES } from "../../src/lib/api/infoCardSchema";
+import type { InfoCardFields, InfoCardFieldError, InfoCardLanguage } from "../../src/lib/api/infoCardSchema";
+import type { AIProvider, TextRequest } from "./ai";
+
+/**
+ * Info Card Prompting
+ *
+ * Shared by generate-info-card and refine-info-card: how photos and languages
+ * are described to the model, and how its JSON is validated and repaired.
+ */
+
+export interface InfoCardImage {
+  imageBase64: string;
+  /** Capture angle, e.g. 'front', 'bottom', 'detail' */
+  angle?: string;
+}
+
+export type LocalizedInfoCard = InfoCardFields & {
+  disclaimer: string;
+  language: InfoCardLanguage;
+};
+
+export type InfoCardResult = { data: InfoCardFields } | { errors: InfoCardFieldError[] };
+
+export const MAX_IMAGES = 8;
+
+// How each capture angle is described to the model
+const VIEW_DESCRIPTIONS: Record<string, string> = {
+  front: 'front view',
+  back: 'back view',
+  left: 'left side',
+  right: 'right side',
+  top: 'top view',
+  bottom: 'base / underside',
+  detail: 'close-up detail',
+  context: 'in-situ context shot',
+};
+
+/**
+ * How to write a card in each language
+ * Period names and dates follow the conventions readers of that language expect
+ */
+export const LANGUAGES: Record<InfoCardLanguage, { name: string; instructions: string; disclaimer: string }> = {
+  en: {
+    name: 'English',
+    instructions: 'Write every text value in English. Give dates as BCE/CE (e.g. "500-300 BCE", "2nd century CE").',
+    disclaimer: 'This analysis was generated by AI and should be verified by qualified archaeologists. All estimates are speculative based on visual analysis.',
+  },
+  he: {
+    name: 'Hebrew',
+    instructions: 'Write every text value in Hebrew. Give dates with לפנה״ס (BCE) and לספירה (CE), e.g. "500-300 לפנה״ס", "המאה ה-2 לספירה", and use the established Hebrew names of periods and cultures as used by the Israel Antiquities Authority (e.g. תקופת הברזל ב׳, התקופה ההלניסטית, התקופה הרומית המאוחרת). Site and artifact-type names without an established Hebrew form may stay in their usual spelling.',
+    disclaimer: 'ניתוח זה נוצר על ידי בינה מלאכותית ויש לאמת אותו על ידי ארכאולוגים מוסמכים. כל ההערכות הן השערות המבוססות על ניתוח חזותי בלבד.',
+  },
+};
+
+// JSON structure stays machine-readable whatever the language
+export const LANGUAGE_RULES = 'Keep the JSON keys, the estimatedAge.confidence value (high|medium|low) and aiConfidence exactly as specified; only the text values are localized.';
+
+/**
+ * A supported language from the request, English otherwise
+ */
+export const getRequestLanguage = (language: unknown): InfoCardLanguage =>
+  INFO_CARD_LANGUAGES.includes(language as InfoCardLanguage) ? language as InfoCardLanguage : 'en';
+
+/**
+ * Parse the model's output - handle potential markdown code blocks
+ */
+const parseJsonContent = (content: string): unknown => {
+  let jsonContent = content.trim();
+  if (jsonContent.startsWith('```json')) {
+    jsonContent = jsonContent.slice(7);
+  } else if (jsonContent.startsWith('```')) {
+    jsonContent = jsonContent.slice(3);
+  }
+  if (jsonContent.endsWith('```')) {
+    jsonContent = jsonContent.slice(0, -3);
+  }
+  return JSON.parse(jsonContent.trim());
+};
+
+/**
+ * Parse and validate one response from the model
+ */
+const checkInfoCard = (content: string): InfoCardResult => {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonContent(content);
+  } catch {
+    console.error('Failed to parse AI response as JSON:', content);
+    return { errors: [{ field: '(root)', message: 'must be valid JSON' }] };
+  }
+
+  const result = validateInfoCard(parsed);
+  return result.valid ? { data: result.data } : { errors: result.errors };
+};
+
+const buildRepairPrompt = (prompt: string, content: string, errors: InfoCardFieldError[]): string =>
+  `Your previous response did not match the required format.
+
+Previous response:
+${content}
+
+Problems:
+${errors.map((error) => `- ${error.field}: ${error.message}`).join('\n')}
+
+Fix these problems and respond again with the complete information card, following the original instructions:
+
+${prompt}`;
+
+/**
+ * Generate an info card, re-prompting once with the validation errors if the
+ * first response doesn't match the schema
+ */
+export const generateValidInfoCard = async (
+  provider: AIProvider,
+  request: TextRequest
+): Promise<InfoCardResult> => {
+  const content = await provider.generateText(request);
+  const first = checkInfoCard(content);
+  if ('data' in first) {
+    return first;
+  }
+
+  console.warn('Info card failed validation, asking for a repair:', first.errors);
+  const repaired = await provider.generateText({
+    ...request,
+    prompt: buildRepairPrompt(request.prompt, content, first.errors),
+  });
+  return checkInfoCard(repaired);
+};
+
+/**
+ * Translate a finished card, keeping the non-text values of the original
+ * Returns null if the translation can't be made valid; the card is still usable
+ */
+export const translateInfoCard = async (
+  provider: AIProvider,
+  card: InfoCardFields,
+  language: InfoCardLanguage
+): Promise<LocalizedInfoCard | null> => {
+  const { name, instructions, disclaimer } = LANGUAGES[language];
+  const result = await generateValidInfoCard(provider, {
+    task: 'translate-info-card',
+    prompt: `Translate this archaeological artifact information card into ${name}. ${instructions} ${LANGUAGE_RULES}
+Return ONLY valid JSON with the same structure, no markdown code blocks or other formatting.
+
+${JSON.stringify(card, null, 2)}`,
+    temperature: 0.1,
+    maxOutputTokens: 2048,
+    json: true,
+  });
+
+  if ('errors' in result) {
+    console.warn(`Info card translation to ${language} failed validation:`, result.errors);
+    return null;
+  }
+
+  return {
+    ...result.data,
+    estimatedAge: { ...result.data.estimatedAge, confidence: card.estimatedAge.confidence },
+    aiConfidence: card.aiConfidence,
+    disclaimer,
+    language,
+  };
+};
+
+/**
+ * The request's photos, from either form of the request
+ */
+export const getRequestImages = (request: { imageBase64?: string; images?: InfoCardImage[] }): InfoCardImage[] =>
+  request.images && request.images.length > 0
+    ? request.images
+    : request.imageBase64
+      ? [{ imageBase64: request.imageBase64 }]
+      : [];
+
+/**
+ * Check the photo count and that each one has data
+ * Returns an error message for a 400 response, or null
+ */
+export const checkRequestImages = (images: InfoCardImage[]): string | null => {
+  if (images.length > MAX_IMAGES || images.some((image) => !image?.imageBase64)) {
+    return `images must contain 1-${MAX_IMAGES} items with imageBase64`;
+  }
+  return null;
+};
+
+/**
+ * Tell the model which photo shows which view
+ */
+export const describeImages = (images: InfoCardImage[]): string => {
+  if (images.length < 2) return '';
+  const lines = images.map((image, index) =>
+    `Image ${index + 1}: ${(image.angle && VIEW_DESCRIPTIONS[image.angle]) || 'unlabelled view'}`
+  );
+  return `\n\nYou are given ${images.length} photos of the SAME artifact. Use all of them; diagnostic features (maker's marks, bases, breaks, tool marks) are often only visible in one view.\n${lines.join('\n')}`;
+};
+
+/**
+ * The photos in the form the AI provider takes
+ */
+export const toProviderImages = (images: InfoCardImage[]): NonNullable<TextRequest['images']> =>
+  images.map((image) => ({ base64: image.imageBase64, mimeType: "image/jpeg" }));
+
+/**
+ * The excavation context the archaeologist entered, as prompt lines
+ */
+export const describeMetadata = (metadata?: {
+  discoveryLocation?: string;
+  excavationLayer?: string;
+  siteName?: string;
+  notes?: string;
+  material?: string;
+  period?: string;
+  objectType?: string;
+}): string => {
+  let text = '';
+  if (metadata) {
+    if (metadata.discoveryLocation) {
+      text += `\n\nDiscovery Location: ${metadata.discoveryLocation}`;
+    }
+    if (metadata.excavationLayer) {
+      text += `\nExcavation Layer: ${metadata.excavationLayer}`;
+    }
+    if (metadata.siteName) {
+      text += `\nSite Name: ${metadata.siteName}`;
+    }
+    if (metadata.notes) {
+      text += `\nAdditional Notes: ${metadata.notes}`;
+    }
+    if (metadata.material) {
+      text += `\nMaterial (archaeologist's identification): ${metadata.material}`;
+    }
+    if (metadata.period) {
+      text += `\nPeriod (archaeologist's identification): ${metadata.period}`;
+    }
+    if (metadata.objectType) {
+      text += `\nObject Type (archaeologist's identification): ${metadata.objectType}`;
+    }
+  }
+  return text;
+};
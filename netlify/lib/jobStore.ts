@@ -0,0 +1,129 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { getStore, connectLambda } from "@netlify/blobs";
+import type { HandlerEvent } from "@netlify/functions";
+
+/**
+ * Job Store
+ *
+ * Key/value storage shared by the functions that start, run and report on
+ * background jobs. Netlify Blobs is used in production; a local file store or
+ * an in-memory store can stand in for it (JOB_STORE=file | memory).
+ *
+ * The memory store only works when every function runs in the same process.
+ */
+
+export interface JobStore {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Every key in the store */
+  keys(): Promise<string[]>;
+}
+
+type JobStoreKind = 'blobs' | 'file' | 'memory';
+
+const STORE_NAME = "reconstruction-jobs";
+
+/**
+ * Netlify Blobs, with strong consistency so status polls see the latest write
+ */
+const createBlobsStore = (event: HandlerEvent): JobStore => {
+  // Lambda-compatible functions have to pass the Blobs context along explicitly
+  if ('blobs' in event) {
+    connectLambda(event as unknown as Parameters<typeof connectLambda>[0]);
+  }
+  const store = getStore({ name: STORE_NAME, consistency: 'strong' });
+
+  return {
+    async get<T>(key: string) {
+      return (await store.get(key, { type: 'json' })) as T | null;
+    },
+    async set(key, value) {
+      await store.setJSON(key, value);
+    },
+    async delete(key) {
+      await store.delete(key);
+    },
+    async keys() {
+      const { blobs } = await store.list();
+      return blobs.map((blob) => blob.key);
+    },
+  };
+};
+
+/**
+ * JSON files in a local directory (for `netlify dev`)
+ */
+const createFileStore = (): JobStore => {
+  const dir = process.env.JOB_STORE_DIR || path.join(os.tmpdir(), STORE_NAME);
+  const fileFor = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`);
+
+  return {
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf-8')) as T;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, value) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename, so readers never see a half-written file
+      const tempFile = `${fileFor(key)}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(value));
+      await fs.rename(tempFile, fileFor(key));
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    async keys() {
+      try {
+        const files = await fs.readdir(dir);
+        return files
+          .filter((file) => file.endsWith('.json'))
+          .map((file) => decodeURIComponent(file.slice(0, -'.json'.length)));
+      } catch {
+        return [];
+      }
+    },
+  };
+};
+
+const memory = new Map<string, string>();
+
+/**
+ * In-process map
+ */
+const createMemoryStore = (): JobStore => ({
+  async get<T>(key: string) {
+    const value = memory.get(key);
+    return value === undefined ? null : (JSON.parse(value) as T);
+  },
+  async set(key, value) {
+    memory.set(key, JSON.stringify(value));
+  },
+  async delete(key) {
+    memory.delete(key);
+  },
+  async keys() {
+    return [...memory.keys()];
+  },
+});
+
+/**
+ * Get the configured job store for this invocation
+ */
+export const getJobStore = (event: HandlerEvent): JobStore => {
+  const kind = (process.env.JOB_STORE || 'blobs') as JobStoreKind;
+
+  switch (kind) {
+    case 'file':
+      return createFileStore();
+    case 'memory':
+      return createMemoryStore();
+    default:
+      return createBlobsStore(event);
+  }
+};
@@ -0,0 +1,856 @@
+import { Client } from "@gradio/client";
+import type { StatusMessage } from "@gradio/client";
+import {
+  requireEndpoint,
+  discoverEndpoint,
+  invalidateEndpoint,
+  buildPayload,
+  IncompatibleSpaceApiError,
+  type EndpointSpec,
+} from "./spaceApi";
+
+/**
+ * 3D Reconstruction
+ *
+ * Calls HuggingFace Spaces (TRELLIS.2 or TripoSR) to generate
+ * a 3D model from one image, or from several views of the same
+ * object (TRELLIS.2 only). Shared by the synchronous reconstruct-3d
+ * function and the background job functions.
+ *
+ * TRELLIS.2: microsoft/TRELLIS.2 - High-quality 4B parameter model
+ * TripoSR: stabilityai/TripoSR - Fast backup option
+ *
+ * Both can point at a duplicated or self-hosted Space through the
+ * TRELLIS_SPACE and TRIPOSR_SPACE environment variables. Endpoints are
+ * discovered from the Space's API schema (see spaceApi.ts).
+ */
+
+// Configuration constants
+const TRELLIS_SPACE = process.env.TRELLIS_SPACE || "microsoft/TRELLIS.2";
+const TRIPOSR_SPACE = process.env.TRIPOSR_SPACE || "stabilityai/TripoSR";
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 2000;
+const RATE_LIMIT_DELAY_MS = 5000;
+const MAX_IMAGES = 8;
+
+/**
+ * One view of the object, as captured on the device
+ */
+export interface ReconstructImage {
+  imageBase64: string;
+  /** Capture angle (front, back, left, right, top, bottom, detail, context) */
+  angle?: string;
+}
+
+export interface ReconstructRequest {
+  /** Single image; ignored when `images` is given */
+  imageBase64?: string;
+  /** Ordered views of the object, primary view first */
+  images?: ReconstructImage[];
+  method: 'trellis' | 'triposr';
+  removeBackground?: boolean;
+  // Optional TRELLIS parameters
+  trellisParams?: Partial<TrellisParams>;
+  // Optional TripoSR parameters
+  triposrParams?: Partial<TripoSRParams>;
+}
+
+export interface TrellisParams {
+  seed: number;
+  ssGuidanceRescale: number;
+  ssSamplingSteps: number;
+  ssRescaleT: number;
+  shapeGuidanceRescale: number;
+  shapeSamplingSteps: number;
+  shapeRescaleT: number;
+  texGuidanceRescale: number;
+  texSamplingSteps: number;
+  texRescaleT: number;
+  decimationTarget: number;
+  textureSize: number;
+}
+
+export interface TripoSRParams {
+  foregroundRatio: number;
+  mcResolution: number;
+}
+
+// Default TRELLIS parameters based on research
+const DEFAULT_TRELLIS_PARAMS: TrellisParams = {
+  seed: 42,
+  ssGuidanceRescale: 0.7,
+  ssSamplingSteps: 12,
+  ssRescaleT: 5.0,
+  shapeGuidanceRescale: 0.5,
+  shapeSamplingSteps: 12,
+  shapeRescaleT: 3.0,
+  texGuidanceRescale: 0.0,
+  texSamplingSteps: 12,
+  texRescaleT: 3.0,
+  decimationTarget: 500000,
+  textureSize: 2048,
+};
+
+const DEFAULT_TRIPOSR_PARAMS: TripoSRParams = {
+  foregroundRatio: 0.85,
+  mcResolution: 256,
+};
+
+export interface ReconstructResponse {
+  success: boolean;
+  modelBase64?: string;
+  format?: 'glb';
+  method?: 'trellis' | 'triposr';
+  processingTimeMs?: number;
+  error?: string;
+  /** Set when the Space's API has no endpoint we can use */
+  errorType?: 'incompatible-space-api';
+  retryCount?: number;
+  /** Indices into the request's images that the model was generated from */
+  usedImages?: number[];
+  /** Parameters the model was generated with, defaults filled in */
+  params?: {
+    trellisParams?: TrellisParams;
+    triposrParams?: TripoSRParams;
+    removeBackground?: boolean;
+  };
+}
+
+/**
+ * Progress reported while a reconstruction runs
+ */
+export interface ReconstructProgress {
+  phase: 'connecting' | 'queued' | 'generating' | 'downloading' | 'retrying';
+  /** Model currently being run (TripoSR after a fallback) */
+  method: 'trellis' | 'triposr';
+  /** Whether TRELLIS.2 failed and TripoSR is being used instead */
+  fallback: boolean;
+  /** Attempt number for the current method, starting at 1 */
+  attempt: number;
+  /** Position in the HuggingFace Space queue */
+  queuePosition?: number;
+  queueSize?: number;
+  /** Estimated seconds until the job finishes, from Gradio */
+  etaSeconds?: number;
+  /** Fraction of the generation step done (0-1), when the Space reports it */
+  stepProgress?: number;
+  /** Seconds until the next attempt, while retrying */
+  retryInSeconds?: number;
+  /** Why the previous attempt failed, while retrying */
+  error?: string;
+}
+
+export type ReconstructProgressCallback = (progress: ReconstructProgress) => void;
+
+type GradioStatusCallback = (status: StatusMessage) => void;
+
+interface GradioError extends Error {
+  status?: number;
+  statusText?: string;
+}
+
+/**
+ * Sleep utility for retry delays
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Determines if an error is retryable (rate limit, timeout, etc.)
+ */
+const isRetryableError = (error: unknown): boolean => {
+  // The Space doesn't offer what we need; retrying won't change that
+  if (error instanceof IncompatibleSpaceApiError) return false;
+
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    const gradioError = error as GradioError;
+
+    // Rate limiting
+    if (gradioError.status === 429) return true;
+    if (message.includes('rate limit')) return true;
+    if (message.includes('too many requests')) return true;
+
+    // Timeouts and connection issues
+    if (message.includes('timeout')) return true;
+    if (message.includes('econnreset')) return true;
+    if (message.includes('econnrefused')) return true;
+    if (message.includes('network')) return true;
+
+    // Space loading/sleeping
+    if (message.includes('loading')) return true;
+    if (message.includes('starting')) return true;
+    if (message.includes('sleeping')) return true;
+    if (message.includes('building')) return true;
+
+    // Server errors (5xx)
+    if (gradioError.status && gradioError.status >= 500 && gradioError.status < 600) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Calculate exponential backoff delay
+ */
+const getRetryDelay = (retryCount: number, isRateLimit: boolean): number => {
+  const baseDelay = isRateLimit ? RATE_LIMIT_DELAY_MS : RETRY_DELAY_MS;
+  return baseDelay * Math.pow(2, retryCount);
+};
+
+/**
+ * Convert base64 image to Blob for Gradio
+ */
+const base64ToBlob = (base64: string, mimeType: string = 'image/png'): Blob => {
+  // Remove data URL prefix if present
+  const base64Data = base64.includes(',') ? base64.split(',')[1] : base64;
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Convert Blob/ArrayBuffer to base64
+ */
+const blobToBase64 = async (data: Blob | ArrayBuffer | Response): Promise<string> => {
+  let arrayBuffer: ArrayBuffer;
+
+  if (data instanceof Response) {
+    arrayBuffer = await data.arrayBuffer();
+  } else if (data instanceof Blob) {
+    arrayBuffer = await data.arrayBuffer();
+  } else {
+    arrayBuffer = data;
+  }
+
+  const bytes = new Uint8Array(arrayBuffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/**
+ * Fetch file from URL and convert to base64
+ */
+const fetchFileAsBase64 = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch file: ${response.status} ${response.statusText}`);
+  }
+  return blobToBase64(response);
+};
+
+/**
+ * Submit a Gradio job and wait for its data, reporting queue/status events
+ */
+const submitWithStatus = async (
+  client: Client,
+  endpoint: string,
+  data: Record<string, unknown>,
+  onStatus?: GradioStatusCallback
+): Promise<{ data: unknown[] }> => {
+  const job = client.submit(endpoint, data);
+  let result: { data: unknown[] } | undefined;
+
+  for await (const message of job) {
+    if (message.type === 'data') {
+      result = { data: message.data };
+    } else if (message.type === 'status') {
+      onStatus?.(message);
+      if (message.stage === 'error') {
+        throw new Error(
+          typeof message.message === 'string' ? message.message : `Gradio job failed on ${endpoint}`
+        );
+      }
+      if (message.stage === 'complete') {
+        break;
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error(`No data returned from ${endpoint}`);
+  }
+  return result;
+};
+
+/**
+ * Endpoints we call on each Space, and the names their inputs may have
+ */
+const TRELLIS_GENERATE: EndpointSpec<
+  | 'image'
+  | 'multiImages'
+  | 'isMultiImage'
+  | 'multiImageAlgo'
+  | 'seed'
+  | 'ssGuidanceRescale'
+  | 'ssSamplingSteps'
+  | 'ssRescaleT'
+  | 'shapeGuidanceRescale'
+  | 'shapeSamplingSteps'
+  | 'shapeRescaleT'
+  | 'texGuidanceRescale'
+  | 'texSamplingSteps'
+  | 'texRescaleT'
+> = {
+  role: 'TRELLIS image-to-3D generation',
+  names: ["/image_to_3d", "/generate", "/run", "/predict"],
+  minMatches: 4,
+  inputs: {
+    image: { aliases: ['image_prompt', 'image', 'input_image'], components: ['image'], required: true },
+    multiImages: { aliases: ['multiimages', 'multiimage_prompt', 'images'], components: ['gallery'] },
+    isMultiImage: { aliases: ['is_multiimage'] },
+    multiImageAlgo: { aliases: ['multiimage_algo'] },
+    seed: { aliases: ['seed'] },
+    ssGuidanceRescale: { aliases: ['ss_guidance_rescale'] },
+    ssSamplingSteps: { aliases: ['ss_sampling_steps'] },
+    ssRescaleT: { aliases: ['ss_rescale_t'] },
+    shapeGuidanceRescale: { aliases: ['shape_slat_guidance_rescale', 'slat_guidance_rescale'] },
+    shapeSamplingSteps: { aliases: ['shape_slat_sampling_steps', 'slat_sampling_steps'] },
+    shapeRescaleT: { aliases: ['shape_slat_rescale_t', 'slat_rescale_t'] },
+    texGuidanceRescale: { aliases: ['tex_slat_guidance_rescale'] },
+    texSamplingSteps: { aliases: ['tex_slat_sampling_steps'] },
+    texRescaleT: { aliases: ['tex_slat_rescale_t'] },
+  },
+};
+
+const TRELLIS_EXTRACT_GLB: EndpointSpec<'decimationTarget' | 'textureSize'> = {
+  role: 'TRELLIS GLB extraction',
+  names: ["/extract_glb"],
+  // Only trust the known name; other endpoints with these inputs may do something else
+  minMatches: Infinity,
+  inputs: {
+    decimationTarget: { aliases: ['decimation_target', 'mesh_simplify'] },
+    textureSize: { aliases: ['texture_size'] },
+  },
+};
+
+const TRIPOSR_CHECK: EndpointSpec<'image'> = {
+  role: 'TripoSR input check',
+  names: ["/check_input_image"],
+  minMatches: Infinity,
+  inputs: {
+    image: { aliases: ['input_image', 'image'], components: ['image'], required: true },
+  },
+};
+
+const TRIPOSR_PREPROCESS: EndpointSpec<'image' | 'removeBackground' | 'foregroundRatio'> = {
+  role: 'TripoSR preprocessing',
+  names: ["/preprocess"],
+  minMatches: 3,
+  inputs: {
+    image: { aliases: ['input_image', 'image'], components: ['image'], required: true },
+    removeBackground: { aliases: ['do_remove_background', 'remove_background'], required: true },
+    foregroundRatio: { aliases: ['foreground_ratio'] },
+  },
+};
+
+const TRIPOSR_GENERATE: EndpointSpec<'image' | 'mcResolution'> = {
+  role: 'TripoSR 3D generation',
+  names: ["/generate", "/run", "/predict"],
+  minMatches: 2,
+  inputs: {
+    image: { aliases: ['image', 'input_image', 'processed_image'], components: ['image'], required: true },
+    mcResolution: { aliases: ['mc_resolution', 'resolution'] },
+  },
+};
+
+/**
+ * Run a job on a discovered endpoint; a rejected call drops the cached
+ * mapping so the next request re-reads the Space's schema
+ */
+const submitDiscovered = async (
+  client: Client,
+  space: string,
+  spec: EndpointSpec,
+  endpoint: string,
+  payload: Record<string, unknown>,
+  onStatus?: GradioStatusCallback
+): Promise<{ data: unknown[] }> => {
+  try {
+    return await submitWithStatus(client, endpoint, payload, onStatus);
+  } catch (error) {
+    if (!isRetryableError(error)) {
+      invalidateEndpoint(space, spec);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Generate 3D model using TRELLIS.2
+ * Returns the indices of the images the model was conditioned on
+ */
+const generateWithTrellis = async (
+  imageBlobs: Blob[],
+  angles: Array<string | undefined>,
+  params: TrellisParams,
+  onStatus?: GradioStatusCallback
+): Promise<{ modelBase64: string; format: 'glb'; usedImages: number[] }> => {
+  const client = await Client.connect(TRELLIS_SPACE, {
+    events: ["data", "status"],
+  });
+
+  try {
+    // TRELLIS.2 uses a multi-step pipeline:
+    // 1. Generate 3D structure from the image(s)
+    // 2. Extract GLB (directly in the result, or via a separate endpoint)
+    const generate = await requireEndpoint(client, TRELLIS_SPACE, TRELLIS_GENERATE);
+
+    // With several views, TRELLIS conditions on all of them at once
+    // (multi-image mode) if the Space supports it; the gallery captions
+    // carry the capture angles
+    const isMultiImage = imageBlobs.length > 1 && Boolean(generate.inputs.multiImages);
+    const usedImages = isMultiImage ? imageBlobs.map((_, index) => index) : [0];
+
+    const result = await submitDiscovered(client, TRELLIS_SPACE, TRELLIS_GENERATE, generate.endpoint, buildPayload(generate, {
+      image: imageBlobs[0],
+      multiImages: isMultiImage
+        ? imageBlobs.map((blob, index) => ({ image: blob, caption: angles[index] ?? null }))
+        : undefined,
+      isMultiImage: isMultiImage ? true : undefined,
+      multiImageAlgo: isMultiImage ? "stochastic" : undefined,
+      seed: params.seed,
+      ssGuidanceRescale: params.ssGuidanceRescale,
+      ssSamplingSteps: params.ssSamplingSteps,
+      ssRescaleT: params.ssRescaleT,
+      shapeGuidanceRescale: params.shapeGuidanceRescale,
+      shapeSamplingSteps: params.shapeSamplingSteps,
+      shapeRescaleT: params.shapeRescaleT,
+      texGuidanceRescale: params.texGuidanceRescale,
+      texSamplingSteps: params.texSamplingSteps,
+      texRescaleT: params.texRescaleT,
+    }), onStatus);
+
+    // Extract GLB from result
+    // The result structure depends on the Gradio interface
+    // Common patterns: result.data[0], result.data.glb, result[0]
+    let glbData: string | Blob | { url: string } | undefined;
+
+    if (result?.data) {
+      // Look for GLB in result data
+      for (const item of result.data) {
+        if (item && typeof item === 'object') {
+          const itemObj = item as Record<string, unknown>;
+          // Check for URL pattern (Gradio often returns file URLs)
+          if (typeof itemObj.url === 'string' && itemObj.url.includes('.glb')) {
+            glbData = itemObj as { url: string };
+            break;
+          }
+          // Check for path pattern
+          if (typeof itemObj.path === 'string' && itemObj.path.includes('.glb')) {
+            glbData = itemObj as { url: string };
+            break;
+          }
+        }
+        if (item instanceof Blob) {
+          glbData = item;
+          break;
+        }
+      }
+    }
+
+    // If we got a URL, fetch the actual GLB file
+    if (glbData && typeof glbData === 'object' && 'url' in glbData) {
+      const modelBase64 = await fetchFileAsBase64(glbData.url);
+      return { modelBase64, format: 'glb', usedImages };
+    }
+
+    // If we got a Blob directly
+    if (glbData instanceof Blob) {
+      const modelBase64 = await blobToBase64(glbData);
+      return { modelBase64, format: 'glb', usedImages };
+    }
+
+    // Otherwise the Space exports the GLB from a separate endpoint
+    const extract = await discoverEndpoint(client, TRELLIS_SPACE, TRELLIS_EXTRACT_GLB);
+    if (!extract) {
+      throw new IncompatibleSpaceApiError(TRELLIS_SPACE, TRELLIS_EXTRACT_GLB.role, []);
+    }
+
+    const extractResult = await submitDiscovered(client, TRELLIS_SPACE, TRELLIS_EXTRACT_GLB, extract.endpoint, buildPayload(extract, {
+      decimationTarget: params.decimationTarget,
+      textureSize: params.textureSize,
+    }));
+
+    if (extractResult?.data?.[0]) {
+      const glbItem = extractResult.data[0] as { url?: string } | Blob;
+      if (glbItem instanceof Blob) {
+        const modelBase64 = await blobToBase64(glbItem);
+        return { modelBase64, format: 'glb', usedImages };
+      }
+      if (typeof glbItem === 'object' && glbItem.url) {
+        const modelBase64 = await fetchFileAsBase64(glbItem.url);
+        return { modelBase64, format: 'glb', usedImages };
+      }
+    }
+
+    throw new Error('Could not extract GLB from TRELLIS.2 result');
+  } finally {
+    // Cleanup client connection if possible
+    try {
+      await client.close();
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+};
+
+/**
+ * Generate 3D model using TripoSR
+ */
+const generateWithTripoSR = async (
+  imageBlob: Blob,
+  removeBackground: boolean,
+  params: TripoSRParams,
+  onStatus?: GradioStatusCallback
+): Promise<{ modelBase64: string; format: 'glb' }> => {
+  const client = await Client.connect(TRIPOSR_SPACE, {
+    events: ["data", "status"],
+  });
+
+  const { foregroundRatio, mcResolution } = params;
+
+  try {
+    // TripoSR uses a 3-step workflow:
+    // 1. check_input_image - validate image
+    // 2. preprocess - remove background, resize
+    // 3. generate - create 3D model
+    // Only the last is required; the others are skipped if the Space lacks them
+    const generate = await requireEndpoint(client, TRIPOSR_SPACE, TRIPOSR_GENERATE);
+
+    // Step 1: Validate image (optional, skip if it fails)
+    try {
+      const check = await discoverEndpoint(client, TRIPOSR_SPACE, TRIPOSR_CHECK);
+      if (check) {
+        await client.predict(check.endpoint, buildPayload(check, { image: imageBlob }));
+      }
+    } catch {
+      // Validation step is optional
+    }
+
+    // Step 2: Preprocess the image
+    let processedImage: Blob | { url: string } = imageBlob;
+    try {
+      const preprocess = await discoverEndpoint(client, TRIPOSR_SPACE, TRIPOSR_PREPROCESS);
+      if (!preprocess) {
+        throw new Error('No preprocessing endpoint');
+      }
+      const preprocessResult = await client.predict(preprocess.endpoint, buildPayload(preprocess, {
+        image: imageBlob,
+        removeBackground,
+        foregroundRatio,
+      }));
+
+      const preprocessData = preprocessResult as { data: unknown[] };
+      if (preprocessData?.data?.[0]) {
+        const processed = preprocessData.data[0] as Blob | { url: string };
+        processedImage = processed;
+      }
+    } catch {
+      // Preprocessing failed, use original image
+      console.warn('TripoSR preprocessing failed, using original image');
+    }
+
+    // If preprocessed image is a URL, fetch it as a blob
+    let imageForGeneration: Blob;
+    if (processedImage instanceof Blob) {
+      imageForGeneration = processedImage;
+    } else if (typeof processedImage === 'object' && 'url' in processedImage) {
+      const response = await fetch(processedImage.url);
+      imageForGeneration = await response.blob();
+    } else {
+      imageForGeneration = imageBlob;
+    }
+
+    // Step 3: Generate 3D model
+    const result = await submitDiscovered(client, TRIPOSR_SPACE, TRIPOSR_GENERATE, generate.endpoint, buildPayload(generate, {
+      image: imageForGeneration,
+      mcResolution,
+    }), onStatus);
+
+    const resultData = result as { data: unknown[] };
+
+    // TripoSR returns [obj_path, glb_path]
+    // We want the GLB (index 1)
+    let glbData: string | Blob | { url: string } | undefined;
+
+    if (resultData?.data) {
+      // GLB is typically the second output (index 1)
+      const glbOutput = resultData.data[1] || resultData.data[0];
+
+      if (glbOutput instanceof Blob) {
+        glbData = glbOutput;
+      } else if (typeof glbOutput === 'object' && glbOutput !== null) {
+        const outputObj = glbOutput as Record<string, unknown>;
+        if (typeof outputObj.url === 'string') {
+          glbData = outputObj as { url: string };
+        } else if (typeof outputObj.path === 'string') {
+          // Some Gradio versions use 'path' instead of 'url'
+          glbData = { url: outputObj.path as string };
+        }
+      } else if (typeof glbOutput === 'string' && glbOutput.includes('.glb')) {
+        glbData = { url: glbOutput };
+      }
+    }
+
+    // Fetch and convert to base64
+    if (glbData && typeof glbData === 'object' && 'url' in glbData) {
+      const modelBase64 = await fetchFileAsBase64(glbData.url);
+      return { modelBase64, format: 'glb' };
+    }
+
+    if (glbData instanceof Blob) {
+      const modelBase64 = await blobToBase64(glbData);
+      return { modelBase64, format: 'glb' };
+    }
+
+    throw new Error('Could not extract GLB from TripoSR result');
+  } finally {
+    try {
+      await client.close();
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+};
+
+/**
+ * The request's views in order; a lone imageBase64 is a single view
+ */
+const getRequestImages = (request: Partial<ReconstructRequest>): ReconstructImage[] => {
+  if (request.images && request.images.length > 0) {
+    return request.images;
+  }
+  return request.imageBase64 ? [{ imageBase64: request.imageBase64 }] : [];
+};
+
+/**
+ * Validate a reconstruction request body, returning an error message if invalid
+ */
+const validateReconstructRequest = (body: Partial<ReconstructRequest>): string | null => {
+  const { imageBase64, images, method = 'trellis' } = body;
+
+  // Validate required fields
+  if (images !== undefined) {
+    if (!Array.isArray(images) || images.length === 0) {
+      return 'images must be a non-empty array';
+    }
+    if (images.length > MAX_IMAGES) {
+      return `Too many images. At most ${MAX_IMAGES} are supported`;
+    }
+    if (images.some((image) => !image || !image.imageBase64)) {
+      return 'Missing imageBase64 in images';
+    }
+  } else if (!imageBase64) {
+    return 'Missing imageBase64';
+  }
+
+  // Validate method
+  if (method !== 'trellis' && method !== 'triposr') {
+    return 'Invalid method. Must be "trellis" or "triposr"';
+  }
+
+  // Validate base64 format (basic check)
+  try {
+    for (const image of getRequestImages(body)) {
+      const testBase64 = image.imageBase64.includes(',')
+        ? image.imageBase64.split(',')[1]
+        : image.imageBase64;
+      atob(testBase64.substring(0, 100)); // Test first 100 chars
+    }
+  } catch {
+    return 'Invalid base64 image data';
+  }
+
+  return null;
+};
+
+/**
+ * Map a Gradio status event to reconstruction progress
+ */
+const statusToProgress = (
+  status: StatusMessage,
+  base: Pick<ReconstructProgress, 'method' | 'fallback' | 'attempt'>
+): ReconstructProgress => {
+  const step = status.progress_data?.[0];
+  let stepProgress: number | undefined;
+  if (step) {
+    if (step.progress !== null) {
+      stepProgress = step.progress;
+    } else if (step.index !== null && step.length) {
+      stepProgress = step.index / step.length;
+    }
+  }
+
+  let phase: ReconstructProgress['phase'] = 'generating';
+  if (status.stage === 'pending' && status.queue) phase = 'queued';
+  // Gradio is done; what's left is fetching the GLB file
+  if (status.stage === 'complete') phase = 'downloading';
+
+  return {
+    ...base,
+    phase,
+    queuePosition: status.position,
+    queueSize: status.size,
+    etaSeconds: status.eta,
+    stepProgress,
+  };
+};
+
+/**
+ * Main 3D reconstruction function with retry logic
+ */
+const reconstruct3D = async (
+  request: ReconstructRequest,
+  onProgress?: ReconstructProgressCallback
+): Promise<ReconstructResponse> => {
+  const { method, removeBackground = true } = request;
+  const startTime = Date.now();
+
+  // Fill in defaults so the response can report exactly what was used
+  const trellisParams: TrellisParams = { ...DEFAULT_TRELLIS_PARAMS, ...request.trellisParams };
+  const triposrParams: TripoSRParams = { ...DEFAULT_TRIPOSR_PARAMS, ...request.triposrParams };
+
+  // Report the start of an attempt and return a listener for its Gradio status events
+  const trackAttempt = (
+    attemptMethod: 'trellis' | 'triposr',
+    fallback: boolean,
+    attempt: number
+  ): GradioStatusCallback => {
+    const base = { method: attemptMethod, fallback, attempt: attempt + 1 };
+    onProgress?.({ ...base, phase: 'connecting' });
+    return (status) => onProgress?.(statusToProgress(status, base));
+  };
+
+  // Report that a failed attempt will be retried after a delay
+  const reportRetry = (
+    attemptMethod: 'trellis' | 'triposr',
+    fallback: boolean,
+    attempt: number,
+    delay: number,
+    error: Error
+  ) => {
+    onProgress?.({
+      phase: 'retrying',
+      method: attemptMethod,
+      fallback,
+      attempt: attempt + 1,
+      retryInSeconds: Math.round(delay / 1000),
+      error: error.message,
+    });
+  };
+
+  // Convert base64 images to Blobs; TripoSR only takes the primary view
+  const images = getRequestImages(request);
+  const imageBlobs = images.map((image) => base64ToBlob(image.imageBase64));
+  const imageBlob = imageBlobs[0];
+  const angles = images.map((image) => image.angle);
+
+  let lastError: Error | null = null;
+  let retryCount = 0;
+
+  // Try the primary method with retries
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      let result: { modelBase64: string; format: 'glb'; usedImages?: number[] };
+
+      const onStatus = trackAttempt(method, false, attempt);
+      if (method === 'trellis') {
+        result = await generateWithTrellis(imageBlobs, angles, trellisParams, onStatus);
+      } else {
+        result = await generateWithTripoSR(imageBlob, removeBackground, triposrParams, onStatus);
+      }
+
+      return {
+        success: true,
+        modelBase64: result.modelBase64,
+        format: result.format,
+        method: method,
+        processingTimeMs: Date.now() - startTime,
+        retryCount: attempt,
+        usedImages: result.usedImages || [0],
+        params: method === 'trellis'
+          ? { trellisParams }
+          : { triposrParams, removeBackground },
+      };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      retryCount = attempt;
+
+      console.error(`Attempt ${attempt + 1} failed for ${method}:`, lastError.message);
+
+      // Check if we should retry
+      if (attempt < MAX_RETRIES && isRetryableError(error)) {
+        const isRateLimit = lastError.message.toLowerCase().includes('rate');
+        const delay = getRetryDelay(attempt, isRateLimit);
+        console.log(`Retrying in ${delay}ms...`);
+        reportRetry(method, false, attempt, delay, lastError);
+        await sleep(delay);
+      } else if (attempt >= MAX_RETRIES) {
+        break;
+      } else {
+        // Non-retryable error, break out
+        break;
+      }
+    }
+  }
+
+  // If primary method failed, try fallback (if applicable)
+  if (method === 'trellis') {
+    console.log('TRELLIS.2 failed, attempting TripoSR fallback...');
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        const result = await generateWithTripoSR(
+          imageBlob,
+          removeBackground,
+          triposrParams,
+          trackAttempt('triposr', true, attempt)
+        );
+
+        return {
+          success: true,
+          modelBase64: result.modelBase64,
+          format: result.format,
+          method: 'triposr', // Indicate fallback was used
+          processingTimeMs: Date.now() - startTime,
+          retryCount: retryCount + attempt + 1,
+          usedImages: [0],
+          params: { triposrParams, removeBackground },
+        };
+      } catch (error) {
+        const fallbackError = error instanceof Error ? error : new Error(String(error));
+        console.error(`TripoSR fallback attempt ${attempt + 1} failed:`, fallbackError.message);
+
+        if (attempt < MAX_RETRIES && isRetryableError(error)) {
+          const isRateLimit = fallbackError.message.toLowerCase().includes('rate');
+          const delay = getRetryDelay(attempt, isRateLimit);
+          reportRetry('triposr', true, attempt, delay, fallbackError);
+          await sleep(delay);
+        } else if (attempt >= MAX_RETRIES) {
+          break;
+        } else {
+          break;
+        }
+      }
+    }
+  }
+
+  // All attempts failed
+  return {
+    success: false,
+    error: lastError?.message || 'Unknown error during 3D reconstruction',
+    errorType: lastError instanceof IncompatibleSpaceApiError ? 'incompatible-space-api' : undefined,
+    processingTimeMs: Date.now() - startTime,
+    retryCount: retryCount,
+  };
+};
+
+export { reconstruct3D, validateReconstructRequest };
@@ -0,0 +1,205 @@
+import type { JobStore } from "./jobStore";
+import type { ReconstructProgress, ReconstructRequest, ReconstructResponse } from "./reconstruction";
+
+/**
+ * 3D Reconstruction Jobs
+ *
+ * A job is started by reconstruct-3d-start, run by reconstruct-3d-background,
+ * polled through reconstruct-3d-status and collected from reconstruct-3d-result.
+ */
+
+export type JobPhase =
+  | 'pending'      // Created, background function not started yet
+  | 'connecting'   // Connecting to the HuggingFace Space
+  | 'queued'       // Waiting in the Space's queue
+  | 'generating'   // Model is being generated
+  | 'downloading'  // Fetching the GLB from the Space
+  | 'retrying'     // Waiting before another attempt after a retryable error
+  | 'complete'
+  | 'error';
+
+export interface ReconstructionJob {
+  id: string;
+  phase: JobPhase;
+  /** Method requested by the client */
+  requestedMethod: 'trellis' | 'triposr';
+  /** Method currently running (TripoSR after a fallback) */
+  method: 'trellis' | 'triposr';
+  fallback: boolean;
+  attempt: number;
+  queuePosition?: number;
+  queueSize?: number;
+  etaSeconds?: number;
+  /** Overall progress estimate (0-100) */
+  progress: number;
+  /** Seconds until the next attempt, while retrying */
+  retryInSeconds?: number;
+  /** Why the last attempt failed, while retrying */
+  lastError?: string;
+  error?: string;
+  /** Machine-readable kind of failure, when known */
+  errorType?: ReconstructResponse['errorType'];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const jobKey = (id: string) => `${id}/job`;
+const inputKey = (id: string) => `${id}/input`;
+const resultKey = (id: string) => `${id}/result`;
+
+/**
+ * Progress bands per phase; generation fills its band as the Space reports steps
+ */
+const PHASE_PROGRESS: Record<ReconstructProgress['phase'], [number, number]> = {
+  connecting: [5, 5],
+  queued: [10, 10],
+  generating: [20, 85],
+  downloading: [90, 90],
+  retrying: [5, 5],
+};
+
+/**
+ * How long a job and its result are kept. Results aren't deleted once
+ * fetched, so a client that lost the response can fetch them again.
+ */
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export const createJobId = (): string =>
+  `job-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+
+/**
+ * When a job was created, read from its id; null for an id not made by createJobId
+ */
+const getJobCreatedAt = (id: string): number | null => {
+  const match = /^job-(\d+)-/.exec(id);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Store a new job together with its input
+ */
+export const createJob = async (
+  store: JobStore,
+  id: string,
+  request: ReconstructRequest
+): Promise<ReconstructionJob> => {
+  const now = new Date().toISOString();
+  const method = request.method || 'trellis';
+  const job: ReconstructionJob = {
+    id,
+    phase: 'pending',
+    requestedMethod: method,
+    method,
+    fallback: false,
+    attempt: 0,
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.set(inputKey(id), request);
+  await store.set(jobKey(id), job);
+  return job;
+};
+
+export const getJob = (store: JobStore, id: string): Promise<ReconstructionJob | null> =>
+  store.get<ReconstructionJob>(jobKey(id));
+
+export const getJobInput = (store: JobStore, id: string): Promise<ReconstructRequest | null> =>
+  store.get<ReconstructRequest>(inputKey(id));
+
+export const getJobResult = (store: JobStore, id: string): Promise<ReconstructResponse | null> =>
+  store.get<ReconstructResponse>(resultKey(id));
+
+/**
+ * Merge changes into a stored job
+ */
+export const updateJob = async (
+  store: JobStore,
+  id: string,
+  changes: Partial<Omit<ReconstructionJob, 'id' | 'createdAt'>>
+): Promise<ReconstructionJob | null> => {
+  const job = await getJob(store, id);
+  if (!job) return null;
+
+  const updated: ReconstructionJob = {
+    ...job,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  };
+  await store.set(jobKey(id), updated);
+  return updated;
+};
+
+/**
+ * Turn reconstruction progress into job fields
+ */
+export const progressToJobChanges = (
+  update: ReconstructProgress
+): Partial<ReconstructionJob> => {
+  const [start, end] = PHASE_PROGRESS[update.phase];
+  const progress = Math.round(start + (end - start) * (update.stepProgress ?? 0));
+
+  return {
+    phase: update.phase,
+    method: update.method,
+    fallback: update.fallback,
+    attempt: update.attempt,
+    queuePosition: update.queuePosition,
+    queueSize: update.queueSize,
+    etaSeconds: update.etaSeconds,
+    retryInSeconds: update.retryInSeconds,
+    lastError: update.error,
+    progress,
+  };
+};
+
+/**
+ * Store the final result, drop the input and mark the job finished
+ */
+export const finishJob = async (
+  store: JobStore,
+  id: string,
+  result: ReconstructResponse
+): Promise<void> => {
+  if (result.success) {
+    await store.set(resultKey(id), result);
+  }
+  await store.delete(inputKey(id));
+  const changes: Partial<ReconstructionJob> = result.success
+    ? { phase: 'complete', progress: 100 }
+    : {
+        phase: 'error',
+        error: result.error || 'Unknown error during 3D reconstruction',
+        errorType: result.errorType,
+      };
+  if (result.method) {
+    changes.method = result.method;
+  }
+
+  await updateJob(store, id, {
+    ...changes,
+    queuePosition: undefined,
+    queueSize: undefined,
+    etaSeconds: undefined,
+    retryInSeconds: undefined,
+    lastError: undefined,
+  });
+};
+
+/**
+ * Delete jobs, with their input and result, created longer ago than the
+ * retention period. Their age comes from their ids, so no job is read.
+ */
+export const purgeExpiredJobs = async (store: JobStore): Promise<void> => {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  const ids = new Set((await store.keys()).map((key) => key.slice(0, key.lastIndexOf('/'))));
+
+  for (const id of ids) {
+    const createdAt = getJobCreatedAt(id);
+    if (createdAt === null || createdAt >= cutoff) continue;
+    await store.delete(inputKey(id));
+    await store.delete(resultKey(id));
+    await store.delete(jobKey(id));
+  }
+};
@@ -0,0 +1,218 @@
+import type { Client } from "@gradio/client";
+
+/**
+ * Gradio Space API Discovery
+ *
+ * HuggingFace Spaces rename endpoints and inputs between versions. Rather than
+ * guessing endpoint names, read the Space's API schema (view_api), find the
+ * endpoint that takes the inputs we need and map our parameter names onto the
+ * Space's. Mappings are cached per Space for the life of the function instance.
+ */
+
+/**
+ * One of our inputs and the names a Space may give it
+ */
+interface InputSpec {
+  /** Parameter names or labels the Space may use, most likely first */
+  aliases: string[];
+  /** Gradio component types that can carry this input (lowercase) */
+  components?: string[];
+  /** The endpoint is unusable without it */
+  required?: boolean;
+}
+
+/**
+ * An endpoint we call and how to recognise it
+ */
+export interface EndpointSpec<K extends string = string> {
+  /** Human-readable role, used in errors */
+  role: string;
+  /** Likely endpoint names, preferred in order */
+  names: string[];
+  inputs: Record<K, InputSpec>;
+  /** Endpoints not named above must match at least this many inputs */
+  minMatches: number;
+}
+
+/**
+ * A discovered endpoint and the Space's name for each of our inputs
+ */
+export interface EndpointMapping<K extends string = string> {
+  endpoint: string;
+  inputs: Partial<Record<K, string>>;
+}
+
+interface SchemaParameter {
+  label?: string;
+  parameter_name?: string;
+  component?: string;
+}
+
+/**
+ * Thrown when a Space has no endpoint compatible with what we send
+ * Not retryable - the Space's API has changed or the id points at another app
+ */
+export class IncompatibleSpaceApiError extends Error {
+  readonly code = 'INCOMPATIBLE_SPACE_API';
+  space: string;
+  role: string;
+  availableEndpoints: string[];
+
+  constructor(space: string, role: string, availableEndpoints: string[]) {
+    super(
+      `Incompatible Space API: ${space} has no endpoint for ${role}` +
+        (availableEndpoints.length > 0 ? ` (found ${availableEndpoints.join(', ')})` : '')
+    );
+    this.name = 'IncompatibleSpaceApiError';
+    this.space = space;
+    this.role = role;
+    this.availableEndpoints = availableEndpoints;
+  }
+}
+
+// Re-read a Space's schema at most this often per function instance
+const CACHE_TTL_MS = 30 * 60 * 1000;
+
+const mappingCache = new Map<string, { mapping: EndpointMapping | null; expiresAt: number }>();
+
+const normalize = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Find which of the endpoint's parameters carries each of our inputs
+ */
+const matchInputs = <K extends string>(
+  spec: EndpointSpec<K>,
+  parameters: SchemaParameter[]
+): Partial<Record<K, string>> => {
+  const inputs: Partial<Record<K, string>> = {};
+  const claimed = new Set<string>();
+
+  for (const key of Object.keys(spec.inputs) as K[]) {
+    const input = spec.inputs[key];
+    const aliases = input.aliases.map(normalize);
+
+    // Match by name first, then fall back to the component type
+    const byName = parameters.find((param) => {
+      const names = [param.parameter_name, param.label]
+        .filter((name): name is string => Boolean(name))
+        .map(normalize);
+      return names.some((name) => aliases.includes(name));
+    });
+    const { components } = input;
+    const byComponent = components
+      ? parameters.find(
+          (param) =>
+            param.parameter_name &&
+            !claimed.has(param.parameter_name) &&
+            components.includes((param.component || '').toLowerCase())
+        )
+      : undefined;
+    const match = byName || byComponent;
+
+    if (match?.parameter_name && !claimed.has(match.parameter_name)) {
+      inputs[key] = match.parameter_name;
+      claimed.add(match.parameter_name);
+    }
+  }
+
+  return inputs;
+};
+
+/**
+ * Pick the endpoint that fits the spec best, or null if none does
+ */
+const findEndpoint = <K extends string>(
+  spec: EndpointSpec<K>,
+  endpoints: Record<string, { parameters: SchemaParameter[] }>
+): EndpointMapping<K> | null => {
+  const required = (Object.keys(spec.inputs) as K[]).filter((key) => spec.inputs[key].required);
+  let best: { mapping: EndpointMapping<K>; score: number } | null = null;
+
+  for (const [endpoint, info] of Object.entries(endpoints)) {
+    const inputs = matchInputs(spec, info.parameters || []);
+    if (!required.every((key) => inputs[key])) continue;
+
+    const score = Object.keys(inputs).length;
+    const nameRank = spec.names.indexOf(endpoint);
+
+    // A known name wins outright, in the order listed
+    if (nameRank !== -1) {
+      const rankScore = 1000 - nameRank;
+      if (!best || rankScore > best.score) {
+        best = { mapping: { endpoint, inputs }, score: rankScore };
+      }
+      continue;
+    }
+
+    if (score >= spec.minMatches && (!best || score > best.score)) {
+      best = { mapping: { endpoint, inputs }, score };
+    }
+  }
+
+  return best?.mapping ?? null;
+};
+
+/**
+ * Discover the endpoint for a spec, using the cache when possible
+ * Returns null when the Space has no compatible endpoint
+ */
+export const discoverEndpoint = async <K extends string>(
+  client: Client,
+  space: string,
+  spec: EndpointSpec<K>
+): Promise<EndpointMapping<K> | null> => {
+  const cacheKey = `${space}:${spec.role}`;
+  const cached = mappingCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.mapping as EndpointMapping<K> | null;
+  }
+
+  const api = await client.view_api();
+  const mapping = findEndpoint(spec, api.named_endpoints as Record<string, { parameters: SchemaParameter[] }>);
+
+  mappingCache.set(cacheKey, { mapping, expiresAt: Date.now() + CACHE_TTL_MS });
+  if (mapping) {
+    console.log(`Using ${space}${mapping.endpoint} for ${spec.role}`);
+  }
+  return mapping;
+};
+
+/**
+ * Like discoverEndpoint, but a missing endpoint is an IncompatibleSpaceApiError
+ */
+export const requireEndpoint = async <K extends string>(
+  client: Client,
+  space: string,
+  spec: EndpointSpec<K>
+): Promise<EndpointMapping<K>> => {
+  const mapping = await discoverEndpoint(client, space, spec);
+  if (!mapping) {
+    const api = await client.view_api().catch(() => null);
+    throw new IncompatibleSpaceApiError(space, spec.role, Object.keys(api?.named_endpoints || {}));
+  }
+  return mapping;
+};
+
+/**
+ * Forget a cached mapping, e.g. after the endpoint rejected our call
+ */
+export const invalidateEndpoint = (space: string, spec: EndpointSpec): void => {
+  mappingCache.delete(`${space}:${spec.role}`);
+};
+
+/**
+ * Build a named payload from our values, keeping only inputs the endpoint takes
+ */
+export const buildPayload = <K extends string>(
+  mapping: EndpointMapping<K>,
+  values: Partial<Record<K, unknown>>
+): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+  for (const key of Object.keys(values) as K[]) {
+    const name = mapping.inputs[key];
+    if (name !== undefined && values[key] !== undefined) {
+      payload[name] = values[key];
+    }
+  }
+  return payload;
+};
@@ -2,7 +2,7 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { Suspense, lazy } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Layout } from './components/layout';
-import { ErrorBoundary } from './components/ui';
+import { DatabaseGate, ErrorBoundary } from './components/ui';
 import { LoadingScreen } from './components/ui';
 import './i18n'; // Initialize i18n
 import './index.css';
@@ -14,6 +14,9 @@ const HomePage = lazy(() =>
 const SettingsPage = lazy(() =>
   import('./pages/SettingsPage').then((m) => ({ default: m.SettingsPage }))
 );
+const TrashPage = lazy(() =>
+  import('./pages/TrashPage').then((m) => ({ default: m.TrashPage }))
+);
 
 // Save the Past section
 const SaveThePastPage = lazy(() =>
@@ -41,6 +44,17 @@ const PaletteArtifactDetailPage = lazy(() =>
   }))
 );
 
+// Sites
+const SitesPage = lazy(() =>
+  import('./pages/SitesPage').then((m) => ({ default: m.SitesPage }))
+);
+const SiteDetailPage = lazy(() =>
+  import('./pages/SiteDetailPage').then((m) => ({ default: m.SiteDetailPage }))
+);
+const ContextDetailPage = lazy(() =>
+  import('./pages/ContextDetailPage').then((m) => ({ default: m.ContextDetailPage }))
+);
+
 // Create a client for React Query
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -54,31 +68,39 @@ const queryClient = new QueryClient({
 function App() {
   return (
     <ErrorBoundary>
-      <QueryClientProvider client={queryClient}>
-        <BrowserRouter>
-          <Suspense fallback={<LoadingScreen />}>
-            <Routes>
-              <Route element={<Layout />}>
-                {/* Home */}
-                <Route path="/" element={<HomePage />} />
+      <DatabaseGate>
+        <QueryClientProvider client={queryClient}>
+          <BrowserRouter>
+            <Suspense fallback={<LoadingScreen />}>
+              <Routes>
+                <Route element={<Layout />}>
+                  {/* Home */}
+                  <Route path="/" element={<HomePage />} />
+
+                  {/* Save the Past - 3D Reconstruction */}
+                  <Route path="/save" element={<SaveThePastPage />} />
+                  <Route path="/save/gallery" element={<SaveGalleryPage />} />
+                  <Route path="/save/artifact/:id" element={<SaveArtifactDetailPage />} />
 
-                {/* Save the Past - 3D Reconstruction */}
-                <Route path="/save" element={<SaveThePastPage />} />
-                <Route path="/save/gallery" element={<SaveGalleryPage />} />
-                <Route path="/save/artifact/:id" element={<SaveArtifactDetailPage />} />
+                  {/* Past Palette - Colorization */}
+                  <Route path="/palette" element={<PastPalettePage />} />
+                  <Route path="/palette/gallery" element={<PaletteGalleryPage />} />
+                  <Route path="/palette/artifact/:id" element={<PaletteArtifactDetailPage />} />
 
-                {/* Past Palette - Colorization */}
-                <Route path="/palette" element={<PastPalettePage />} />
-                <Route path="/palette/gallery" element={<PaletteGalleryPage />} />
-                <Route path="/palette/artifact/:id" element={<PaletteArtifactDetailPage />} />
+                  {/* Sites - excavation structure */}
+                  <Route path="/sites" element={<SitesPage />} />
+                  <Route path="/sites/:id" element={<SiteDetailPage />} />
+                  <Route path="/sites/:siteId/contexts/:contextId" element={<ContextDetailPage />} />
 
-                {/* Settings */}
-                <Route path="/settings" element={<SettingsPage />} />
-              </Route>
-            </Routes>
-          </Suspense>
-        </BrowserRouter>
-      </QueryClientProvider>
+                  {/* Settings */}
+                  <Route path="/settings" element={<SettingsPage />} />
+                  <Route path="/trash" element={<TrashPage />} />
+                </Route>
+              </Routes>
+            </Suspense>
+          </BrowserRouter>
+        </QueryClientProvider>
+      </DatabaseGate>
     </ErrorBoundary>
   );
 }
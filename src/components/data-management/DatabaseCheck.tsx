@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { CheckCircle, SearchCheck, Wrench } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  checkIntegrity,
+  repairIntegrityIssues,
+  type IntegrityIssue,
+  type IntegrityIssueKind,
+} from '@/lib/db/integrity';
+import { LoadingSpinner } from '@/components/ui';
+
+const ISSUE_KINDS: IntegrityIssueKind[] = ['orphan', 'missingBlob', 'emptyBlob', 'danglingReference', 'unlisted', 'duplicate'];
+
+// Records listed per kind of issue
+const LISTED_ISSUES = 5;
+
+/**
+ * Look for records that don't match up with their artifacts, and repair them
+ */
+export function DatabaseCheck() {
+  const { t } = useTranslation();
+  // Undefined until checked
+  const [issues, setIssues] = useState<IntegrityIssue[]>();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleCheck = async () => {
+    setIsWorking(true);
+    try {
+      setIssues(await checkIntegrity());
+    } catch (error) {
+      console.error('Database check failed:', error);
+      alert(t('components.databaseCheck.checkFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRepair = async (toRepair: IntegrityIssue[]) => {
+    setIsWorking(true);
+    try {
+      await repairIntegrityIssues(toRepair);
+      setIssues(await checkIntegrity());
+    } catch (error) {
+      console.error('Database repair failed:', error);
+      alert(t('components.databaseCheck.repairFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const groups = ISSUE_KINDS
+    .map((kind) => ({ kind, issues: (issues ?? []).filter((issue) => issue.kind === kind) }))
+    .filter((group) => group.issues.length > 0);
+
+  return (
+    <div className="rounded-xl bg-aged-paper border border-desert-sand divide-y divide-desert-sand">
+      <div className="p-4 flex items-center gap-3">
+        {issues?.length === 0 ? (
+          <CheckCircle className="h-5 w-5 text-oxidized-bronze shrink-0" />
+        ) : (
+          <SearchCheck className="h-5 w-5 text-sienna shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-charcoal">
+            {issues === undefined
+              ? t('components.databaseCheck.title')
+              : issues.length === 0
+                ? t('components.databaseCheck.noIssues')
+                : t('components.databaseCheck.issuesFound', { count: issues.length })}
+          </p>
+          <p className="text-xs text-stone-gray">{t('components.databaseCheck.description')}</p>
+        </div>
+        <button
+          onClick={issues && issues.length > 0 ? () => handleRepair(issues) : handleCheck}
+          disabled={isWorking}
+          className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {isWorking ? (
+            <LoadingSpinner size="sm" />
+          ) : issues && issues.length > 0 ? (
+            <Wrench className="h-3.5 w-3.5" />
+          ) : (
+            <SearchCheck className="h-3.5 w-3.5" />
+          )}
+          {issues && issues.length > 0 ? t('components.databaseCheck.repairAll') : t('components.databaseCheck.check')}
+        </button>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.kind} className="p-4 space-y-2">
+          <div className="flex items-start gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-charcoal">
+                {t(`components.databaseCheck.kinds.${group.kind}`, { count: group.issues.length })}
+              </p>
+              <p className="text-xs text-stone-gray">{t(`components.databaseCheck.repairs.${group.kind}`)}</p>
+            </div>
+            <button
+              onClick={() => handleRepair(group.issues)}
+              disabled={isWorking}
+              className="shrink-0 px-3 py-1.5 rounded-lg bg-bone-white border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors disabled:opacity-50"
+            >
+              {t('components.databaseCheck.repair')}
+            </button>
+          </div>
+          <ul className="text-xs text-stone-gray space-y-0.5" dir="ltr">
+            {group.issues.slice(0, LISTED_ISSUES).map((issue) => (
+              <li key={`${issue.artifactId}:${issue.recordId}`} className="truncate">
+                {'table' in issue ? issue.table : issue.field} {issue.recordId} · {issue.artifactId}
+              </li>
+            ))}
+            {group.issues.length > LISTED_ISSUES && (
+              <li>{t('components.databaseCheck.more', { count: group.issues.length - LISTED_ISSUES })}</li>
+            )}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ interface DeleteConfirmDialogProps {
 }
 
 /**
- * Confirmation dialog for artifact deletion
+ * Confirmation dialog for artifact deletion (to the trash)
  */
 export function DeleteConfirmDialog({
   isOpen,
@@ -57,9 +57,9 @@ export function DeleteConfirmDialog({
           <span className="font-medium text-charcoal">{artifactName}</span>?
         </p>
 
-        <p className="text-sm text-rust-red text-center mb-6">
-          This will permanently delete all images, 3D models, info cards, and color variants
-          associated with this artifact. This action cannot be undone.
+        <p className="text-sm text-stone-gray text-center mb-6">
+          Its images, 3D model, info card, and color variants move to the Trash with it.
+          You can restore them from there until the trash is purged.
         </p>
 
         {/* Actions */}
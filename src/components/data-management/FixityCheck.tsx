@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { db } from '@/lib/db';
+import { FIXITY_INTERVAL_DAYS, getFixityStatus, verifyAllBlobs, type FixityStatus } from '@/lib/db/fixity';
+import { formatBytes, formatDate } from '@/lib/utils';
+import { LoadingSpinner } from '@/components/ui';
+
+/**
+ * SHA-256 checksums of the stored files: how many were verified lately,
+ * which no longer match, and a check of all of them
+ */
+export function FixityCheck() {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<FixityStatus>();
+  const [progress, setProgress] = useState<{ checked: number; total: number } | null>(null);
+
+  const artifacts = useLiveQuery(() => db.artifacts.toArray(), []);
+  const artifactsById = new Map((artifacts || []).map((artifact) => [artifact.id, artifact]));
+
+  useEffect(() => {
+    getFixityStatus()
+      .then(setStatus)
+      .catch((error) => console.error('Failed to read checksums:', error));
+  }, []);
+
+  const handleVerify = async () => {
+    setProgress({ checked: 0, total: 0 });
+    try {
+      await verifyAllBlobs((checked, total) => setProgress({ checked, total }));
+      setStatus(await getFixityStatus());
+    } catch (error) {
+      console.error('Fixity check failed:', error);
+      alert(t('components.fixityCheck.verifyFailed'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-aged-paper border border-desert-sand divide-y divide-desert-sand">
+      <div className="p-4 flex items-center gap-3">
+        {status && status.corrupt.length > 0 ? (
+          <ShieldAlert className="h-5 w-5 text-rust-red shrink-0" />
+        ) : (
+          <ShieldCheck className="h-5 w-5 text-oxidized-bronze shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-charcoal">
+            {status && status.corrupt.length > 0
+              ? t('components.fixityCheck.corruptFound', { count: status.corrupt.length })
+              : t('components.fixityCheck.title')}
+          </p>
+          <p className="text-xs text-stone-gray">
+            {t('components.fixityCheck.description', { days: FIXITY_INTERVAL_DAYS })}
+          </p>
+        </div>
+        <button
+          onClick={handleVerify}
+          disabled={progress !== null}
+          className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {progress ? (
+            <>
+              <LoadingSpinner size="sm" />
+              {t('components.fixityCheck.verifying', { checked: progress.checked, total: progress.total })}
+            </>
+          ) : (
+            <>
+              <ShieldCheck className="h-3.5 w-3.5" />
+              {t('components.fixityCheck.verifyAll')}
+            </>
+          )}
+        </button>
+      </div>
+
+      {status === undefined ? (
+        <div className="p-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : (
+        <div className="p-4 space-y-0.5 text-xs text-stone-gray">
+          <p>{t('components.fixityCheck.files', { count: status.files, size: formatBytes(status.bytes) })}</p>
+          <p>
+            {t('components.fixityCheck.verified', { verified: status.verified, files: status.files, days: FIXITY_INTERVAL_DAYS })}
+          </p>
+          {status.savedBytes > 0 && (
+            <p>{t('components.fixityCheck.deduplicated', { size: formatBytes(status.savedBytes) })}</p>
+          )}
+        </div>
+      )}
+
+      {status && status.corrupt.length > 0 && (
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-stone-gray">{t('components.fixityCheck.corruptDesc')}</p>
+          <ul className="space-y-2">
+            {status.corrupt.map((file) => (
+              <li key={file.sha256} className="text-sm">
+                <p className="font-mono text-xs text-charcoal truncate" dir="ltr">{file.sha256}</p>
+                <p className="text-xs text-stone-gray">
+                  {t('components.fixityCheck.corruptedOn', { date: formatDate(file.corruptedAt) })}
+                </p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                  {file.records.map((record) => {
+                    const artifact = artifactsById.get(record.artifactId);
+                    if (!artifact) return null;
+                    const section = artifact.metadata?.captureMode === 'palette' ? 'palette' : 'save';
+                    return (
+                      <Link
+                        key={`${record.table}:${record.recordId}`}
+                        to={`/${section}/artifact/${artifact.id}`}
+                        className="text-xs text-terracotta hover:underline"
+                      >
+                        {artifact.metadata?.name || artifact.registrationNumber || t('pages.gallery.unnamedArtifact')}
+                        {' · '}
+                        {t(`components.fixityCheck.tables.${record.table}`)}
+                      </Link>
+                    );
+                  })}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -116,6 +116,19 @@ export function ImportDialog({
               </div>
             </div>
 
+            {result.renumbered.length > 0 && (
+              <div className="p-3 rounded-lg bg-gold-ochre/5 border border-gold-ochre/20">
+                <p className="text-sm font-medium text-gold-ochre mb-2">
+                  Renumbered ({result.renumbered.length}) - these registration numbers were already taken:
+                </p>
+                <ul className="text-sm text-stone-gray space-y-1 max-h-32 overflow-y-auto font-mono" dir="ltr">
+                  {result.renumbered.map(({ from, to }) => (
+                    <li key={to}>• {from} → {to}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {result.errors.length > 0 && (
               <div className="p-3 rounded-lg bg-rust-red/5 border border-rust-red/20">
                 <p className="text-sm font-medium text-rust-red mb-2">Errors:</p>
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { AlertTriangle, ArchiveRestore, Box, Image, Lock, LockOpen, Palette, Shrink, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  db,
+  deleteColorVariants,
+  deleteModels,
+  downscaleImages,
+  getCleanupCandidates,
+  getStorageUsage,
+  type CleanupCandidates,
+} from '@/lib/db';
+import { cn, formatBytes } from '@/lib/utils';
+import { useStorageEstimate } from '@/hooks/useStorageEstimate';
+import { LoadingSpinner } from '@/components/ui';
+
+// Artifacts listed before "show all"
+const TOP_ARTIFACTS = 5;
+
+type CleanupTool = keyof CleanupCandidates;
+
+const CLEANUP_TOOLS: { tool: CleanupTool; icon: typeof Image }[] = [
+  { tool: 'exportedPhotos', icon: Shrink },
+  { tool: 'unusedVariants', icon: Palette },
+  { tool: 'replacedModels', icon: Box },
+];
+
+/**
+ * Storage the app uses, of the browser's quota and per kind of file and
+ * artifact; persistent storage, and tools to free space
+ */
+export function StoragePanel() {
+  const { t } = useTranslation();
+  const { estimate, level, refresh, requestPersistence } = useStorageEstimate();
+  const [showAll, setShowAll] = useState(false);
+  const [persistRefused, setPersistRefused] = useState(false);
+  const [confirmTool, setConfirmTool] = useState<CleanupTool | null>(null);
+  const [runningTool, setRunningTool] = useState<CleanupTool | null>(null);
+
+  const usage = useLiveQuery(() => getStorageUsage(), []);
+  const candidates = useLiveQuery(() => getCleanupCandidates(), []);
+  const artifacts = useLiveQuery(() => db.artifacts.toArray(), []);
+  const artifactsById = new Map((artifacts || []).map((artifact) => [artifact.id, artifact]));
+
+  const handlePersist = async () => {
+    setPersistRefused(!(await requestPersistence()));
+  };
+
+  const handleCleanup = async (tool: CleanupTool) => {
+    const ids = candidates?.[tool].ids ?? [];
+    setConfirmTool(null);
+    setRunningTool(tool);
+    try {
+      if (tool === 'exportedPhotos') {
+        await downscaleImages(ids);
+      } else if (tool === 'unusedVariants') {
+        await deleteColorVariants(ids);
+      } else {
+        await deleteModels(ids);
+      }
+      await refresh();
+    } catch (error) {
+      console.error('Storage cleanup failed:', error);
+      alert(t('components.storage.cleanupFailed'));
+    } finally {
+      setRunningTool(null);
+    }
+  };
+
+  const tables = usage
+    ? [
+        { key: 'images', icon: Image, bytes: usage.tables.images + usage.tables.thumbnails },
+        { key: 'models', icon: Box, bytes: usage.tables.models },
+        { key: 'colorVariants', icon: Palette, bytes: usage.tables.colorVariants },
+        { key: 'trash', icon: ArchiveRestore, bytes: usage.tables.trash },
+      ]
+    : [];
+  const filesTotal = tables.reduce((sum, table) => sum + table.bytes, 0);
+  const listed = showAll ? usage?.artifacts : usage?.artifacts.slice(0, TOP_ARTIFACTS);
+
+  return (
+    <div className="space-y-4">
+      {/* Quota */}
+      <div className="rounded-xl bg-aged-paper border border-desert-sand p-4 space-y-3">
+        {estimate === undefined ? (
+          <LoadingSpinner size="sm" />
+        ) : estimate === null ? (
+          <p className="text-sm text-stone-gray">{t('components.storage.notReported')}</p>
+        ) : (
+          <>
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="font-medium text-charcoal">
+                {t('components.storage.used', { used: formatBytes(estimate.usage), quota: formatBytes(estimate.quota) })}
+              </p>
+              <span className="text-sm text-stone-gray">
+                {estimate.quota > 0 ? Math.round((estimate.usage / estimate.quota) * 100) : 0}%
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-desert-sand overflow-hidden">
+              <div
+                className={cn(
+                  'h-full rounded-full',
+                  level === 'critical' ? 'bg-rust-red' : level === 'warning' ? 'bg-gold-ochre' : 'bg-terracotta'
+                )}
+                style={{ width: `${estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0}%` }}
+              />
+            </div>
+            {level !== 'ok' && (
+              <p className={cn('flex items-start gap-2 text-sm', level === 'critical' ? 'text-rust-red' : 'text-gold-ochre')}>
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                {t(`components.storage.${level}`)}
+              </p>
+            )}
+
+            {/* Persistence */}
+            <div className="flex items-center gap-3 pt-3 border-t border-desert-sand">
+              {estimate.persisted ? (
+                <Lock className="h-5 w-5 text-oxidized-bronze shrink-0" />
+              ) : (
+                <LockOpen className="h-5 w-5 text-gold-ochre shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-charcoal">
+                  {estimate.persisted ? t('components.storage.persisted') : t('components.storage.notPersisted')}
+                </p>
+                <p className="text-xs text-stone-gray">
+                  {estimate.persisted
+                    ? t('components.storage.persistedDesc')
+                    : persistRefused
+                      ? t('components.storage.persistRefused')
+                      : t('components.storage.notPersistedDesc')}
+                </p>
+              </div>
+              {!estimate.persisted && (
+                <button
+                  onClick={handlePersist}
+                  className="shrink-0 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors"
+                >
+                  {t('components.storage.persist')}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Per kind of file */}
+      {usage && (
+        <div className="rounded-xl bg-aged-paper border border-desert-sand p-4 space-y-3">
+          {tables.map(({ key, icon: Icon, bytes }) => (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center gap-2 text-sm">
+                <Icon className="h-4 w-4 text-sienna" />
+                <span className="flex-1 text-charcoal">{t(`components.storage.tables.${key}`)}</span>
+                <span className="text-stone-gray">{formatBytes(bytes)}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-desert-sand overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-sienna"
+                  style={{ width: `${filesTotal > 0 ? (bytes / filesTotal) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Per artifact */}
+      {usage && usage.artifacts.length > 0 && (
+        <div className="rounded-xl bg-aged-paper border border-desert-sand overflow-hidden">
+          <p className="px-4 pt-3 pb-2 text-xs font-medium text-stone-gray uppercase tracking-wide">
+            {t('components.storage.largestArtifacts')}
+          </p>
+          <ul className="divide-y divide-desert-sand">
+            {listed?.map((entry) => {
+              const artifact = artifactsById.get(entry.artifactId);
+              const section = artifact?.metadata?.captureMode === 'palette' ? 'palette' : 'save';
+              const name = artifact?.metadata?.name || artifact?.registrationNumber || t('pages.gallery.unnamedArtifact');
+              return (
+                <li key={entry.artifactId}>
+                  {artifact ? (
+                    <Link
+                      to={`/${section}/artifact/${artifact.id}`}
+                      className="flex items-center gap-3 px-4 py-2.5 hover:bg-parchment transition-colors"
+                    >
+                      <ArtifactStorageRow name={name} entry={entry} />
+                    </Link>
+                  ) : (
+                    <div className="flex items-center gap-3 px-4 py-2.5">
+                      <ArtifactStorageRow name={t('components.storage.missingArtifact')} entry={entry} />
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {usage.artifacts.length > TOP_ARTIFACTS && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="w-full px-4 py-2 text-sm text-terracotta hover:bg-parchment transition-colors border-t border-desert-sand"
+            >
+              {showAll ? t('components.storage.showFewer') : t('components.storage.showAll', { count: usage.artifacts.length })}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Cleanup */}
+      <div className="rounded-xl bg-aged-paper border border-desert-sand divide-y divide-desert-sand">
+        {CLEANUP_TOOLS.map(({ tool, icon: Icon }) => {
+          const candidate = candidates?.[tool];
+          const isEmpty = !candidate || candidate.ids.length === 0;
+          return (
+            <div key={tool} className="p-4 space-y-2">
+              <div className="flex items-center gap-3">
+                <Icon className="h-5 w-5 text-sienna shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-charcoal">{t(`components.storage.cleanup.${tool}`)}</p>
+                  <p className="text-xs text-stone-gray">{t(`components.storage.cleanup.${tool}Desc`)}</p>
+                  {candidate && (
+                    <p className="text-xs text-stone-gray mt-0.5">
+                      {isEmpty
+                        ? t('components.storage.cleanup.nothing')
+                        : t('components.storage.cleanup.found', { count: candidate.ids.length, size: formatBytes(candidate.bytes) })}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => setConfirmTool(tool)}
+                  disabled={isEmpty || runningTool !== null}
+                  className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-bone-white border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors disabled:opacity-50"
+                >
+                  {runningTool === tool ? <LoadingSpinner size="sm" /> : <Trash2 className="h-3.5 w-3.5" />}
+                  {t(`components.storage.cleanup.${tool}Action`)}
+                </button>
+              </div>
+              {confirmTool === tool && (
+                <div className="rounded-lg bg-gold-ochre/10 border border-gold-ochre/30 p-3 space-y-2">
+                  <p className="text-sm text-charcoal">{t(`components.storage.cleanup.${tool}Confirm`)}</p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleCleanup(tool)}
+                      className="px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors"
+                    >
+                      {t(`components.storage.cleanup.${tool}Action`)}
+                    </button>
+                    <button
+                      onClick={() => setConfirmTool(null)}
+                      className="px-3 py-1.5 rounded-lg bg-bone-white border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+                    >
+                      {t('common.buttons.cancel')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface ArtifactStorageRowProps {
+  name: string;
+  entry: { images: number; models: number; colorVariants: number; total: number };
+}
+
+function ArtifactStorageRow({ name, entry }: ArtifactStorageRowProps) {
+  const { t } = useTranslation();
+  const parts = (['images', 'models', 'colorVariants'] as const)
+    .filter((key) => entry[key] > 0)
+    .map((key) => `${t(`components.storage.tables.${key}`)} ${formatBytes(entry[key])}`);
+
+  return (
+    <>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-charcoal truncate">{name}</p>
+        <p className="text-xs text-stone-gray truncate">{parts.join(' · ')}</p>
+      </div>
+      <span className="text-sm font-medium text-charcoal shrink-0">{formatBytes(entry.total)}</span>
+    </>
+  );
+}
@@ -1,3 +1,6 @@
 export { DeleteConfirmDialog } from './DeleteConfirmDialog';
 export { ExportDialog } from './ExportDialog';
 export { ImportDialog } from './ImportDialog';
+export { StoragePanel } from './StoragePanel';
+export { DatabaseCheck } from './DatabaseCheck';
+export { FixityCheck } from './FixityCheck';
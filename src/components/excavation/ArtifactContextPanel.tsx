@@ -0,0 +1,424 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Hash, MapPinned, Pencil, Save, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { generateId } from '@/lib/utils';
+import {
+  assignArtifacts,
+  assignRegistrationNumber,
+  findContext,
+  getAreasForSite,
+  getContextsForSite,
+  getSeasonsForSite,
+  getSites,
+  saveArea,
+  saveContext,
+  saveSite,
+} from '@/lib/db';
+import { CONTEXT_TYPES, formatContextLabel, isSameName } from '@/lib/excavation';
+import { useArtifactLocation } from '@/hooks/useArtifactLocation';
+import { useSettingsStore } from '@/stores';
+import { LoadingSpinner } from '@/components/ui';
+import type { Artifact, ExcavationContextType } from '@/types';
+
+// Select value for adding a new site, area or context
+const NEW = '__new';
+
+interface ArtifactContextPanelProps {
+  artifact: Artifact;
+  /** Called after the artifact was moved */
+  onChange: () => void;
+}
+
+/**
+ * Where an artifact was found: its site, area and context, with links to
+ * their pages. Editing records the find spot, adding a site, area or
+ * context on the way when it isn't recorded yet. Below, the registration
+ * number, or a button to give a find without one its number.
+ */
+export function ArtifactContextPanel({ artifact, onChange }: ArtifactContextPanelProps) {
+  const { t } = useTranslation();
+  const { site, area, season, context } = useArtifactLocation(artifact);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isNumbering, setIsNumbering] = useState(false);
+  const registrationPattern = useSettingsStore((s) => s.registrationPattern);
+
+  const handleAssignNumber = async () => {
+    setIsNumbering(true);
+    try {
+      await assignRegistrationNumber(artifact.id, registrationPattern);
+      onChange();
+    } catch (error) {
+      console.error('Failed to assign registration number:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsNumbering(false);
+    }
+  };
+
+  // Find spot written down before sites were recorded
+  const legacy = [artifact.metadata?.siteName, artifact.metadata?.discoveryLocation, artifact.metadata?.excavationLayer]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div className="rounded-xl border border-desert-sand bg-bone-white p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-heading font-semibold text-charcoal">
+          <MapPinned className="h-4 w-4 text-terracotta" />
+          {t('components.excavation.findSpot')}
+        </h3>
+        {!isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+            {t('components.excavation.edit')}
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <ContextForm
+          artifact={artifact}
+          onClose={() => setIsEditing(false)}
+          onSave={() => {
+            setIsEditing(false);
+            onChange();
+          }}
+        />
+      ) : site ? (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+          <div>
+            <dt className="text-xs text-stone-gray">{t('components.excavation.site')}</dt>
+            <dd>
+              <Link to={`/sites/${site.id}`} className="text-terracotta hover:underline">{site.name}</Link>
+            </dd>
+          </div>
+          {area && (
+            <div>
+              <dt className="text-xs text-stone-gray">{t('components.excavation.area')}</dt>
+              <dd className="text-charcoal">{area.name}</dd>
+            </div>
+          )}
+          {context && (
+            <div>
+              <dt className="text-xs text-stone-gray">{t('components.excavation.context')}</dt>
+              <dd>
+                <Link to={`/sites/${site.id}/contexts/${context.id}`} className="text-terracotta hover:underline">
+                  {formatContextLabel(context, t)}
+                </Link>
+              </dd>
+            </div>
+          )}
+          {season && (
+            <div>
+              <dt className="text-xs text-stone-gray">{t('components.excavation.season')}</dt>
+              <dd className="text-charcoal">{season.name}</dd>
+            </div>
+          )}
+        </dl>
+      ) : (
+        <p className="text-sm text-stone-gray">
+          {legacy
+            ? t('components.excavation.legacyFindSpot', { location: legacy })
+            : t('components.excavation.noFindSpot')}
+        </p>
+      )}
+
+      {/* Registration number */}
+      {!isEditing && (
+        <div className="flex items-center gap-2 pt-3 border-t border-desert-sand text-sm">
+          <Hash className="h-4 w-4 text-terracotta flex-shrink-0" />
+          {artifact.registrationNumber ? (
+            <div className="min-w-0">
+              <span dir="ltr" className="font-mono text-charcoal">{artifact.registrationNumber}</span>
+              {artifact.formerRegistrationNumbers && artifact.formerRegistrationNumbers.length > 0 && (
+                <p className="text-xs text-stone-gray">
+                  {t('components.registration.formerNumbers', { numbers: artifact.formerRegistrationNumbers.join(', ') })}
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <span className="text-stone-gray">{t('components.registration.noNumber')}</span>
+              <button
+                onClick={handleAssignNumber}
+                disabled={isNumbering}
+                className="ms-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors disabled:opacity-50"
+              >
+                {isNumbering && <LoadingSpinner size="sm" />}
+                {t('components.registration.assignNumber')}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ContextFormProps {
+  artifact: Artifact;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+/**
+ * Pick the site, area and context, or name new ones
+ */
+function ContextForm({ artifact, onClose, onSave }: ContextFormProps) {
+  const { t } = useTranslation();
+
+  const [siteChoice, setSiteChoice] = useState(artifact.siteId ?? (artifact.metadata?.siteName ? NEW : ''));
+  const [newSiteName, setNewSiteName] = useState(artifact.metadata?.siteName ?? '');
+  const [areaChoice, setAreaChoice] = useState(artifact.areaId ?? '');
+  const [newAreaName, setNewAreaName] = useState('');
+  const [contextChoice, setContextChoice] = useState(artifact.contextId ?? '');
+  const [newNumber, setNewNumber] = useState('');
+  const [newType, setNewType] = useState<ExcavationContextType>('locus');
+  const [newSeasonId, setNewSeasonId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const siteId = siteChoice && siteChoice !== NEW ? siteChoice : undefined;
+  const sites = useLiveQuery(() => getSites(), []);
+  const areas = useLiveQuery(() => (siteId ? getAreasForSite(siteId) : []), [siteId]);
+  const seasons = useLiveQuery(() => (siteId ? getSeasonsForSite(siteId) : []), [siteId]);
+  const contexts = useLiveQuery(() => (siteId ? getContextsForSite(siteId) : []), [siteId]);
+
+  // Contexts of the chosen area, and those not in an area yet
+  const areaContexts = (contexts || []).filter(
+    (context) => !areaChoice || areaChoice === NEW || !context.areaId || context.areaId === areaChoice
+  );
+
+  const canSave = !isSaving &&
+    (siteChoice !== NEW || newSiteName.trim().length > 0) &&
+    (areaChoice !== NEW || newAreaName.trim().length > 0) &&
+    (contextChoice !== NEW || newNumber.trim().length > 0);
+
+  const handleSiteChange = (value: string) => {
+    setSiteChoice(value);
+    setAreaChoice('');
+    setContextChoice('');
+    setNewSeasonId('');
+  };
+
+  const handleContextChange = (value: string) => {
+    setContextChoice(value);
+    // A context is in one area
+    const picked = contexts?.find((context) => context.id === value);
+    if (picked?.areaId) {
+      setAreaChoice(picked.areaId);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+
+    try {
+      const now = new Date();
+
+      let savedSiteId = siteId;
+      if (siteChoice === NEW) {
+        // Typing the name of a site that exists picks that site
+        savedSiteId = sites?.find((site) => isSameName(site.name, newSiteName))?.id ?? await saveSite({
+          id: `site-${generateId()}`,
+          name: newSiteName.trim(),
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      let areaId = areaChoice && areaChoice !== NEW ? areaChoice : undefined;
+      if (savedSiteId && areaChoice === NEW) {
+        areaId = await saveArea({
+          id: `area-${generateId()}`,
+          siteId: savedSiteId,
+          name: newAreaName.trim(),
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      let contextId = contextChoice && contextChoice !== NEW ? contextChoice : undefined;
+      if (savedSiteId && contextChoice === NEW) {
+        // Typing the number of a context that exists picks that context
+        const existing = await findContext(savedSiteId, newNumber);
+        contextId = existing?.id ?? await saveContext({
+          id: `context-${generateId()}`,
+          siteId: savedSiteId,
+          areaId,
+          seasonId: newSeasonId || undefined,
+          number: newNumber.trim(),
+          type: newType,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      await assignArtifacts([artifact.id], { siteId: savedSiteId, areaId, contextId });
+      onSave();
+    } catch (error) {
+      console.error('Failed to save find spot:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50';
+  const labelClassName = 'text-xs font-medium text-stone-gray uppercase tracking-wide mb-1 block';
+
+  return (
+    <div className="space-y-3">
+      {/* Site */}
+      <div className="space-y-2">
+        <label htmlFor="find-spot-site" className={labelClassName}>{t('components.excavation.site')}</label>
+        <select
+          id="find-spot-site"
+          value={siteChoice}
+          onChange={(e) => handleSiteChange(e.target.value)}
+          disabled={isSaving}
+          className={inputClassName}
+        >
+          <option value="">{t('components.excavation.noSite')}</option>
+          {(sites || []).map((site) => (
+            <option key={site.id} value={site.id}>{site.name}</option>
+          ))}
+          <option value={NEW}>{t('components.excavation.newSite')}</option>
+        </select>
+        {siteChoice === NEW && (
+          <input
+            type="text"
+            dir="auto"
+            value={newSiteName}
+            onChange={(e) => setNewSiteName(e.target.value)}
+            placeholder={t('components.excavation.siteNamePlaceholder')}
+            aria-label={t('components.excavation.siteName')}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        )}
+      </div>
+
+      {siteChoice && (
+        <div className="grid grid-cols-2 gap-2">
+          {/* Area */}
+          <div className="space-y-2">
+            <label htmlFor="find-spot-area" className={labelClassName}>{t('components.excavation.area')}</label>
+            <select
+              id="find-spot-area"
+              value={areaChoice}
+              onChange={(e) => setAreaChoice(e.target.value)}
+              disabled={isSaving}
+              className={inputClassName}
+            >
+              <option value="">{t('components.excavation.noArea')}</option>
+              {(areas || []).map((area) => (
+                <option key={area.id} value={area.id}>{area.name}</option>
+              ))}
+              <option value={NEW}>{t('components.excavation.newArea')}</option>
+            </select>
+            {areaChoice === NEW && (
+              <input
+                type="text"
+                dir="auto"
+                value={newAreaName}
+                onChange={(e) => setNewAreaName(e.target.value)}
+                placeholder={t('components.excavation.areaNamePlaceholder')}
+                aria-label={t('components.excavation.areaName')}
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            )}
+          </div>
+
+          {/* Context */}
+          <div className="space-y-2">
+            <label htmlFor="find-spot-context" className={labelClassName}>{t('components.excavation.context')}</label>
+            <select
+              id="find-spot-context"
+              value={contextChoice}
+              onChange={(e) => handleContextChange(e.target.value)}
+              disabled={isSaving}
+              className={inputClassName}
+            >
+              <option value="">{t('components.excavation.noContext')}</option>
+              {areaContexts.map((context) => (
+                <option key={context.id} value={context.id}>{formatContextLabel(context, t)}</option>
+              ))}
+              <option value={NEW}>{t('components.excavation.newContext')}</option>
+            </select>
+            {contextChoice === NEW && (
+              <div className="flex gap-2">
+                <select
+                  value={newType}
+                  onChange={(e) => setNewType(e.target.value as ExcavationContextType)}
+                  aria-label={t('components.excavation.contextType')}
+                  disabled={isSaving}
+                  className={inputClassName}
+                >
+                  {CONTEXT_TYPES.map((type) => (
+                    <option key={type} value={type}>{t(`components.excavation.types.${type}`)}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  dir="auto"
+                  value={newNumber}
+                  onChange={(e) => setNewNumber(e.target.value)}
+                  placeholder={t('components.excavation.numberPlaceholder')}
+                  aria-label={t('components.excavation.number')}
+                  disabled={isSaving}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {contextChoice === NEW && seasons && seasons.length > 0 && (
+        <div>
+          <label htmlFor="find-spot-season" className={labelClassName}>{t('components.excavation.season')}</label>
+          <select
+            id="find-spot-season"
+            value={newSeasonId}
+            onChange={(e) => setNewSeasonId(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            <option value="">{t('components.excavation.noSeason')}</option>
+            {seasons.map((season) => (
+              <option key={season.id} value={season.id}>{season.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-3.5 w-3.5" />}
+          {t('components.excavation.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSaving}
+          className="ms-auto p-1.5 rounded-lg text-stone-gray hover:text-charcoal hover:bg-aged-paper transition-colors"
+          aria-label={t('common.buttons.cancel')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
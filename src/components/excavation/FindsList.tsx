@@ -0,0 +1,100 @@
+import { Check, FolderOpen } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { ArtifactListItem } from '@/components/gallery';
+import type { Artifact } from '@/types';
+
+interface FindsListProps {
+  artifacts: Artifact[];
+  /** Selected artifact ids; rows get a checkbox when given */
+  selectedIds?: Set<string>;
+  onSelectionChange?: (selectedIds: Set<string>) => void;
+  className?: string;
+}
+
+/**
+ * The finds of a site or context, each opening in its own section; the
+ * finds can be selected to move them together
+ */
+export function FindsList({ artifacts, selectedIds, onSelectionChange, className }: FindsListProps) {
+  const { t } = useTranslation();
+
+  if (artifacts.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-8 text-center">
+        <FolderOpen className="h-10 w-10 text-stone-gray/30 mb-2" />
+        <p className="text-sm text-stone-gray">{t('components.excavation.noFinds')}</p>
+      </div>
+    );
+  }
+
+  const toggle = (id: string) => {
+    if (!selectedIds || !onSelectionChange) return;
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    onSelectionChange(next);
+  };
+
+  const allSelected = selectedIds !== undefined && artifacts.every((artifact) => selectedIds.has(artifact.id));
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {selectedIds && onSelectionChange && (
+        <CheckboxLabel
+          checked={allSelected}
+          onToggle={() => onSelectionChange(allSelected ? new Set() : new Set(artifacts.map((artifact) => artifact.id)))}
+          label={t('components.excavation.selectAll', { count: artifacts.length })}
+        />
+      )}
+      {artifacts.map((artifact) => (
+        <div key={artifact.id} className="flex items-center gap-2">
+          {selectedIds && onSelectionChange && (
+            <Checkbox
+              checked={selectedIds.has(artifact.id)}
+              onToggle={() => toggle(artifact.id)}
+              label={artifact.metadata?.name || t('pages.gallery.unnamedArtifact')}
+            />
+          )}
+          <ArtifactListItem artifact={artifact} className="flex-1 min-w-0" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CheckboxProps {
+  checked: boolean;
+  onToggle: () => void;
+  label: string;
+}
+
+function Checkbox({ checked, onToggle, label }: CheckboxProps) {
+  return (
+    <button
+      type="button"
+      role="checkbox"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={onToggle}
+      className={cn(
+        'h-5 w-5 flex-shrink-0 rounded border-2 flex items-center justify-center transition-colors',
+        checked ? 'bg-terracotta border-terracotta' : 'border-desert-sand hover:border-terracotta/50'
+      )}
+    >
+      {checked && <Check className="h-3 w-3 text-bone-white" />}
+    </button>
+  );
+}
+
+function CheckboxLabel({ checked, onToggle, label }: CheckboxProps) {
+  return (
+    <div className="flex items-center gap-2 px-0.5">
+      <Checkbox checked={checked} onToggle={onToggle} label={label} />
+      <span className="text-sm text-stone-gray">{label}</span>
+    </div>
+  );
+}
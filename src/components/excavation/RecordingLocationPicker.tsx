@@ -0,0 +1,74 @@
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { MapPinned } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { getContextsForSite, getSites } from '@/lib/db';
+import { formatContextLabel } from '@/lib/excavation';
+import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/stores';
+
+interface RecordingLocationPickerProps {
+  className?: string;
+}
+
+/**
+ * The site and context new finds are recorded in, which also decide their
+ * registration numbers
+ */
+export function RecordingLocationPicker({ className }: RecordingLocationPickerProps) {
+  const { t } = useTranslation();
+  const { recordingSiteId, recordingContextId, setRecordingLocation } = useSettingsStore();
+
+  const sites = useLiveQuery(() => getSites(), []);
+  const contexts = useLiveQuery(
+    () => (recordingSiteId ? getContextsForSite(recordingSiteId) : []),
+    [recordingSiteId]
+  );
+
+  // A site or context deleted since it was chosen reads as none
+  const siteId = sites?.some((site) => site.id === recordingSiteId) ? recordingSiteId : null;
+  const contextId = contexts?.some((context) => context.id === recordingContextId) ? recordingContextId : null;
+
+  const selectClassName = 'w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta';
+
+  return (
+    <div className={cn('rounded-xl border border-desert-sand bg-aged-paper p-4 space-y-2', className)}>
+      <p className="flex items-center gap-2 text-sm font-medium text-charcoal">
+        <MapPinned className="h-4 w-4 text-terracotta" />
+        {t('components.registration.recordingAt')}
+      </p>
+      {sites && sites.length === 0 ? (
+        <p className="text-sm text-stone-gray">
+          {t('components.registration.noSites')}{' '}
+          <Link to="/sites" className="text-terracotta hover:underline">{t('components.registration.addSite')}</Link>
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={siteId ?? ''}
+            onChange={(e) => setRecordingLocation(e.target.value || null)}
+            aria-label={t('components.excavation.site')}
+            className={selectClassName}
+          >
+            <option value="">{t('components.excavation.noSite')}</option>
+            {(sites || []).map((site) => (
+              <option key={site.id} value={site.id}>{site.name}</option>
+            ))}
+          </select>
+          <select
+            value={contextId ?? ''}
+            onChange={(e) => setRecordingLocation(siteId, e.target.value || null)}
+            aria-label={t('components.excavation.context')}
+            disabled={!siteId}
+            className={cn(selectClassName, 'disabled:opacity-50')}
+          >
+            <option value="">{t('components.excavation.noContext')}</option>
+            {(contexts || []).map((context) => (
+              <option key={context.id} value={context.id}>{formatContextLabel(context, t)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { formatRegistrationNumber, REGISTRATION_TOKENS, validatePattern } from '@/lib/registration';
+import type { Site } from '@/types';
+
+interface RegistrationPatternInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  /** Site the preview is numbered for; an example site otherwise */
+  site?: Site;
+  /** Shown when empty; an empty pattern is allowed only when given */
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Edit a registration number pattern, with the tokens it can use and the
+ * number the first find would get
+ */
+export function RegistrationPatternInput({
+  id,
+  value,
+  onChange,
+  site,
+  placeholder,
+  disabled,
+  className,
+}: RegistrationPatternInputProps) {
+  const { t } = useTranslation();
+
+  const pattern = value.trim() || placeholder || '';
+  const error = value.trim() || !placeholder ? validatePattern(pattern) : null;
+
+  const now = new Date();
+  const preview = error ? null : formatRegistrationNumber(pattern, {
+    site: site ?? { id: 'example', name: 'Megiddo', code: 'MEG', createdAt: now, updatedAt: now },
+    area: { id: 'example', siteId: 'example', name: 'A', createdAt: now, updatedAt: now },
+    season: { id: 'example', siteId: 'example', name: String(now.getFullYear()), createdAt: now, updatedAt: now },
+    context: { id: 'example', siteId: 'example', number: '1024', type: 'locus', createdAt: now, updatedAt: now },
+    date: now,
+  }, 1);
+
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      <input
+        id={id}
+        type="text"
+        dir="ltr"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        aria-invalid={error !== null}
+        className={cn(
+          'w-full px-3 py-2 rounded-lg border bg-bone-white text-sm font-mono text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50',
+          error ? 'border-rust-red' : 'border-desert-sand'
+        )}
+      />
+      {error ? (
+        <p className="text-xs text-rust-red">{t(`components.registration.errors.${error}`)}</p>
+      ) : (
+        <p className="text-xs text-stone-gray">
+          {t('components.registration.preview')} <span dir="ltr" className="font-mono text-charcoal">{preview}</span>
+        </p>
+      )}
+      <p className="flex flex-wrap gap-1">
+        {REGISTRATION_TOKENS.map((token) => (
+          <span
+            key={token}
+            title={t(`components.registration.tokens.${token}`)}
+            className="px-1.5 py-0.5 rounded bg-aged-paper border border-desert-sand text-xs font-mono text-stone-gray"
+          >
+            {`{${token}}`}
+          </span>
+        ))}
+      </p>
+      <p className="text-xs text-stone-gray">{t('components.registration.help')}</p>
+    </div>
+  );
+}
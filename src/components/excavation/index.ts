@@ -0,0 +1,4 @@
+export { ArtifactContextPanel } from './ArtifactContextPanel';
+export { FindsList } from './FindsList';
+export { RecordingLocationPicker } from './RecordingLocationPicker';
+export { RegistrationPatternInput } from './RegistrationPatternInput';
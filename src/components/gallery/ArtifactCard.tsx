@@ -4,6 +4,8 @@ import { Box, MapPin } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { formatDate } from '@/lib/utils';
+import { formatContextLabel } from '@/lib/excavation';
+import { useArtifactLocation } from '@/hooks/useArtifactLocation';
 import type { Artifact } from '@/types';
 
 interface ArtifactCardProps {
@@ -25,6 +27,8 @@ function getStatusStyle(status: Artifact['status'], t: (key: string) => string):
       return { bg: 'bg-gold-ochre/20', text: 'text-gold-ochre', label: t('common.status.processing') };
     case 'processing-info':
       return { bg: 'bg-gold-ochre/20', text: 'text-gold-ochre', label: t('common.status.analyzing') };
+    case 'queued':
+      return { bg: 'bg-terracotta/20', text: 'text-terracotta', label: t('common.status.queued') };
     case 'complete':
       return { bg: 'bg-oxidized-bronze/20', text: 'text-oxidized-bronze', label: t('common.status.complete') };
     case 'error':
@@ -55,7 +59,10 @@ export function ArtifactCard({ artifact, className, basePath }: ArtifactCardProp
 
   const statusStyle = getStatusStyle(artifact.status, t);
   const displayName = artifact.metadata?.name || t('pages.gallery.unnamedArtifact');
-  const siteName = artifact.metadata?.siteName;
+  const { site, context } = useArtifactLocation(artifact);
+  const siteName = [site?.name ?? artifact.metadata?.siteName, context && formatContextLabel(context, t)]
+    .filter(Boolean)
+    .join(' \u00b7 ');
   const displayDate = formatDate(artifact.metadata?.dateFound || artifact.createdAt);
 
   const handleClick = () => {
@@ -122,7 +129,12 @@ export function ArtifactCard({ artifact, className, basePath }: ArtifactCardProp
           {displayName}
         </h3>
 
-        <p className="text-sm text-stone-gray">{displayDate}</p>
+        <p className="text-sm text-stone-gray truncate">
+          {artifact.registrationNumber && (
+            <span dir="ltr" className="font-mono me-2">{artifact.registrationNumber}</span>
+          )}
+          {displayDate}
+        </p>
 
         {siteName && (
           <div className="flex items-center gap-1 text-xs text-stone-gray">
@@ -4,6 +4,8 @@ import { Box, FileText, ChevronRight } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { formatDate } from '@/lib/utils';
+import { formatContextLabel } from '@/lib/excavation';
+import { useArtifactLocation } from '@/hooks/useArtifactLocation';
 import type { Artifact } from '@/types';
 
 interface ArtifactListItemProps {
@@ -25,6 +27,8 @@ function getStatusInfo(status: Artifact['status'], t: (key: string) => string):
       return { color: 'bg-gold-ochre/20 text-gold-ochre', label: t('common.status.processing') };
     case 'processing-info':
       return { color: 'bg-gold-ochre/20 text-gold-ochre', label: t('common.status.analyzing') };
+    case 'queued':
+      return { color: 'bg-terracotta/20 text-terracotta', label: t('common.status.queued') };
     case 'complete':
       return { color: 'bg-oxidized-bronze/20 text-oxidized-bronze', label: t('common.status.complete') };
     case 'error':
@@ -53,7 +57,10 @@ export function ArtifactListItem({ artifact, className, basePath }: ArtifactList
 
   const statusInfo = getStatusInfo(artifact.status, t);
   const displayName = artifact.metadata?.name || t('pages.gallery.unnamedArtifact');
-  const siteName = artifact.metadata?.siteName;
+  const { site, context } = useArtifactLocation(artifact);
+  const siteName = [site?.name ?? artifact.metadata?.siteName, context && formatContextLabel(context, t)]
+    .filter(Boolean)
+    .join(' \u00b7 ');
   const displayDate = formatDate(artifact.metadata?.dateFound || artifact.createdAt);
 
   const handleClick = () => {
@@ -109,6 +116,10 @@ export function ArtifactListItem({ artifact, className, basePath }: ArtifactList
           )}
         </div>
         <div className="flex items-center gap-1.5 text-xs text-stone-gray">
+          {artifact.registrationNumber && (
+            <span dir="ltr" className="font-mono flex-shrink-0">{artifact.registrationNumber}</span>
+          )}
+          {artifact.registrationNumber && <span className="text-desert-sand">•</span>}
           {siteName && <span className="truncate">{siteName}</span>}
           {siteName && <span className="text-desert-sand">•</span>}
           <span className="flex-shrink-0">{displayDate}</span>
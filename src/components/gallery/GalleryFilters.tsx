@@ -1,13 +1,17 @@
 import { Search, ArrowUpDown } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
-import type { ArtifactStatus } from '@/types';
-import type { GalleryFilters as GalleryFiltersType } from '@/hooks/useGalleryFilters';
+import { VOCABULARY_NAMES } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import type { ArtifactStatus, VocabularyName } from '@/types';
+import type { GalleryFilters as GalleryFiltersType, GalleryReviewFilter } from '@/hooks/useGalleryFilters';
 
 interface GalleryFiltersProps {
   filters: GalleryFiltersType;
   setSearch: (search: string) => void;
   setStatus: (status: ArtifactStatus | 'all') => void;
+  setReview: (review: GalleryReviewFilter) => void;
+  setTerm: (vocabulary: VocabularyName, termId: string | 'all') => void;
   setSortBy: (sortBy: 'date' | 'name' | 'status') => void;
   toggleSortOrder: () => void;
   resultCount: number;
@@ -17,11 +21,14 @@ export function GalleryFilters({
   filters,
   setSearch,
   setStatus,
+  setReview,
+  setTerm,
   setSortBy,
   toggleSortOrder,
   resultCount,
 }: GalleryFiltersProps) {
   const { t } = useTranslation();
+  const { getTerms, getLabel } = useVocabulary();
 
   const STATUS_OPTIONS: { value: ArtifactStatus | 'all'; labelKey: string }[] = [
     { value: 'all', labelKey: 'pages.gallery.allStatus' },
@@ -29,10 +36,18 @@ export function GalleryFilters({
     { value: 'images-captured', labelKey: 'common.status.images' },
     { value: 'processing-3d', labelKey: 'common.status.processing' },
     { value: 'processing-info', labelKey: 'common.status.analyzing' },
+    { value: 'queued', labelKey: 'common.status.queued' },
     { value: 'complete', labelKey: 'common.status.complete' },
     { value: 'error', labelKey: 'common.status.error' },
   ];
 
+  const REVIEW_OPTIONS: { value: GalleryReviewFilter; labelKey: string }[] = [
+    { value: 'all', labelKey: 'pages.gallery.allReview' },
+    { value: 'needs-review', labelKey: 'pages.gallery.needsReview' },
+    { value: 'verified', labelKey: 'components.infoCard.review.statuses.verified' },
+    { value: 'rejected', labelKey: 'components.infoCard.review.statuses.rejected' },
+  ];
+
   const SORT_OPTIONS = [
     { value: 'date', labelKey: 'pages.gallery.sortDate' },
     { value: 'name', labelKey: 'pages.gallery.sortName' },
@@ -54,7 +69,7 @@ export function GalleryFilters({
       </div>
 
       {/* Filter Controls */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
         {/* Status Filter */}
         <div className="relative">
           <select
@@ -75,6 +90,27 @@ export function GalleryFilters({
           </div>
         </div>
 
+        {/* Review Filter */}
+        <div className="relative">
+          <select
+            value={filters.review}
+            onChange={(e) => setReview(e.target.value as GalleryReviewFilter)}
+            aria-label={t('pages.gallery.reviewFilter')}
+            className="w-full rounded-lg border border-desert-sand bg-aged-paper py-2.5 pl-3 pr-8 text-sm text-charcoal focus:border-terracotta focus:outline-none focus:ring-2 focus:ring-terracotta/20 transition-colors appearance-none cursor-pointer"
+          >
+            {REVIEW_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </option>
+            ))}
+          </select>
+          <div className="absolute right-3 rtl:right-auto rtl:left-3 top-1/2 -translate-y-1/2 pointer-events-none">
+            <svg className="h-4 w-4 text-stone-gray" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </div>
+        </div>
+
         {/* Sort By */}
         <div className="relative">
           <select
@@ -117,6 +153,33 @@ export function GalleryFilters({
         </button>
       </div>
 
+      {/* Vocabulary Term Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {VOCABULARY_NAMES.map((vocabulary) => (
+          <div key={vocabulary} className="relative">
+            <select
+              value={filters.terms[vocabulary] ?? 'all'}
+              onChange={(e) => setTerm(vocabulary, e.target.value)}
+              aria-label={t(`components.vocabulary.vocabularies.${vocabulary}`)}
+              className="w-full rounded-lg border border-desert-sand bg-aged-paper py-2.5 pl-3 pr-8 text-sm text-charcoal focus:border-terracotta focus:outline-none focus:ring-2 focus:ring-terracotta/20 transition-colors appearance-none cursor-pointer"
+            >
+              <option value="all">{t(`pages.gallery.allTerms.${vocabulary}`)}</option>
+              {getTerms(vocabulary).map((term) => (
+                <option key={term.id} value={term.id}>
+                  {/* Narrower terms under their broader term */}
+                  {term.broader ? `\u2014 ${getLabel(term)}` : getLabel(term)}
+                </option>
+              ))}
+            </select>
+            <div className="absolute right-3 rtl:right-auto rtl:left-3 top-1/2 -translate-y-1/2 pointer-events-none">
+              <svg className="h-4 w-4 text-stone-gray" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </div>
+          </div>
+        ))}
+      </div>
+
       {/* Result Count */}
       <div className="text-sm text-stone-gray">
         {t('pages.gallery.artifactFound', { count: resultCount })}
@@ -0,0 +1,224 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ChartGantt } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { getInfoCardsByIds, getSites } from '@/lib/db';
+import { formatDateSpan, formatYear } from '@/lib/utils/dateRange';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import type { Artifact, DateSpan } from '@/types';
+
+type GroupBy = 'site' | 'material';
+
+interface GalleryTimelineProps {
+  artifacts: Artifact[];
+  isLoading?: boolean;
+  className?: string;
+  basePath?: string; // Base path for navigation (e.g., '/save' or '/palette')
+}
+
+interface TimelineEntry {
+  artifact: Artifact;
+  span: DateSpan;
+  range: string;
+  group: string;
+}
+
+// Tick spacings to choose from, in years
+const TICK_STEPS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 25000, 50000, 100000];
+const TARGET_TICKS = 5;
+
+/**
+ * Material without the detail, for grouping: "Fired clay (terracotta), wheel-made"
+ * groups with other "Fired clay"
+ */
+function getMaterialGroup(material: string): string {
+  const main = material.split(/[,;(]/)[0].trim();
+  return main.charAt(0).toUpperCase() + main.slice(1).toLowerCase();
+}
+
+/**
+ * Artifacts as bars across time, by the estimated age on their info cards,
+ * grouped by site or material
+ */
+export function GalleryTimeline({ artifacts, isLoading = false, className, basePath = '' }: GalleryTimelineProps) {
+  const { t } = useTranslation();
+  const [groupBy, setGroupBy] = useState<GroupBy>('site');
+  const { getTerm, getLabel } = useVocabulary();
+
+  const infoCardIds = useMemo(
+    () => artifacts.map((artifact) => artifact.infoCardId).filter((id): id is string => Boolean(id)),
+    [artifacts]
+  );
+  const infoCards = useLiveQuery(() => getInfoCardsByIds(infoCardIds), [infoCardIds]);
+  const sites = useLiveQuery(() => getSites(), []);
+
+  const { groups, undatedCount, axis } = useMemo(() => {
+    const cardsById = new Map((infoCards || []).map((card) => [card.id, card]));
+    const siteNames = new Map((sites || []).map((site) => [site.id, site.name]));
+    const entries: TimelineEntry[] = [];
+    let undated = 0;
+
+    for (const artifact of artifacts) {
+      const card = artifact.infoCardId ? cardsById.get(artifact.infoCardId) : undefined;
+      if (!card?.dateSpan) {
+        undated++;
+        continue;
+      }
+      // Materials by their preferred term where the card maps to one
+      const materialTerm = getTerm(artifact.infoCardTerms?.material);
+      const group = groupBy === 'site'
+        ? (artifact.siteId && siteNames.get(artifact.siteId)) || artifact.metadata?.siteName?.trim()
+        : materialTerm ? getLabel(materialTerm) : card.material && getMaterialGroup(card.material);
+      entries.push({ artifact, span: card.dateSpan, range: card.estimatedAge.range, group: group || '' });
+    }
+
+    if (entries.length === 0) {
+      return { groups: [], undatedCount: undated, axis: { min: 0, max: 1, ticks: [] } };
+    }
+
+    // Axis from the earliest to the latest possible year, on round ticks
+    let min = Math.min(...entries.map((entry) => entry.span.start - entry.span.uncertainty));
+    let max = Math.max(...entries.map((entry) => entry.span.end + entry.span.uncertainty));
+    const step = TICK_STEPS.find((candidate) => (max - min) / candidate <= TARGET_TICKS) ?? TICK_STEPS[TICK_STEPS.length - 1];
+    min = Math.floor(min / step) * step;
+    max = Math.max(Math.ceil(max / step) * step, min + step);
+    const ticks: number[] = [];
+    for (let tick = min; tick <= max; tick += step) {
+      ticks.push(tick);
+    }
+
+    // Groups in order of their earliest artifact; ungrouped last
+    const byGroup = new Map<string, TimelineEntry[]>();
+    for (const entry of [...entries].sort((a, b) => a.span.start - b.span.start || a.span.end - b.span.end)) {
+      byGroup.set(entry.group, [...(byGroup.get(entry.group) || []), entry]);
+    }
+    const sortedGroups = [...byGroup.entries()].sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : 0));
+
+    return { groups: sortedGroups, undatedCount: undated, axis: { min, max, ticks } };
+  }, [artifacts, infoCards, sites, groupBy, getTerm, getLabel]);
+
+  const position = (year: number) => ((year - axis.min) / (axis.max - axis.min)) * 100;
+
+  if (isLoading || infoCards === undefined) {
+    return (
+      <div className={cn('space-y-3', className)}>
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-8 rounded-lg bg-aged-paper animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 px-4">
+        <div className="w-16 h-16 rounded-full bg-aged-paper border-2 border-desert-sand flex items-center justify-center mb-4">
+          <ChartGantt className="w-8 h-8 text-stone-gray/50" />
+        </div>
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-2">
+          {t('pages.gallery.timeline.noDates')}
+        </h3>
+        <p className="text-sm text-stone-gray text-center max-w-xs">
+          {t('pages.gallery.timeline.noDatesDesc')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Grouping */}
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-stone-gray">{t('pages.gallery.timeline.groupBy')}</span>
+        <div
+          className="inline-flex rounded-lg border border-desert-sand bg-aged-paper p-0.5"
+          role="radiogroup"
+          aria-label={t('pages.gallery.timeline.groupBy')}
+        >
+          {(['site', 'material'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={groupBy === option}
+              onClick={() => setGroupBy(option)}
+              className={cn(
+                'px-3 py-1 rounded-md transition-colors',
+                groupBy === option ? 'bg-terracotta text-bone-white' : 'text-charcoal hover:bg-desert-sand/50'
+              )}
+            >
+              {t(`pages.gallery.timeline.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-xl border border-desert-sand bg-bone-white p-3 space-y-4">
+        {/* Axis */}
+        <div className="flex gap-3">
+          <div className="w-1/3 flex-shrink-0" />
+          <div className="relative flex-1 h-5 border-b border-desert-sand">
+            {axis.ticks.map((tick) => (
+              <span
+                key={tick}
+                className="absolute top-0 -translate-x-1/2 rtl:translate-x-1/2 text-[10px] text-stone-gray whitespace-nowrap"
+                style={{ insetInlineStart: `${position(tick)}%` }}
+              >
+                {/* There is no year 0 */}
+                {formatYear(tick === 0 ? 1 : tick, t)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {groups.map(([group, entries]) => (
+          <section key={group || '-'} className="space-y-1.5">
+            <h3 className="text-xs font-medium text-stone-gray uppercase tracking-wide">
+              {group || t(`pages.gallery.timeline.${groupBy === 'site' ? 'unknownSite' : 'unknownMaterial'}`)}
+              <span className="ms-1 normal-case tracking-normal">({entries.length})</span>
+            </h3>
+
+            {entries.map(({ artifact, span, range }) => {
+              const start = position(span.start);
+              const end = position(span.end + 1);
+              const outerStart = position(span.start - span.uncertainty);
+              const outerEnd = position(span.end + span.uncertainty + 1);
+              return (
+                <Link
+                  key={artifact.id}
+                  to={`${basePath}/artifact/${artifact.id}`}
+                  title={`${range} (${formatDateSpan(span, t)})`}
+                  className="flex items-center gap-3 rounded-lg hover:bg-aged-paper transition-colors"
+                >
+                  <span className="w-1/3 flex-shrink-0 truncate text-sm text-charcoal">
+                    {artifact.metadata?.name || t('pages.gallery.unnamedArtifact')}
+                  </span>
+                  <span className="relative flex-1 h-5">
+                    {span.uncertainty > 0 && (
+                      <span
+                        className="absolute top-1.5 h-2 rounded-full bg-terracotta/20"
+                        style={{ insetInlineStart: `${outerStart}%`, width: `${outerEnd - outerStart}%` }}
+                      />
+                    )}
+                    <span
+                      className="absolute top-1 h-3 rounded-full bg-terracotta min-w-1.5"
+                      style={{ insetInlineStart: `${start}%`, width: `${end - start}%` }}
+                    />
+                  </span>
+                </Link>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+
+      {undatedCount > 0 && (
+        <p className="text-xs text-stone-gray">
+          {t('pages.gallery.timeline.undated', { count: undatedCount })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
-import { Grid, List, Plus } from 'lucide-react';
+import { Grid, List, ChartGantt, Plus } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { GalleryFilters } from './GalleryFilters';
-import type { ArtifactStatus } from '@/types';
-import type { GalleryFilters as GalleryFiltersType } from '@/hooks/useGalleryFilters';
+import type { ArtifactStatus, VocabularyName } from '@/types';
+import type { GalleryFilters as GalleryFiltersType, GalleryReviewFilter } from '@/hooks/useGalleryFilters';
 
-type ViewMode = 'grid' | 'list';
+type ViewMode = 'grid' | 'list' | 'timeline';
 
 interface GalleryToolbarProps {
   viewMode: ViewMode;
@@ -14,6 +14,8 @@ interface GalleryToolbarProps {
   filters: GalleryFiltersType;
   setSearch: (search: string) => void;
   setStatus: (status: ArtifactStatus | 'all') => void;
+  setReview: (review: GalleryReviewFilter) => void;
+  setTerm: (vocabulary: VocabularyName, termId: string | 'all') => void;
   setSortBy: (sortBy: 'date' | 'name' | 'status') => void;
   toggleSortOrder: () => void;
   resultCount: number;
@@ -25,6 +27,8 @@ export function GalleryToolbar({
   filters,
   setSearch,
   setStatus,
+  setReview,
+  setTerm,
   setSortBy,
   toggleSortOrder,
   resultCount,
@@ -61,6 +65,18 @@ export function GalleryToolbar({
           >
             <List className="h-4 w-4" />
           </button>
+          <button
+            onClick={() => onViewModeChange('timeline')}
+            className={cn(
+              'rounded p-2 transition-colors',
+              viewMode === 'timeline'
+                ? 'bg-terracotta text-bone-white'
+                : 'text-stone-gray hover:text-charcoal hover:bg-desert-sand/20'
+            )}
+            aria-label={t('pages.gallery.timelineView')}
+          >
+            <ChartGantt className="h-4 w-4" />
+          </button>
         </div>
 
         {/* New Capture Button */}
@@ -78,6 +94,8 @@ export function GalleryToolbar({
         filters={filters}
         setSearch={setSearch}
         setStatus={setStatus}
+        setReview={setReview}
+        setTerm={setTerm}
         setSortBy={setSortBy}
         toggleSortOrder={toggleSortOrder}
         resultCount={resultCount}
@@ -2,5 +2,6 @@ export { ArtifactCard } from './ArtifactCard';
 export { ArtifactListItem } from './ArtifactListItem';
 export { GalleryGrid } from './GalleryGrid';
 export { GalleryList } from './GalleryList';
+export { GalleryTimeline } from './GalleryTimeline';
 export { GalleryFilters } from './GalleryFilters';
 export { GalleryToolbar } from './GalleryToolbar';
@@ -11,10 +11,20 @@ import {
   ChevronUp,
   Sparkles,
   Edit3,
+  Languages,
+  MessageSquare,
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
-import type { InfoCard } from '@/types';
+import { isRtlLanguage } from '@/i18n';
+import { getInfoCardLanguage } from '@/lib/api/infoCardSchema';
+import { parseDateRange, formatDateSpan } from '@/lib/utils/dateRange';
+import { VOCABULARY_NAMES } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import { REVIEW_STATUS_STYLES } from './reviewStatus';
+import type { InfoCard, InfoCardField } from '@/types';
+
+type CardLanguage = NonNullable<InfoCard['language']>;
 
 interface InfoCardDisplayProps {
   /** The info card data to display */
@@ -70,16 +80,48 @@ export function InfoCardDisplay({
   showEditButton = true,
   compact = false,
 }: InfoCardDisplayProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [expandedSection, setExpandedSection] = useState<string | null>(
     compact ? null : 'material'
   );
+  const [selectedLanguage, setSelectedLanguage] = useState<CardLanguage | null>(null);
+
+  // Bilingual cards can be read in either language; show the interface
+  // language first when the card has it
+  const cardLanguage: CardLanguage = infoCard.language || 'en';
+  const languages: CardLanguage[] = [
+    cardLanguage,
+    ...(Object.keys(infoCard.translations || {}) as CardLanguage[]).filter(
+      (language) => language !== cardLanguage
+    ),
+  ];
+  const interfaceLanguage = getInfoCardLanguage(i18n.language);
+  const viewLanguage =
+    selectedLanguage && languages.includes(selectedLanguage)
+      ? selectedLanguage
+      : languages.includes(interfaceLanguage)
+        ? interfaceLanguage
+        : cardLanguage;
+  const translation = viewLanguage !== cardLanguage ? infoCard.translations?.[viewLanguage] : undefined;
+  const content = translation ? { ...infoCard, ...translation } : infoCard;
 
   const toggleSection = (section: string) => {
     setExpandedSection(expandedSection === section ? null : section);
   };
 
-  const ConfidenceIcon = getConfidenceIcon(infoCard.estimatedAge.confidence);
+  const ConfidenceIcon = getConfidenceIcon(content.estimatedAge.confidence);
+  const dateSpan = parseDateRange(content.estimatedAge.range);
+
+  const review = infoCard.review && infoCard.review.status !== 'ai-draft' ? infoCard.review : undefined;
+  const ReviewIcon = review ? REVIEW_STATUS_STYLES[review.status].icon : null;
+  const fieldComment = (field: InfoCardField) => review?.fieldComments?.[field];
+
+  const { getTerm, getLabel } = useVocabulary();
+  const mappedTerms = VOCABULARY_NAMES.flatMap((vocabulary) => {
+    const match = infoCard.terms?.[vocabulary];
+    const term = getTerm(match?.termId);
+    return match && term && !term.hidden ? [{ vocabulary, term, raw: match.raw }] : [];
+  });
 
   return (
     <div className="space-y-3">
@@ -107,111 +149,119 @@ export function InfoCardDisplay({
         )}
       </div>
 
-      {/* Human edited badge */}
-      {infoCard.isHumanEdited && (
-        <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-oxidized-bronze/10 border border-oxidized-bronze/30 text-sm">
-          <Edit3 className="h-4 w-4 text-oxidized-bronze" />
-          <span className="text-oxidized-bronze">{t('components.infoCard.display.editedByArchaeologist')}</span>
+      {/* Language toggle (bilingual cards) */}
+      {languages.length > 1 && (
+        <div className="flex items-center gap-2">
+          <Languages className="h-4 w-4 text-stone-gray" />
+          <div
+            className="inline-flex rounded-lg border border-desert-sand bg-aged-paper p-0.5"
+            role="radiogroup"
+            aria-label={t('components.infoCard.display.cardLanguage')}
+          >
+            {languages.map((language) => (
+              <button
+                key={language}
+                type="button"
+                role="radio"
+                aria-checked={language === viewLanguage}
+                onClick={() => setSelectedLanguage(language)}
+                className={cn(
+                  'px-3 py-1 rounded-md text-sm transition-colors',
+                  language === viewLanguage
+                    ? 'bg-terracotta text-bone-white'
+                    : 'text-charcoal hover:bg-desert-sand/50'
+                )}
+              >
+                {t(`components.infoCard.display.languageNames.${language}`)}
+              </button>
+            ))}
+          </div>
         </div>
       )}
 
-      {/* Material Section */}
-      <InfoSection
-        icon={Gem}
-        title={t('components.infoCard.display.material')}
-        content={infoCard.material}
-        isExpanded={!compact || expandedSection === 'material'}
-        onToggle={() => compact && toggleSection('material')}
-        compact={compact}
-      />
-
-      {/* Estimated Age Section */}
-      <div className="rounded-xl border border-desert-sand overflow-hidden">
-        <button
-          onClick={() => compact && toggleSection('age')}
+      {/* Specialist review */}
+      {review && ReviewIcon && (
+        <div
           className={cn(
-            'w-full flex items-center justify-between p-3 text-left',
-            compact ? 'hover:bg-aged-paper transition-colors' : ''
+            'px-3 py-2 rounded-lg border text-sm space-y-1',
+            REVIEW_STATUS_STYLES[review.status].className
           )}
         >
           <div className="flex items-center gap-2">
-            <Clock className="h-4 w-4 text-terracotta" />
-            <span className="text-xs font-medium text-stone-gray uppercase tracking-wide">
-              {t('components.infoCard.display.estimatedAge')}
+            <ReviewIcon className="h-4 w-4 flex-shrink-0" />
+            <span className="font-medium">
+              {t(`components.infoCard.display.reviewSummary.${review.status}`, {
+                name: review.reviewerName || t('components.infoCard.display.aSpecialist'),
+                date: review.reviewedAt ? new Date(review.reviewedAt).toLocaleDateString(i18n.language) : '',
+              })}
             </span>
           </div>
-          {compact && (
-            expandedSection === 'age' ? (
-              <ChevronUp className="h-4 w-4 text-stone-gray" />
-            ) : (
-              <ChevronDown className="h-4 w-4 text-stone-gray" />
-            )
+          {review.comment && (
+            <p dir="auto" className="text-charcoal whitespace-pre-line">{review.comment}</p>
           )}
-        </button>
+        </div>
+      )}
 
-        {(!compact || expandedSection === 'age') && (
-          <div className="px-3 pb-3 pt-0 space-y-2">
-            <p className="text-charcoal font-medium">{infoCard.estimatedAge.range}</p>
+      {/* Human edited badge */}
+      {infoCard.isHumanEdited && (
+        <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-oxidized-bronze/10 border border-oxidized-bronze/30 text-sm">
+          <Edit3 className="h-4 w-4 text-oxidized-bronze" />
+          <span className="text-oxidized-bronze">
+            {translation
+              ? t('components.infoCard.display.translationNotEdited')
+              : t('components.infoCard.display.editedByArchaeologist')}
+          </span>
+        </div>
+      )}
 
-            {/* Confidence badge */}
-            <div
-              className={cn(
-                'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-medium',
-                getConfidenceColor(infoCard.estimatedAge.confidence)
-              )}
+      {/* Preferred vocabulary terms */}
+      {mappedTerms.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="text-stone-gray">{t('components.infoCard.display.terms')}</span>
+          {mappedTerms.map(({ vocabulary, term, raw }) => (
+            <span
+              key={vocabulary}
+              title={t('components.infoCard.display.termFrom', {
+                vocabulary: t(`components.vocabulary.vocabularies.${vocabulary}`),
+                raw,
+              })}
+              className="px-2 py-0.5 rounded-full bg-aged-paper border border-desert-sand text-charcoal"
             >
-              <ConfidenceIcon className="h-3 w-3" />
-              {t(`components.infoCard.display.confidence${infoCard.estimatedAge.confidence.charAt(0).toUpperCase() + infoCard.estimatedAge.confidence.slice(1)}`)}
-            </div>
+              {getLabel(term)}
+            </span>
+          ))}
+        </div>
+      )}
 
-            {/* Reasoning */}
-            {infoCard.estimatedAge.reasoning && (
-              <p className="text-sm text-stone-gray mt-2 italic">
-                "{infoCard.estimatedAge.reasoning}"
-              </p>
-            )}
-          </div>
-        )}
-      </div>
+      <div className="space-y-3" lang={viewLanguage} dir={isRtlLanguage(viewLanguage) ? 'rtl' : 'ltr'}>
+        {/* Material Section */}
+        <InfoSection
+          icon={Gem}
+          title={t('components.infoCard.display.material')}
+          content={content.material}
+          comment={fieldComment('material')}
+          isExpanded={!compact || expandedSection === 'material'}
+          onToggle={() => compact && toggleSection('material')}
+          compact={compact}
+        />
 
-      {/* Possible Use Section */}
-      <InfoSection
-        icon={Wrench}
-        title={t('components.infoCard.display.possibleUse')}
-        content={infoCard.possibleUse}
-        isExpanded={!compact || expandedSection === 'use'}
-        onToggle={() => compact && toggleSection('use')}
-        compact={compact}
-      />
-
-      {/* Cultural Context Section */}
-      <InfoSection
-        icon={Globe}
-        title={t('components.infoCard.display.culturalContext')}
-        content={infoCard.culturalContext}
-        isExpanded={!compact || expandedSection === 'culture'}
-        onToggle={() => compact && toggleSection('culture')}
-        compact={compact}
-      />
-
-      {/* Similar Artifacts Section */}
-      {infoCard.similarArtifacts && infoCard.similarArtifacts.length > 0 && (
+        {/* Estimated Age Section */}
         <div className="rounded-xl border border-desert-sand overflow-hidden">
           <button
-            onClick={() => compact && toggleSection('similar')}
+            onClick={() => compact && toggleSection('age')}
             className={cn(
               'w-full flex items-center justify-between p-3 text-left',
               compact ? 'hover:bg-aged-paper transition-colors' : ''
             )}
           >
             <div className="flex items-center gap-2">
-              <Archive className="h-4 w-4 text-terracotta" />
+              <Clock className="h-4 w-4 text-terracotta" />
               <span className="text-xs font-medium text-stone-gray uppercase tracking-wide">
-                {t('components.infoCard.display.similarArtifacts')}
+                {t('components.infoCard.display.estimatedAge')}
               </span>
             </div>
             {compact && (
-              expandedSection === 'similar' ? (
+              expandedSection === 'age' ? (
                 <ChevronUp className="h-4 w-4 text-stone-gray" />
               ) : (
                 <ChevronDown className="h-4 w-4 text-stone-gray" />
@@ -219,42 +269,124 @@ export function InfoCardDisplay({
             )}
           </button>
 
-          {(!compact || expandedSection === 'similar') && (
-            <div className="px-3 pb-3 pt-0">
-              <ul className="space-y-1">
-                {infoCard.similarArtifacts.map((artifact, index) => (
-                  <li
-                    key={index}
-                    className="flex items-start gap-2 text-charcoal"
-                  >
-                    <span className="text-terracotta mt-1">•</span>
-                    <span>{artifact}</span>
-                  </li>
-                ))}
-              </ul>
+          {(!compact || expandedSection === 'age') && (
+            <div className="px-3 pb-3 pt-0 space-y-2">
+              <p className="text-charcoal font-medium">{content.estimatedAge.range}</p>
+              {dateSpan && (
+                <p className="text-xs text-stone-gray">
+                  {t('components.infoCard.display.dateSpan', { span: formatDateSpan(dateSpan, t) })}
+                </p>
+              )}
+
+              {/* Confidence badge */}
+              <div
+                className={cn(
+                  'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-medium',
+                  getConfidenceColor(content.estimatedAge.confidence)
+                )}
+              >
+                <ConfidenceIcon className="h-3 w-3" />
+                {t(`components.infoCard.display.confidence${content.estimatedAge.confidence.charAt(0).toUpperCase() + content.estimatedAge.confidence.slice(1)}`)}
+              </div>
+
+              {/* Reasoning */}
+              {content.estimatedAge.reasoning && (
+                <p className="text-sm text-stone-gray mt-2 italic">
+                  "{content.estimatedAge.reasoning}"
+                </p>
+              )}
+
+              <ReviewComment comment={fieldComment('estimatedAge')} />
             </div>
           )}
         </div>
-      )}
 
-      {/* Preservation Notes Section */}
-      <InfoSection
-        icon={Shield}
-        title={t('components.infoCard.display.preservationNotes')}
-        content={infoCard.preservationNotes}
-        isExpanded={!compact || expandedSection === 'preservation'}
-        onToggle={() => compact && toggleSection('preservation')}
-        compact={compact}
-        variant="warning"
-      />
-
-      {/* AI Disclaimer */}
-      <div className="rounded-xl bg-desert-teal/10 border border-desert-teal/30 p-4">
-        <div className="flex items-start gap-2">
-          <AlertTriangle className="h-4 w-4 text-desert-teal flex-shrink-0 mt-0.5" />
-          <div>
-            <p className="text-xs font-medium text-desert-teal mb-1">{t('components.infoCard.display.aiDisclaimer')}</p>
-            <p className="text-xs text-stone-gray">{infoCard.disclaimer}</p>
+        {/* Possible Use Section */}
+        <InfoSection
+          icon={Wrench}
+          title={t('components.infoCard.display.possibleUse')}
+          content={content.possibleUse}
+          comment={fieldComment('possibleUse')}
+          isExpanded={!compact || expandedSection === 'use'}
+          onToggle={() => compact && toggleSection('use')}
+          compact={compact}
+        />
+
+        {/* Cultural Context Section */}
+        <InfoSection
+          icon={Globe}
+          title={t('components.infoCard.display.culturalContext')}
+          content={content.culturalContext}
+          comment={fieldComment('culturalContext')}
+          isExpanded={!compact || expandedSection === 'culture'}
+          onToggle={() => compact && toggleSection('culture')}
+          compact={compact}
+        />
+
+        {/* Similar Artifacts Section */}
+        {content.similarArtifacts && content.similarArtifacts.length > 0 && (
+          <div className="rounded-xl border border-desert-sand overflow-hidden">
+            <button
+              onClick={() => compact && toggleSection('similar')}
+              className={cn(
+                'w-full flex items-center justify-between p-3 text-left',
+                compact ? 'hover:bg-aged-paper transition-colors' : ''
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <Archive className="h-4 w-4 text-terracotta" />
+                <span className="text-xs font-medium text-stone-gray uppercase tracking-wide">
+                  {t('components.infoCard.display.similarArtifacts')}
+                </span>
+              </div>
+              {compact && (
+                expandedSection === 'similar' ? (
+                  <ChevronUp className="h-4 w-4 text-stone-gray" />
+                ) : (
+                  <ChevronDown className="h-4 w-4 text-stone-gray" />
+                )
+              )}
+            </button>
+
+            {(!compact || expandedSection === 'similar') && (
+              <div className="px-3 pb-3 pt-0">
+                <ul className="space-y-1">
+                  {content.similarArtifacts.map((artifact, index) => (
+                    <li
+                      key={index}
+                      className="flex items-start gap-2 text-charcoal"
+                    >
+                      <span className="text-terracotta mt-1">•</span>
+                      <span>{artifact}</span>
+                    </li>
+                  ))}
+                </ul>
+                <ReviewComment comment={fieldComment('similarArtifacts')} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Preservation Notes Section */}
+        <InfoSection
+          icon={Shield}
+          title={t('components.infoCard.display.preservationNotes')}
+          content={content.preservationNotes}
+          comment={fieldComment('preservationNotes')}
+          isExpanded={!compact || expandedSection === 'preservation'}
+          onToggle={() => compact && toggleSection('preservation')}
+          compact={compact}
+          variant="warning"
+        />
+
+        {/* AI Disclaimer */}
+        <div className="rounded-xl bg-desert-teal/10 border border-desert-teal/30 p-4">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="h-4 w-4 text-desert-teal flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-xs font-medium text-desert-teal mb-1">{t('components.infoCard.display.aiDisclaimer')}</p>
+              <p className="text-xs text-stone-gray">{content.disclaimer}</p>
+            </div>
           </div>
         </div>
       </div>
@@ -274,6 +406,8 @@ interface InfoSectionProps {
   icon: React.ComponentType<{ className?: string }>;
   title: string;
   content: string;
+  /** Reviewer's comment on the field */
+  comment?: string;
   isExpanded: boolean;
   onToggle: () => void;
   compact: boolean;
@@ -284,6 +418,7 @@ function InfoSection({
   icon: Icon,
   title,
   content,
+  comment,
   isExpanded,
   onToggle,
   compact,
@@ -323,10 +458,28 @@ function InfoSection({
       {isExpanded && (
         <div className="px-3 pb-3 pt-0">
           <p className="text-charcoal">{content}</p>
+          <ReviewComment comment={comment} />
         </div>
       )}
     </div>
   );
 }
 
+/**
+ * A reviewer's comment under a field
+ */
+function ReviewComment({ comment }: { comment?: string }) {
+  const { t } = useTranslation();
+  if (!comment) return null;
+
+  return (
+    <p dir="auto" className="flex items-start gap-1.5 mt-2 text-sm text-desert-teal">
+      <MessageSquare className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+      <span>
+        <span className="font-medium">{t('components.infoCard.display.reviewerComment')}:</span> {comment}
+      </span>
+    </p>
+  );
+}
+
 export default InfoCardDisplay;
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import {
   Gem,
   Clock,
@@ -15,7 +15,10 @@ import {
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { updateInfoCard } from '@/lib/db';
-import type { InfoCard } from '@/types';
+import { findTerm } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import { TermInput } from '@/components/vocabulary';
+import type { InfoCard, InfoCardField } from '@/types';
 
 interface InfoCardEditorProps {
   /** The info card to edit */
@@ -53,6 +56,11 @@ export function InfoCardEditor({
     infoCard.preservationNotes
   );
 
+  // The object type the possible use maps to; material and age suggest
+  // terms as they are typed
+  const { terms, getLabel } = useVocabulary();
+  const objectType = useMemo(() => findTerm(terms, 'objectType', possibleUse), [terms, possibleUse]);
+
   // UI state
   const [isSaving, setIsSaving] = useState(false);
   const [newSimilarArtifact, setNewSimilarArtifact] = useState('');
@@ -98,6 +106,24 @@ export function InfoCardEditor({
     setIsSaving(true);
 
     try {
+      // Remember which fields were changed so regeneration leaves them alone
+      const changed: Record<InfoCardField, boolean> = {
+        material: material !== infoCard.material,
+        estimatedAge:
+          ageRange !== infoCard.estimatedAge.range ||
+          ageConfidence !== infoCard.estimatedAge.confidence ||
+          ageReasoning !== (infoCard.estimatedAge.reasoning || ''),
+        possibleUse: possibleUse !== infoCard.possibleUse,
+        culturalContext: culturalContext !== infoCard.culturalContext,
+        similarArtifacts:
+          similarArtifacts.join('\n') !== (infoCard.similarArtifacts || []).join('\n'),
+        preservationNotes: preservationNotes !== infoCard.preservationNotes,
+      };
+      const humanEditedFields = new Set(infoCard.humanEditedFields);
+      for (const [field, isChanged] of Object.entries(changed)) {
+        if (isChanged) humanEditedFields.add(field as InfoCardField);
+      }
+
       const updates: Partial<InfoCard> = {
         material,
         estimatedAge: {
@@ -110,12 +136,13 @@ export function InfoCardEditor({
         similarArtifacts,
         preservationNotes,
         isHumanEdited: true,
+        humanEditedFields: [...humanEditedFields],
         updatedAt: new Date(),
       };
 
-      await updateInfoCard(infoCard.id, updates);
+      const savedCard = await updateInfoCard(infoCard.id, updates);
 
-      const updatedCard: InfoCard = {
+      const updatedCard: InfoCard = savedCard ?? {
         ...infoCard,
         ...updates,
         estimatedAge: {
@@ -167,12 +194,7 @@ export function InfoCardEditor({
           <Gem className="h-3.5 w-3.5 text-terracotta" />
           {t('components.infoCard.editor.material')}
         </label>
-        <input
-          type="text"
-          value={material}
-          onChange={(e) => setMaterial(e.target.value)}
-          className="w-full px-3 py-2.5 rounded-lg border border-desert-sand bg-bone-white text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta"
-        />
+        <TermInput vocabulary="material" value={material} onChange={setMaterial} />
       </div>
 
       {/* Estimated Age */}
@@ -182,12 +204,11 @@ export function InfoCardEditor({
           {t('components.infoCard.editor.estimatedAge')}
         </label>
 
-        <input
-          type="text"
+        <TermInput
+          vocabulary="period"
           value={ageRange}
-          onChange={(e) => setAgeRange(e.target.value)}
+          onChange={setAgeRange}
           placeholder="e.g., 500-300 BCE"
-          className="w-full px-3 py-2.5 rounded-lg border border-desert-sand bg-bone-white text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta"
         />
 
         <div>
@@ -243,6 +264,11 @@ export function InfoCardEditor({
           rows={2}
           className="w-full px-3 py-2.5 rounded-lg border border-desert-sand bg-bone-white text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta resize-none"
         />
+        {objectType && (
+          <p className="mt-1 text-xs text-stone-gray">
+            {t('components.vocabulary.mapsTo', { term: getLabel(objectType) })}
+          </p>
+        )}
       </div>
 
       {/* Cultural Context */}
@@ -10,7 +10,9 @@ import {
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
-import type { InfoCard, Artifact, ArtifactImage } from '@/types';
+import { getLocationMetadata } from '@/lib/excavation';
+import { useArtifactLocation } from '@/hooks/useArtifactLocation';
+import type { InfoCard, InfoCardField, Artifact, ArtifactImage } from '@/types';
 
 /**
  * Escape HTML to prevent XSS attacks in PDF export
@@ -21,6 +23,37 @@ function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
+/**
+ * Disclaimer wording for a card a specialist has reviewed
+ * Returns null for AI drafts, which keep the AI disclaimer
+ */
+function getReviewDisclaimer(infoCard: InfoCard): { title: string; text: string } | null {
+  const review = infoCard.review;
+  if (!review || review.status === 'ai-draft') return null;
+
+  const reviewer = review.reviewerName || 'a specialist';
+  const date = review.reviewedAt ? ` on ${new Date(review.reviewedAt).toLocaleDateString()}` : '';
+  const comment = review.comment ? ` Reviewer comment: ${review.comment}` : '';
+
+  switch (review.status) {
+    case 'in-review':
+      return {
+        title: 'Under Review',
+        text: `This analysis was AI-generated and is being reviewed by ${reviewer}; it has not been verified yet.${comment}`,
+      };
+    case 'verified':
+      return {
+        title: 'Expert Review',
+        text: `This analysis was AI-generated and verified by ${reviewer}${date}.${comment}`,
+      };
+    case 'rejected':
+      return {
+        title: 'Rejected',
+        text: `This AI-generated analysis was rejected by ${reviewer}${date} and should not be relied on.${comment}`,
+      };
+  }
+}
+
 interface InfoCardExportProps {
   /** The info card to export */
   infoCard: InfoCard;
@@ -40,7 +73,8 @@ export function InfoCardExport({
   images,
   onClose,
 }: InfoCardExportProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const location = useArtifactLocation(artifact);
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('pdf');
   const [isExporting, setIsExporting] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
@@ -53,7 +87,14 @@ export function InfoCardExport({
 
     try {
       // Create printable HTML content
-      const artifactName = artifact.metadata?.name || `Artifact #${artifact.id.slice(0, 8)}`;
+      const artifactName = artifact.metadata?.name || artifact.registrationNumber || `Artifact #${artifact.id.slice(0, 8)}`;
+      // The report is in English, so is the find spot
+      const metadata = getLocationMetadata(artifact.metadata, location, i18n.getFixedT('en'));
+      const reviewDisclaimer = getReviewDisclaimer(infoCard);
+      const fieldComment = (field: InfoCardField) => {
+        const comment = infoCard.review?.fieldComments?.[field];
+        return comment ? `<p class="review-comment"><strong>Reviewer:</strong> ${escapeHtml(comment)}</p>` : '';
+      };
 
       const htmlContent = `
 <!DOCTYPE html>
@@ -152,6 +193,22 @@ export function InfoCardExport({
       color: #6B6B6B;
     }
 
+    .disclaimer.verified {
+      background: rgba(74, 124, 89, 0.1);
+      border-color: rgba(74, 124, 89, 0.3);
+    }
+
+    .disclaimer.rejected {
+      background: rgba(166, 61, 47, 0.1);
+      border-color: rgba(166, 61, 47, 0.3);
+    }
+
+    .review-comment {
+      margin-top: 0.5rem;
+      font-size: 0.875rem;
+      color: #3D8B8B;
+    }
+
     .footer {
       margin-top: 2rem;
       padding-top: 1rem;
@@ -171,12 +228,14 @@ export function InfoCardExport({
 <body>
   <div class="header">
     <h1>${escapeHtml(artifactName)}</h1>
+    ${artifact.registrationNumber && artifact.metadata?.name ? `<p class="subtitle">Reg. no. ${escapeHtml(artifact.registrationNumber)}</p>` : ''}
     <p class="subtitle">Archaeological Artifact Report • Generated ${new Date().toLocaleDateString()}</p>
   </div>
 
   <div class="section">
     <h3>Material</h3>
     <p>${escapeHtml(infoCard.material)}</p>
+    ${fieldComment('material')}
   </div>
 
   <div class="section">
@@ -186,16 +245,19 @@ export function InfoCardExport({
       ${infoCard.estimatedAge.confidence.toUpperCase()} CONFIDENCE
     </span>
     ${infoCard.estimatedAge.reasoning ? `<p style="margin-top: 0.5rem; font-style: italic;">"${escapeHtml(infoCard.estimatedAge.reasoning)}"</p>` : ''}
+    ${fieldComment('estimatedAge')}
   </div>
 
   <div class="section">
     <h3>Possible Use</h3>
     <p>${escapeHtml(infoCard.possibleUse)}</p>
+    ${fieldComment('possibleUse')}
   </div>
 
   <div class="section">
     <h3>Cultural Context</h3>
     <p>${escapeHtml(infoCard.culturalContext)}</p>
+    ${fieldComment('culturalContext')}
   </div>
 
   ${infoCard.similarArtifacts && infoCard.similarArtifacts.length > 0 ? `
@@ -204,26 +266,34 @@ export function InfoCardExport({
     <ul class="similar-list">
       ${infoCard.similarArtifacts.map(a => `<li>${escapeHtml(a)}</li>`).join('')}
     </ul>
+    ${fieldComment('similarArtifacts')}
   </div>
   ` : ''}
 
   <div class="section">
     <h3>Preservation Notes</h3>
     <p>${escapeHtml(infoCard.preservationNotes)}</p>
+    ${fieldComment('preservationNotes')}
   </div>
 
-  ${artifact.metadata?.siteName || artifact.metadata?.discoveryLocation ? `
+  ${metadata.siteName || metadata.discoveryLocation ? `
   <div class="section">
     <h3>Discovery Context</h3>
-    ${artifact.metadata?.siteName ? `<p><strong>Site:</strong> ${escapeHtml(artifact.metadata.siteName)}</p>` : ''}
-    ${artifact.metadata?.discoveryLocation ? `<p><strong>Location:</strong> ${escapeHtml(artifact.metadata.discoveryLocation)}</p>` : ''}
-    ${artifact.metadata?.excavationLayer ? `<p><strong>Layer:</strong> ${escapeHtml(artifact.metadata.excavationLayer)}</p>` : ''}
+    ${metadata.siteName ? `<p><strong>Site:</strong> ${escapeHtml(metadata.siteName)}</p>` : ''}
+    ${metadata.discoveryLocation ? `<p><strong>Location:</strong> ${escapeHtml(metadata.discoveryLocation)}</p>` : ''}
+    ${metadata.excavationLayer ? `<p><strong>Layer:</strong> ${escapeHtml(metadata.excavationLayer)}</p>` : ''}
   </div>
   ` : ''}
 
+  ${reviewDisclaimer ? `
+  <div class="disclaimer ${infoCard.review?.status}">
+    <strong>${reviewDisclaimer.title}:</strong> ${escapeHtml(reviewDisclaimer.text)}
+  </div>
+  ` : `
   <div class="disclaimer">
     <strong>AI Disclaimer:</strong> ${escapeHtml(infoCard.disclaimer)}
   </div>
+  `}
 
   <div class="footer">
     <span>AI Model: ${infoCard.aiModel}</span>
@@ -258,7 +328,7 @@ export function InfoCardExport({
     } finally {
       setIsExporting(false);
     }
-  }, [artifact, infoCard]);
+  }, [artifact, infoCard, location, i18n]);
 
   /**
    * Export as JSON
@@ -273,7 +343,8 @@ export function InfoCardExport({
           createdAt: artifact.createdAt,
           updatedAt: artifact.updatedAt,
           status: artifact.status,
-          metadata: artifact.metadata,
+          registrationNumber: artifact.registrationNumber,
+          metadata: getLocationMetadata(artifact.metadata, location, i18n.getFixedT('en')),
         },
         infoCard: {
           id: infoCard.id,
@@ -288,7 +359,8 @@ export function InfoCardExport({
           aiModel: infoCard.aiModel,
           aiConfidence: infoCard.aiConfidence,
           isHumanEdited: infoCard.isHumanEdited,
-          disclaimer: infoCard.disclaimer,
+          review: infoCard.review,
+          disclaimer: getReviewDisclaimer(infoCard)?.text ?? infoCard.disclaimer,
         },
         exportedAt: new Date().toISOString(),
         version: '1.0',
@@ -310,16 +382,17 @@ export function InfoCardExport({
     } finally {
       setIsExporting(false);
     }
-  }, [artifact, infoCard]);
+  }, [artifact, infoCard, location, i18n]);
 
   /**
    * Copy share text to clipboard
    */
   const copyShareText = useCallback(async () => {
-    const artifactName = artifact.metadata?.name || `Artifact #${artifact.id.slice(0, 8)}`;
+    const artifactName = artifact.metadata?.name || artifact.registrationNumber || `Artifact #${artifact.id.slice(0, 8)}`;
+    const reviewDisclaimer = getReviewDisclaimer(infoCard);
 
     const shareText = `
-Archaeological Artifact: ${artifactName}
+Archaeological Artifact: ${artifactName}${artifact.registrationNumber && artifact.metadata?.name ? ` (${artifact.registrationNumber})` : ''}
 
 📦 Material: ${infoCard.material}
 📅 Estimated Age: ${infoCard.estimatedAge.range} (${infoCard.estimatedAge.confidence} confidence)
@@ -327,7 +400,9 @@ Archaeological Artifact: ${artifactName}
 🌍 Cultural Context: ${infoCard.culturalContext}
 ${infoCard.similarArtifacts && infoCard.similarArtifacts.length > 0 ? `\n📚 Similar Artifacts:\n${infoCard.similarArtifacts.map(a => `  • ${a}`).join('\n')}` : ''}
 
-⚠️ Note: This analysis was AI-generated and should be verified by qualified archaeologists.
+${reviewDisclaimer
+  ? `${infoCard.review?.status === 'verified' ? '✅' : '⚠️'} ${reviewDisclaimer.title}: ${reviewDisclaimer.text}`
+  : '⚠️ Note: This analysis was AI-generated and should be verified by qualified archaeologists.'}
 
 ---
 Generated with Save The Past
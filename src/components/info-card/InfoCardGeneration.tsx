@@ -5,16 +5,22 @@ import {
   X,
   AlertCircle,
   RotateCcw,
+  Clock,
+  Check,
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useGenerateInfoCard } from '@/hooks/useGenerateInfoCard';
+import { selectInfoCardImages } from '@/lib/api/infoCardImages';
+import { getInfoCardLanguage } from '@/lib/api/infoCardSchema';
+import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/stores/appStore';
 import { MetadataForm } from './MetadataForm';
 import type { ArtifactMetadata, InfoCard, ArtifactImage } from '@/types';
 
 interface InfoCardGenerationProps {
   /** Artifact ID to generate info card for */
   artifactId: string;
-  /** Images to use for generation (first one will be used) */
+  /** Images to use for generation (every view is sent, labelled) */
   images: ArtifactImage[];
   /** Initial metadata from artifact */
   initialMetadata?: ArtifactMetadata;
@@ -24,7 +30,7 @@ interface InfoCardGenerationProps {
   onCancel?: () => void;
 }
 
-type GenerationStep = 'metadata' | 'generating' | 'complete' | 'error';
+type GenerationStep = 'metadata' | 'generating' | 'queued' | 'complete' | 'error';
 
 export function InfoCardGeneration({
   artifactId,
@@ -33,25 +39,30 @@ export function InfoCardGeneration({
   onComplete,
   onCancel,
 }: InfoCardGenerationProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const { bilingualInfoCards, setBilingualInfoCards } = useSettingsStore();
+  // The card is written in the interface language; bilingual adds the other
+  const otherLanguage = getInfoCardLanguage(i18n.language) === 'he' ? 'en' : 'he';
   // State
   const [step, setStep] = useState<GenerationStep>('metadata');
   const [metadata, setMetadata] = useState<ArtifactMetadata>(initialMetadata || {});
 
-  // Memoize image URL to prevent memory leaks
-  const primaryImageUrl = useMemo(() => {
-    if (images.length === 0) return null;
-    return URL.createObjectURL(images[0].blob);
-  }, [images]);
+  // The photos that will be sent, in the order the model sees them
+  const selectedImages = useMemo(() => selectInfoCardImages(images), [images]);
 
-  // Cleanup object URL on unmount
+  // Memoize image URLs to prevent memory leaks
+  const imageUrls = useMemo(
+    () => selectedImages.map((image) => URL.createObjectURL(image.blob)),
+    [selectedImages]
+  );
+  const primaryImageUrl = imageUrls[0] ?? null;
+
+  // Cleanup object URLs on unmount
   useEffect(() => {
     return () => {
-      if (primaryImageUrl) {
-        URL.revokeObjectURL(primaryImageUrl);
-      }
+      imageUrls.forEach((url) => URL.revokeObjectURL(url));
     };
-  }, [primaryImageUrl]);
+  }, [imageUrls]);
 
   // Generation hook
   const {
@@ -71,6 +82,9 @@ export function InfoCardGeneration({
     onError: () => {
       setStep('error');
     },
+    onQueued: () => {
+      setStep('queued');
+    },
   });
 
   /**
@@ -83,7 +97,7 @@ export function InfoCardGeneration({
     }
 
     setStep('generating');
-    await generateCard(images[0].blob, metadata);
+    await generateCard(images, metadata);
   }, [images, metadata, generateCard]);
 
   /**
@@ -145,6 +159,31 @@ export function InfoCardGeneration({
     );
   }
 
+  // Queued for when the connection returns
+  if (step === 'queued') {
+    return (
+      <div className="rounded-xl border border-terracotta/30 bg-terracotta/5 p-6">
+        <div className="text-center">
+          <div className="h-12 w-12 rounded-full bg-terracotta/10 flex items-center justify-center mx-auto mb-3">
+            <Clock className="h-6 w-6 text-terracotta" />
+          </div>
+          <h3 className="font-heading font-semibold text-charcoal mb-2">
+            {t('components.infoCard.queuedTitle')}
+          </h3>
+          <p className="text-sm text-stone-gray mb-4">
+            {t('components.infoCard.queuedDesc')}
+          </p>
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 rounded-lg border border-desert-sand text-charcoal hover:bg-aged-paper transition-colors"
+          >
+            {t('common.buttons.done')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Error state
   if (step === 'error') {
     return (
@@ -245,20 +284,27 @@ export function InfoCardGeneration({
         </div>
       </div>
 
-      {/* Selected image preview */}
-      <div className="flex items-center gap-3 p-3 rounded-xl bg-aged-paper border border-desert-sand">
-        <img
-          src={primaryImageUrl || ''}
-          alt={t('components.infoCard.imageSelected')}
-          className="w-16 h-16 rounded-lg object-cover"
-        />
-        <div>
-          <p className="text-sm font-medium text-charcoal">
-            {t('components.infoCard.imageSelected')}
-          </p>
-          <p className="text-xs text-stone-gray capitalize">
-            {t('components.infoCard.imageInfo', { angle: images[0].angle })} • {t('components.infoCard.totalImages', { count: images.length })}
-          </p>
+      {/* Selected images preview */}
+      <div className="p-3 rounded-xl bg-aged-paper border border-desert-sand">
+        <p className="text-sm font-medium text-charcoal">
+          {t('components.infoCard.imagesSelected', { count: selectedImages.length })}
+        </p>
+        <p className="text-xs text-stone-gray mb-2">
+          {t('components.infoCard.totalImages', { count: images.length })}
+        </p>
+        <div className="flex gap-2 overflow-x-auto">
+          {selectedImages.map((image, index) => (
+            <figure key={image.id} className="flex-shrink-0 text-center">
+              <img
+                src={imageUrls[index]}
+                alt={t('components.infoCard.imageInfo', { angle: image.angle })}
+                className="w-16 h-16 rounded-lg object-cover"
+              />
+              <figcaption className="mt-1 text-xs text-stone-gray capitalize">
+                {image.angle}
+              </figcaption>
+            </figure>
+          ))}
         </div>
       </div>
 
@@ -269,6 +315,32 @@ export function InfoCardGeneration({
         compact
       />
 
+      {/* Bilingual option */}
+      <label className="flex items-center gap-3 cursor-pointer">
+        <button
+          type="button"
+          role="checkbox"
+          aria-checked={bilingualInfoCards}
+          onClick={() => setBilingualInfoCards(!bilingualInfoCards)}
+          className={cn(
+            'h-5 w-5 rounded border-2 flex items-center justify-center transition-colors',
+            bilingualInfoCards
+              ? 'bg-terracotta border-terracotta'
+              : 'border-desert-sand hover:border-terracotta/50'
+          )}
+        >
+          {bilingualInfoCards && <Check className="h-3 w-3 text-bone-white" />}
+        </button>
+        <div className="flex-1">
+          <span className="text-sm font-medium text-charcoal">{t('components.infoCard.bilingualTitle')}</span>
+          <p className="text-xs text-stone-gray">
+            {t('components.infoCard.bilingualDesc', {
+              language: t(`components.infoCard.display.languageNames.${otherLanguage}`),
+            })}
+          </p>
+        </div>
+      </label>
+
       {/* Action buttons */}
       <div className="flex gap-3 pt-4 border-t border-desert-sand">
         {onCancel && (
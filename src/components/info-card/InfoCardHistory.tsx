@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { History, X, RotateCcw, Sparkles, User, ArrowRight } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { getInfoCardRevisions, restoreInfoCardRevision } from '@/lib/db';
+import { diffInfoCardContent } from '@/lib/db/infoCardRevisions';
+import { LoadingSpinner } from '@/components/ui';
+import type { InfoCard, InfoCardField, InfoCardRevision } from '@/types';
+
+interface InfoCardHistoryProps {
+  /** The artifact whose card history to show */
+  artifactId: string;
+  /** The current card, which restores are applied to */
+  infoCard: InfoCard;
+  /** Called with the card after a revision was restored */
+  onRestore: (infoCard: InfoCard) => void;
+  /** Called when the history is closed */
+  onClose: () => void;
+}
+
+/**
+ * Revision history of an artifact's info card, with a field-level diff
+ * between any two revisions and restore
+ */
+export function InfoCardHistory({
+  artifactId,
+  infoCard,
+  onRestore,
+  onClose,
+}: InfoCardHistoryProps) {
+  const { t, i18n } = useTranslation();
+  const revisions = useLiveQuery(() => getInfoCardRevisions(artifactId), [artifactId]);
+
+  // Revision ids to compare; by default the latest change
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  if (!revisions) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const latest = revisions[revisions.length - 1];
+  const to = revisions.find((revision) => revision.id === toId) ?? latest;
+  const toIndex = revisions.indexOf(to);
+  const from = revisions.find((revision) => revision.id === fromId) ?? revisions[toIndex - 1];
+  const changes = from && to ? diffInfoCardContent(from.content, to.content) : [];
+  const changed = changes.filter((change) => change.changed);
+
+  const revisionLabel = (revision: InfoCardRevision) =>
+    `#${revisions.indexOf(revision) + 1} · ${new Date(revision.createdAt).toLocaleString(i18n.language)}`;
+
+  const authorLabel = (revision: InfoCardRevision) =>
+    revision.author === 'ai'
+      ? t('components.infoCard.history.byAI', { model: revision.aiModel || 'AI' })
+      : t('components.infoCard.history.byArchaeologist');
+
+  const formatValue = (field: InfoCardField, value: unknown): string => {
+    if (field === 'estimatedAge') {
+      const age = value as InfoCard['estimatedAge'];
+      const confidence = t(`components.infoCard.confidenceLevels.${age.confidence}`);
+      return [`${age.range} (${confidence})`, age.reasoning].filter(Boolean).join('\n');
+    }
+    if (field === 'similarArtifacts') {
+      return ((value as string[] | undefined) || []).join('\n');
+    }
+    return (value as string) || '';
+  };
+
+  const handleSelect = (revision: InfoCardRevision) => {
+    setToId(revision.id);
+    setFromId(null);
+  };
+
+  const handleRestore = async (revision: InfoCardRevision) => {
+    setRestoringId(revision.id);
+    try {
+      const restored = await restoreInfoCardRevision(infoCard.id, revision.id);
+      if (restored) {
+        setToId(null);
+        setFromId(null);
+        onRestore(restored);
+      }
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert(t('components.infoCard.history.failedToRestore'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between pb-3 border-b border-desert-sand">
+        <h3 className="flex items-center gap-2 font-heading font-semibold text-charcoal">
+          <History className="h-4 w-4 text-terracotta" />
+          {t('components.infoCard.history.title')}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-aged-paper text-stone-gray hover:text-charcoal transition-colors"
+          aria-label={t('common.buttons.close')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="text-sm text-stone-gray text-center py-4">{t('components.infoCard.history.empty')}</p>
+      ) : (
+        <>
+          {/* Comparison */}
+          {revisions.length > 1 && (
+            <div className="rounded-xl border border-desert-sand p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <select
+                  value={from?.id ?? ''}
+                  onChange={(e) => setFromId(e.target.value)}
+                  aria-label={t('components.infoCard.history.compareFrom')}
+                  className="flex-1 min-w-0 px-2 py-1.5 rounded-lg border border-desert-sand bg-bone-white text-xs text-charcoal"
+                >
+                  {!from && <option value="">—</option>}
+                  {revisions.map((revision) => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                  ))}
+                </select>
+                <ArrowRight className="h-4 w-4 text-stone-gray flex-shrink-0 rtl:-scale-x-100" />
+                <select
+                  value={to.id}
+                  onChange={(e) => setToId(e.target.value)}
+                  aria-label={t('components.infoCard.history.compareTo')}
+                  className="flex-1 min-w-0 px-2 py-1.5 rounded-lg border border-desert-sand bg-bone-white text-xs text-charcoal"
+                >
+                  {revisions.map((revision) => (
+                    <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {from && changed.length === 0 && (
+                <p className="text-sm text-stone-gray">{t('components.infoCard.history.noDifferences')}</p>
+              )}
+
+              {changed.map((change) => (
+                <div key={change.field} className="space-y-1">
+                  <p className="text-xs font-medium text-stone-gray uppercase tracking-wide">
+                    {t(`components.infoCard.display.${change.field}`)}
+                  </p>
+                  <p
+                    dir="auto"
+                    className="text-sm whitespace-pre-line rounded-lg px-2 py-1 bg-rust-red/10 text-rust-red line-through decoration-rust-red/50"
+                  >
+                    {formatValue(change.field, change.from) || '—'}
+                  </p>
+                  <p
+                    dir="auto"
+                    className="text-sm whitespace-pre-line rounded-lg px-2 py-1 bg-oxidized-bronze/10 text-charcoal"
+                  >
+                    {formatValue(change.field, change.to) || '—'}
+                  </p>
+                </div>
+              ))}
+
+              {from && changed.length > 0 && changed.length < changes.length && (
+                <p className="text-xs text-stone-gray">
+                  {t('components.infoCard.history.unchangedFields', { count: changes.length - changed.length })}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Revisions, newest first */}
+          <ol className="space-y-2">
+            {[...revisions].reverse().map((revision) => {
+              const isCurrent = revision.id === latest.id;
+              const AuthorIcon = revision.author === 'ai' ? Sparkles : User;
+              return (
+                <li
+                  key={revision.id}
+                  className={cn(
+                    'rounded-xl border p-3 transition-colors',
+                    revision.id === to.id ? 'border-terracotta bg-terracotta/5' : 'border-desert-sand'
+                  )}
+                >
+                  <div className="flex items-start gap-3">
+                    <button
+                      onClick={() => handleSelect(revision)}
+                      className="flex-1 min-w-0 text-left rtl:text-right space-y-1"
+                    >
+                      <div className="flex items-center gap-2 text-sm text-charcoal">
+                        <AuthorIcon
+                          className={cn(
+                            'h-3.5 w-3.5 flex-shrink-0',
+                            revision.author === 'ai' ? 'text-gold-ochre' : 'text-oxidized-bronze'
+                          )}
+                        />
+                        <span className="font-medium truncate">
+                          {t(`components.infoCard.history.actions.${revision.action}`)}
+                        </span>
+                        {isCurrent && (
+                          <span className="px-1.5 py-0.5 rounded bg-terracotta/10 text-terracotta text-xs">
+                            {t('components.infoCard.history.current')}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-stone-gray">
+                        {authorLabel(revision)} · {new Date(revision.createdAt).toLocaleString(i18n.language)}
+                      </p>
+                      {revision.changedFields.length > 0 && revision.action !== 'generated' && (
+                        <p className="text-xs text-stone-gray truncate">
+                          {revision.changedFields
+                            .map((field) => t(`components.infoCard.display.${field}`))
+                            .join(', ')}
+                        </p>
+                      )}
+                    </button>
+
+                    {!isCurrent && (
+                      <button
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg border border-desert-sand text-xs text-charcoal hover:bg-aged-paper transition-colors disabled:opacity-50"
+                      >
+                        {restoringId === revision.id ? (
+                          <LoadingSpinner size="sm" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3" />
+                        )}
+                        {t('components.infoCard.history.restore')}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import {
+  RefreshCw,
+  MessageCircle,
+  Send,
+  AlertTriangle,
+  AlertCircle,
+  Edit3,
+  WifiOff,
+} from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { INFO_CARD_FIELDS } from '@/lib/api/infoCardSchema';
+import { useRefineInfoCard, isFieldHumanEdited } from '@/hooks/useRefineInfoCard';
+import { useAppStore } from '@/stores/appStore';
+import { LoadingSpinner } from '@/components/ui';
+import type { InfoCard, InfoCardField, ArtifactImage, ArtifactMetadata } from '@/types';
+
+interface InfoCardRefineProps {
+  /** The card to refine */
+  infoCard: InfoCard;
+  /** The artifact's photos */
+  images: ArtifactImage[];
+  /** Excavation context sent with each request */
+  metadata?: ArtifactMetadata;
+  /** Called with the saved card after each change */
+  onUpdate: (infoCard: InfoCard) => void;
+}
+
+/**
+ * Follow-ups on an info card: regenerate one field with extra context, or
+ * ask questions about the artifact in a thread saved with the card
+ */
+export function InfoCardRefine({
+  infoCard,
+  images,
+  metadata,
+  onUpdate,
+}: InfoCardRefineProps) {
+  const { t, i18n } = useTranslation();
+  const isOnline = useAppStore((s) => s.isOnline);
+
+  const [field, setField] = useState<InfoCardField>('estimatedAge');
+  const [context, setContext] = useState('');
+  const [question, setQuestion] = useState('');
+  const [confirmField, setConfirmField] = useState<InfoCardField | null>(null);
+
+  const { regenerateField, askQuestion, pending, error, clearError } = useRefineInfoCard({
+    infoCard,
+    images,
+    metadata,
+    onUpdate,
+  });
+
+  const isBusy = pending !== null;
+  const questions = infoCard.questions || [];
+
+  const handleRegenerate = async (overwriteHumanEdit = false) => {
+    // Human edits are only replaced after an explicit confirmation
+    if (!overwriteHumanEdit && isFieldHumanEdited(infoCard, field)) {
+      setConfirmField(field);
+      return;
+    }
+
+    setConfirmField(null);
+    const updated = await regenerateField(field, { context, overwriteHumanEdit });
+    if (updated) {
+      setContext('');
+    }
+  };
+
+  const handleAsk = async () => {
+    const updated = await askQuestion(question);
+    if (updated) {
+      setQuestion('');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Offline notice */}
+      {!isOnline && (
+        <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-stone-gray/10 border border-stone-gray/30 text-sm text-stone-gray">
+          <WifiOff className="h-4 w-4 flex-shrink-0" />
+          {t('components.infoCard.refine.offline')}
+        </div>
+      )}
+
+      {/* Error */}
+      {error && error.type !== 'human-edited' && (
+        <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-rust-red/10 border border-rust-red/30 text-sm">
+          <AlertCircle className="h-4 w-4 text-rust-red flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-rust-red">{error.message}</p>
+          <button
+            onClick={clearError}
+            className="text-xs text-rust-red underline"
+          >
+            {t('components.infoCard.refine.dismiss')}
+          </button>
+        </div>
+      )}
+
+      {/* Regenerate one field */}
+      <div className="rounded-xl border border-desert-sand p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <RefreshCw className="h-4 w-4 text-terracotta" />
+          <h4 className="text-sm font-semibold text-charcoal">{t('components.infoCard.refine.regenerateField')}</h4>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {INFO_CARD_FIELDS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setField(option);
+                setConfirmField(null);
+              }}
+              disabled={isBusy}
+              aria-pressed={field === option}
+              className={cn(
+                'flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs transition-colors disabled:opacity-50',
+                field === option
+                  ? 'bg-terracotta border-terracotta text-bone-white'
+                  : 'border-desert-sand text-charcoal hover:bg-desert-sand/50'
+              )}
+            >
+              {isFieldHumanEdited(infoCard, option) && (
+                <Edit3 className="h-3 w-3" aria-label={t('components.infoCard.display.editedByArchaeologist')} />
+              )}
+              {t(`components.infoCard.display.${option}`)}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={context}
+          onChange={(e) => setContext(e.target.value)}
+          placeholder={t('components.infoCard.refine.contextPlaceholder')}
+          rows={2}
+          disabled={isBusy}
+          className="w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal placeholder:text-stone-gray focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta resize-none disabled:opacity-50"
+        />
+
+        {/* Confirm replacing a human edit */}
+        {confirmField === field ? (
+          <div className="rounded-lg bg-gold-ochre/10 border border-gold-ochre/30 p-3 space-y-3">
+            <div className="flex items-start gap-2 text-sm">
+              <AlertTriangle className="h-4 w-4 text-gold-ochre flex-shrink-0 mt-0.5" />
+              <p className="text-charcoal">
+                {t('components.infoCard.refine.confirmOverwrite', {
+                  field: t(`components.infoCard.display.${field}`),
+                })}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setConfirmField(null)}
+                className="flex-1 py-2 px-3 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal hover:bg-aged-paper transition-colors"
+              >
+                {t('components.infoCard.refine.keepEdit')}
+              </button>
+              <button
+                onClick={() => handleRegenerate(true)}
+                className="flex-1 py-2 px-3 rounded-lg bg-gold-ochre text-charcoal text-sm font-medium hover:bg-gold-ochre/90 transition-colors"
+              >
+                {t('components.infoCard.refine.replaceEdit')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => handleRegenerate()}
+            disabled={isBusy || !isOnline}
+            className="w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg bg-terracotta text-bone-white text-sm font-medium hover:bg-clay transition-colors disabled:opacity-50"
+          >
+            {pending && pending !== 'question' ? (
+              <>
+                <LoadingSpinner size="sm" />
+                {t('components.infoCard.refine.regenerating')}
+              </>
+            ) : (
+              <>
+                <RefreshCw className="h-4 w-4" />
+                {t('components.infoCard.refine.regenerate', {
+                  field: t(`components.infoCard.display.${field}`),
+                })}
+              </>
+            )}
+          </button>
+        )}
+      </div>
+
+      {/* Questions thread */}
+      <div className="rounded-xl border border-desert-sand p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <MessageCircle className="h-4 w-4 text-terracotta" />
+          <h4 className="text-sm font-semibold text-charcoal">{t('components.infoCard.refine.questions')}</h4>
+        </div>
+
+        {questions.length === 0 ? (
+          <p className="text-xs text-stone-gray">{t('components.infoCard.refine.noQuestions')}</p>
+        ) : (
+          <ol className="space-y-3">
+            {questions.map((entry) => (
+              <li key={entry.id} className="space-y-1.5">
+                <p dir="auto" className="text-sm font-medium text-charcoal bg-aged-paper rounded-lg px-3 py-2">
+                  {entry.question}
+                </p>
+                <p dir="auto" className="text-sm text-charcoal whitespace-pre-line px-3">
+                  {entry.answer}
+                </p>
+                <p className="text-xs text-stone-gray px-3">
+                  {new Date(entry.askedAt).toLocaleString(i18n.language)} · {entry.aiModel}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAsk();
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            dir="auto"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder={t('components.infoCard.refine.questionPlaceholder')}
+            disabled={isBusy}
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal placeholder:text-stone-gray focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={isBusy || !isOnline || !question.trim()}
+            className="flex items-center justify-center px-3 rounded-lg bg-terracotta text-bone-white hover:bg-clay transition-colors disabled:opacity-50"
+            aria-label={t('components.infoCard.refine.ask')}
+          >
+            {pending === 'question' ? <LoadingSpinner size="sm" /> : <Send className="h-4 w-4 rtl:-scale-x-100" />}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { ClipboardCheck, X, Save, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { INFO_CARD_FIELDS } from '@/lib/api/infoCardSchema';
+import { setInfoCardReview } from '@/lib/db';
+import { useSettingsStore } from '@/stores/appStore';
+import { LoadingSpinner } from '@/components/ui';
+import { REVIEW_STATUSES, REVIEW_STATUS_STYLES, getReviewStatus } from './reviewStatus';
+import type { InfoCard, InfoCardField, InfoCardReview, InfoCardReviewStatus } from '@/types';
+
+interface InfoCardReviewPanelProps {
+  /** The card to review */
+  infoCard: InfoCard;
+  /** Called with the card after the review was saved */
+  onSave: (infoCard: InfoCard) => void;
+  /** Called when the panel is closed */
+  onClose: () => void;
+}
+
+/**
+ * Specialist review of an info card: move it through the review states,
+ * sign it off under the reviewer's name and comment on individual fields
+ */
+export function InfoCardReviewPanel({
+  infoCard,
+  onSave,
+  onClose,
+}: InfoCardReviewPanelProps) {
+  const { t, i18n } = useTranslation();
+  const savedReviewerName = useSettingsStore((s) => s.reviewerName);
+  const setSavedReviewerName = useSettingsStore((s) => s.setReviewerName);
+
+  const review = infoCard.review;
+  const [status, setStatus] = useState<InfoCardReviewStatus>(
+    // Opening the review of a draft starts it
+    getReviewStatus(infoCard) === 'ai-draft' ? 'in-review' : getReviewStatus(infoCard)
+  );
+  const [reviewerName, setReviewerName] = useState(review?.reviewerName || savedReviewerName);
+  const [comment, setComment] = useState(review?.comment || '');
+  const [fieldComments, setFieldComments] = useState<Partial<Record<InfoCardField, string>>>(
+    review?.fieldComments || {}
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A sign-off or rejection has to say who made it
+  const needsName = (status === 'verified' || status === 'rejected') && !reviewerName.trim();
+
+  const handleSave = async () => {
+    if (needsName) return;
+    setIsSaving(true);
+
+    try {
+      const trimmedComments: Partial<Record<InfoCardField, string>> = {};
+      for (const field of INFO_CARD_FIELDS) {
+        const fieldComment = fieldComments[field]?.trim();
+        if (fieldComment) {
+          trimmedComments[field] = fieldComment;
+        }
+      }
+
+      const name = reviewerName.trim();
+      const updatedReview: InfoCardReview = {
+        status,
+        reviewerName: name || undefined,
+        reviewedAt: new Date(),
+        comment: comment.trim() || undefined,
+        fieldComments: Object.keys(trimmedComments).length > 0 ? trimmedComments : undefined,
+      };
+
+      const updated = await setInfoCardReview(infoCard.id, updatedReview);
+      if (name) {
+        setSavedReviewerName(name);
+      }
+      onSave(updated ?? { ...infoCard, review: updatedReview });
+    } catch (error) {
+      console.error('Failed to save review:', error);
+      alert(t('components.infoCard.review.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between pb-3 border-b border-desert-sand">
+        <h3 className="flex items-center gap-2 font-heading font-semibold text-charcoal">
+          <ClipboardCheck className="h-4 w-4 text-terracotta" />
+          {t('components.infoCard.review.title')}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-aged-paper text-stone-gray hover:text-charcoal transition-colors"
+          aria-label={t('common.buttons.close')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {review?.reviewedAt && (
+        <p className="text-xs text-stone-gray">
+          {t('components.infoCard.review.lastReviewed', {
+            status: t(`components.infoCard.review.statuses.${getReviewStatus(infoCard)}`),
+            date: new Date(review.reviewedAt).toLocaleString(i18n.language),
+          })}
+        </p>
+      )}
+
+      {/* Status */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-charcoal">{t('components.infoCard.review.status')}</p>
+        <div
+          className="grid grid-cols-2 gap-2"
+          role="radiogroup"
+          aria-label={t('components.infoCard.review.status')}
+        >
+          {REVIEW_STATUSES.map((option) => {
+            const { icon: StatusIcon, className } = REVIEW_STATUS_STYLES[option];
+            return (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={status === option}
+                onClick={() => setStatus(option)}
+                disabled={isSaving}
+                className={cn(
+                  'flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors disabled:opacity-50',
+                  status === option ? className : 'border-desert-sand text-charcoal hover:bg-aged-paper'
+                )}
+              >
+                <StatusIcon className="h-4 w-4 flex-shrink-0" />
+                {t(`components.infoCard.review.statuses.${option}`)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Reviewer */}
+      <div className="space-y-1">
+        <label htmlFor="reviewer-name" className="text-sm font-medium text-charcoal">
+          {t('components.infoCard.review.reviewerName')}
+        </label>
+        <input
+          id="reviewer-name"
+          type="text"
+          dir="auto"
+          value={reviewerName}
+          onChange={(e) => setReviewerName(e.target.value)}
+          placeholder={t('components.infoCard.review.reviewerNamePlaceholder')}
+          disabled={isSaving}
+          className="w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal placeholder:text-stone-gray focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50"
+        />
+        {needsName && (
+          <p className="flex items-center gap-1 text-xs text-rust-red">
+            <AlertCircle className="h-3 w-3" />
+            {t('components.infoCard.review.nameRequired')}
+          </p>
+        )}
+      </div>
+
+      {/* Overall comment */}
+      <div className="space-y-1">
+        <label htmlFor="review-comment" className="text-sm font-medium text-charcoal">
+          {t('components.infoCard.review.comment')}
+        </label>
+        <textarea
+          id="review-comment"
+          dir="auto"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder={t('components.infoCard.review.commentPlaceholder')}
+          rows={3}
+          disabled={isSaving}
+          className="w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal placeholder:text-stone-gray focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta resize-none disabled:opacity-50"
+        />
+      </div>
+
+      {/* Field comments */}
+      <div className="space-y-3">
+        <p className="text-sm font-medium text-charcoal">{t('components.infoCard.review.fieldComments')}</p>
+        {INFO_CARD_FIELDS.map((field) => (
+          <div key={field} className="space-y-1">
+            <label
+              htmlFor={`review-comment-${field}`}
+              className="text-xs font-medium text-stone-gray uppercase tracking-wide"
+            >
+              {t(`components.infoCard.display.${field}`)}
+            </label>
+            <textarea
+              id={`review-comment-${field}`}
+              dir="auto"
+              value={fieldComments[field] || ''}
+              onChange={(e) => setFieldComments({ ...fieldComments, [field]: e.target.value })}
+              placeholder={t('components.infoCard.review.fieldCommentPlaceholder')}
+              rows={2}
+              disabled={isSaving}
+              className="w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal placeholder:text-stone-gray focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta resize-none disabled:opacity-50"
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-3 pt-2">
+        <button
+          onClick={onClose}
+          disabled={isSaving}
+          className="flex-1 py-3 rounded-lg border border-desert-sand text-charcoal hover:bg-aged-paper transition-colors disabled:opacity-50"
+        >
+          {t('common.buttons.cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || needsName}
+          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-lg bg-terracotta text-bone-white hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+          {t('components.infoCard.review.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
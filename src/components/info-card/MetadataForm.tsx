@@ -11,10 +11,14 @@ import {
   Loader2,
   AlertCircle,
   CheckCircle2,
+  Gem,
+  Clock,
+  Wrench,
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { useGeoLocation, formatCoordinates, formatAccuracy } from '@/hooks/useGeoLocation';
+import { TermInput } from '@/components/vocabulary';
 import type { ArtifactMetadata } from '@/types';
 
 /**
@@ -79,6 +83,9 @@ export function MetadataForm({
     siteName: initialValues.siteName || '',
     dateFound: initialValues.dateFound || new Date(),
     notes: initialValues.notes || '',
+    material: initialValues.material || '',
+    period: initialValues.period || '',
+    objectType: initialValues.objectType || '',
     coordinates: initialValues.coordinates,
     tags: initialValues.tags || [],
   });
@@ -255,6 +262,49 @@ export function MetadataForm({
             />
           </div>
 
+          {/* Identification, against the controlled vocabularies */}
+          <div>
+            <label htmlFor="metadata-material" className="text-xs font-medium text-stone-gray uppercase tracking-wide mb-1.5 block">
+              <Gem className="h-3.5 w-3.5 inline mr-1" />
+              {t('components.infoCard.metadataForm.material')}
+            </label>
+            <TermInput
+              id="metadata-material"
+              vocabulary="material"
+              value={metadata.material || ''}
+              onChange={(value) => updateField('material', value)}
+              placeholder={t('components.infoCard.metadataForm.materialPlaceholder')}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="metadata-period" className="text-xs font-medium text-stone-gray uppercase tracking-wide mb-1.5 block">
+              <Clock className="h-3.5 w-3.5 inline mr-1" />
+              {t('components.infoCard.metadataForm.period')}
+            </label>
+            <TermInput
+              id="metadata-period"
+              vocabulary="period"
+              value={metadata.period || ''}
+              onChange={(value) => updateField('period', value)}
+              placeholder={t('components.infoCard.metadataForm.periodPlaceholder')}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="metadata-object-type" className="text-xs font-medium text-stone-gray uppercase tracking-wide mb-1.5 block">
+              <Wrench className="h-3.5 w-3.5 inline mr-1" />
+              {t('components.infoCard.metadataForm.objectType')}
+            </label>
+            <TermInput
+              id="metadata-object-type"
+              vocabulary="objectType"
+              value={metadata.objectType || ''}
+              onChange={(value) => updateField('objectType', value)}
+              placeholder={t('components.infoCard.metadataForm.objectTypePlaceholder')}
+            />
+          </div>
+
           {/* Date Found */}
           <div>
             <label className="text-xs font-medium text-stone-gray uppercase tracking-wide mb-1.5 block">
@@ -3,3 +3,6 @@ export { InfoCardDisplay } from './InfoCardDisplay';
 export { InfoCardEditor } from './InfoCardEditor';
 export { InfoCardExport } from './InfoCardExport';
 export { InfoCardGeneration } from './InfoCardGeneration';
+export { InfoCardRefine } from './InfoCardRefine';
+export { InfoCardHistory } from './InfoCardHistory';
+export { InfoCardReviewPanel } from './InfoCardReviewPanel';
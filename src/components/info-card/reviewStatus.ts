@@ -0,0 +1,27 @@
+import { Sparkles, ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
+import type { InfoCard, InfoCardReviewStatus } from '@/types';
+
+/**
+ * Review states in workflow order
+ */
+export const REVIEW_STATUSES: InfoCardReviewStatus[] = ['ai-draft', 'in-review', 'verified', 'rejected'];
+
+/**
+ * Icon and badge colours for each review state
+ */
+export const REVIEW_STATUS_STYLES: Record<
+  InfoCardReviewStatus,
+  { icon: React.ComponentType<{ className?: string }>; className: string }
+> = {
+  'ai-draft': { icon: Sparkles, className: 'bg-stone-gray/10 border-stone-gray/30 text-stone-gray' },
+  'in-review': { icon: ShieldAlert, className: 'bg-gold-ochre/10 border-gold-ochre/30 text-gold-ochre' },
+  verified: { icon: ShieldCheck, className: 'bg-oxidized-bronze/10 border-oxidized-bronze/30 text-oxidized-bronze' },
+  rejected: { icon: ShieldX, className: 'bg-rust-red/10 border-rust-red/30 text-rust-red' },
+};
+
+/**
+ * A card's review state; cards nobody has reviewed are AI drafts
+ */
+export function getReviewStatus(infoCard: InfoCard): InfoCardReviewStatus {
+  return infoCard.review?.status ?? 'ai-draft';
+}
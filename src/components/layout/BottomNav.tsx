@@ -1,5 +1,5 @@
 import { NavLink } from 'react-router-dom';
-import { Home, Box, Palette, Settings } from 'lucide-react';
+import { Home, Box, Palette, MapPinned, Settings } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { useHaptics } from '@/hooks';
@@ -14,6 +14,7 @@ const navItems: NavItem[] = [
   { to: '/', icon: Home, labelKey: 'nav.home' },
   { to: '/save', icon: Box, labelKey: 'nav.save' },
   { to: '/palette', icon: Palette, labelKey: 'nav.palette' },
+  { to: '/sites', icon: MapPinned, labelKey: 'nav.sites' },
   { to: '/settings', icon: Settings, labelKey: 'nav.settings' },
 ];
 
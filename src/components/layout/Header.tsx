@@ -1,5 +1,5 @@
 import { useLocation, Link, NavLink } from 'react-router-dom';
-import { Home, Box, Palette, Settings } from 'lucide-react';
+import { Home, Box, Palette, MapPinned, Settings } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { LanguageSelector } from '@/components/ui';
@@ -8,6 +8,7 @@ const navItems = [
   { to: '/', icon: Home, labelKey: 'nav.home' },
   { to: '/save', icon: Box, labelKey: 'nav.save' },
   { to: '/palette', icon: Palette, labelKey: 'nav.palette' },
+  { to: '/sites', icon: MapPinned, labelKey: 'nav.sites' },
   { to: '/settings', icon: Settings, labelKey: 'nav.settings' },
 ];
 
@@ -40,9 +41,18 @@ export function Header() {
       return t('pages.home.pastPalette');
     }
 
+    // Sites
+    if (location.pathname.includes('/contexts/')) {
+      return t('pages.context.title');
+    }
+    if (location.pathname.startsWith('/sites/')) {
+      return t('pages.sites.siteTitle');
+    }
+
     const pageTitles: Record<string, string> = {
       '/': t('app.name'),
       '/settings': t('pages.settings.title'),
+      '/sites': t('pages.sites.title'),
     };
     return pageTitles[location.pathname] || t('app.name');
   };
@@ -1,29 +1,45 @@
 import { Outlet } from 'react-router-dom';
 import { Header } from './Header';
 import { BottomNav } from './BottomNav';
-import { InstallPrompt } from '@/components/ui';
-import { useLanguage } from '@/hooks';
+import { InstallPrompt, UpdatePrompt, OfflineIndicator, OfflineQueueIndicator, StorageWarning, UndoToast } from '@/components/ui';
+import { useFixityCheck, useLanguage, useTrashPurge } from '@/hooks';
 
 export function Layout() {
   // Initialize language hook to set up RTL direction on <html> element
   useLanguage();
+  // Purge the trash past its retention period
+  useTrashPurge();
+  // Re-hash stored files not verified lately
+  useFixityCheck();
 
   return (
     <div className="min-h-screen bg-parchment">
+      <OfflineIndicator />
       <Header />
 
       {/* Main content area with padding for fixed header and nav */}
       {/* On mobile: bottom padding for nav. On desktop: no bottom nav, more top padding */}
       <main className="pb-20 pt-14 lg:pb-8 lg:pt-20">
         <div className="mx-auto max-w-7xl">
+          {/* Quota nearly used up */}
+          <StorageWarning />
           <Outlet />
         </div>
       </main>
 
       <BottomNav />
 
+      {/* Undo the last deletion */}
+      <UndoToast />
+
+      {/* Jobs waiting for a connection */}
+      <OfflineQueueIndicator />
+
       {/* PWA Install Prompt */}
       <InstallPrompt />
+
+      {/* New version available */}
+      <UpdatePrompt />
     </div>
   );
 }
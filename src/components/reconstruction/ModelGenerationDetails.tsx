@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/stores/appStore';
+import { findPreset, getGenerationParams } from '@/lib/api/reconstructionPresets';
+import type { ModelGeneration } from '@/types';
+
+export interface ModelGenerationDetailsProps {
+  generation: ModelGeneration;
+  className?: string;
+}
+
+/**
+ * Settings a model was generated with, and a way to reuse them
+ * so the model can be regenerated reproducibly
+ */
+export function ModelGenerationDetails({ generation, className }: ModelGenerationDetailsProps) {
+  const { t } = useTranslation();
+  const { reconstructionParams, customReconstructionPresets, setReconstructionParams } =
+    useSettingsStore();
+  const [applied, setApplied] = useState(false);
+
+  const preset = findPreset(generation.presetId ?? null, customReconstructionPresets);
+  const presetName = preset
+    ? preset.nameKey
+      ? t(preset.nameKey)
+      : preset.name
+    : t('components.reconstruction.presets.customName');
+
+  const { trellisParams, triposrParams } = generation;
+
+  const handleReuse = () => {
+    setReconstructionParams(
+      getGenerationParams(generation, reconstructionParams),
+      preset?.id ?? null
+    );
+    setApplied(true);
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-stone-gray">{t('components.reconstruction.generation.model')}</p>
+          <p className="text-charcoal font-medium">
+            {generation.method === 'trellis' ? 'TRELLIS.2' : 'TripoSR'}
+          </p>
+        </div>
+        <div>
+          <p className="text-stone-gray">{t('components.reconstruction.presets.title')}</p>
+          <p className="text-charcoal font-medium">{presetName}</p>
+        </div>
+        {generation.seed !== undefined && (
+          <div>
+            <p className="text-stone-gray">{t('components.reconstruction.advanced.seed')}</p>
+            <p className="text-charcoal font-medium tabular-nums">{generation.seed}</p>
+          </div>
+        )}
+        {trellisParams && (
+          <div>
+            <p className="text-stone-gray">{t('components.reconstruction.advanced.samplingSteps')}</p>
+            <p className="text-charcoal font-medium tabular-nums">
+              {trellisParams.ssSamplingSteps} / {trellisParams.shapeSamplingSteps} / {trellisParams.texSamplingSteps}
+            </p>
+          </div>
+        )}
+        {trellisParams && (
+          <div>
+            <p className="text-stone-gray">{t('components.reconstruction.advanced.decimationTarget')}</p>
+            <p className="text-charcoal font-medium tabular-nums">
+              {trellisParams.decimationTarget.toLocaleString()}
+            </p>
+          </div>
+        )}
+        {trellisParams && (
+          <div>
+            <p className="text-stone-gray">{t('components.reconstruction.advanced.textureSize')}</p>
+            <p className="text-charcoal font-medium tabular-nums">{trellisParams.textureSize}px</p>
+          </div>
+        )}
+        {triposrParams && (
+          <div>
+            <p className="text-stone-gray">{t('components.reconstruction.advanced.mcResolution')}</p>
+            <p className="text-charcoal font-medium tabular-nums">{triposrParams.mcResolution}</p>
+          </div>
+        )}
+        {triposrParams && (
+          <div>
+            <p className="text-stone-gray">{t('components.reconstruction.advanced.foregroundRatio')}</p>
+            <p className="text-charcoal font-medium tabular-nums">{triposrParams.foregroundRatio}</p>
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleReuse}
+        className="flex items-center gap-1.5 text-sm text-terracotta hover:text-clay font-medium"
+      >
+        {applied ? <Check className="h-4 w-4" /> : <RotateCcw className="h-4 w-4" />}
+        {applied
+          ? t('components.reconstruction.generation.settingsApplied')
+          : t('components.reconstruction.generation.reuseSettings')}
+      </button>
+    </div>
+  );
+}
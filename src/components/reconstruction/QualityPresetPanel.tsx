@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { ChevronDown, Dices, Save, SlidersHorizontal, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/stores/appStore';
+import { BUILT_IN_PRESETS, findPreset } from '@/lib/api/reconstructionPresets';
+import type { ReconstructionPreset, TrellisParams, TripoSRParams } from '@/types';
+import type { ReconstructionMethod } from './MethodSelector';
+
+export interface QualityPresetPanelProps {
+  /** Selected method; 'single' runs TripoSR, 'multi' runs TRELLIS.2 */
+  method: ReconstructionMethod;
+  disabled?: boolean;
+  className?: string;
+}
+
+interface NumberField<K extends string> {
+  key: K;
+  labelKey: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// TRELLIS.2 runs three sampling stages, each with the same three knobs
+const TRELLIS_STAGES = [
+  { labelKey: 'components.reconstruction.advanced.structure', steps: 'ssSamplingSteps', guidance: 'ssGuidanceRescale', rescale: 'ssRescaleT' },
+  { labelKey: 'components.reconstruction.advanced.shape', steps: 'shapeSamplingSteps', guidance: 'shapeGuidanceRescale', rescale: 'shapeRescaleT' },
+  { labelKey: 'components.reconstruction.advanced.texture', steps: 'texSamplingSteps', guidance: 'texGuidanceRescale', rescale: 'texRescaleT' },
+] as const;
+
+const TRELLIS_MESH_FIELDS: NumberField<keyof TrellisParams>[] = [
+  { key: 'decimationTarget', labelKey: 'components.reconstruction.advanced.decimationTarget', min: 10000, max: 2000000, step: 10000 },
+  { key: 'textureSize', labelKey: 'components.reconstruction.advanced.textureSize', min: 512, max: 4096, step: 512 },
+];
+
+const TRIPOSR_FIELDS: NumberField<keyof TripoSRParams>[] = [
+  { key: 'foregroundRatio', labelKey: 'components.reconstruction.advanced.foregroundRatio', min: 0.5, max: 1, step: 0.05 },
+  { key: 'mcResolution', labelKey: 'components.reconstruction.advanced.mcResolution', min: 32, max: 512, step: 32 },
+];
+
+const MAX_SEED = 2147483647;
+
+export function QualityPresetPanel({ method, disabled = false, className }: QualityPresetPanelProps) {
+  const { t } = useTranslation();
+  const {
+    reconstructionParams: params,
+    reconstructionPresetId,
+    customReconstructionPresets,
+    applyReconstructionPreset,
+    setReconstructionParams,
+    saveReconstructionPreset,
+    deleteReconstructionPreset,
+  } = useSettingsStore();
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const presets = [...BUILT_IN_PRESETS, ...customReconstructionPresets];
+  const selectedPreset = findPreset(reconstructionPresetId, customReconstructionPresets);
+  const usesTrellis = method === 'multi';
+
+  const getPresetName = (preset: ReconstructionPreset) =>
+    preset.nameKey ? t(preset.nameKey) : preset.name || '';
+
+  const updateTrellis = (key: keyof TrellisParams, value: number) => {
+    setReconstructionParams({ ...params, trellis: { ...params.trellis, [key]: value } });
+  };
+
+  const updateTripoSR = (key: keyof TripoSRParams, value: number) => {
+    setReconstructionParams({ ...params, triposr: { ...params.triposr, [key]: value } });
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    saveReconstructionPreset(name);
+    setPresetName('');
+  };
+
+  const renderNumberInput = (
+    id: string,
+    label: string,
+    value: number,
+    field: Omit<NumberField<string>, 'key' | 'labelKey'>,
+    onChange: (value: number) => void,
+    hideLabel = false
+  ) => (
+    <label htmlFor={id} className="block">
+      {!hideLabel && <span className="block text-xs text-stone-gray mb-1">{label}</span>}
+      <input
+        id={id}
+        aria-label={hideLabel ? label : undefined}
+        type="number"
+        inputMode="decimal"
+        value={value}
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        disabled={disabled}
+        onChange={(e) => {
+          const next = parseFloat(e.target.value);
+          if (!Number.isNaN(next)) onChange(next);
+        }}
+        className="w-full px-2 py-1.5 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal tabular-nums focus:outline-none focus:ring-2 focus:ring-terracotta"
+      />
+    </label>
+  );
+
+  return (
+    <div className={cn('w-full', className)}>
+      <label className="block font-heading text-sm font-semibold text-charcoal mb-3">
+        {t('components.reconstruction.presets.title')}
+      </label>
+
+      {/* Presets */}
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('components.reconstruction.presets.title')}>
+        {presets.map((preset) => {
+          const isSelected = preset.id === reconstructionPresetId;
+          return (
+            <span key={preset.id} className="inline-flex items-center">
+              <button
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                disabled={disabled}
+                onClick={() => applyReconstructionPreset(preset)}
+                className={cn(
+                  'px-3 py-1.5 text-sm font-medium border transition-colors',
+                  preset.builtIn ? 'rounded-full' : 'rounded-s-full',
+                  isSelected
+                    ? 'border-terracotta bg-terracotta/10 text-terracotta'
+                    : 'border-desert-sand bg-aged-paper text-charcoal hover:border-clay',
+                  disabled && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                {getPresetName(preset)}
+              </button>
+              {!preset.builtIn && (
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => deleteReconstructionPreset(preset.id)}
+                  className={cn(
+                    'px-2 py-1.5 rounded-e-full border border-s-0 text-stone-gray hover:text-rust-red transition-colors',
+                    isSelected ? 'border-terracotta bg-terracotta/10' : 'border-desert-sand bg-aged-paper'
+                  )}
+                  aria-label={t('components.reconstruction.presets.delete', { name: getPresetName(preset) })}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </span>
+          );
+        })}
+      </div>
+
+      <p className="mt-2 text-xs text-stone-gray">
+        {selectedPreset
+          ? selectedPreset.descriptionKey
+            ? t(selectedPreset.descriptionKey)
+            : t('components.reconstruction.presets.customDesc')
+          : t('components.reconstruction.presets.modified')}
+      </p>
+
+      {/* Advanced parameters */}
+      <button
+        type="button"
+        onClick={() => setShowAdvanced((show) => !show)}
+        className="mt-3 flex items-center gap-1.5 text-sm font-medium text-sienna hover:text-terracotta transition-colors"
+        aria-expanded={showAdvanced}
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+        {t('components.reconstruction.advanced.title')}
+        <ChevronDown className={cn('w-4 h-4 transition-transform', showAdvanced && 'rotate-180')} />
+      </button>
+
+      {showAdvanced && (
+        <div className="mt-3 p-4 rounded-xl bg-aged-paper border border-desert-sand space-y-4">
+          {usesTrellis && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-charcoal">TRELLIS.2</h4>
+
+              {/* Seed */}
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  {renderNumberInput(
+                    'trellis-seed',
+                    t('components.reconstruction.advanced.seed'),
+                    params.trellis.seed,
+                    { min: 0, max: MAX_SEED, step: 1 },
+                    (value) => updateTrellis('seed', Math.round(value))
+                  )}
+                </div>
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => updateTrellis('seed', Math.floor(Math.random() * MAX_SEED))}
+                  className="p-2 rounded-lg border border-desert-sand text-sienna hover:border-clay transition-colors"
+                  aria-label={t('components.reconstruction.advanced.randomSeed')}
+                >
+                  <Dices className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* Sampling stages */}
+              <div className="grid grid-cols-4 gap-2 items-end text-xs text-stone-gray">
+                <span />
+                <span>{t('components.reconstruction.advanced.samplingSteps')}</span>
+                <span>{t('components.reconstruction.advanced.guidanceRescale')}</span>
+                <span>{t('components.reconstruction.advanced.rescaleT')}</span>
+                {TRELLIS_STAGES.map((stage) => (
+                  <StageRow key={stage.steps} label={t(stage.labelKey)}>
+                    {renderNumberInput(
+                      `trellis-${stage.steps}`,
+                      `${t(stage.labelKey)}: ${t('components.reconstruction.advanced.samplingSteps')}`,
+                      params.trellis[stage.steps],
+                      { min: 1, max: 50, step: 1 },
+                      (value) => updateTrellis(stage.steps, Math.round(value)),
+                      true
+                    )}
+                    {renderNumberInput(
+                      `trellis-${stage.guidance}`,
+                      `${t(stage.labelKey)}: ${t('components.reconstruction.advanced.guidanceRescale')}`,
+                      params.trellis[stage.guidance],
+                      { min: 0, max: 1, step: 0.1 },
+                      (value) => updateTrellis(stage.guidance, value),
+                      true
+                    )}
+                    {renderNumberInput(
+                      `trellis-${stage.rescale}`,
+                      `${t(stage.labelKey)}: ${t('components.reconstruction.advanced.rescaleT')}`,
+                      params.trellis[stage.rescale],
+                      { min: 1, max: 10, step: 0.5 },
+                      (value) => updateTrellis(stage.rescale, value),
+                      true
+                    )}
+                  </StageRow>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {TRELLIS_MESH_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    {renderNumberInput(
+                      `trellis-${field.key}`,
+                      t(field.labelKey),
+                      params.trellis[field.key],
+                      field,
+                      (value) => updateTrellis(field.key, Math.round(value))
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-charcoal">
+              {usesTrellis ? t('components.reconstruction.advanced.fallbackTitle') : 'TripoSR'}
+            </h4>
+            <div className="grid grid-cols-2 gap-3">
+              {TRIPOSR_FIELDS.map((field) => (
+                <div key={field.key}>
+                  {renderNumberInput(
+                    `triposr-${field.key}`,
+                    t(field.labelKey),
+                    params.triposr[field.key],
+                    field,
+                    (value) => updateTripoSR(field.key, value)
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Save as preset */}
+          <div className="flex gap-2 pt-3 border-t border-desert-sand">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+              disabled={disabled}
+              placeholder={t('components.reconstruction.presets.namePlaceholder')}
+              aria-label={t('components.reconstruction.presets.namePlaceholder')}
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta"
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={disabled || !presetName.trim()}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-terracotta text-bone-white text-sm font-medium hover:bg-clay transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              {t('components.reconstruction.presets.save')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StageRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <>
+      <span className="text-xs font-medium text-charcoal pb-2">{label}</span>
+      {children}
+    </>
+  );
+}
@@ -2,7 +2,9 @@ import { useCallback } from 'react';
 import { Box, ChevronRight, RotateCcw } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
+import type { ReconstructionJob } from '@/lib/api';
 import { MethodSelector, type ReconstructionMethod } from './MethodSelector';
+import { QualityPresetPanel } from './QualityPresetPanel';
 import {
   ReconstructionProgress,
   type ReconstructionStatus,
@@ -15,6 +17,8 @@ export interface ReconstructionCardProps {
   progress: number;
   /** Custom status message */
   statusMessage?: string;
+  /** Server-side job status (queue position, ETA, retries) */
+  job?: ReconstructionJob | null;
   /** Error message when status is 'error' */
   errorMessage?: string;
   /** Currently selected reconstruction method */
@@ -39,6 +43,7 @@ export function ReconstructionCard({
   status,
   progress,
   statusMessage,
+  job,
   errorMessage,
   selectedMethod,
   onMethodChange,
@@ -110,12 +115,18 @@ export function ReconstructionCard({
           />
         )}
 
+        {/* Quality presets and advanced parameters */}
+        {isIdle && (
+          <QualityPresetPanel method={selectedMethod} disabled={isProcessing} />
+        )}
+
         {/* Progress display - show when processing or after */}
         {!isIdle && (
           <ReconstructionProgress
             status={status}
             progress={progress}
             statusMessage={statusMessage}
+            job={job}
             errorMessage={errorMessage}
             onCancel={isProcessing ? onCancel : undefined}
           />
@@ -1,6 +1,8 @@
 import { X, Loader2, CheckCircle2, AlertCircle, Upload } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
+import type { ReconstructionJob } from '@/lib/api';
+import { getJobStatusMessage, isJobWaiting } from './jobStatus';
 
 export type ReconstructionStatus =
   | 'idle'
@@ -13,6 +15,8 @@ export interface ReconstructionProgressProps {
   status: ReconstructionStatus;
   progress: number;
   statusMessage?: string;
+  /** Server-side job status; while it runs, its message replaces statusMessage */
+  job?: ReconstructionJob | null;
   errorMessage?: string;
   onCancel?: () => void;
   className?: string;
@@ -54,6 +58,7 @@ export function ReconstructionProgress({
   status,
   progress,
   statusMessage,
+  job,
   errorMessage,
   onCancel,
   className,
@@ -67,6 +72,16 @@ export function ReconstructionProgress({
   // Ensure progress is clamped between 0 and 100
   const clampedProgress = Math.min(100, Math.max(0, progress));
 
+  // Report what the server is actually doing while the job runs
+  const activeJob = status === 'processing' && job && job.phase !== 'complete' && job.phase !== 'error'
+    ? job
+    : null;
+  // In the HuggingFace queue or before a retry there is no real percentage to show
+  const isWaiting = activeJob !== null && isJobWaiting(activeJob);
+  const message = activeJob
+    ? getJobStatusMessage(activeJob, t)
+    : statusMessage || getDefaultMessage(status, clampedProgress, t);
+
   return (
     <div className={cn('w-full', className)}>
       {/* Status header with icon and cancel button */}
@@ -121,12 +136,14 @@ export function ReconstructionProgress({
 
       {/* Progress percentage */}
       <div className="flex items-center justify-between mt-2">
-        <p className="text-stone-gray text-sm">
-          {statusMessage || getDefaultMessage(status, clampedProgress, t)}
+        <p className="text-stone-gray text-sm" aria-live="polite">
+          {message}
         </p>
-        <span className="text-charcoal font-medium text-sm tabular-nums">
-          {clampedProgress}%
-        </span>
+        {!isWaiting && (
+          <span className="text-charcoal font-medium text-sm tabular-nums">
+            {clampedProgress}%
+          </span>
+        )}
       </div>
 
       {/* Error message */}
@@ -10,5 +10,13 @@ export type {
   ReconstructionMethod,
 } from './MethodSelector';
 
+export { QualityPresetPanel } from './QualityPresetPanel';
+export type { QualityPresetPanelProps } from './QualityPresetPanel';
+
+export { ModelGenerationDetails } from './ModelGenerationDetails';
+export type { ModelGenerationDetailsProps } from './ModelGenerationDetails';
+
 export { ReconstructionCard } from './ReconstructionCard';
 export type { ReconstructionCardProps } from './ReconstructionCard';
+
+export { getJobStatusMessage, isJobWaiting } from './jobStatus';
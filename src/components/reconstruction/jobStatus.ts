@@ -0,0 +1,53 @@
+import type { ReconstructionJob } from '@/lib/api';
+
+/**
+ * Status message for a server-side reconstruction job
+ * e.g. "Position 4 in HuggingFace queue, ~90s"
+ */
+export function getJobStatusMessage(
+  job: ReconstructionJob,
+  t: (key: string, options?: Record<string, unknown>) => string
+): string {
+  switch (job.phase) {
+    case 'pending':
+    case 'connecting':
+      return job.fallback
+        ? t('components.reconstruction.status.fallback')
+        : t('components.reconstruction.status.connecting');
+    case 'queued':
+      if (job.queuePosition === undefined) {
+        return t('components.reconstruction.status.waitingInQueue');
+      }
+      return job.etaSeconds !== undefined
+        ? t('components.reconstruction.status.queuePosition', {
+            position: job.queuePosition + 1,
+            eta: Math.round(job.etaSeconds),
+          })
+        : t('components.reconstruction.status.queuePositionNoEta', {
+            position: job.queuePosition + 1,
+          });
+    case 'generating':
+      return job.fallback
+        ? t('components.reconstruction.status.buildingFallback')
+        : t('components.reconstruction.status.building');
+    case 'downloading':
+      return t('components.reconstruction.status.downloading');
+    case 'retrying':
+      return t('components.reconstruction.status.retrying', {
+        attempt: job.attempt,
+        seconds: job.retryInSeconds ?? 0,
+      });
+    case 'complete':
+      return t('components.reconstruction.status.complete');
+    case 'error':
+      return t('components.reconstruction.status.error');
+  }
+}
+
+/**
+ * Whether the job is waiting (in the HuggingFace queue or before a retry)
+ * rather than making measurable progress
+ */
+export function isJobWaiting(job: ReconstructionJob): boolean {
+  return job.phase === 'queued' || job.phase === 'retrying';
+}
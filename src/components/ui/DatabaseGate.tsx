@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { AlertTriangle, ArrowRight, Download, History, RefreshCw } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  DatabaseUpgradeError,
+  MIGRATIONS,
+  exportBackup,
+  openDatabase,
+  restoreDatabase,
+} from '@/lib/db';
+import { downloadFile, formatDate } from '@/lib/utils';
+import { LoadingScreen, LoadingSpinner } from './LoadingSpinner';
+
+type GateState =
+  | { status: 'opening' }
+  | { status: 'ready' }
+  | { status: 'failed'; error: unknown }
+  | { status: 'restored' };
+
+async function open(options?: { skipBackup?: boolean }): Promise<GateState> {
+  try {
+    await openDatabase(options);
+    return { status: 'ready' };
+  } catch (error) {
+    console.error('Failed to open database:', error);
+    return { status: 'failed', error };
+  }
+}
+
+/**
+ * Opens the database before the app uses it, migrating it after an update;
+ * shows the recovery screen instead of the app when that fails
+ */
+export function DatabaseGate({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<GateState>({ status: 'opening' });
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    // Once, even when effects run twice: a second run would back up again
+    if (startedRef.current) return;
+    startedRef.current = true;
+    open().then(setState);
+  }, []);
+
+  switch (state.status) {
+    case 'opening':
+      return <LoadingScreen />;
+    case 'ready':
+      return children;
+    default:
+      return (
+        <DatabaseRecoveryScreen
+          error={state.status === 'failed' ? state.error : undefined}
+          restored={state.status === 'restored'}
+          onSkipBackup={() => {
+            setState({ status: 'opening' });
+            open({ skipBackup: true }).then(setState);
+          }}
+          onContinue={() => setState({ status: 'ready' })}
+          onRestored={() => setState({ status: 'restored' })}
+        />
+      );
+  }
+}
+
+interface DatabaseRecoveryScreenProps {
+  error?: unknown;
+  /** The backup was put back */
+  restored: boolean;
+  onSkipBackup: () => void;
+  onContinue: () => void;
+  onRestored: () => void;
+}
+
+/**
+ * What went wrong updating the database, and the ways out: the backup
+ * taken before, as a file or put back, or going on without it
+ */
+function DatabaseRecoveryScreen({ error, restored, onSkipBackup, onContinue, onRestored }: DatabaseRecoveryScreenProps) {
+  const { t } = useTranslation();
+  const [isWorking, setIsWorking] = useState(false);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+
+  const upgradeError = error instanceof DatabaseUpgradeError ? error : undefined;
+  const backup = upgradeError?.backup;
+  const stage = upgradeError?.stage;
+  const pending = upgradeError ? MIGRATIONS.filter((migration) => migration.version > upgradeError.fromVersion) : [];
+
+  const handleDownload = async () => {
+    if (!backup) return;
+    setIsWorking(true);
+    try {
+      const blob = await exportBackup(backup.id);
+      downloadFile(blob, `relic-backup-v${backup.fromVersion}-${backup.createdAt.toISOString().split('T')[0]}.json`);
+    } catch (downloadError) {
+      console.error('Failed to download backup:', downloadError);
+      alert(t('ui.databaseRecovery.failedToDownload'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsWorking(true);
+    try {
+      await restoreDatabase(backup.id);
+      onRestored();
+    } catch (restoreError) {
+      console.error('Failed to restore backup:', restoreError);
+      alert(t('ui.databaseRecovery.failedToRestore'));
+    } finally {
+      setIsWorking(false);
+      setConfirmRestore(false);
+    }
+  };
+
+  const buttonClassName = 'w-full inline-flex items-center justify-center gap-2 rounded-lg px-4 py-2.5 text-sm font-medium transition-colors disabled:opacity-50';
+  const primaryClassName = `${buttonClassName} bg-terracotta text-bone-white hover:bg-clay`;
+  const secondaryClassName = `${buttonClassName} bg-aged-paper border border-desert-sand text-charcoal hover:bg-desert-sand/50`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-parchment p-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-6">
+          <div className="rounded-full bg-rust-red/10 p-4 w-fit mx-auto mb-4">
+            <AlertTriangle className="h-12 w-12 text-rust-red" />
+          </div>
+          <h1 className="font-heading text-xl font-bold text-charcoal mb-2">
+            {restored ? t('ui.databaseRecovery.restoredTitle') : t('ui.databaseRecovery.title')}
+          </h1>
+          <p className="text-stone-gray">
+            {restored
+              ? t('ui.databaseRecovery.restoredDesc')
+              : t(`ui.databaseRecovery.${stage ?? 'open'}Desc`)}
+          </p>
+        </div>
+
+        {!restored && (
+          <>
+            {backup && (
+              <p className="mb-4 text-sm text-stone-gray text-center">
+                {t('ui.databaseRecovery.backupTaken', { date: formatDate(backup.createdAt) })}
+              </p>
+            )}
+
+            {error !== undefined && (
+              <details className="mb-6 rounded-lg bg-aged-paper border border-desert-sand p-3">
+                <summary className="text-sm font-medium text-charcoal cursor-pointer">
+                  {t('ui.errorBoundary.errorDetails')}
+                </summary>
+                <div className="mt-2 space-y-2 text-xs" dir="ltr">
+                  <pre className="text-rust-red whitespace-pre-wrap">
+                    {error instanceof Error ? error.message : String(error)}
+                  </pre>
+                  {upgradeError?.problems.map((problem) => (
+                    <p key={problem} className="text-rust-red">• {problem}</p>
+                  ))}
+                  {pending.length > 0 && (
+                    <ol className="text-stone-gray space-y-0.5">
+                      {pending.map((migration) => (
+                        <li key={migration.version}>v{migration.version}: {migration.description}</li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              </details>
+            )}
+          </>
+        )}
+
+        {confirmRestore ? (
+          <div className="rounded-lg bg-gold-ochre/10 border border-gold-ochre/30 p-3 space-y-3">
+            <p className="text-sm text-charcoal">{t('ui.databaseRecovery.confirmRestore')}</p>
+            <div className="flex gap-2">
+              <button onClick={handleRestore} disabled={isWorking} className={primaryClassName}>
+                {isWorking ? <LoadingSpinner size="sm" /> : <History className="h-4 w-4" />}
+                {t('ui.databaseRecovery.restore')}
+              </button>
+              <button onClick={() => setConfirmRestore(false)} disabled={isWorking} className={secondaryClassName}>
+                {t('common.buttons.cancel')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {backup && (
+              <button onClick={handleDownload} disabled={isWorking} className={secondaryClassName}>
+                {isWorking ? <LoadingSpinner size="sm" /> : <Download className="h-4 w-4" />}
+                {t('ui.databaseRecovery.downloadBackup')}
+              </button>
+            )}
+            {stage === 'check' && backup && (
+              <button onClick={() => setConfirmRestore(true)} disabled={isWorking} className={secondaryClassName}>
+                <History className="h-4 w-4" />
+                {t('ui.databaseRecovery.restore')}
+              </button>
+            )}
+            {stage === 'check' && (
+              <button onClick={onContinue} disabled={isWorking} className={secondaryClassName}>
+                <ArrowRight className="h-4 w-4 rtl:rotate-180" />
+                {t('ui.databaseRecovery.continueAnyway')}
+              </button>
+            )}
+            {stage === 'backup' && (
+              <button onClick={onSkipBackup} disabled={isWorking} className={secondaryClassName}>
+                <ArrowRight className="h-4 w-4 rtl:rotate-180" />
+                {t('ui.databaseRecovery.updateWithoutBackup')}
+              </button>
+            )}
+            <button onClick={() => window.location.reload()} disabled={isWorking} className={primaryClassName}>
+              <RefreshCw className="h-4 w-4" />
+              {t('ui.databaseRecovery.tryAgain')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
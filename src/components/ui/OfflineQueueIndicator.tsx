@@ -1,13 +1,17 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { RefreshCw, Trash2, ChevronDown, ChevronUp, Clock } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { cn } from '@/lib/utils';
+import { db } from '@/lib/db';
 import { useOfflineQueue } from '@/hooks/useOfflineQueue';
 import { useAppStore } from '@/stores/appStore';
-import { formatDate } from '@/lib/utils';
+import { QueuedOperationItem } from './QueuedOperationItem';
+import type { QueuedOperation } from '@/types';
 
 /**
- * Indicator showing queued operations and allowing retry
+ * Indicator showing queued operations grouped per artifact,
+ * with per-job cancel and retry
  */
 export function OfflineQueueIndicator() {
   const { t } = useTranslation();
@@ -16,28 +20,38 @@ export function OfflineQueueIndicator() {
     isProcessing,
     processQueuedOperations,
     clearQueuedOperations,
+    cancelOperation,
+    retryOperation,
     hasQueuedOperations,
   } = useOfflineQueue();
   const isOnline = useAppStore((s) => s.isOnline);
   const [isExpanded, setIsExpanded] = useState(false);
 
+  // Group jobs by the artifact they belong to, keeping queue order
+  const groups = useMemo(() => {
+    const byArtifact = new Map<string, QueuedOperation[]>();
+    for (const op of queuedOperations) {
+      const list = byArtifact.get(op.artifactId) ?? [];
+      list.push(op);
+      byArtifact.set(op.artifactId, list);
+    }
+    return Array.from(byArtifact.entries());
+  }, [queuedOperations]);
+
+  const artifactNames = useLiveQuery(async () => {
+    const ids = groups.map(([artifactId]) => artifactId);
+    const artifacts = await db.artifacts.bulkGet(ids);
+    return Object.fromEntries(
+      artifacts
+        .filter((a) => a !== undefined)
+        .map((a) => [a.id, a.metadata?.name])
+    ) as Record<string, string | undefined>;
+  }, [groups]);
+
   if (!hasQueuedOperations) {
     return null;
   }
 
-  const getOperationLabel = (type: string): string => {
-    switch (type) {
-      case 'reconstruct3d':
-        return t('ui.queueIndicator.operations.3dReconstruction');
-      case 'generateInfoCard':
-        return t('ui.queueIndicator.operations.infoCardGeneration');
-      case 'colorize':
-        return t('ui.queueIndicator.operations.colorization');
-      default:
-        return t('ui.queueIndicator.operations.unknown');
-    }
-  };
-
   return (
     <div className="fixed bottom-20 left-4 right-4 sm:left-auto sm:right-4 sm:w-80 z-40">
       <div className="bg-aged-paper border border-desert-sand rounded-xl shadow-lg overflow-hidden">
@@ -71,19 +85,22 @@ export function OfflineQueueIndicator() {
         {/* Expanded content */}
         {isExpanded && (
           <div className="border-t border-desert-sand">
-            {/* Operation list */}
-            <div className="max-h-48 overflow-y-auto">
-              {queuedOperations.map((op) => (
-                <div
-                  key={op.id}
-                  className="flex items-center justify-between px-3 py-2 border-b border-desert-sand/50 last:border-0"
-                >
-                  <div>
-                    <p className="text-sm text-charcoal">{getOperationLabel(op.type)}</p>
-                    <p className="text-xs text-stone-gray">
-                      {formatDate(op.createdAt)} • Retry {op.retryCount}/3
-                    </p>
-                  </div>
+            {/* Operation list, grouped per artifact */}
+            <div className="max-h-64 overflow-y-auto">
+              {groups.map(([artifactId, operations]) => (
+                <div key={artifactId} className="border-b border-desert-sand/50 last:border-0">
+                  <p className="px-3 pt-2 text-xs font-semibold text-sienna truncate">
+                    {artifactNames?.[artifactId] || t('pages.gallery.unnamedArtifact')}
+                  </p>
+                  {operations.map((op) => (
+                    <QueuedOperationItem
+                      key={op.id}
+                      operation={op}
+                      canRetry={isOnline && !isProcessing}
+                      onCancel={cancelOperation}
+                      onRetry={retryOperation}
+                    />
+                  ))}
                 </div>
               ))}
             </div>
@@ -107,7 +124,7 @@ export function OfflineQueueIndicator() {
                 onClick={clearQueuedOperations}
                 disabled={isProcessing}
                 className="flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium bg-rust-red/10 text-rust-red hover:bg-rust-red/20 transition-colors disabled:opacity-50"
-                aria-label="Clear queue"
+                aria-label={t('ui.queueIndicator.clearQueue')}
               >
                 <Trash2 className="h-4 w-4" />
               </button>
@@ -0,0 +1,74 @@
+import { RotateCcw, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn, formatDate } from '@/lib/utils';
+import { MAX_RETRIES } from '@/lib/api/offlineQueue';
+import type { QueuedOperation } from '@/types';
+
+interface QueuedOperationItemProps {
+  operation: QueuedOperation;
+  canRetry: boolean;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * Single queued job row with cancel and retry actions
+ */
+export function QueuedOperationItem({
+  operation,
+  canRetry,
+  onCancel,
+  onRetry,
+  className,
+}: QueuedOperationItemProps) {
+  const { t } = useTranslation();
+
+  const getOperationLabel = (type: string): string => {
+    switch (type) {
+      case 'reconstruct3d':
+        return t('ui.queueIndicator.operations.3dReconstruction');
+      case 'generateInfoCard':
+        return t('ui.queueIndicator.operations.infoCardGeneration');
+      case 'colorize':
+        return t('ui.queueIndicator.operations.colorization');
+      default:
+        return t('ui.queueIndicator.operations.unknown');
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center justify-between gap-2 px-3 py-2', className)}>
+      <div className="min-w-0">
+        <p className="text-sm text-charcoal">{getOperationLabel(operation.type)}</p>
+        <p className="text-xs text-stone-gray">
+          {formatDate(operation.createdAt)} • {t('ui.queueIndicator.retryCount', { count: operation.retryCount, max: MAX_RETRIES })}
+        </p>
+        {operation.lastError && (
+          <p className="text-xs text-rust-red truncate" title={operation.lastError}>
+            {t('ui.queueIndicator.lastError', { error: operation.lastError })}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <button
+          onClick={() => onRetry(operation.id)}
+          disabled={!canRetry}
+          className="p-1.5 rounded-full text-terracotta hover:bg-terracotta/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          aria-label={t('ui.queueIndicator.retryJob')}
+          title={t('ui.queueIndicator.retryJob')}
+        >
+          <RotateCcw className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => onCancel(operation.id)}
+          className="p-1.5 rounded-full text-rust-red hover:bg-rust-red/10 transition-colors"
+          aria-label={t('ui.queueIndicator.cancelJob')}
+          title={t('ui.queueIndicator.cancelJob')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Clock } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useAppStore } from '@/stores/appStore';
+import { QueuedOperationItem } from './QueuedOperationItem';
+
+interface QueuedOperationsNoticeProps {
+  artifactId: string;
+  /** Called when a job for this artifact leaves the queue */
+  onProcessed?: () => void;
+  className?: string;
+}
+
+/**
+ * Notice on the artifact detail page listing the jobs waiting to run for it
+ */
+export function QueuedOperationsNotice({ artifactId, onProcessed, className }: QueuedOperationsNoticeProps) {
+  const { t } = useTranslation();
+  const { queuedOperations, isProcessing, cancelOperation, retryOperation } = useOfflineQueue();
+  const isOnline = useAppStore((s) => s.isOnline);
+
+  const operations = useMemo(
+    () => queuedOperations.filter((op) => op.artifactId === artifactId),
+    [queuedOperations, artifactId]
+  );
+
+  // Let the page reload its data once a job has finished (or was cancelled)
+  const previousCount = useRef(operations.length);
+  useEffect(() => {
+    if (operations.length < previousCount.current) {
+      onProcessed?.();
+    }
+    previousCount.current = operations.length;
+  }, [operations.length, onProcessed]);
+
+  if (operations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('rounded-xl border border-terracotta/30 bg-terracotta/5', className)}>
+      <div className="flex items-start gap-3 p-3">
+        <div className="w-8 h-8 rounded-full bg-terracotta/10 flex items-center justify-center flex-shrink-0">
+          <Clock className="h-4 w-4 text-terracotta" />
+        </div>
+        <div>
+          <p className="font-medium text-charcoal text-sm">{t('ui.queuedNotice.title')}</p>
+          <p className="text-xs text-stone-gray">
+            {isOnline ? t('ui.queuedNotice.online') : t('ui.queuedNotice.offline')}
+          </p>
+        </div>
+      </div>
+      <div className="border-t border-terracotta/20">
+        {operations.map((op) => (
+          <QueuedOperationItem
+            key={op.id}
+            operation={op}
+            canRetry={isOnline && !isProcessing}
+            onCancel={cancelOperation}
+            onRetry={retryOperation}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { HardDrive, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { useStorageEstimate } from '@/hooks/useStorageEstimate';
+import type { QuotaLevel } from '@/lib/pwa/storage';
+
+/**
+ * Banner shown when the app's storage nears the browser's quota, linking to
+ * the storage settings to free space
+ */
+export function StorageWarning() {
+  const { t } = useTranslation();
+  const { pathname } = useLocation();
+  const { level, refresh } = useStorageEstimate();
+  // Dismissing hides this level only: reaching critical shows it again
+  const [dismissedLevel, setDismissedLevel] = useState<QuotaLevel | null>(null);
+
+  // Checked again on every page, so it's current before a capture starts
+  useEffect(() => {
+    void refresh();
+  }, [pathname, refresh]);
+
+  // Settings shows the same warning next to the cleanup tools
+  if (level === 'ok' || level === dismissedLevel || pathname === '/settings') {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        'mx-4 mt-4 px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium',
+        level === 'critical' ? 'bg-rust-red text-bone-white' : 'bg-gold-ochre text-charcoal'
+      )}
+      role="alert"
+    >
+      <HardDrive className="h-4 w-4 shrink-0" />
+      <span className="flex-1">{t(`components.storage.${level}`)}</span>
+      <Link to="/settings#storage" className="underline shrink-0">
+        {t('ui.storageWarning.manage')}
+      </Link>
+      <button
+        onClick={() => setDismissedLevel(level)}
+        className="p-1 rounded-full hover:bg-charcoal/10 transition-colors"
+        aria-label={t('ui.storageWarning.dismiss')}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Trash2, Undo2, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { restoreFromTrash } from '@/lib/db';
+import { useAppStore } from '@/stores/appStore';
+import { LoadingSpinner } from './LoadingSpinner';
+
+// How long the toast offers to undo
+const UNDO_TIMEOUT = 8000;
+
+/**
+ * Toast shown right after something is moved to the trash, to put it back
+ */
+export function UndoToast() {
+  const { t } = useTranslation();
+  const lastDeleted = useAppStore((s) => s.lastDeleted);
+  const setLastDeleted = useAppStore((s) => s.setLastDeleted);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!lastDeleted) return;
+    const timer = setTimeout(() => setLastDeleted(null), UNDO_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [lastDeleted, setLastDeleted]);
+
+  if (!lastDeleted) {
+    return null;
+  }
+
+  const handleUndo = async () => {
+    setIsRestoring(true);
+    try {
+      await restoreFromTrash(lastDeleted.trashEntryId);
+      setLastDeleted(null);
+      lastDeleted.onRestored?.();
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      alert(t('ui.undoToast.failedToRestore'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-20 lg:bottom-6 left-4 right-4 z-50 mx-auto max-w-md" role="status">
+      <div className="flex items-center gap-3 rounded-xl bg-charcoal text-bone-white shadow-xl px-4 py-3">
+        <Trash2 className="h-4 w-4 shrink-0" />
+        <p className="flex-1 min-w-0 text-sm truncate">
+          {lastDeleted.kind === 'artifact'
+            ? t('ui.undoToast.artifact', { name: lastDeleted.name || t('pages.gallery.unnamedArtifact') })
+            : t(`ui.undoToast.${lastDeleted.kind}`)}
+        </p>
+        <button
+          onClick={handleUndo}
+          disabled={isRestoring}
+          className="shrink-0 flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm font-medium text-gold-ochre hover:bg-bone-white/10 transition-colors disabled:opacity-50"
+        >
+          {isRestoring ? <LoadingSpinner size="sm" /> : <Undo2 className="h-4 w-4" />}
+          {t('ui.undoToast.undo')}
+        </button>
+        <button
+          onClick={() => setLastDeleted(null)}
+          className="shrink-0 p-1 rounded-full hover:bg-bone-white/10 transition-colors"
+          aria-label={t('ui.undoToast.dismiss')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
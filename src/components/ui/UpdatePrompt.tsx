@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { useServiceWorkerUpdate } from '@/hooks/useServiceWorkerUpdate';
+
+/**
+ * Prompt shown when a new version of the app has been downloaded
+ * Reloading activates the new service worker
+ */
+export function UpdatePrompt() {
+  const { t } = useTranslation();
+  const { updateAvailable, reload } = useServiceWorkerUpdate();
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [isReloading, setIsReloading] = useState(false);
+
+  if (!updateAvailable || isDismissed) {
+    return null;
+  }
+
+  const handleReload = () => {
+    setIsReloading(true);
+    reload();
+  };
+
+  return (
+    <div
+      className={cn(
+        'fixed top-16 lg:top-20 left-4 right-4 z-50 mx-auto max-w-md',
+        'bg-bone-white rounded-lg shadow-lg border border-desert-sand'
+      )}
+      role="alertdialog"
+      aria-labelledby="update-prompt-title"
+    >
+      {/* Decorative top border */}
+      <div className="h-1 bg-gradient-to-r from-desert-teal via-oxidized-bronze to-desert-teal rounded-t-lg" />
+
+      <div className="flex items-center gap-3 p-4">
+        <div className="flex-shrink-0 w-10 h-10 bg-parchment rounded-full flex items-center justify-center">
+          <RefreshCw className="w-5 h-5 text-desert-teal" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <h3 id="update-prompt-title" className="font-heading font-semibold text-charcoal">
+            {t('ui.updatePrompt.title')}
+          </h3>
+          <p className="text-sm text-stone-gray">{t('ui.updatePrompt.description')}</p>
+        </div>
+
+        <button
+          onClick={handleReload}
+          disabled={isReloading}
+          className="flex-shrink-0 px-3 py-2 text-sm font-medium text-bone-white bg-terracotta rounded-md hover:bg-sienna transition-colors disabled:bg-desert-sand disabled:cursor-not-allowed"
+        >
+          {isReloading ? t('ui.updatePrompt.reloading') : t('ui.updatePrompt.reload')}
+        </button>
+
+        <button
+          onClick={() => setIsDismissed(true)}
+          className="flex-shrink-0 p-1 rounded-full text-stone-gray hover:text-charcoal hover:bg-aged-paper transition-colors"
+          aria-label={t('ui.updatePrompt.dismiss')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 export { ErrorBoundary } from './ErrorBoundary';
+export { DatabaseGate } from './DatabaseGate';
 export { InstallPrompt } from './InstallPrompt';
+export { UpdatePrompt } from './UpdatePrompt';
 export { LoadingSpinner, LoadingScreen } from './LoadingSpinner';
 export { OfflineIndicator } from './OfflineIndicator';
+export { StorageWarning } from './StorageWarning';
+export { UndoToast } from './UndoToast';
 export { OfflineQueueIndicator } from './OfflineQueueIndicator';
+export { QueuedOperationItem } from './QueuedOperationItem';
+export { QueuedOperationsNotice } from './QueuedOperationsNotice';
 export { LanguageSelector } from './LanguageSelector';
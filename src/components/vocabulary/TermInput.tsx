@@ -0,0 +1,131 @@
+import { useId, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { findTerm, getTermText, searchTerms } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import type { VocabularyName } from '@/types';
+
+interface TermInputProps {
+  /** The vocabulary to suggest terms from */
+  vocabulary: VocabularyName;
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Text input that suggests preferred terms of a vocabulary while typing,
+ * matching synonyms too ("terra cotta" suggests "Fired clay"). Any text
+ * can still be entered; the preferred term it maps to is shown below.
+ */
+export function TermInput({
+  vocabulary,
+  value,
+  onChange,
+  id,
+  placeholder,
+  disabled = false,
+  className,
+}: TermInputProps) {
+  const { t, i18n } = useTranslation();
+  const { terms, getLabel } = useVocabulary();
+  const listId = useId();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = useMemo(
+    () => searchTerms(terms, vocabulary, value),
+    [terms, vocabulary, value]
+  );
+  const matched = useMemo(() => findTerm(terms, vocabulary, value), [terms, vocabulary, value]);
+
+  const showList = isOpen && suggestions.length > 0;
+
+  const select = (index: number) => {
+    onChange(getTermText(suggestions[index].term, i18n.language, t));
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => Math.min(index + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && showList && activeIndex >= 0) {
+      e.preventDefault();
+      select(activeIndex);
+    } else if (e.key === 'Escape' && showList) {
+      e.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <input
+        id={id}
+        type="text"
+        dir="auto"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        className="w-full px-3 py-2.5 rounded-lg border border-desert-sand bg-bone-white text-charcoal placeholder:text-stone-gray/50 focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50"
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-56 overflow-auto rounded-lg border border-desert-sand bg-bone-white shadow-lg py-1"
+        >
+          {suggestions.map(({ term, synonym }, index) => (
+            <li
+              key={term.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the list isn't closed before the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(index)}
+              className={cn(
+                'flex items-baseline justify-between gap-2 px-3 py-2 text-sm cursor-pointer',
+                index === activeIndex ? 'bg-terracotta/10 text-charcoal' : 'text-charcoal hover:bg-aged-paper'
+              )}
+            >
+              <span className="truncate">{getLabel(term)}</span>
+              {synonym && <span dir="auto" className="text-xs text-stone-gray truncate">{synonym}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {matched && value.trim() && getLabel(matched) !== value.trim() && (
+        <p className="mt-1 text-xs text-stone-gray">
+          {t('components.vocabulary.mapsTo', { term: getLabel(matched) })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useMemo, useState } from 'react';
+import { Plus, Search, Eye, EyeOff, RotateCcw, Trash2, Save, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { resetVocabularyTerm, saveVocabularyTerm } from '@/lib/db';
+import { BUNDLED_TERMS, VOCABULARY_NAMES, normalizeTerm } from '@/lib/vocabulary';
+import { formatDateSpan } from '@/lib/utils/dateRange';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import { LoadingSpinner } from '@/components/ui';
+import type { VocabularyName, VocabularyTerm } from '@/types';
+
+const BUNDLED_BY_ID = new Map(BUNDLED_TERMS.map((term) => [term.id, term]));
+
+/**
+ * Browse and edit the controlled vocabularies: rename terms, add synonyms,
+ * hide bundled terms that don't apply and add terms of your own
+ */
+export function VocabularyEditor() {
+  const { t } = useTranslation();
+  const { terms, getLabel } = useVocabulary();
+
+  const [vocabulary, setVocabulary] = useState<VocabularyName>('material');
+  const [search, setSearch] = useState('');
+  // Term being edited, or a new term being added
+  const [editing, setEditing] = useState<VocabularyTerm | null>(null);
+
+  const visibleTerms = useMemo(() => {
+    const query = normalizeTerm(search);
+    return terms.filter((term) =>
+      term.vocabulary === vocabulary &&
+      (!query || [term.label.en, term.label.he, ...term.synonyms].some((name) => name && normalizeTerm(name).includes(query)))
+    );
+  }, [terms, vocabulary, search]);
+
+  const handleAdd = () => {
+    setEditing({
+      id: `${vocabulary}:custom-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      vocabulary,
+      label: { en: '' },
+      synonyms: [],
+      custom: true,
+    });
+  };
+
+  const getState = (term: VocabularyTerm): 'added' | 'edited' | null => {
+    if (term.custom) return 'added';
+    return BUNDLED_BY_ID.get(term.id) !== term ? 'edited' : null;
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Vocabulary */}
+      <div
+        className="inline-flex rounded-lg border border-desert-sand bg-aged-paper p-0.5 text-sm"
+        role="radiogroup"
+        aria-label={t('components.vocabulary.title')}
+      >
+        {VOCABULARY_NAMES.map((name) => (
+          <button
+            key={name}
+            type="button"
+            role="radio"
+            aria-checked={vocabulary === name}
+            onClick={() => {
+              setVocabulary(name);
+              setEditing(null);
+            }}
+            className={cn(
+              'px-3 py-1 rounded-md transition-colors',
+              vocabulary === name ? 'bg-terracotta text-bone-white' : 'text-charcoal hover:bg-desert-sand/50'
+            )}
+          >
+            {t(`components.vocabulary.vocabularies.${name}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 rtl:left-auto rtl:right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-stone-gray" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('components.vocabulary.search')}
+            className="w-full rounded-lg border border-desert-sand bg-bone-white py-2 pl-9 pr-3 rtl:pl-3 rtl:pr-9 text-sm text-charcoal placeholder:text-stone-gray focus:border-terracotta focus:outline-none focus:ring-2 focus:ring-terracotta/20"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          {t('components.vocabulary.addTerm')}
+        </button>
+      </div>
+
+      {editing?.custom && !terms.some((term) => term.id === editing.id) && (
+        <div className="rounded-xl border border-desert-sand overflow-hidden">
+          <TermForm term={editing} isNew onClose={() => setEditing(null)} />
+        </div>
+      )}
+
+      {visibleTerms.length === 0 ? (
+        <p className="text-sm text-stone-gray text-center py-4">{t('components.vocabulary.noTerms')}</p>
+      ) : (
+        <ul className="rounded-xl border border-desert-sand bg-bone-white divide-y divide-desert-sand max-h-96 overflow-y-auto">
+          {visibleTerms.map((term) => {
+            const state = getState(term);
+            return (
+              <li key={term.id}>
+                {editing?.id === term.id ? (
+                  <TermForm term={term} onClose={() => setEditing(null)} />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setEditing(term)}
+                    className={cn(
+                      'w-full text-left rtl:text-right px-3 py-2 hover:bg-aged-paper transition-colors',
+                      term.hidden && 'opacity-50'
+                    )}
+                  >
+                    <div className="flex items-center gap-2 text-sm text-charcoal">
+                      <span className="font-medium truncate">{getLabel(term)}</span>
+                      {term.start !== undefined && term.end !== undefined && (
+                        <span className="text-xs text-stone-gray whitespace-nowrap">
+                          {formatDateSpan({ start: term.start, end: term.end, uncertainty: 0 }, t)}
+                        </span>
+                      )}
+                      {state && (
+                        <span className="px-1.5 py-0.5 rounded bg-terracotta/10 text-terracotta text-xs">
+                          {t(`components.vocabulary.${state}`)}
+                        </span>
+                      )}
+                      {term.hidden && (
+                        <span className="px-1.5 py-0.5 rounded bg-stone-gray/10 text-stone-gray text-xs">
+                          {t('components.vocabulary.hidden')}
+                        </span>
+                      )}
+                    </div>
+                    {term.synonyms.length > 0 && (
+                      <p dir="auto" className="text-xs text-stone-gray truncate">{term.synonyms.join(', ')}</p>
+                    )}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface TermFormProps {
+  term: VocabularyTerm;
+  /** A term being added, not saved yet */
+  isNew?: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Edit form for one term
+ */
+function TermForm({ term, isNew = false, onClose }: TermFormProps) {
+  const { t } = useTranslation();
+  const bundled = BUNDLED_BY_ID.get(term.id);
+
+  const [labelEn, setLabelEn] = useState(term.label.en);
+  const [labelHe, setLabelHe] = useState(term.label.he || '');
+  const [synonyms, setSynonyms] = useState(term.synonyms.join(', '));
+  const [start, setStart] = useState(term.start?.toString() ?? '');
+  const [end, setEnd] = useState(term.end?.toString() ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isPeriod = term.vocabulary === 'period';
+  const canSave = labelEn.trim().length > 0;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onClose();
+    } catch (error) {
+      console.error('Failed to save vocabulary term:', error);
+      alert(t('components.vocabulary.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const toYear = (value: string) => (value.trim() && Number.isFinite(Number(value)) ? Number(value) : undefined);
+    run(() => saveVocabularyTerm({
+      ...term,
+      label: { en: labelEn.trim(), he: labelHe.trim() || undefined },
+      synonyms: synonyms.split(/[,\n]/).map((synonym) => synonym.trim()).filter(Boolean),
+      start: isPeriod ? toYear(start) : undefined,
+      end: isPeriod ? toYear(end) : undefined,
+    }));
+  };
+
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50';
+  const labelClassName = 'text-xs font-medium text-stone-gray uppercase tracking-wide mb-1 block';
+
+  return (
+    <div className="p-3 space-y-3 bg-aged-paper/50">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor={`${term.id}-en`} className={labelClassName}>{t('components.vocabulary.labelEn')}</label>
+          <input
+            id={`${term.id}-en`}
+            type="text"
+            dir="ltr"
+            value={labelEn}
+            onChange={(e) => setLabelEn(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${term.id}-he`} className={labelClassName}>{t('components.vocabulary.labelHe')}</label>
+          <input
+            id={`${term.id}-he`}
+            type="text"
+            dir="rtl"
+            value={labelHe}
+            onChange={(e) => setLabelHe(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor={`${term.id}-synonyms`} className={labelClassName}>{t('components.vocabulary.synonyms')}</label>
+        <textarea
+          id={`${term.id}-synonyms`}
+          dir="auto"
+          value={synonyms}
+          onChange={(e) => setSynonyms(e.target.value)}
+          rows={2}
+          disabled={isSaving}
+          className={cn(inputClassName, 'resize-none')}
+        />
+        <p className="mt-1 text-xs text-stone-gray">{t('components.vocabulary.synonymsHint')}</p>
+      </div>
+
+      {isPeriod && (
+        <div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`${term.id}-start`} className={labelClassName}>{t('components.vocabulary.start')}</label>
+              <input
+                id={`${term.id}-start`}
+                type="number"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor={`${term.id}-end`} className={labelClassName}>{t('components.vocabulary.end')}</label>
+              <input
+                id={`${term.id}-end`}
+                type="number"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="mt-1 text-xs text-stone-gray">{t('components.vocabulary.yearsHint')}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !canSave}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-3.5 w-3.5" />}
+          {t('components.vocabulary.save')}
+        </button>
+
+        {bundled && (
+          <button
+            type="button"
+            onClick={() => run(() => saveVocabularyTerm({ ...term, hidden: !term.hidden }))}
+            disabled={isSaving}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-desert-sand text-sm text-charcoal hover:bg-aged-paper transition-colors disabled:opacity-50"
+          >
+            {term.hidden ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+            {t(`components.vocabulary.${term.hidden ? 'show' : 'hide'}`)}
+          </button>
+        )}
+
+        {bundled && bundled !== term && (
+          <button
+            type="button"
+            onClick={() => run(() => resetVocabularyTerm(term.id))}
+            disabled={isSaving}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-desert-sand text-sm text-charcoal hover:bg-aged-paper transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            {t('components.vocabulary.reset')}
+          </button>
+        )}
+
+        {term.custom && !isNew && (
+          <button
+            type="button"
+            onClick={() => run(() => resetVocabularyTerm(term.id))}
+            disabled={isSaving}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-rust-red/30 text-sm text-rust-red hover:bg-rust-red/10 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            {t('components.vocabulary.delete')}
+          </button>
+        )}
+
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSaving}
+          className="ms-auto p-1.5 rounded-lg text-stone-gray hover:text-charcoal hover:bg-aged-paper transition-colors"
+          aria-label={t('common.buttons.cancel')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { TermInput } from './TermInput';
+export { VocabularyEditor } from './VocabularyEditor';
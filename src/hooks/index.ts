@@ -2,16 +2,26 @@ export { useCamera } from './useCamera';
 export { useArtifactData } from './useArtifactData';
 export { useReconstruct3D } from './useReconstruct3D';
 export { useGenerateInfoCard } from './useGenerateInfoCard';
+export { useRefineInfoCard, getHumanEditedFields, isFieldHumanEdited } from './useRefineInfoCard';
 export { useColorize } from './useColorize';
 export { useGeoLocation, formatCoordinates, formatAccuracy } from './useGeoLocation';
 export { useGalleryFilters } from './useGalleryFilters';
+export type { GalleryReviewFilter, GalleryTermFilters } from './useGalleryFilters';
 export { useDeleteArtifact } from './useDeleteArtifact';
+export { useTrashPurge } from './useTrashPurge';
+export { useFixityCheck } from './useFixityCheck';
 export { useDataExport } from './useDataExport';
 export { useDataImport } from './useDataImport';
 export { useOnlineStatus } from './useOnlineStatus';
 export { useOfflineQueue } from './useOfflineQueue';
+export { useServiceWorkerUpdate } from './useServiceWorkerUpdate';
 export { useHaptics } from './useHaptics';
 export { useLanguage } from './useLanguage';
+export { useVocabulary } from './useVocabulary';
+export type { UseVocabularyReturn } from './useVocabulary';
+export { useArtifactLocation } from './useArtifactLocation';
+export { useStorageEstimate } from './useStorageEstimate';
+export type { UseStorageEstimateReturn } from './useStorageEstimate';
 export type { ArtifactData, UseArtifactDataReturn } from './useArtifactData';
 export type {
   ReconstructMethod,
@@ -26,6 +36,12 @@ export type {
   UseGenerateInfoCardOptions,
   UseGenerateInfoCardReturn,
 } from './useGenerateInfoCard';
+export type {
+  RefineInfoCardError,
+  RegenerateFieldOptions,
+  UseRefineInfoCardOptions,
+  UseRefineInfoCardReturn,
+} from './useRefineInfoCard';
 export type {
   ColorizeProgressState,
   ColorizeError,
@@ -0,0 +1,33 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import type { ArtifactLocation } from '@/lib/excavation';
+import type { Artifact } from '@/types';
+
+const NO_LOCATION: ArtifactLocation = {};
+
+/**
+ * The site, area, season and context an artifact was found in, kept in
+ * sync with IndexedDB; empty until loaded
+ */
+export function useArtifactLocation(
+  artifact: Pick<Artifact, 'siteId' | 'areaId' | 'contextId'> | null | undefined
+): ArtifactLocation {
+  const siteId = artifact?.siteId;
+  const areaId = artifact?.areaId;
+  const contextId = artifact?.contextId;
+
+  return useLiveQuery(
+    async () => {
+      if (!siteId) return NO_LOCATION;
+      const [site, area, context] = await Promise.all([
+        db.sites.get(siteId),
+        areaId ? db.areas.get(areaId) : undefined,
+        contextId ? db.contexts.get(contextId) : undefined,
+      ]);
+      const season = context?.seasonId ? await db.seasons.get(context.seasonId) : undefined;
+      return { site, area, season, context };
+    },
+    [siteId, areaId, contextId],
+    NO_LOCATION
+  );
+}
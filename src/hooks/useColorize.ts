@@ -1,8 +1,9 @@
 import { useState, useRef, useCallback } from 'react';
 import { addColorVariant, updateArtifact } from '@/lib/db';
 import { useAppStore } from '@/stores/appStore';
-import { colorize as colorizeAPI } from '@/lib/api/client';
-import type { ColorVariant, ColorScheme, ProcessingStatus } from '@/types';
+import { colorize as colorizeAPI, isNetworkError } from '@/lib/api/client';
+import { queueOperation } from '@/lib/api/offlineQueue';
+import type { ArtifactImage, ColorVariant, ColorScheme, ProcessingStatus } from '@/types';
 
 /**
  * Progress state for the colorization process
@@ -11,6 +12,7 @@ export type ColorizeProgressState =
   | 'idle'
   | 'uploading'
   | 'processing'
+  | 'queued'
   | 'complete'
   | 'error';
 
@@ -37,6 +39,8 @@ export interface UseColorizeOptions {
   onProgress?: (progress: number, state: ColorizeProgressState) => void;
   /** Enable image restoration before colorization */
   includeRestoration?: boolean;
+  /** Called when the job was added to the offline queue instead of running */
+  onQueued?: (operationId: string) => void;
 }
 
 /**
@@ -44,7 +48,7 @@ export interface UseColorizeOptions {
  */
 export interface UseColorizeReturn {
   /** Start the colorization process */
-  colorize: (image: Blob, colorScheme: ColorScheme, customPrompt?: string) => Promise<ColorVariant | null>;
+  colorize: (image: ArtifactImage, colorScheme: ColorScheme, customPrompt?: string) => Promise<ColorVariant | null>;
   /** Cancel the in-flight colorization */
   cancel: () => void;
   /** Current progress state */
@@ -90,7 +94,7 @@ function generateId(): string {
  * 5. Integrate with app store for global state
  */
 export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
-  const { artifactId, onSuccess, onError, onProgress, includeRestoration } = options;
+  const { artifactId, onSuccess, onError, onProgress, includeRestoration, onQueued } = options;
 
   // State
   const [state, setState] = useState<ColorizeProgressState>('idle');
@@ -106,6 +110,7 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
   const setProcessingStep = useAppStore((s) => s.setProcessingStep);
   const updateProcessingProgress = useAppStore((s) => s.updateProcessingProgress);
   const setProcessingError = useAppStore((s) => s.setProcessingError);
+  const isOnline = useAppStore((s) => s.isOnline);
 
   /**
    * Updates both local and global state
@@ -121,6 +126,7 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
         idle: 'idle',
         uploading: 'uploading',
         processing: 'colorizing',
+        queued: 'idle',
         complete: 'complete',
         error: 'error',
       };
@@ -156,6 +162,30 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
     [artifactId, onError, setProcessingError]
   );
 
+  /**
+   * Adds the job to the offline queue so it runs once the connection returns
+   */
+  const queueColorization = useCallback(
+    async (image: ArtifactImage, colorScheme: ColorScheme, customPrompt?: string): Promise<void> => {
+      const operationId = await queueOperation({
+        type: 'colorize',
+        artifactId,
+        imageIds: [image.id],
+        params: {
+          colorScheme,
+          customPrompt,
+          includeRestoration,
+        },
+      });
+
+      setState('queued');
+      setProgress(0);
+      setProcessingStatus(null);
+      onQueued?.(operationId);
+    },
+    [artifactId, includeRestoration, onQueued, setProcessingStatus]
+  );
+
   /**
    * Reset the hook state
    */
@@ -186,7 +216,7 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
    * Start the colorization process
    */
   const colorizeImage = useCallback(
-    async (image: Blob, colorScheme: ColorScheme, customPrompt?: string): Promise<ColorVariant | null> => {
+    async (image: ArtifactImage, colorScheme: ColorScheme, customPrompt?: string): Promise<ColorVariant | null> => {
       // Validate inputs
       if (!image) {
         handleError('upload-failed', 'No image provided for colorization');
@@ -194,13 +224,13 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
       }
 
       // Validate image is not empty or corrupted
-      if (image.size === 0) {
+      if (image.blob.size === 0) {
         handleError('upload-failed', 'Image file is empty or corrupted');
         return null;
       }
 
       // Validate minimum image size (at least 1KB)
-      if (image.size < 1024) {
+      if (image.blob.size < 1024) {
         handleError('upload-failed', 'Image file is too small. Please use a higher quality image.');
         return null;
       }
@@ -209,6 +239,12 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
       isCancelledRef.current = false;
       setError(null);
 
+      // No connection - run it later from the offline queue
+      if (!isOnline) {
+        await queueColorization(image, colorScheme, customPrompt);
+        return null;
+      }
+
       // Create abort controller for cancellation
       abortControllerRef.current = new AbortController();
 
@@ -238,7 +274,7 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
             resolve(base64);
           };
           reader.onerror = () => reject(new Error('Failed to read image'));
-          reader.readAsDataURL(image);
+          reader.readAsDataURL(image.blob);
         });
 
         if (isCancelledRef.current) {
@@ -322,6 +358,12 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
 
         const caughtError = err as Error;
 
+        // Lost the connection on the way - keep the job for later
+        if (isNetworkError(caughtError)) {
+          await queueColorization(image, colorScheme, customPrompt);
+          return null;
+        }
+
         // Determine error type
         let errorType: ColorizeError['type'] = 'unknown';
         let errorMessage = 'An unexpected error occurred during colorization';
@@ -354,7 +396,7 @@ export function useColorize(options: UseColorizeOptions): UseColorizeReturn {
         abortControllerRef.current = null;
       }
     },
-    [artifactId, onSuccess, handleError, updateState, setProcessingStatus, includeRestoration]
+    [artifactId, isOnline, onSuccess, handleError, updateState, setProcessingStatus, includeRestoration, queueColorization]
   );
 
   return {
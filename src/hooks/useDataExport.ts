@@ -1,6 +1,8 @@
 import { useState, useCallback } from 'react';
-import { getArtifact, getImagesForArtifact, getModelForArtifact, getInfoCardForArtifact, getColorVariantsForArtifact, getAllArtifacts } from '@/lib/db';
+import { db, getArtifact, getImagesForArtifact, getModelForArtifact, getInfoCardForArtifact, getInfoCardRevisions, getColorVariantsForArtifact, getAllArtifacts, markArtifactsExported } from '@/lib/db';
 import { blobToBase64, downloadFile } from '@/lib/utils';
+import type { ArtifactLocation } from '@/lib/excavation';
+import type { ModelGeneration } from '@/types';
 
 export interface UseDataExportReturn {
   exportArtifact: (id: string) => Promise<void>;
@@ -9,12 +11,28 @@ export interface UseDataExportReturn {
   exportProgress: number;
 }
 
+/**
+ * Files come with the SHA-256 digest they were stored under, checked again
+ * on import
+ */
 interface ExportedArtifact {
   artifact: unknown;
-  images: Array<{ data: string; angle: string; width: number; height: number }>;
-  model?: { data: string; format: string; source: string };
+  images: Array<{ data: string; sha256?: string; angle: string; width: number; height: number }>;
+  /** sourceImages (model and info card) are indices into images */
+  model?: {
+    data: string;
+    sha256?: string;
+    format: string;
+    source: string;
+    sourceImages?: number[];
+    generation?: ModelGeneration;
+  };
   infoCard?: unknown;
-  colorVariants?: Array<{ data: string; colorScheme: string }>;
+  /** The card's revision history, oldest first */
+  infoCardRevisions?: unknown[];
+  colorVariants?: Array<{ data: string; sha256?: string; colorScheme: string }>;
+  /** Site, area, season and context, matched by name on import */
+  location?: ArtifactLocation;
 }
 
 interface ExportData {
@@ -35,17 +53,23 @@ export function useDataExport(): UseDataExportReturn {
     if (!artifact) return null;
 
     // Get all related data in parallel
-    const [images, model, infoCard, colorVariants] = await Promise.all([
+    const [images, model, infoCard, revisions, colorVariants, site, area, context] = await Promise.all([
       getImagesForArtifact(id),
       getModelForArtifact(id),
       getInfoCardForArtifact(id),
+      getInfoCardRevisions(id),
       getColorVariantsForArtifact(id),
+      artifact.siteId ? db.sites.get(artifact.siteId) : undefined,
+      artifact.areaId ? db.areas.get(artifact.areaId) : undefined,
+      artifact.contextId ? db.contexts.get(artifact.contextId) : undefined,
     ]);
+    const season = context?.seasonId ? await db.seasons.get(context.seasonId) : undefined;
 
     // Convert blobs to base64
     const exportedImages = await Promise.all(
       images.map(async (img) => ({
         data: await blobToBase64(img.blob),
+        sha256: img.sha256,
         angle: img.angle,
         width: img.width,
         height: img.height,
@@ -56,14 +80,32 @@ export function useDataExport(): UseDataExportReturn {
     if (model) {
       exportedModel = {
         data: await blobToBase64(model.blob),
+        sha256: model.sha256,
         format: model.format,
         source: model.source,
+        sourceImages: model.sourceImageIds
+          ?.map((imageId) => images.findIndex((img) => img.id === imageId))
+          .filter((index) => index !== -1),
+        generation: model.generation,
+      };
+    }
+
+    // Image ids change on import, so refer to images by position
+    let exportedInfoCard;
+    if (infoCard) {
+      const { sourceImageIds, ...infoCardData } = infoCard;
+      exportedInfoCard = {
+        ...infoCardData,
+        sourceImages: sourceImageIds
+          ?.map((imageId) => images.findIndex((img) => img.id === imageId))
+          .filter((index) => index !== -1),
       };
     }
 
     const exportedVariants = await Promise.all(
       colorVariants.map(async (variant) => ({
         data: await blobToBase64(variant.blob),
+        sha256: variant.sha256,
         colorScheme: variant.colorScheme,
       }))
     );
@@ -79,8 +121,10 @@ export function useDataExport(): UseDataExportReturn {
       artifact: { ...artifactData, thumbnailBase64 },
       images: exportedImages,
       model: exportedModel,
-      infoCard: infoCard || undefined,
+      infoCard: exportedInfoCard,
+      infoCardRevisions: revisions.length > 0 ? revisions : undefined,
       colorVariants: exportedVariants.length > 0 ? exportedVariants : undefined,
+      location: site ? { site, area, season, context } : undefined,
     };
   }, []);
 
@@ -108,6 +152,7 @@ export function useDataExport(): UseDataExportReturn {
       const filename = `artifact-${id}-${new Date().toISOString().split('T')[0]}.json`;
 
       downloadFile(blob, filename);
+      await markArtifactsExported([id]);
       setExportProgress(100);
     } catch (error) {
       console.error('Export failed:', error);
@@ -126,11 +171,13 @@ export function useDataExport(): UseDataExportReturn {
       const artifacts = await getAllArtifacts();
       const total = artifacts.length;
       const exportedArtifacts: ExportedArtifact[] = [];
+      const exportedIds: string[] = [];
 
       for (let i = 0; i < artifacts.length; i++) {
         const exported = await exportSingleArtifact(artifacts[i].id);
         if (exported) {
           exportedArtifacts.push(exported);
+          exportedIds.push(artifacts[i].id);
         }
         setExportProgress(Math.round(((i + 1) / total) * 90));
       }
@@ -146,6 +193,7 @@ export function useDataExport(): UseDataExportReturn {
       const filename = `all-artifacts-${new Date().toISOString().split('T')[0]}.json`;
 
       downloadFile(blob, filename);
+      await markArtifactsExported(exportedIds);
       setExportProgress(100);
     } catch (error) {
       console.error('Export failed:', error);
@@ -1,11 +1,16 @@
 import { useState, useCallback } from 'react';
-import { createArtifact, addImage, saveModel, saveInfoCard, addColorVariant, getArtifact } from '@/lib/db';
+import { createArtifact, addImage, saveModel, saveInfoCard, addInfoCardRevisions, addColorVariant, getArtifact, importArtifactLocation, runInTransaction } from '@/lib/db';
 import { generateId } from '@/lib/utils';
+import { getLegacyLocation } from '@/lib/excavation';
+import { useSettingsStore } from '@/stores/appStore';
+import type { InfoCardQuestion, InfoCardRevision } from '@/types';
 
 export interface ImportResult {
   success: boolean;
   imported: number;
   skipped: number;
+  /** Registration numbers already taken here, and the numbers given instead */
+  renumbered: Array<{ from: string; to: string }>;
   errors: string[];
 }
 
@@ -36,6 +41,7 @@ export function useDataImport(): UseDataImportReturn {
   const [isImporting, setIsImporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [importError, setImportError] = useState<string | null>(null);
+  const registrationPattern = useSettingsStore((s) => s.registrationPattern);
 
   const importData = useCallback(async (file: File, duplicateHandling: 'skip' | 'overwrite'): Promise<ImportResult> => {
     setIsImporting(true);
@@ -46,6 +52,7 @@ export function useDataImport(): UseDataImportReturn {
       success: true,
       imported: 0,
       skipped: 0,
+      renumbered: [],
       errors: [],
     };
 
@@ -83,81 +90,161 @@ export function useDataImport(): UseDataImportReturn {
           const newArtifactId = generateId();
 
           // Convert thumbnail base64 back to blob
-          let thumbnailBlob;
+          let thumbnailBlob: Blob | undefined;
           if (artifactData.thumbnailBase64) {
             thumbnailBlob = base64ToBlob(artifactData.thumbnailBase64, 'image/jpeg');
           }
 
-          // Create artifact with new ID
-          const artifact = {
-            ...artifactData,
-            id: newArtifactId,
-            thumbnailBlob,
-            createdAt: new Date(artifactData.createdAt),
-            updatedAt: new Date(artifactData.updatedAt),
-            imageIds: [],
-            model3DId: undefined,
-            infoCardId: undefined,
-            colorVariantIds: [],
-          };
-
-          await createArtifact(artifact);
-
-          // Import images
-          if (exportedArtifact.images) {
-            for (const img of exportedArtifact.images) {
-              const imageBlob = base64ToBlob(img.data, 'image/jpeg');
-              await addImage({
+          // The artifact and everything belonging to it are saved together,
+          // so a failure halfway leaves nothing behind
+          const renumbered = await runInTransaction(async () => {
+            let renumbered: ImportResult['renumbered'][number] | undefined;
+
+            // Find spot: the exported site, area and context, or the names
+            // older exports kept in the metadata
+            const { siteName, discoveryLocation, excavationLayer, ...metadata } = artifactData.metadata ?? {};
+            const location = await importArtifactLocation(
+              exportedArtifact.location ?? getLegacyLocation({ siteName, discoveryLocation, excavationLayer })
+            );
+
+            // Create artifact with new ID
+            const artifact = {
+              ...artifactData,
+              siteId: location.siteId,
+              areaId: location.areaId,
+              contextId: location.contextId,
+              metadata: location.siteId ? metadata : artifactData.metadata,
+              id: newArtifactId,
+              thumbnailBlob,
+              createdAt: new Date(artifactData.createdAt),
+              updatedAt: new Date(artifactData.updatedAt),
+              imageIds: [],
+              model3DId: undefined,
+              infoCardId: undefined,
+              colorVariantIds: [],
+            };
+
+            // Finds numbered on another device keep their number unless a
+            // find here has it; then they're numbered anew
+            if (artifact.registrationNumber) {
+              await createArtifact(artifact, { pattern: registrationPattern });
+              const created = await getArtifact(newArtifactId);
+              if (created?.registrationNumber && created.registrationNumber !== artifact.registrationNumber) {
+                renumbered = { from: artifact.registrationNumber, to: created.registrationNumber };
+              }
+            } else {
+              await createArtifact(artifact);
+            }
+
+            // Import images. Files are checked against the checksums they
+            // were exported with: one that doesn't match fails the artifact
+            const importedImageIds: string[] = [];
+            if (exportedArtifact.images) {
+              for (const img of exportedArtifact.images) {
+                const imageBlob = base64ToBlob(img.data, 'image/jpeg');
+                const imageId = generateId();
+                importedImageIds.push(imageId);
+                await addImage({
+                  id: imageId,
+                  artifactId: newArtifactId,
+                  blob: imageBlob,
+                  sha256: img.sha256,
+                  angle: img.angle,
+                  width: img.width,
+                  height: img.height,
+                  createdAt: new Date(),
+                });
+              }
+            }
+
+            // Import model
+            if (exportedArtifact.model) {
+              const modelBlob = base64ToBlob(exportedArtifact.model.data, 'model/gltf-binary');
+              await saveModel({
                 id: generateId(),
                 artifactId: newArtifactId,
-                blob: imageBlob,
-                angle: img.angle,
-                width: img.width,
-                height: img.height,
+                blob: modelBlob,
+                sha256: exportedArtifact.model.sha256,
+                format: exportedArtifact.model.format,
+                source: exportedArtifact.model.source,
+                sourceImageIds: exportedArtifact.model.sourceImages
+                  ?.map((index: number) => importedImageIds[index])
+                  .filter(Boolean),
+                generation: exportedArtifact.model.generation,
                 createdAt: new Date(),
               });
             }
-          }
-
-          // Import model
-          if (exportedArtifact.model) {
-            const modelBlob = base64ToBlob(exportedArtifact.model.data, 'model/gltf-binary');
-            await saveModel({
-              id: generateId(),
-              artifactId: newArtifactId,
-              blob: modelBlob,
-              format: exportedArtifact.model.format,
-              source: exportedArtifact.model.source,
-              createdAt: new Date(),
-            });
-          }
-
-          // Import info card
-          if (exportedArtifact.infoCard) {
-            await saveInfoCard({
-              ...exportedArtifact.infoCard,
-              id: generateId(),
-              artifactId: newArtifactId,
-              createdAt: new Date(exportedArtifact.infoCard.createdAt),
-              updatedAt: new Date(exportedArtifact.infoCard.updatedAt),
-            });
-          }
 
-          // Import color variants
-          if (exportedArtifact.colorVariants) {
-            for (const variant of exportedArtifact.colorVariants) {
-              const variantBlob = base64ToBlob(variant.data, 'image/jpeg');
-              await addColorVariant({
-                id: generateId(),
+            // Import info card
+            if (exportedArtifact.infoCard) {
+              const { sourceImages, ...infoCardData } = exportedArtifact.infoCard;
+              const infoCardId = generateId();
+              await saveInfoCard({
+                ...infoCardData,
+                id: infoCardId,
                 artifactId: newArtifactId,
-                blob: variantBlob,
-                colorScheme: variant.colorScheme,
-                prompt: '',
-                aiModel: 'imported',
-                isSpeculative: true,
-                createdAt: new Date(),
+                sourceImageIds: sourceImages
+                  ?.map((index: number) => importedImageIds[index])
+                  .filter(Boolean),
+                createdAt: new Date(exportedArtifact.infoCard.createdAt),
+                updatedAt: new Date(exportedArtifact.infoCard.updatedAt),
+                questions: exportedArtifact.infoCard.questions?.map((entry: InfoCardQuestion) => ({
+                  ...entry,
+                  askedAt: new Date(entry.askedAt),
+                })),
+                review: exportedArtifact.infoCard.review && {
+                  ...exportedArtifact.infoCard.review,
+                  reviewedAt: exportedArtifact.infoCard.review.reviewedAt
+                    ? new Date(exportedArtifact.infoCard.review.reviewedAt)
+                    : undefined,
+                },
+              }, {
+                author: infoCardData.isHumanEdited ? 'human' : 'ai',
+                aiModel: infoCardData.aiModel,
+                action: 'imported',
               });
+
+              // Earlier revisions, attached to the imported card
+              if (exportedArtifact.infoCardRevisions) {
+                const newIds: string[] = exportedArtifact.infoCardRevisions.map(() => `revision-${generateId()}`);
+                const revisionIds = new Map<string, string>(
+                  exportedArtifact.infoCardRevisions.map((revision: InfoCardRevision, i: number) => [revision.id, newIds[i]])
+                );
+                await addInfoCardRevisions(
+                  exportedArtifact.infoCardRevisions.map((revision: InfoCardRevision, i: number) => ({
+                    ...revision,
+                    id: newIds[i],
+                    artifactId: newArtifactId,
+                    infoCardId,
+                    createdAt: new Date(revision.createdAt),
+                    restoredFrom: revision.restoredFrom && revisionIds.get(revision.restoredFrom),
+                  }))
+                );
+              }
+            }
+
+            // Import color variants
+            if (exportedArtifact.colorVariants) {
+              for (const variant of exportedArtifact.colorVariants) {
+                const variantBlob = base64ToBlob(variant.data, 'image/jpeg');
+                await addColorVariant({
+                  id: generateId(),
+                  artifactId: newArtifactId,
+                  blob: variantBlob,
+                  sha256: variant.sha256,
+                  colorScheme: variant.colorScheme,
+                  prompt: '',
+                  aiModel: 'imported',
+                  isSpeculative: true,
+                  createdAt: new Date(),
+                });
+              }
             }
+
+            return renumbered;
+          });
+          if (renumbered) {
+            result.renumbered.push(renumbered);
           }
 
           result.imported++;
@@ -183,7 +270,7 @@ export function useDataImport(): UseDataImportReturn {
     }
 
     return result;
-  }, []);
+  }, [registrationPattern]);
 
   return {
     importData,
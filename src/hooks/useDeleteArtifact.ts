@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { deleteArtifact, getArtifact } from '@/lib/db';
+import { useAppStore } from '@/stores/appStore';
 
 export interface UseDeleteArtifactReturn {
   deleteArtifact: (id: string) => Promise<void>;
@@ -14,12 +15,22 @@ export interface UseDeleteArtifactReturn {
 
 /**
  * Hook for managing artifact deletion with confirmation
+ * Deleted artifacts go to the trash, and the undo toast offers them back
  */
 export function useDeleteArtifact(onDeleted?: () => void): UseDeleteArtifactReturn {
   const [isDeleting, setIsDeleting] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
   const [pendingDeleteName, setPendingDeleteName] = useState<string | null>(null);
+  const setLastDeleted = useAppStore((s) => s.setLastDeleted);
+
+  const moveToTrash = useCallback(async (id: string) => {
+    const artifact = await getArtifact(id);
+    const trashEntryId = await deleteArtifact(id);
+    if (trashEntryId) {
+      setLastDeleted({ trashEntryId, kind: 'artifact', name: artifact?.metadata?.name });
+    }
+  }, [setLastDeleted]);
 
   const confirmDelete = useCallback(async (id: string) => {
     // Fetch artifact name for display
@@ -40,7 +51,7 @@ export function useDeleteArtifact(onDeleted?: () => void): UseDeleteArtifactRetu
 
     setIsDeleting(true);
     try {
-      await deleteArtifact(pendingDeleteId);
+      await moveToTrash(pendingDeleteId);
       setShowConfirm(false);
       setPendingDeleteId(null);
       setPendingDeleteName(null);
@@ -51,12 +62,12 @@ export function useDeleteArtifact(onDeleted?: () => void): UseDeleteArtifactRetu
     } finally {
       setIsDeleting(false);
     }
-  }, [pendingDeleteId, onDeleted]);
+  }, [pendingDeleteId, onDeleted, moveToTrash]);
 
   const deleteArtifactDirect = useCallback(async (id: string) => {
     setIsDeleting(true);
     try {
-      await deleteArtifact(id);
+      await moveToTrash(id);
       onDeleted?.();
     } catch (error) {
       console.error('Failed to delete artifact:', error);
@@ -64,7 +75,7 @@ export function useDeleteArtifact(onDeleted?: () => void): UseDeleteArtifactRetu
     } finally {
       setIsDeleting(false);
     }
-  }, [onDeleted]);
+  }, [onDeleted, moveToTrash]);
 
   return {
     deleteArtifact: deleteArtifactDirect,
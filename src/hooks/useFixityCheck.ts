@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { verifyDueBlobs } from '@/lib/db/fixity';
+
+// Files verified each time the app opens; the rest wait for the next time
+const FILES_PER_RUN = 50;
+
+// After the app has opened, so hashing doesn't slow it down
+const START_DELAY = 30 * 1000;
+
+/**
+ * Verify a batch of the stored files due for it, a while after the app opens
+ */
+export function useFixityCheck(): void {
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      verifyDueBlobs(FILES_PER_RUN).catch((error) => {
+        console.error('Fixity check failed:', error);
+      });
+    }, START_DELAY);
+    return () => clearTimeout(timer);
+  }, []);
+}
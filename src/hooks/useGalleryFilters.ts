@@ -1,9 +1,27 @@
 import { useState, useMemo } from 'react';
-import type { Artifact, ArtifactStatus } from '@/types';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getSites } from '@/lib/db';
+import { findPeriod, findTerm } from '@/lib/vocabulary';
+import { parseDateRange } from '@/lib/utils/dateRange';
+import { useVocabulary } from './useVocabulary';
+import type { Artifact, ArtifactStatus, VocabularyName, VocabularyTerm } from '@/types';
+
+/**
+ * Filter on the info card's specialist review
+ * 'needs-review' is every card not yet verified or rejected
+ */
+export type GalleryReviewFilter = 'all' | 'needs-review' | 'verified' | 'rejected';
+
+/**
+ * Filter on vocabulary terms, by term id
+ */
+export type GalleryTermFilters = Partial<Record<VocabularyName, string>>;
 
 export interface GalleryFilters {
   search: string;
   status: ArtifactStatus | 'all';
+  review: GalleryReviewFilter;
+  terms: GalleryTermFilters;
   sortBy: 'date' | 'name' | 'status';
   sortOrder: 'asc' | 'desc';
 }
@@ -12,35 +30,81 @@ export interface UseGalleryFiltersReturn {
   filters: GalleryFilters;
   setSearch: (search: string) => void;
   setStatus: (status: ArtifactStatus | 'all') => void;
+  setReview: (review: GalleryReviewFilter) => void;
+  setTerm: (vocabulary: VocabularyName, termId: string | 'all') => void;
   setSortBy: (sortBy: 'date' | 'name' | 'status') => void;
   toggleSortOrder: () => void;
   filteredArtifacts: Artifact[];
   resultCount: number;
 }
 
+/**
+ * The terms an artifact is described by: the finder's identification and
+ * the terms its info card maps to
+ */
+function getArtifactTermIds(
+  artifact: Artifact,
+  vocabulary: VocabularyName,
+  terms: VocabularyTerm[]
+): string[] {
+  const text = artifact.metadata?.[vocabulary]?.trim();
+  const identified = text
+    ? vocabulary === 'period'
+      ? findPeriod(terms, text, parseDateRange(text) ?? undefined)
+      : findTerm(terms, vocabulary, text)
+    : undefined;
+  return [identified?.id, artifact.infoCardTerms?.[vocabulary]].filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Whether a term is the one filtered on or narrower than it
+ */
+function isTermWithin(termId: string, filterId: string, termsById: Map<string, VocabularyTerm>): boolean {
+  const seen = new Set<string>();
+  for (let id: string | undefined = termId; id && !seen.has(id); id = termsById.get(id)?.broader) {
+    if (id === filterId) return true;
+    seen.add(id);
+  }
+  return false;
+}
+
 /**
  * Custom hook for filtering and sorting artifacts in the gallery
  */
 export function useGalleryFilters(artifacts: Artifact[]): UseGalleryFiltersReturn {
   const [search, setSearch] = useState('');
   const [status, setStatus] = useState<ArtifactStatus | 'all'>('all');
+  const [review, setReview] = useState<GalleryReviewFilter>('all');
+  const [termFilters, setTermFilters] = useState<GalleryTermFilters>({});
   const [sortBy, setSortBy] = useState<'date' | 'name' | 'status'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
+  const { terms } = useVocabulary();
+  const sites = useLiveQuery(() => getSites(), []);
+
   const toggleSortOrder = () => {
     setSortOrder((prev) => (prev === 'asc' ? 'desc' : 'asc'));
   };
 
+  const setTerm = (vocabulary: VocabularyName, termId: string | 'all') => {
+    setTermFilters((prev) => ({ ...prev, [vocabulary]: termId === 'all' ? undefined : termId }));
+  };
+
   const filteredArtifacts = useMemo(() => {
     let result = [...artifacts];
 
-    // Filter by search (artifact name, site name)
+    // Filter by search (artifact name, registration number, site name)
     if (search.trim()) {
       const searchLower = search.toLowerCase();
+      const siteNames = new Map((sites || []).map((site) => [site.id, site.name]));
       result = result.filter((artifact) => {
         const name = artifact.metadata?.name?.toLowerCase() ?? '';
-        const site = artifact.metadata?.siteName?.toLowerCase() ?? '';
-        return name.includes(searchLower) || site.includes(searchLower);
+        const site = ((artifact.siteId && siteNames.get(artifact.siteId)) || artifact.metadata?.siteName)?.toLowerCase() ?? '';
+        const registrationNumbers = [artifact.registrationNumber, ...(artifact.formerRegistrationNumbers ?? [])]
+          .filter(Boolean)
+          .join(' ')
+          .toLowerCase();
+        return name.includes(searchLower) || registrationNumbers.includes(searchLower) || site.includes(searchLower);
       });
     }
 
@@ -49,6 +113,26 @@ export function useGalleryFilters(artifacts: Artifact[]): UseGalleryFiltersRetur
       result = result.filter((artifact) => artifact.status === status);
     }
 
+    // Filter by info card review (artifacts without a card have nothing to review)
+    if (review !== 'all') {
+      result = result.filter((artifact) => {
+        if (!artifact.infoCardId) return false;
+        const reviewStatus = artifact.infoCardReviewStatus ?? 'ai-draft';
+        return review === 'needs-review'
+          ? reviewStatus === 'ai-draft' || reviewStatus === 'in-review'
+          : reviewStatus === review;
+      });
+    }
+
+    // Filter by vocabulary terms, including narrower terms ("Stone" finds limestone)
+    const termsById = new Map(terms.map((term) => [term.id, term]));
+    for (const [vocabulary, filterId] of Object.entries(termFilters) as [VocabularyName, string | undefined][]) {
+      if (!filterId) continue;
+      result = result.filter((artifact) =>
+        getArtifactTermIds(artifact, vocabulary, terms).some((id) => isTermWithin(id, filterId, termsById))
+      );
+    }
+
     // Sort
     result.sort((a, b) => {
       let comparison = 0;
@@ -72,12 +156,14 @@ export function useGalleryFilters(artifacts: Artifact[]): UseGalleryFiltersRetur
     });
 
     return result;
-  }, [artifacts, search, status, sortBy, sortOrder]);
+  }, [artifacts, search, status, review, termFilters, terms, sites, sortBy, sortOrder]);
 
   return {
-    filters: { search, status, sortBy, sortOrder },
+    filters: { search, status, review, terms: termFilters, sortBy, sortOrder },
     setSearch,
     setStatus,
+    setReview,
+    setTerm,
     setSortBy,
     toggleSortOrder,
     filteredArtifacts,
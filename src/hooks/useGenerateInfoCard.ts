@@ -1,8 +1,12 @@
 import { useState, useRef, useCallback } from 'react';
-import { generateInfoCard, APIError } from '@/lib/api/client';
+import { generateInfoCard, getInfoCardTranslations, APIError, isNetworkError } from '@/lib/api/client';
+import { InfoCardValidationError, getInfoCardLanguage } from '@/lib/api/infoCardSchema';
+import { encodeInfoCardImages, selectInfoCardImages } from '@/lib/api/infoCardImages';
+import { queueOperation } from '@/lib/api/offlineQueue';
 import { saveInfoCard, updateArtifact } from '@/lib/db';
-import { useAppStore } from '@/stores/appStore';
-import type { InfoCard, ArtifactMetadata, ProcessingStatus } from '@/types';
+import { useAppStore, useSettingsStore } from '@/stores/appStore';
+import i18n from '@/i18n';
+import type { InfoCard, ArtifactImage, ArtifactMetadata, ProcessingStatus } from '@/types';
 
 /**
  * Progress state for the info card generation process
@@ -11,6 +15,7 @@ export type GenerateInfoCardState =
   | 'idle'
   | 'uploading'
   | 'processing'
+  | 'queued'
   | 'complete'
   | 'error';
 
@@ -18,7 +23,13 @@ export type GenerateInfoCardState =
  * Error type for generation failures
  */
 export interface GenerateInfoCardError {
-  type: 'upload-failed' | 'processing-failed' | 'cancelled' | 'network' | 'unknown';
+  type:
+    | 'upload-failed'
+    | 'processing-failed'
+    | 'invalid-response'
+    | 'cancelled'
+    | 'network'
+    | 'unknown';
   message: string;
   originalError?: Error;
 }
@@ -35,14 +46,16 @@ export interface UseGenerateInfoCardOptions {
   onError?: (error: GenerateInfoCardError) => void;
   /** Called when progress updates */
   onProgress?: (progress: number, state: GenerateInfoCardState) => void;
+  /** Called when the job was added to the offline queue instead of running */
+  onQueued?: (operationId: string) => void;
 }
 
 /**
  * Return type for the useGenerateInfoCard hook
  */
 export interface UseGenerateInfoCardReturn {
-  /** Start the info card generation process */
-  generateCard: (image: Blob, metadata?: ArtifactMetadata) => Promise<InfoCard | null>;
+  /** Start the info card generation process from the artifact's photos */
+  generateCard: (images: ArtifactImage[], metadata?: ArtifactMetadata) => Promise<InfoCard | null>;
   /** Cancel the in-flight generation */
   cancel: () => void;
   /** Current progress state */
@@ -57,23 +70,6 @@ export interface UseGenerateInfoCardReturn {
   reset: () => void;
 }
 
-/**
- * Converts a Blob to base64 string
- */
-async function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = () => reject(new Error('Failed to read blob'));
-    reader.readAsDataURL(blob);
-  });
-}
-
 /**
  * Generates a unique ID for the info card
  */
@@ -85,14 +81,14 @@ function generateId(): string {
  * Hook for generating AI-powered info cards from artifact images
  *
  * Handles the complete generation workflow:
- * 1. Upload image to the API
+ * 1. Upload the artifact's photos (every view, labelled) to the API
  * 2. Track processing progress
  * 3. Save resulting info card to IndexedDB
  * 4. Update artifact status
  * 5. Integrate with app store for global state
  */
 export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGenerateInfoCardReturn {
-  const { artifactId, onSuccess, onError, onProgress } = options;
+  const { artifactId, onSuccess, onError, onProgress, onQueued } = options;
 
   // State
   const [state, setState] = useState<GenerateInfoCardState>('idle');
@@ -108,6 +104,8 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
   const setProcessingStep = useAppStore((s) => s.setProcessingStep);
   const updateProcessingProgress = useAppStore((s) => s.updateProcessingProgress);
   const setProcessingError = useAppStore((s) => s.setProcessingError);
+  const isOnline = useAppStore((s) => s.isOnline);
+  const bilingual = useSettingsStore((s) => s.bilingualInfoCards);
 
   /**
    * Updates both local and global state
@@ -123,6 +121,7 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
         idle: 'idle',
         uploading: 'uploading',
         processing: 'generating-info',
+        queued: 'idle',
         complete: 'complete',
         error: 'error',
       };
@@ -158,6 +157,39 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
     [artifactId, onError, setProcessingError]
   );
 
+  /**
+   * Adds the job to the offline queue so it runs once the connection returns
+   */
+  const queueGeneration = useCallback(
+    async (images: ArtifactImage[], metadata?: ArtifactMetadata): Promise<void> => {
+      const operationId = await queueOperation({
+        type: 'generateInfoCard',
+        artifactId,
+        imageIds: images.map((image) => image.id),
+        params: {
+          // Written in the interface language at the time it was requested
+          language: getInfoCardLanguage(i18n.language),
+          bilingual,
+          metadata: metadata ? {
+            discoveryLocation: metadata.discoveryLocation,
+            excavationLayer: metadata.excavationLayer,
+            siteName: metadata.siteName,
+            notes: metadata.notes,
+            material: metadata.material,
+            period: metadata.period,
+            objectType: metadata.objectType,
+          } : undefined,
+        },
+      });
+
+      setState('queued');
+      setProgress(0);
+      setProcessingStatus(null);
+      onQueued?.(operationId);
+    },
+    [artifactId, bilingual, onQueued, setProcessingStatus]
+  );
+
   /**
    * Reset the hook state
    */
@@ -188,29 +220,37 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
    * Start the info card generation process
    */
   const generateCard = useCallback(
-    async (image: Blob, metadata?: ArtifactMetadata): Promise<InfoCard | null> => {
+    async (artifactImages: ArtifactImage[], metadata?: ArtifactMetadata): Promise<InfoCard | null> => {
       // Validate inputs
-      if (!image) {
+      if (artifactImages.length === 0) {
         handleError('upload-failed', 'No image provided for info card generation');
         return null;
       }
 
-      // Validate image is not empty or corrupted
-      if (image.size === 0) {
-        handleError('upload-failed', 'Image file is empty or corrupted');
+      // Skip images that are empty, corrupted or too small (under 1KB) to analyse
+      const usableImages = artifactImages.filter((image) => image.blob.size >= 1024);
+      if (usableImages.length === 0) {
+        handleError(
+          'upload-failed',
+          artifactImages.some((image) => image.blob.size > 0)
+            ? 'Image file is too small. Please use a higher quality image.'
+            : 'Image file is empty or corrupted'
+        );
         return null;
       }
 
-      // Validate minimum image size (at least 1KB)
-      if (image.size < 1024) {
-        handleError('upload-failed', 'Image file is too small. Please use a higher quality image.');
-        return null;
-      }
+      const images = selectInfoCardImages(usableImages);
 
       // Reset state
       isCancelledRef.current = false;
       setError(null);
 
+      // No connection - run it later from the offline queue
+      if (!isOnline) {
+        await queueGeneration(images, metadata);
+        return null;
+      }
+
       // Create abort controller for cancellation
       abortControllerRef.current = new AbortController();
 
@@ -233,9 +273,10 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
           return null;
         }
 
-        updateState('uploading', 15, 'Encoding image...');
+        updateState('uploading', 15, 'Encoding images...');
 
-        const imageBase64 = await blobToBase64(image);
+        // Downscaled as needed to keep the request within function limits
+        const encodedImages = await encodeInfoCardImages(images);
 
         if (isCancelledRef.current) {
           return null;
@@ -248,12 +289,17 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
 
         // Call the API
         const response = await generateInfoCard({
-          imageBase64,
+          images: encodedImages,
+          language: getInfoCardLanguage(i18n.language),
+          bilingual,
           metadata: metadata ? {
             discoveryLocation: metadata.discoveryLocation,
             excavationLayer: metadata.excavationLayer,
             siteName: metadata.siteName,
             notes: metadata.notes,
+            material: metadata.material,
+            period: metadata.period,
+            objectType: metadata.objectType,
           } : undefined,
         });
 
@@ -289,10 +335,13 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
           culturalContext: response.infoCard.culturalContext,
           similarArtifacts: response.infoCard.similarArtifacts || [],
           preservationNotes: response.infoCard.preservationNotes,
-          aiModel: 'llama-3.2-90b-vision-preview',
+          aiModel: response.aiModel || 'llama-3.2-90b-vision-preview',
           aiConfidence: response.infoCard.aiConfidence || 0.75,
           isHumanEdited: false,
+          sourceImageIds: images.map((image) => image.id),
           disclaimer: response.infoCard.disclaimer,
+          language: response.infoCard.language || 'en',
+          translations: getInfoCardTranslations(response),
         };
 
         if (isCancelledRef.current) {
@@ -329,11 +378,23 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
 
         const caughtError = err as Error;
 
+        // Lost the connection on the way - keep the job for later
+        if (isNetworkError(caughtError)) {
+          await queueGeneration(images, metadata);
+          return null;
+        }
+
         // Determine error type
         let errorType: GenerateInfoCardError['type'] = 'unknown';
         let errorMessage = 'An unexpected error occurred during info card generation';
 
-        if (caughtError instanceof APIError) {
+        if (caughtError instanceof InfoCardValidationError) {
+          // The AI's answer was malformed even after a repair attempt
+          errorType = 'invalid-response';
+          errorMessage = `The AI returned an incomplete info card (${caughtError.fields
+            .map((field) => field.field)
+            .join(', ')}). Please try again.`;
+        } else if (caughtError instanceof APIError) {
           if (caughtError.statusCode >= 500) {
             errorType = 'processing-failed';
             errorMessage = 'Server error during analysis. Please try again.';
@@ -361,7 +422,7 @@ export function useGenerateInfoCard(options: UseGenerateInfoCardOptions): UseGen
         abortControllerRef.current = null;
       }
     },
-    [artifactId, onSuccess, handleError, updateState, setProcessingStatus]
+    [artifactId, isOnline, bilingual, onSuccess, handleError, updateState, setProcessingStatus, queueGeneration]
   );
 
   return {
@@ -1,43 +1,48 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import {
   getQueuedOperations,
   processQueue,
   clearQueue,
+  cancelQueuedOperation,
+  retryQueuedOperation,
   type QueuedOperation,
   type ProcessQueueResult,
 } from '@/lib/api/offlineQueue';
+import { requestQueueSync } from '@/lib/pwa/backgroundSync';
+import { showQueueNotification } from '@/lib/pwa/notifications';
 import { useAppStore } from '@/stores/appStore';
+import i18n from '@/i18n';
 
 export interface UseOfflineQueueReturn {
   queuedOperations: QueuedOperation[];
   isProcessing: boolean;
   processQueuedOperations: () => Promise<ProcessQueueResult>;
-  clearQueuedOperations: () => void;
+  clearQueuedOperations: () => Promise<void>;
+  cancelOperation: (id: string) => Promise<void>;
+  retryOperation: (id: string) => Promise<ProcessQueueResult>;
   hasQueuedOperations: boolean;
-  refreshQueue: () => void;
 }
 
+const EMPTY_QUEUE: QueuedOperation[] = [];
+
 /**
  * Hook for managing the offline operations queue
+ * The queue is read with a live query, so it stays in sync with IndexedDB
+ * (including results saved by the service worker's background sync)
  */
 export function useOfflineQueue(): UseOfflineQueueReturn {
-  const [queuedOperations, setQueuedOperations] = useState<QueuedOperation[]>([]);
+  const queuedOperations = useLiveQuery(() => getQueuedOperations(), []) ?? EMPTY_QUEUE;
   const [isProcessing, setIsProcessing] = useState(false);
   const isOnline = useAppStore((s) => s.isOnline);
   const hasAutoProcessed = useRef(false);
 
-  const refreshQueue = useCallback(() => {
-    setQueuedOperations(getQueuedOperations());
-  }, []);
-
-  // Refresh queue on mount and when online status changes
+  // Reset auto-process flag when going offline
   useEffect(() => {
-    refreshQueue();
-    // Reset auto-process flag when going offline
     if (!isOnline) {
       hasAutoProcessed.current = false;
     }
-  }, [refreshQueue, isOnline]);
+  }, [isOnline]);
 
   const processQueuedOperations = useCallback(async (): Promise<ProcessQueueResult> => {
     if (isProcessing) {
@@ -46,38 +51,58 @@ export function useOfflineQueue(): UseOfflineQueueReturn {
 
     setIsProcessing(true);
     try {
-      const result = await processQueue();
-      setQueuedOperations(getQueuedOperations());
-      return result;
+      return await processQueue();
     } finally {
       setIsProcessing(false);
     }
   }, [isProcessing, queuedOperations.length]);
 
-  const clearQueuedOperations = useCallback(() => {
-    clearQueue();
-    setQueuedOperations([]);
+  const clearQueuedOperations = useCallback(async () => {
+    await clearQueue();
+  }, []);
+
+  const cancelOperation = useCallback(async (id: string) => {
+    await cancelQueuedOperation(id);
+  }, []);
+
+  const retryOperation = useCallback(async (id: string): Promise<ProcessQueueResult> => {
+    setIsProcessing(true);
+    try {
+      return await retryQueuedOperation(id);
+    } finally {
+      setIsProcessing(false);
+    }
   }, []);
 
   // Auto-process queue when coming back online (only once per reconnection)
   useEffect(() => {
     if (isOnline && queuedOperations.length > 0 && !isProcessing && !hasAutoProcessed.current) {
       hasAutoProcessed.current = true;
-      processQueue().then((result) => {
-        setQueuedOperations(getQueuedOperations());
-        setIsProcessing(false);
-      }).catch(() => {
-        setIsProcessing(false);
+
+      const run = async () => {
+        // When Background Sync is available the service worker drains the queue instead
+        if (await requestQueueSync()) return;
+
+        const result = await processQueuedOperations();
+        // Only notify when the user is not looking at the app
+        if (document.visibilityState === 'hidden') {
+          await showQueueNotification(result, i18n.language);
+        }
+      };
+
+      run().catch((error) => {
+        console.error('Failed to process offline queue:', error);
       });
     }
-  }, [isOnline, queuedOperations.length, isProcessing]);
+  }, [isOnline, queuedOperations.length, isProcessing, processQueuedOperations]);
 
   return {
     queuedOperations,
     isProcessing,
     processQueuedOperations,
     clearQueuedOperations,
+    cancelOperation,
+    retryOperation,
     hasQueuedOperations: queuedOperations.length > 0,
-    refreshQueue,
   };
 }
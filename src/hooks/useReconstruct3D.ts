@@ -1,8 +1,15 @@
 import { useState, useRef, useCallback } from 'react';
-import { reconstruct3D, APIError } from '@/lib/api/client';
+import { runReconstructionJob, APIError, isNetworkError, type ReconstructionJob } from '@/lib/api/client';
+import { queueOperation } from '@/lib/api/offlineQueue';
+import {
+  selectReconstructionImages,
+  encodeReconstructionImages,
+  getContributingImageIds,
+} from '@/lib/api/reconstructionImages';
+import { getModelGeneration } from '@/lib/api/reconstructionPresets';
 import { saveModel, updateArtifact } from '@/lib/db';
-import { useAppStore } from '@/stores/appStore';
-import type { Model3D, ProcessingStatus } from '@/types';
+import { useAppStore, useSettingsStore } from '@/stores/appStore';
+import type { ArtifactImage, Model3D, ProcessingStatus } from '@/types';
 
 /**
  * Reconstruction method type
@@ -16,6 +23,7 @@ export type ReconstructProgressState =
   | 'idle'
   | 'uploading'
   | 'processing'
+  | 'queued'
   | 'complete'
   | 'error';
 
@@ -23,7 +31,13 @@ export type ReconstructProgressState =
  * Error type for reconstruction failures
  */
 export interface ReconstructError {
-  type: 'upload-failed' | 'processing-failed' | 'cancelled' | 'network' | 'unknown';
+  type:
+    | 'upload-failed'
+    | 'processing-failed'
+    | 'incompatible-space'
+    | 'cancelled'
+    | 'network'
+    | 'unknown';
   message: string;
   originalError?: Error;
 }
@@ -40,6 +54,8 @@ export interface UseReconstruct3DOptions {
   onError?: (error: ReconstructError) => void;
   /** Called when progress updates */
   onProgress?: (progress: number, state: ReconstructProgressState) => void;
+  /** Called when the job was added to the offline queue instead of running */
+  onQueued?: (operationId: string) => void;
 }
 
 /**
@@ -47,13 +63,15 @@ export interface UseReconstruct3DOptions {
  */
 export interface UseReconstruct3DReturn {
   /** Start the reconstruction process */
-  startReconstruction: (images: Blob[], method: ReconstructMethod) => Promise<Model3D | null>;
+  startReconstruction: (images: ArtifactImage[], method: ReconstructMethod) => Promise<Model3D | null>;
   /** Cancel the in-flight reconstruction */
   cancel: () => void;
   /** Current progress state */
   state: ReconstructProgressState;
   /** Progress percentage (0-100) */
   progress: number;
+  /** Latest server-side job status (phase, queue position, ETA) */
+  job: ReconstructionJob | null;
   /** Error details if state is 'error' */
   error: ReconstructError | null;
   /** Whether reconstruction is in progress */
@@ -62,23 +80,6 @@ export interface UseReconstruct3DReturn {
   reset: () => void;
 }
 
-/**
- * Converts a Blob to base64 string
- */
-async function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = () => reject(new Error('Failed to read blob'));
-    reader.readAsDataURL(blob);
-  });
-}
-
 /**
  * Converts a base64 string to Blob
  */
@@ -114,23 +115,31 @@ function methodToApiMethod(method: ReconstructMethod): 'trellis' | 'triposr' {
   return method === 'single' ? 'triposr' : 'trellis';
 }
 
+/**
+ * Maps server job progress (0-100) into the processing band of the hook (10-90)
+ */
+function jobToProgress(job: ReconstructionJob): number {
+  return Math.round(10 + job.progress * 0.8);
+}
+
 /**
  * Hook for 3D reconstruction from images
  *
  * Handles the complete reconstruction workflow:
- * 1. Upload images to the API
- * 2. Track processing progress
+ * 1. Start a reconstruction job on the server
+ * 2. Follow the job's status events for its real progress (queue position, phase, retries)
  * 3. Save resulting model to IndexedDB
  * 4. Update artifact status
  * 5. Integrate with app store for global state
  */
 export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstruct3DReturn {
-  const { artifactId, onSuccess, onError, onProgress } = options;
+  const { artifactId, onSuccess, onError, onProgress, onQueued } = options;
 
   // State
   const [state, setState] = useState<ReconstructProgressState>('idle');
   const [progress, setProgress] = useState<number>(0);
   const [error, setError] = useState<ReconstructError | null>(null);
+  const [job, setJob] = useState<ReconstructionJob | null>(null);
 
   // Refs for cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -141,6 +150,11 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
   const setProcessingStep = useAppStore((s) => s.setProcessingStep);
   const updateProcessingProgress = useAppStore((s) => s.updateProcessingProgress);
   const setProcessingError = useAppStore((s) => s.setProcessingError);
+  const isOnline = useAppStore((s) => s.isOnline);
+
+  // Quality preset / advanced parameters chosen in the reconstruction panel
+  const reconstructionParams = useSettingsStore((s) => s.reconstructionParams);
+  const reconstructionPresetId = useSettingsStore((s) => s.reconstructionPresetId);
 
   /**
    * Updates both local and global state
@@ -156,6 +170,7 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
         idle: 'idle',
         uploading: 'uploading',
         processing: 'reconstructing-3d',
+        queued: 'idle',
         complete: 'complete',
         error: 'error',
       };
@@ -191,6 +206,36 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
     [artifactId, onError, setProcessingError]
   );
 
+  /**
+   * Adds the job to the offline queue so it runs once the connection returns.
+   * A job the server already started is followed from there, not sent again.
+   */
+  const queueReconstruction = useCallback(
+    async (images: ArtifactImage[], method: ReconstructMethod, jobId?: string): Promise<void> => {
+      const operationId = await queueOperation({
+        type: 'reconstruct3d',
+        artifactId,
+        jobId,
+        // Only the views that will be sent, in order
+        imageIds: selectReconstructionImages(images, method === 'multi').map((image) => image.id),
+        params: {
+          method: methodToApiMethod(method),
+          removeBackground: true,
+          source: methodToSource(method),
+          trellisParams: reconstructionParams.trellis,
+          triposrParams: reconstructionParams.triposr,
+          presetId: reconstructionPresetId ?? undefined,
+        },
+      });
+
+      setState('queued');
+      setProgress(0);
+      setProcessingStatus(null);
+      onQueued?.(operationId);
+    },
+    [artifactId, onQueued, setProcessingStatus, reconstructionParams, reconstructionPresetId]
+  );
+
   /**
    * Reset the hook state
    */
@@ -198,6 +243,7 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
     setState('idle');
     setProgress(0);
     setError(null);
+    setJob(null);
     isCancelledRef.current = false;
     abortControllerRef.current = null;
     setProcessingStatus(null);
@@ -221,7 +267,7 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
    * Start the reconstruction process
    */
   const startReconstruction = useCallback(
-    async (images: Blob[], method: ReconstructMethod): Promise<Model3D | null> => {
+    async (images: ArtifactImage[], method: ReconstructMethod): Promise<Model3D | null> => {
       // Validate inputs
       if (!images || images.length === 0) {
         handleError('upload-failed', 'No images provided for reconstruction');
@@ -232,8 +278,16 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
       isCancelledRef.current = false;
       setError(null);
 
+      // No connection - run it later from the offline queue
+      if (!isOnline) {
+        await queueReconstruction(images, method);
+        return null;
+      }
+
       // Create abort controller for cancellation
       abortControllerRef.current = new AbortController();
+      // Set once the server has the job, so a dropped connection doesn't send it twice
+      let startedJobId: string | undefined;
 
       // Initialize processing status in app store
       setProcessingStatus({
@@ -247,45 +301,64 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
       await updateArtifact(artifactId, { status: 'processing-3d' });
 
       try {
-        // Phase 1: Upload/Convert images (0-30%)
+        // Phase 1: Encode and upload (0-10%)
         updateState('uploading', 0, 'Converting images...');
+        setJob(null);
 
-        // For now, we use the first image for reconstruction
-        // In a full implementation, multi-image would combine multiple views
-        const primaryImage = images[0];
+        // Multi-view sends every whole-object angle, single view the best one
+        const views = selectReconstructionImages(images, method === 'multi');
 
         if (isCancelledRef.current) {
           return null;
         }
 
-        updateState('uploading', 15, 'Encoding image...');
+        updateState('uploading', 5, 'Encoding images...');
 
-        const imageBase64 = await blobToBase64(primaryImage);
+        const encodedViews = await encodeReconstructionImages(views);
 
         if (isCancelledRef.current) {
           return null;
         }
 
-        updateState('uploading', 30, 'Uploading to server...');
+        updateState('uploading', 10, 'Uploading to server...');
 
-        // Phase 2: Processing (30-90%)
-        updateState('processing', 30, 'Starting 3D reconstruction...');
-
-        // Call the API
-        const response = await reconstruct3D({
-          imageBase64,
-          method: methodToApiMethod(method),
-          removeBackground: true,
-        });
+        // Phase 2: Server-side job (10-90%), progress comes from the job status
+        const response = await runReconstructionJob(
+          {
+            images: encodedViews,
+            method: methodToApiMethod(method),
+            removeBackground: true,
+            trellisParams: reconstructionParams.trellis,
+            triposrParams: reconstructionParams.triposr,
+          },
+          {
+            signal: abortControllerRef.current.signal,
+            onStarted: (jobId) => {
+              startedJobId = jobId;
+            },
+            onStatus: (status) => {
+              if (isCancelledRef.current) return;
+              setJob(status);
+              updateState('processing', jobToProgress(status), `Reconstruction ${status.phase}...`);
+            },
+          }
+        );
 
         if (isCancelledRef.current) {
           return null;
         }
 
-        updateState('processing', 70, 'Processing 3D model...');
-
         // Check for API errors
         if (!response.success || !response.modelBase64) {
+          if (response.errorType === 'incompatible-space-api') {
+            // Retrying won't help until the Space (or our config) changes
+            handleError(
+              'incompatible-space',
+              'The 3D reconstruction service has changed and is not supported yet. Please try again later.',
+              response.error ? new Error(response.error) : undefined
+            );
+            return null;
+          }
           handleError(
             'processing-failed',
             response.error || 'Failed to generate 3D model'
@@ -293,13 +366,13 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
           return null;
         }
 
-        updateState('processing', 85, 'Converting model data...');
-
         // Phase 3: Save to IndexedDB (90-100%)
         updateState('processing', 90, 'Saving model...');
 
         // Convert base64 to blob
         const modelBlob = base64ToBlob(response.modelBase64);
+        // A TripoSR fallback only uses the primary view
+        const sourceImageIds = getContributingImageIds(views, response.usedImages);
 
         // Create model object
         const model: Model3D = {
@@ -308,7 +381,13 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
           blob: modelBlob,
           format: response.format || 'glb',
           createdAt: new Date(),
-          source: methodToSource(method),
+          source: sourceImageIds.length > 1 ? '3d-multi' : '3d-single',
+          sourceImageIds,
+          generation: getModelGeneration(
+            response,
+            reconstructionParams,
+            reconstructionPresetId ?? undefined
+          ),
           metadata: {
             fileSize: modelBlob.size,
           },
@@ -348,6 +427,12 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
 
         const caughtError = err as Error;
 
+        // Lost the connection on the way - keep the job for later
+        if (isNetworkError(caughtError)) {
+          await queueReconstruction(images, method, startedJobId);
+          return null;
+        }
+
         // Determine error type
         let errorType: ReconstructError['type'] = 'unknown';
         let errorMessage = 'An unexpected error occurred during reconstruction';
@@ -377,7 +462,17 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
         abortControllerRef.current = null;
       }
     },
-    [artifactId, onSuccess, handleError, updateState, setProcessingStatus]
+    [
+      artifactId,
+      isOnline,
+      onSuccess,
+      handleError,
+      updateState,
+      setProcessingStatus,
+      queueReconstruction,
+      reconstructionParams,
+      reconstructionPresetId,
+    ]
   );
 
   return {
@@ -385,6 +480,7 @@ export function useReconstruct3D(options: UseReconstruct3DOptions): UseReconstru
     cancel,
     state,
     progress,
+    job,
     error,
     isProcessing: state === 'uploading' || state === 'processing',
     reset,
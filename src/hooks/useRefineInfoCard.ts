@@ -0,0 +1,320 @@
+import { useState, useCallback } from 'react';
+import { regenerateInfoCardField, askInfoCard, APIError, isNetworkError } from '@/lib/api/client';
+import { InfoCardValidationError, INFO_CARD_FIELDS } from '@/lib/api/infoCardSchema';
+import { encodeInfoCardImages, selectInfoCardImages } from '@/lib/api/infoCardImages';
+import { updateInfoCard } from '@/lib/db';
+import { useAppStore } from '@/stores/appStore';
+import type { InfoCard, InfoCardField, InfoCardQuestion, ArtifactImage, ArtifactMetadata } from '@/types';
+
+/**
+ * Error type for refinement failures
+ */
+export interface RefineInfoCardError {
+  type:
+    | 'human-edited'
+    | 'offline'
+    | 'invalid-response'
+    | 'processing-failed'
+    | 'network'
+    | 'unknown';
+  message: string;
+  originalError?: Error;
+}
+
+/**
+ * Options for the useRefineInfoCard hook
+ */
+export interface UseRefineInfoCardOptions {
+  /** The card to refine */
+  infoCard: InfoCard;
+  /** The artifact's photos; the card's source images are sent with each request */
+  images: ArtifactImage[];
+  /** Excavation context, as used when generating */
+  metadata?: ArtifactMetadata;
+  /** Called with the saved card after each change */
+  onUpdate?: (infoCard: InfoCard) => void;
+}
+
+export interface RegenerateFieldOptions {
+  /** Extra context for the new version */
+  context?: string;
+  /** Replace the field even though a human edited it */
+  overwriteHumanEdit?: boolean;
+}
+
+/**
+ * Return type for the useRefineInfoCard hook
+ */
+export interface UseRefineInfoCardReturn {
+  /** Regenerate one field, leaving the rest of the card as it is */
+  regenerateField: (field: InfoCardField, options?: RegenerateFieldOptions) => Promise<InfoCard | null>;
+  /** Ask a question about the artifact; the answer is added to the card's thread */
+  askQuestion: (question: string) => Promise<InfoCard | null>;
+  /** The field being regenerated, or 'question' while waiting for an answer */
+  pending: InfoCardField | 'question' | null;
+  /** Error from the last request */
+  error: RefineInfoCardError | null;
+  /** Clear the error */
+  clearError: () => void;
+}
+
+/**
+ * The fields of a card a human has edited
+ * Cards edited before fields were tracked count as edited throughout
+ */
+export function getHumanEditedFields(infoCard: InfoCard): InfoCardField[] {
+  if (infoCard.humanEditedFields) return infoCard.humanEditedFields;
+  return infoCard.isHumanEdited ? [...INFO_CARD_FIELDS] : [];
+}
+
+/**
+ * Whether a human edited a field of the card
+ */
+export function isFieldHumanEdited(infoCard: InfoCard, field: InfoCardField): boolean {
+  return getHumanEditedFields(infoCard).includes(field);
+}
+
+/**
+ * Generates a unique ID for a question
+ */
+function generateId(): string {
+  return `question-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * The AI-generated text of a card, as sent back to the model
+ */
+function getCardFields(infoCard: InfoCard) {
+  return {
+    material: infoCard.material,
+    estimatedAge: infoCard.estimatedAge,
+    possibleUse: infoCard.possibleUse,
+    culturalContext: infoCard.culturalContext,
+    similarArtifacts: infoCard.similarArtifacts || [],
+    preservationNotes: infoCard.preservationNotes,
+    aiConfidence: infoCard.aiConfidence,
+  };
+}
+
+/**
+ * Hook for follow-ups on an existing info card
+ *
+ * Unlike useGenerateInfoCard, nothing is replaced wholesale:
+ * - one field is regenerated at a time, optionally with extra context, and a
+ *   field a human edited is only replaced when the caller confirms it
+ * - questions and answers are appended to the card's thread
+ * Both need a connection; they are interactive, so they aren't queued.
+ */
+export function useRefineInfoCard(options: UseRefineInfoCardOptions): UseRefineInfoCardReturn {
+  const { infoCard, images, metadata, onUpdate } = options;
+
+  const [pending, setPending] = useState<InfoCardField | 'question' | null>(null);
+  const [error, setError] = useState<RefineInfoCardError | null>(null);
+
+  const isOnline = useAppStore((s) => s.isOnline);
+
+  /**
+   * The photos the card was made from, falling back to the usual selection
+   */
+  const getImages = useCallback(async () => {
+    const sourceIds = infoCard.sourceImageIds || [];
+    const sourceImages = images.filter((image) => sourceIds.includes(image.id));
+    return encodeInfoCardImages(
+      sourceImages.length > 0 ? sourceImages : selectInfoCardImages(images)
+    );
+  }, [infoCard.sourceImageIds, images]);
+
+  const getMetadata = useCallback(() => metadata ? {
+    discoveryLocation: metadata.discoveryLocation,
+    excavationLayer: metadata.excavationLayer,
+    siteName: metadata.siteName,
+    notes: metadata.notes,
+    material: metadata.material,
+    period: metadata.period,
+    objectType: metadata.objectType,
+  } : undefined, [metadata]);
+
+  /**
+   * Map a failed request to an error
+   */
+  const handleError = useCallback((err: unknown) => {
+    const caughtError = err as Error;
+    let refineError: RefineInfoCardError = {
+      type: 'unknown',
+      message: 'An unexpected error occurred. Please try again.',
+      originalError: caughtError,
+    };
+
+    if (caughtError instanceof InfoCardValidationError) {
+      refineError = {
+        type: 'invalid-response',
+        message: 'The AI returned an incomplete answer. Please try again.',
+        originalError: caughtError,
+      };
+    } else if (isNetworkError(caughtError)) {
+      refineError = {
+        type: 'network',
+        message: 'Network error. Please check your connection and try again.',
+        originalError: caughtError,
+      };
+    } else if (caughtError instanceof APIError) {
+      refineError = {
+        type: 'processing-failed',
+        message: caughtError.statusCode === 429
+          ? 'Rate limit exceeded. Please wait a moment and try again.'
+          : caughtError.statusCode >= 500
+            ? 'Server error during analysis. Please try again.'
+            : caughtError.message,
+        originalError: caughtError,
+      };
+    }
+
+    setError(refineError);
+  }, []);
+
+  /**
+   * Check the connection before a request
+   */
+  const requireOnline = useCallback((): boolean => {
+    if (!isOnline) {
+      setError({ type: 'offline', message: 'You are offline. Connect to the internet to use AI follow-ups.' });
+      return false;
+    }
+    return true;
+  }, [isOnline]);
+
+  const regenerateField = useCallback(
+    async (field: InfoCardField, regenerateOptions: RegenerateFieldOptions = {}): Promise<InfoCard | null> => {
+      setError(null);
+
+      const wasHumanEdited = isFieldHumanEdited(infoCard, field);
+      if (wasHumanEdited && !regenerateOptions.overwriteHumanEdit) {
+        setError({
+          type: 'human-edited',
+          message: 'This field was edited by an archaeologist. Confirm to replace it.',
+        });
+        return null;
+      }
+
+      if (!requireOnline()) return null;
+
+      setPending(field);
+      try {
+        const translationLanguages = Object.keys(infoCard.translations || {}) as ('en' | 'he')[];
+        const response = await regenerateInfoCardField({
+          card: getCardFields(infoCard),
+          field,
+          context: regenerateOptions.context?.trim() || undefined,
+          images: await getImages(),
+          language: infoCard.language || 'en',
+          translateTo: translationLanguages.length > 0 ? translationLanguages : undefined,
+          metadata: getMetadata(),
+        });
+
+        if (!response.success || !response.infoCard) {
+          setError({ type: 'processing-failed', message: response.error || 'Failed to regenerate field' });
+          return null;
+        }
+
+        // A translation that couldn't be updated no longer matches the card
+        let translations: InfoCard['translations'];
+        for (const language of translationLanguages) {
+          const translation = infoCard.translations?.[language];
+          const value = response.translations?.[language];
+          if (translation && value !== undefined) {
+            translations = { ...translations, [language]: { ...translation, [field]: value } };
+          }
+        }
+
+        // The field is AI text again
+        const humanEditedFields = wasHumanEdited
+          ? getHumanEditedFields(infoCard).filter((edited) => edited !== field)
+          : infoCard.humanEditedFields;
+
+        const updates: Partial<InfoCard> = {
+          [field]: response.infoCard[field],
+          translations,
+          humanEditedFields,
+          isHumanEdited: humanEditedFields ? humanEditedFields.length > 0 : infoCard.isHumanEdited,
+          updatedAt: new Date(),
+        };
+
+        const savedCard = await updateInfoCard(infoCard.id, updates, {
+          author: 'ai',
+          aiModel: response.aiModel || infoCard.aiModel,
+          action: 'regenerated',
+        });
+        const updatedCard: InfoCard = savedCard ?? { ...infoCard, ...updates };
+        onUpdate?.(updatedCard);
+        return updatedCard;
+      } catch (err) {
+        handleError(err);
+        return null;
+      } finally {
+        setPending(null);
+      }
+    },
+    [infoCard, requireOnline, getImages, getMetadata, handleError, onUpdate]
+  );
+
+  const askQuestion = useCallback(
+    async (question: string): Promise<InfoCard | null> => {
+      setError(null);
+
+      const trimmed = question.trim();
+      if (!trimmed || !requireOnline()) return null;
+
+      setPending('question');
+      try {
+        const thread = infoCard.questions || [];
+        const response = await askInfoCard({
+          card: getCardFields(infoCard),
+          question: trimmed,
+          history: thread.map((entry) => ({ question: entry.question, answer: entry.answer })),
+          images: await getImages(),
+          language: infoCard.language || 'en',
+          metadata: getMetadata(),
+        });
+
+        if (!response.success || !response.answer) {
+          setError({ type: 'processing-failed', message: response.error || 'Failed to get an answer' });
+          return null;
+        }
+
+        const entry: InfoCardQuestion = {
+          id: generateId(),
+          question: trimmed,
+          answer: response.answer,
+          askedAt: new Date(),
+          aiModel: response.aiModel || infoCard.aiModel,
+        };
+
+        const updates: Partial<InfoCard> = {
+          questions: [...thread, entry],
+          updatedAt: new Date(),
+        };
+
+        const savedCard = await updateInfoCard(infoCard.id, updates);
+        const updatedCard: InfoCard = savedCard ?? { ...infoCard, ...updates };
+        onUpdate?.(updatedCard);
+        return updatedCard;
+      } catch (err) {
+        handleError(err);
+        return null;
+      } finally {
+        setPending(null);
+      }
+    },
+    [infoCard, requireOnline, getImages, getMetadata, handleError, onUpdate]
+  );
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    regenerateField,
+    askQuestion,
+    pending,
+    error,
+    clearError,
+  };
+}
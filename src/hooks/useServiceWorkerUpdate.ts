@@ -0,0 +1,23 @@
+import { useSyncExternalStore, useCallback } from 'react';
+import { subscribeToUpdates, getWaitingWorker, applyUpdate } from '@/lib/pwa/serviceWorker';
+
+export interface UseServiceWorkerUpdateReturn {
+  updateAvailable: boolean;
+  reload: () => void;
+}
+
+/**
+ * Hook exposing whether a new app version is waiting to be activated
+ */
+export function useServiceWorkerUpdate(): UseServiceWorkerUpdateReturn {
+  const waiting = useSyncExternalStore(subscribeToUpdates, getWaitingWorker, () => null);
+
+  const reload = useCallback(() => {
+    applyUpdate();
+  }, []);
+
+  return {
+    updateAvailable: waiting !== null,
+    reload,
+  };
+}
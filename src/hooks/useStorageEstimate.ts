@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import {
+  getQuotaLevel,
+  getStorageEstimate,
+  requestPersistentStorage,
+  type QuotaLevel,
+  type StorageEstimate,
+} from '@/lib/pwa/storage';
+
+export interface UseStorageEstimateReturn {
+  /** Undefined while loading, null where the browser doesn't report it */
+  estimate: StorageEstimate | null | undefined;
+  level: QuotaLevel;
+  refresh: () => Promise<void>;
+  /** Ask for persistent storage; resolves to whether it's persistent now */
+  requestPersistence: () => Promise<boolean>;
+}
+
+/**
+ * Storage used and available to the app, and whether it's persistent
+ * Read again whenever a file is stored or removed, here or in another tab,
+ * and when the app comes back into view
+ */
+export function useStorageEstimate(): UseStorageEstimateReturn {
+  const [estimate, setEstimate] = useState<StorageEstimate | null | undefined>(undefined);
+
+  const refresh = useCallback(async () => {
+    setEstimate(await getStorageEstimate());
+  }, []);
+
+  // Files are what fill the quota; each one stored gets a new blob
+  const blobCount = useLiveQuery(() => db.blobs.count(), []);
+
+  useEffect(() => {
+    getStorageEstimate().then(setEstimate);
+  }, [blobCount]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        getStorageEstimate().then(setEstimate);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const requestPersistence = useCallback(async () => {
+    const persisted = await requestPersistentStorage();
+    await refresh();
+    return persisted;
+  }, [refresh]);
+
+  return {
+    estimate,
+    level: estimate ? getQuotaLevel(estimate) : 'ok',
+    refresh,
+    requestPersistence,
+  };
+}
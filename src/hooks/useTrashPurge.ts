@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { purgeExpiredTrash } from '@/lib/db';
+import { useSettingsStore } from '@/stores/appStore';
+
+/**
+ * Purge what has been in the trash for longer than the retention setting,
+ * when the app opens and whenever the setting changes
+ */
+export function useTrashPurge(): void {
+  const retentionDays = useSettingsStore((s) => s.trashRetentionDays);
+
+  useEffect(() => {
+    purgeExpiredTrash(retentionDays).catch((error) => {
+      console.error('Failed to purge trash:', error);
+    });
+  }, [retentionDays]);
+}
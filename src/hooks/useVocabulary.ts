@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useTranslation } from 'react-i18next';
+import { getVocabularyTerms } from '@/lib/db';
+import { BUNDLED_TERMS, getTermLabel } from '@/lib/vocabulary';
+import type { VocabularyName, VocabularyTerm } from '@/types';
+
+export interface UseVocabularyReturn {
+  /** Every term, including the ones the user hid */
+  terms: VocabularyTerm[];
+  /** The terms of one vocabulary that are in use */
+  getTerms: (vocabulary: VocabularyName) => VocabularyTerm[];
+  /** A term by id */
+  getTerm: (id: string | undefined) => VocabularyTerm | undefined;
+  /** A term's label in the interface language */
+  getLabel: (term: VocabularyTerm) => string;
+}
+
+/**
+ * The controlled vocabularies with the user's edits, kept in sync with
+ * IndexedDB; the bundled terms are used until the edits are loaded
+ */
+export function useVocabulary(): UseVocabularyReturn {
+  const { i18n } = useTranslation();
+  const terms = useLiveQuery(() => getVocabularyTerms(), [], BUNDLED_TERMS);
+
+  const termsById = useMemo(() => new Map(terms.map((term) => [term.id, term])), [terms]);
+
+  const getTerms = useCallback(
+    (vocabulary: VocabularyName) => terms.filter((term) => term.vocabulary === vocabulary && !term.hidden),
+    [terms]
+  );
+
+  const getTerm = useCallback((id: string | undefined) => (id ? termsById.get(id) : undefined), [termsById]);
+
+  const getLabel = useCallback((term: VocabularyTerm) => getTermLabel(term, i18n.language), [i18n.language]);
+
+  return { terms, getTerms, getTerm, getLabel };
+}
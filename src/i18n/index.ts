@@ -4,10 +4,11 @@ import LanguageDetector from 'i18next-browser-languagedetector';
 
 import en from './locales/en.json';
 import he from './locales/he.json';
+import { queueNotificationStrings } from './queueNotification';
 
 export const resources = {
-  en: { translation: en },
-  he: { translation: he },
+  en: { translation: { ...en, ui: { ...en.ui, queueNotification: queueNotificationStrings.en } } },
+  he: { translation: { ...he, ui: { ...he.ui, queueNotification: queueNotificationStrings.he } } },
 } as const;
 
 export const supportedLanguages = ['en', 'he'] as const;
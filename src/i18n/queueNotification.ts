@@ -0,0 +1,32 @@
+/**
+ * Text of the notification shown when queued jobs finish
+ *
+ * Kept out of the locale files so the service worker can show it without
+ * bundling every translation; the app's resources add it back as
+ * ui.queueNotification.
+ */
+
+export interface QueueNotificationStrings {
+  title: string;
+  processed: string;
+  processed_plural: string;
+  failed: string;
+  failed_plural: string;
+}
+
+export const queueNotificationStrings: Record<'en' | 'he', QueueNotificationStrings> = {
+  en: {
+    title: 'Relic AI',
+    processed: '{{count}} queued job finished',
+    processed_plural: '{{count}} queued jobs finished',
+    failed: '{{count}} queued job failed',
+    failed_plural: '{{count}} queued jobs failed',
+  },
+  he: {
+    title: 'Relic AI',
+    processed: 'משימה אחת מהתור הושלמה',
+    processed_plural: '{{count}} משימות מהתור הושלמו',
+    failed: 'משימה אחת מהתור נכשלה',
+    failed_plural: '{{count}} משימות מהתור נכשלו',
+  },
+};
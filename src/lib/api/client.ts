@@ -4,6 +4,16 @@
  * Handles all calls to the backend functions with proper error handling.
  */
 
+import type { ImageAngle, InfoCard, TrellisParams, TripoSRParams } from '@/types';
+import {
+  InfoCardValidationError,
+  parseInfoCard,
+  type InfoCardFieldError,
+  type InfoCardFieldName,
+  type InfoCardFields,
+  type InfoCardLanguage,
+} from './infoCardSchema';
+
 const API_BASE = '/.netlify/functions';
 
 export class APIError extends Error {
@@ -18,18 +28,36 @@ export class APIError extends Error {
   }
 }
 
-async function callFunction<T>(
-  functionName: string,
-  payload: unknown
-): Promise<T> {
-  const response = await fetch(`${API_BASE}/${functionName}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
+/**
+ * Status codes that mean the request never reached a working function,
+ * so it is worth retrying later rather than reporting a hard failure
+ */
+const NETWORK_STATUS_CODES = [0, 408, 502, 503, 504];
 
+/**
+ * Whether an error is network-class (offline, unreachable, gateway timeout)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof APIError && NETWORK_STATUS_CODES.includes(error.statusCode);
+}
+
+/**
+ * Fetch a function URL, turning connection failures into network-class APIErrors
+ */
+async function fetchFunction(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    // Cancellation is not a connection problem
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    // fetch only rejects when no response was received
+    throw new APIError('Network request failed', 0, error);
+  }
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     // Handle error response - may not be valid JSON
     let errorData: { error?: string };
@@ -49,20 +77,92 @@ async function callFunction<T>(
   return await response.json() as T;
 }
 
+async function callFunction<T>(
+  functionName: string,
+  payload: unknown,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetchFunction(`${API_BASE}/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  return parseResponse<T>(response);
+}
+
+async function queryFunction<T>(
+  functionName: string,
+  params: Record<string, string>,
+  signal?: AbortSignal
+): Promise<T> {
+  const query = new URLSearchParams(params).toString();
+  const response = await fetchFunction(`${API_BASE}/${functionName}?${query}`, {
+    method: 'GET',
+    signal,
+  });
+
+  return parseResponse<T>(response);
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal is aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
 /**
  * 3D Reconstruction API
  */
-export interface Reconstruct3DRequest {
+export interface ReconstructImage {
   imageBase64: string;
+  angle?: ImageAngle;
+}
+
+export interface Reconstruct3DRequest {
+  /** Single image; ignored when `images` is given */
+  imageBase64?: string;
+  /** Ordered views of the object, primary view first (multi-view with TRELLIS.2) */
+  images?: ReconstructImage[];
   method?: 'trellis' | 'triposr';
   removeBackground?: boolean;
+  /** TRELLIS.2 generation parameters; omitted ones use the server defaults */
+  trellisParams?: Partial<TrellisParams>;
+  /** TripoSR generation parameters (also used by the fallback) */
+  triposrParams?: Partial<TripoSRParams>;
 }
 
 export interface Reconstruct3DResponse {
   success: boolean;
   modelBase64?: string;
   format?: 'glb';
+  /** Method that produced the model ('triposr' after a fallback) */
+  method?: 'trellis' | 'triposr';
+  /** Indices into the request's images that the model was generated from */
+  usedImages?: number[];
+  /** Parameters the model was generated with, defaults filled in */
+  params?: {
+    trellisParams?: TrellisParams;
+    triposrParams?: TripoSRParams;
+    removeBackground?: boolean;
+  };
   error?: string;
+  /** Set when the HuggingFace Space has no endpoint we can use */
+  errorType?: ReconstructionErrorType;
 }
 
 export async function reconstruct3D(
@@ -71,44 +171,526 @@ export async function reconstruct3D(
   return callFunction<Reconstruct3DResponse>('reconstruct-3d', request);
 }
 
+export type ReconstructionErrorType = 'incompatible-space-api';
+
+/**
+ * 3D Reconstruction Jobs API
+ * Reconstruction runs in a background function; the client follows its status
+ * as Server-Sent Events, or by polling where the response can't be streamed
+ */
+export type ReconstructionJobPhase =
+  | 'pending'
+  | 'connecting'
+  | 'queued'
+  | 'generating'
+  | 'downloading'
+  | 'retrying'
+  | 'complete'
+  | 'error';
+
+export interface ReconstructionJob {
+  id: string;
+  phase: ReconstructionJobPhase;
+  requestedMethod: 'trellis' | 'triposr';
+  method: 'trellis' | 'triposr';
+  /** Whether TRELLIS.2 failed and TripoSR is being used instead */
+  fallback: boolean;
+  attempt: number;
+  /** Position in the HuggingFace Space queue */
+  queuePosition?: number;
+  queueSize?: number;
+  etaSeconds?: number;
+  /** Overall progress estimate (0-100) */
+  progress: number;
+  /** Seconds until the next attempt, while retrying */
+  retryInSeconds?: number;
+  /** Why the last attempt failed, while retrying */
+  lastError?: string;
+  error?: string;
+  errorType?: ReconstructionErrorType;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StartReconstructionJobResponse {
+  success: boolean;
+  jobId?: string;
+  job?: ReconstructionJob;
+  error?: string;
+}
+
+export interface ReconstructionJobStatusResponse {
+  success: boolean;
+  job?: ReconstructionJob;
+  error?: string;
+}
+
+/**
+ * Server-Sent Event names from reconstruct-3d-events
+ */
+export type ReconstructionJobEventType = 'status' | 'retry' | 'fallback' | 'complete' | 'error';
+
+export interface RunReconstructionJobOptions {
+  /** Called with the job's ID once the server has accepted it */
+  onStarted?: (jobId: string) => void;
+  /** Called with every status event or poll */
+  onStatus?: (job: ReconstructionJob) => void;
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+// Background functions run for at most 15 minutes
+const JOB_TIMEOUT_MS = 16 * 60 * 1000;
+// Polls that may fail in a row before giving up
+const MAX_POLL_FAILURES = 3;
+
+export async function startReconstructionJob(
+  request: Reconstruct3DRequest,
+  signal?: AbortSignal
+): Promise<StartReconstructionJobResponse> {
+  return callFunction<StartReconstructionJobResponse>('reconstruct-3d-start', request, signal);
+}
+
+export async function getReconstructionJobStatus(
+  jobId: string,
+  signal?: AbortSignal
+): Promise<ReconstructionJobStatusResponse> {
+  return queryFunction<ReconstructionJobStatusResponse>('reconstruct-3d-status', { jobId }, signal);
+}
+
+export async function getReconstructionJobResult(
+  jobId: string,
+  signal?: AbortSignal
+): Promise<Reconstruct3DResponse> {
+  return queryFunction<Reconstruct3DResponse>('reconstruct-3d-result', { jobId }, signal);
+}
+
+const isFinished = (job: ReconstructionJob) => job.phase === 'complete' || job.phase === 'error';
+
+interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse one Server-Sent Events block (the lines between blank lines)
+ */
+function parseServerSentEvent(block: string): ServerSentEvent | null {
+  const event: ServerSentEvent = { event: 'message', data: '' };
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    // Lines starting with a colon are comments (keep-alives)
+    if (!line || line.startsWith(':')) continue;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') event.event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') event.id = value;
+  }
+
+  if (data.length === 0) return null;
+  event.data = data.join('\n');
+  return event;
+}
+
+/**
+ * Read a reconstruct-3d-events response body until the job finishes or the
+ * server closes the stream. Returns the last job received.
+ */
+async function readJobEvents(
+  body: NonNullable<Response['body']>,
+  onEvent: (type: ReconstructionJobEventType, job: ReconstructionJob, id?: string) => void
+): Promise<ReconstructionJob | null> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let lastJob: ReconstructionJob | null = null;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return lastJob;
+
+      buffer += value.replace(/\r\n?/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseServerSentEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+        if (!event) continue;
+
+        const payload = JSON.parse(event.data) as ReconstructionJob | { error: string };
+        if (!('id' in payload)) {
+          throw new APIError(payload.error, 404, payload);
+        }
+        lastJob = payload;
+        onEvent(event.event as ReconstructionJobEventType, payload, event.id);
+        if (isFinished(payload)) return payload;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Follow a job over Server-Sent Events, reconnecting whenever the server
+ * closes the stream. Returns null if the response can't be streamed (or time
+ * ran out), so the caller can poll instead.
+ */
+async function streamReconstructionJob(
+  jobId: string,
+  onStatus: ((job: ReconstructionJob) => void) | undefined,
+  signal: AbortSignal | undefined,
+  deadline: number
+): Promise<ReconstructionJob | null> {
+  const url = `${API_BASE}/reconstruct-3d-events?${new URLSearchParams({ jobId })}`;
+  let lastEventId: string | undefined;
+  let failedConnections = 0;
+
+  while (Date.now() < deadline) {
+    let response: Response;
+    try {
+      response = await fetchFunction(url, {
+        method: 'GET',
+        headers: lastEventId ? { 'Last-Event-ID': lastEventId } : undefined,
+        signal,
+      });
+    } catch (error) {
+      if (!isNetworkError(error) || ++failedConnections >= MAX_POLL_FAILURES) {
+        throw error;
+      }
+      await delay(JOB_POLL_INTERVAL_MS, signal);
+      continue;
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.ok || !response.body || !contentType.includes('text/event-stream')) {
+      return null;
+    }
+
+    let job: ReconstructionJob | null;
+    try {
+      job = await readJobEvents(response.body, (_type, update, id) => {
+        lastEventId = id;
+        onStatus?.(update);
+      });
+      failedConnections = 0;
+    } catch (error) {
+      // A dropped connection mid-stream is worth a reconnect
+      if (!(error instanceof TypeError) || ++failedConnections >= MAX_POLL_FAILURES) {
+        throw error;
+      }
+      continue;
+    }
+
+    if (job && isFinished(job)) return job;
+  }
+
+  return null;
+}
+
+/**
+ * Poll a job's status until it finishes; null if time ran out
+ */
+async function pollReconstructionJob(
+  jobId: string,
+  onStatus: ((job: ReconstructionJob) => void) | undefined,
+  signal: AbortSignal | undefined,
+  deadline: number,
+  pollIntervalMs: number
+): Promise<ReconstructionJob | null> {
+  let failedPolls = 0;
+
+  while (Date.now() < deadline) {
+    await delay(pollIntervalMs, signal);
+
+    let job: ReconstructionJob | undefined;
+    try {
+      job = (await getReconstructionJobStatus(jobId, signal)).job;
+      failedPolls = 0;
+    } catch (error) {
+      // Ride out a flaky connection; the job keeps running server-side
+      if (!isNetworkError(error) || ++failedPolls >= MAX_POLL_FAILURES) {
+        throw error;
+      }
+      continue;
+    }
+
+    if (!job) continue;
+    onStatus?.(job);
+    if (isFinished(job)) return job;
+  }
+
+  return null;
+}
+
+/**
+ * Start a reconstruction job and follow it until it finishes
+ */
+export async function runReconstructionJob(
+  request: Reconstruct3DRequest,
+  options: RunReconstructionJobOptions = {}
+): Promise<Reconstruct3DResponse> {
+  const { onStarted, onStatus, signal } = options;
+
+  const started = await startReconstructionJob(request, signal);
+  if (!started.success || !started.jobId) {
+    return { success: false, error: started.error || 'Failed to start 3D reconstruction' };
+  }
+  onStarted?.(started.jobId);
+  if (started.job) {
+    onStatus?.(started.job);
+  }
+
+  return followReconstructionJob(started.jobId, options);
+}
+
+/**
+ * Follow a reconstruction job that has already started until it finishes,
+ * then fetch its result
+ */
+export async function followReconstructionJob(
+  jobId: string,
+  options: Omit<RunReconstructionJobOptions, 'onStarted'> = {}
+): Promise<Reconstruct3DResponse> {
+  const { onStatus, signal, pollIntervalMs = JOB_POLL_INTERVAL_MS } = options;
+
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  const job =
+    (await streamReconstructionJob(jobId, onStatus, signal, deadline)) ||
+    (await pollReconstructionJob(jobId, onStatus, signal, deadline, pollIntervalMs));
+
+  if (!job) {
+    return { success: false, error: '3D reconstruction timed out' };
+  }
+  if (job.phase === 'error') {
+    return {
+      success: false,
+      error: job.error || 'Failed to generate 3D model',
+      errorType: job.errorType,
+      method: job.method,
+    };
+  }
+  return getReconstructionJobResult(jobId, signal);
+}
+
 /**
  * Info Card Generation API
  */
-export interface GenerateInfoCardRequest {
+export interface InfoCardImage {
   imageBase64: string;
+  /** Which view the photo shows, so the model can tell them apart */
+  angle?: ImageAngle;
+}
+
+export interface GenerateInfoCardRequest {
+  /** Single photo (older clients); use images for several views */
+  imageBase64?: string;
+  images?: InfoCardImage[];
+  /** Language to write the card in (default 'en') */
+  language?: InfoCardLanguage;
+  /** Also produce the card in the other supported language */
+  bilingual?: boolean;
   metadata?: {
     discoveryLocation?: string;
     excavationLayer?: string;
     siteName?: string;
     notes?: string;
+    material?: string;
+    period?: string;
+    objectType?: string;
   };
 }
 
-export interface InfoCardData {
-  material: string;
-  estimatedAge: {
-    range: string;
-    confidence: 'high' | 'medium' | 'low';
-    reasoning?: string;
-  };
-  possibleUse: string;
-  culturalContext: string;
-  similarArtifacts: string[];
-  preservationNotes: string;
-  aiConfidence: number;
+export interface InfoCardData extends InfoCardFields {
   disclaimer: string;
+  /** Language the card is written in (older servers: always 'en') */
+  language?: InfoCardLanguage;
 }
 
 export interface GenerateInfoCardResponse {
   success: boolean;
   infoCard?: InfoCardData;
+  /** The card in other languages, when a bilingual card was requested */
+  translations?: Partial<Record<InfoCardLanguage, InfoCardData>>;
+  /** Model that wrote the card (older servers don't say) */
+  aiModel?: string;
   error?: string;
+  errorType?: 'invalid-info-card';
+  validationErrors?: InfoCardFieldError[];
 }
 
+/**
+ * Generate an info card
+ * Throws InfoCardValidationError if the card doesn't match the schema,
+ * whether the function rejected it or it slipped through
+ */
 export async function generateInfoCard(
   request: GenerateInfoCardRequest
 ): Promise<GenerateInfoCardResponse> {
-  return callFunction<GenerateInfoCardResponse>('generate-info-card', request);
+  let response: GenerateInfoCardResponse;
+  try {
+    response = await callFunction<GenerateInfoCardResponse>('generate-info-card', request);
+  } catch (error) {
+    const details = error instanceof APIError ? error.details as GenerateInfoCardResponse | undefined : undefined;
+    if (details?.errorType === 'invalid-info-card') {
+      throw new InfoCardValidationError(details.validationErrors || []);
+    }
+    throw error;
+  }
+
+  if (response.success && response.infoCard) {
+    const { disclaimer, language } = response.infoCard;
+    const translations: GenerateInfoCardResponse['translations'] = {};
+    for (const [lang, translation] of Object.entries(response.translations || {})) {
+      translations[lang as InfoCardLanguage] = {
+        ...parseInfoCard(translation),
+        disclaimer: translation.disclaimer,
+        language: lang as InfoCardLanguage,
+      };
+    }
+    return {
+      ...response,
+      infoCard: { ...parseInfoCard(response.infoCard), disclaimer, language },
+      translations: response.translations ? translations : undefined,
+    };
+  }
+  return response;
+}
+
+/**
+ * The translations of a generated card, as stored on InfoCard
+ */
+export function getInfoCardTranslations(
+  response: GenerateInfoCardResponse
+): InfoCard['translations'] {
+  if (!response.translations) return undefined;
+
+  const translations: InfoCard['translations'] = {};
+  for (const [language, card] of Object.entries(response.translations)) {
+    translations[language as InfoCardLanguage] = {
+      material: card.material,
+      estimatedAge: card.estimatedAge,
+      possibleUse: card.possibleUse,
+      culturalContext: card.culturalContext,
+      similarArtifacts: card.similarArtifacts,
+      preservationNotes: card.preservationNotes,
+      disclaimer: card.disclaimer,
+    };
+  }
+  return Object.keys(translations).length > 0 ? translations : undefined;
+}
+
+/**
+ * Info Card Refinement API
+ * Follow-ups on an existing card: one field at a time, or questions about it
+ */
+interface RefineInfoCardRequest {
+  /** The card as it is now */
+  card: InfoCardFields;
+  /** Photos the card was made from */
+  images?: InfoCardImage[];
+  /** Language of the card */
+  language?: InfoCardLanguage;
+  metadata?: GenerateInfoCardRequest['metadata'];
+}
+
+export interface RegenerateInfoCardFieldRequest extends RefineInfoCardRequest {
+  field: InfoCardFieldName;
+  /** Extra context for the new version, from the archaeologist */
+  context?: string;
+  /** Also translate the new value into these languages (bilingual cards) */
+  translateTo?: InfoCardLanguage[];
+}
+
+export interface RegenerateInfoCardFieldResponse {
+  success: boolean;
+  field?: InfoCardFieldName;
+  /** The card with only the regenerated field changed */
+  infoCard?: InfoCardFields;
+  /** The new value in the requested languages */
+  translations?: Partial<Record<InfoCardLanguage, InfoCardFields[InfoCardFieldName]>>;
+  /** Model that wrote the new value */
+  aiModel?: string;
+  error?: string;
+  errorType?: 'invalid-info-card';
+  validationErrors?: InfoCardFieldError[];
+}
+
+// What the function returns; values are checked before they reach the caller
+interface RegenerateFieldResult {
+  success: boolean;
+  value?: unknown;
+  translations?: Record<string, unknown>;
+  aiModel?: string;
+  error?: string;
+  errorType?: 'invalid-info-card';
+  validationErrors?: InfoCardFieldError[];
+}
+
+export interface AskInfoCardRequest extends RefineInfoCardRequest {
+  question: string;
+  /** Earlier questions and answers in the thread, oldest first */
+  history?: { question: string; answer: string }[];
+}
+
+export interface AskInfoCardResponse {
+  success: boolean;
+  answer?: string;
+  /** Model that answered */
+  aiModel?: string;
+  error?: string;
+}
+
+/**
+ * Regenerate one field of a card
+ * Throws InfoCardValidationError if the new value doesn't match the schema
+ */
+export async function regenerateInfoCardField(
+  request: RegenerateInfoCardFieldRequest
+): Promise<RegenerateInfoCardFieldResponse> {
+  let response: RegenerateFieldResult;
+  try {
+    response = await callFunction<RegenerateFieldResult>('refine-info-card', { action: 'regenerate', ...request });
+  } catch (error) {
+    const details = error instanceof APIError ? error.details as RegenerateFieldResult | undefined : undefined;
+    if (details?.errorType === 'invalid-info-card') {
+      throw new InfoCardValidationError(details.validationErrors || []);
+    }
+    throw error;
+  }
+
+  if (!response.success) {
+    return { success: false, error: response.error };
+  }
+
+  // Checked in place on the card, so a field is held to the same schema as a new card
+  const { field } = request;
+  const infoCard = parseInfoCard({ ...request.card, [field]: response.value });
+  const translations: RegenerateInfoCardFieldResponse['translations'] = {};
+  for (const [language, value] of Object.entries(response.translations || {})) {
+    translations[language as InfoCardLanguage] = parseInfoCard({ ...request.card, [field]: value })[field];
+  }
+
+  return {
+    success: true,
+    field,
+    infoCard,
+    translations: Object.keys(translations).length > 0 ? translations : undefined,
+    aiModel: response.aiModel,
+  };
+}
+
+/**
+ * Ask a question about the artifact a card describes
+ */
+export async function askInfoCard(request: AskInfoCardRequest): Promise<AskInfoCardResponse> {
+  return callFunction<AskInfoCardResponse>('refine-info-card', { action: 'ask', ...request });
 }
 
 /**
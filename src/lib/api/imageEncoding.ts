@@ -0,0 +1,42 @@
+/**
+ * Encoding captured photos for the AI functions within their request size limit
+ */
+
+import { blobToBase64, downscaleImage } from '@/lib/utils';
+import type { ArtifactImage, ImageAngle } from '@/types';
+
+/**
+ * Budget for all encoded photos together, in base64 characters
+ * Synchronous functions accept 6 MB request bodies; leave room for the rest
+ */
+const PAYLOAD_BUDGET = 4.5 * 1024 * 1024;
+
+/** Longer-side sizes tried, largest first, until a photo fits its share of the budget */
+const DOWNSCALE_STEPS = [2048, 1600, 1280, 1024, 768, 512];
+
+const base64Length = (bytes: number): number => Math.ceil(bytes / 3) * 4;
+
+/**
+ * Encode photos, downscaling any that would push the request over the
+ * payload budget (each photo gets an equal share)
+ */
+export async function encodeImagesWithinBudget(
+  images: ArtifactImage[]
+): Promise<{ imageBase64: string; angle: ImageAngle }[]> {
+  const share = PAYLOAD_BUDGET / Math.max(images.length, 1);
+
+  return Promise.all(
+    images.map(async (image) => {
+      let blob = image.blob;
+      for (const maxDimension of DOWNSCALE_STEPS) {
+        if (base64Length(blob.size) <= share) break;
+        blob = await downscaleImage(image.blob, maxDimension);
+      }
+
+      return {
+        imageBase64: await blobToBase64(blob),
+        angle: image.angle,
+      };
+    })
+  );
+}
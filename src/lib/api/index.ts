@@ -1,13 +1,50 @@
 export {
   APIError,
+  isNetworkError,
   reconstruct3D,
+  startReconstructionJob,
+  getReconstructionJobStatus,
+  getReconstructionJobResult,
+  runReconstructionJob,
   generateInfoCard,
+  getInfoCardTranslations,
+  regenerateInfoCardField,
+  askInfoCard,
   colorize,
+  type ReconstructImage,
   type Reconstruct3DRequest,
   type Reconstruct3DResponse,
+  type ReconstructionErrorType,
+  type ReconstructionJobPhase,
+  type ReconstructionJobEventType,
+  type ReconstructionJob,
+  type StartReconstructionJobResponse,
+  type ReconstructionJobStatusResponse,
+  type RunReconstructionJobOptions,
+  type InfoCardImage,
   type GenerateInfoCardRequest,
   type GenerateInfoCardResponse,
   type InfoCardData,
+  type RegenerateInfoCardFieldRequest,
+  type RegenerateInfoCardFieldResponse,
+  type AskInfoCardRequest,
+  type AskInfoCardResponse,
   type ColorizeRequest,
   type ColorizeResponse,
 } from './client';
+
+export {
+  INFO_CARD_CONFIDENCE_LEVELS,
+  INFO_CARD_LANGUAGES,
+  INFO_CARD_FIELDS,
+  InfoCardValidationError,
+  validateInfoCard,
+  parseInfoCard,
+  getInfoCardLanguage,
+  type InfoCardConfidence,
+  type InfoCardLanguage,
+  type InfoCardFields,
+  type InfoCardFieldName,
+  type InfoCardFieldError,
+  type InfoCardValidationResult,
+} from './infoCardSchema';
@@ -0,0 +1,38 @@
+/**
+ * Choosing and encoding the photos sent for info card analysis
+ */
+
+import type { ArtifactImage, ImageAngle } from '@/types';
+import { encodeImagesWithinBudget } from './imageEncoding';
+import type { InfoCardImage } from './client';
+
+/**
+ * Diagnostic features are often on the back, base or in close-ups, so every
+ * view is useful here; whole-object views go first so the model sees the
+ * overall form before the details
+ */
+const VIEW_ORDER: ImageAngle[] = ['front', 'back', 'left', 'right', 'top', 'bottom', 'detail', 'context'];
+
+/** Most photos sent in one request */
+export const MAX_INFO_CARD_IMAGES = 6;
+
+const viewRank = (angle: ImageAngle): number => {
+  const index = VIEW_ORDER.indexOf(angle);
+  return index === -1 ? VIEW_ORDER.length : index;
+};
+
+/**
+ * Pick the photos to analyse, whole-object views first
+ */
+export function selectInfoCardImages(images: ArtifactImage[]): ArtifactImage[] {
+  return [...images]
+    .sort((a, b) => viewRank(a.angle) - viewRank(b.angle))
+    .slice(0, MAX_INFO_CARD_IMAGES);
+}
+
+/**
+ * Encode the selected photos, downscaled where needed to fit the request
+ */
+export async function encodeInfoCardImages(images: ArtifactImage[]): Promise<InfoCardImage[]> {
+  return encodeImagesWithinBudget(images);
+}
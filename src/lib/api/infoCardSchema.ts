@@ -0,0 +1,177 @@
+/**
+ * Info Card Schema
+ *
+ * Runtime validation of AI-generated info cards. Shared by the
+ * generate-info-card function (which validates and repairs the model's
+ * output) and the client (which never saves a card that fails it), so this
+ * module must not import anything app-specific.
+ */
+
+export const INFO_CARD_CONFIDENCE_LEVELS = ['high', 'medium', 'low'] as const;
+
+export type InfoCardConfidence = (typeof INFO_CARD_CONFIDENCE_LEVELS)[number];
+
+/** Languages cards can be written in (the app's interface languages) */
+export const INFO_CARD_LANGUAGES = ['en', 'he'] as const;
+
+export type InfoCardLanguage = (typeof INFO_CARD_LANGUAGES)[number];
+
+/**
+ * The card language for an i18n language code ('he-IL' -> 'he'), English otherwise
+ */
+export function getInfoCardLanguage(language: string | undefined): InfoCardLanguage {
+  const base = (language || '').split('-')[0] as InfoCardLanguage;
+  return INFO_CARD_LANGUAGES.includes(base) ? base : 'en';
+}
+
+/**
+ * The fields the AI generates
+ */
+export interface InfoCardFields {
+  material: string;
+  estimatedAge: {
+    range: string;
+    confidence: InfoCardConfidence;
+    reasoning?: string;
+  };
+  possibleUse: string;
+  culturalContext: string;
+  similarArtifacts: string[];
+  preservationNotes: string;
+  /** 0-1 */
+  aiConfidence: number;
+}
+
+/**
+ * The fields a reader sees, which can be edited or regenerated one at a time
+ * (aiConfidence is a property of the whole card)
+ */
+export const INFO_CARD_FIELDS = [
+  'material',
+  'estimatedAge',
+  'possibleUse',
+  'culturalContext',
+  'similarArtifacts',
+  'preservationNotes',
+] as const;
+
+export type InfoCardFieldName = (typeof INFO_CARD_FIELDS)[number];
+
+export interface InfoCardFieldError {
+  /** Dotted path, e.g. "estimatedAge.confidence" */
+  field: string;
+  message: string;
+}
+
+export type InfoCardValidationResult =
+  | { valid: true; data: InfoCardFields }
+  | { valid: false; errors: InfoCardFieldError[] };
+
+/**
+ * An info card failed schema validation
+ */
+export class InfoCardValidationError extends Error {
+  readonly code = 'INVALID_INFO_CARD';
+  fields: InfoCardFieldError[];
+
+  constructor(fields: InfoCardFieldError[]) {
+    super(`AI returned an invalid info card: ${fields.map((f) => `${f.field} ${f.message}`).join('; ')}`);
+    this.name = 'InfoCardValidationError';
+    this.fields = fields;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check a value against the info card schema
+ * Unknown properties are dropped from the returned data
+ */
+export function validateInfoCard(value: unknown): InfoCardValidationResult {
+  if (!isRecord(value)) {
+    return { valid: false, errors: [{ field: '(root)', message: 'must be a JSON object' }] };
+  }
+
+  const errors: InfoCardFieldError[] = [];
+
+  const requireString = (source: Record<string, unknown>, key: string, path = key): string => {
+    const field = source[key];
+    if (typeof field !== 'string' || field.trim() === '') {
+      errors.push({ field: path, message: 'must be a non-empty string' });
+      return '';
+    }
+    return field;
+  };
+
+  const material = requireString(value, 'material');
+  const possibleUse = requireString(value, 'possibleUse');
+  const culturalContext = requireString(value, 'culturalContext');
+  const preservationNotes = requireString(value, 'preservationNotes');
+
+  const estimatedAge: InfoCardFields['estimatedAge'] = { range: '', confidence: 'low' };
+  if (!isRecord(value.estimatedAge)) {
+    errors.push({ field: 'estimatedAge', message: 'must be an object with range and confidence' });
+  } else {
+    estimatedAge.range = requireString(value.estimatedAge, 'range', 'estimatedAge.range');
+
+    const confidence = value.estimatedAge.confidence;
+    if (INFO_CARD_CONFIDENCE_LEVELS.includes(confidence as InfoCardConfidence)) {
+      estimatedAge.confidence = confidence as InfoCardConfidence;
+    } else {
+      errors.push({
+        field: 'estimatedAge.confidence',
+        message: `must be one of ${INFO_CARD_CONFIDENCE_LEVELS.join(', ')}`,
+      });
+    }
+
+    const reasoning = value.estimatedAge.reasoning;
+    if (typeof reasoning === 'string') {
+      estimatedAge.reasoning = reasoning;
+    } else if (reasoning !== undefined && reasoning !== null) {
+      errors.push({ field: 'estimatedAge.reasoning', message: 'must be a string' });
+    }
+  }
+
+  let similarArtifacts: string[] = [];
+  if (!Array.isArray(value.similarArtifacts)) {
+    errors.push({ field: 'similarArtifacts', message: 'must be an array of strings' });
+  } else if (!value.similarArtifacts.every((item) => typeof item === 'string')) {
+    errors.push({ field: 'similarArtifacts', message: 'must only contain strings' });
+  } else {
+    similarArtifacts = value.similarArtifacts as string[];
+  }
+
+  const aiConfidence = value.aiConfidence;
+  if (typeof aiConfidence !== 'number' || Number.isNaN(aiConfidence) || aiConfidence < 0 || aiConfidence > 1) {
+    errors.push({ field: 'aiConfidence', message: 'must be a number between 0 and 1' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    data: {
+      material,
+      estimatedAge,
+      possibleUse,
+      culturalContext,
+      similarArtifacts,
+      preservationNotes,
+      aiConfidence: aiConfidence as number,
+    },
+  };
+}
+
+/**
+ * Validate an info card, throwing InfoCardValidationError if it is invalid
+ */
+export function parseInfoCard(value: unknown): InfoCardFields {
+  const result = validateInfoCard(value);
+  if (!result.valid) {
+    throw new InfoCardValidationError(result.errors);
+  }
+  return result.data;
+}
@@ -1,86 +1,161 @@
-import { generateId } from '@/lib/utils';
+import {
+  db,
+  getArtifact,
+  getImagesByIds,
+  saveModel,
+  saveInfoCard,
+  addColorVariant,
+  updateArtifact,
+} from '@/lib/db';
+import { generateId, blobToBase64, base64ToBlob } from '@/lib/utils';
+import { requestQueueSync } from '@/lib/pwa/backgroundSync';
+import { requestNotificationPermission } from '@/lib/pwa/notifications';
+import { encodeReconstructionImages, getContributingImageIds } from './reconstructionImages';
+import { encodeInfoCardImages } from './infoCardImages';
+import { DEFAULT_RECONSTRUCTION_PARAMS, getModelGeneration } from './reconstructionPresets';
+import type { Reconstruct3DResponse } from './client';
+import type {
+  QueuedOperation,
+  QueuedReconstruct3D,
+  QueuedGenerateInfoCard,
+  QueuedColorize,
+  Model3D,
+  InfoCard,
+  ColorVariant,
+  ArtifactStatus,
+} from '@/types';
 
-export interface QueuedOperation {
-  id: string;
-  type: 'reconstruct3d' | 'generateInfoCard' | 'colorize';
-  payload: unknown;
-  createdAt: Date;
-  retryCount: number;
-}
-
-const QUEUE_STORAGE_KEY = 'archaeology-offline-queue';
-const MAX_RETRIES = 3;
+export type { QueuedOperation } from '@/types';
 
 /**
- * Get queued operations from localStorage
+ * Fields supplied by the caller when queueing an operation
  */
-export function getQueuedOperations(): QueuedOperation[] {
-  try {
-    const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
-    if (!stored) return [];
+export type NewQueuedOperation =
+  | Omit<QueuedReconstruct3D, 'id' | 'createdAt' | 'retryCount'>
+  | Omit<QueuedGenerateInfoCard, 'id' | 'createdAt' | 'retryCount'>
+  | Omit<QueuedColorize, 'id' | 'createdAt' | 'retryCount'>;
 
-    const operations = JSON.parse(stored) as QueuedOperation[];
-    return operations.map((op) => ({
-      ...op,
-      createdAt: new Date(op.createdAt),
-    }));
-  } catch {
-    return [];
-  }
+export const MAX_RETRIES = 3;
+
+// Shared by the page and the service worker so only one context sends jobs at a time
+const QUEUE_LOCK = 'relic-offline-queue';
+
+// Operations currently being sent, so overlapping runs never send one twice
+const inFlight = new Set<string>();
+let activeRun: Promise<ProcessQueueResult> | null = null;
+
+/**
+ * Get queued operations from IndexedDB, oldest first
+ */
+export async function getQueuedOperations(): Promise<QueuedOperation[]> {
+  return await db.offlineQueue.orderBy('createdAt').toArray();
 }
 
 /**
- * Save queued operations to localStorage
+ * Get queued operations belonging to one artifact
  */
-function saveQueuedOperations(operations: QueuedOperation[]): void {
-  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(operations));
+export async function getQueuedOperationsForArtifact(artifactId: string): Promise<QueuedOperation[]> {
+  return await db.offlineQueue.where('artifactId').equals(artifactId).sortBy('createdAt');
 }
 
 /**
- * Queue an operation for later processing
+ * Queue an operation for later processing and mark the artifact as queued
  */
-export function queueOperation(
-  operation: Omit<QueuedOperation, 'id' | 'createdAt' | 'retryCount'>
-): string {
-  const newOperation: QueuedOperation = {
+export async function queueOperation(operation: NewQueuedOperation): Promise<string> {
+  const newOperation = {
     ...operation,
     id: generateId(),
     createdAt: new Date(),
     retryCount: 0,
-  };
+  } as QueuedOperation;
+
+  const id = await db.offlineQueue.add(newOperation);
+  await updateArtifact(operation.artifactId, { status: 'queued' });
 
-  const operations = getQueuedOperations();
-  operations.push(newOperation);
-  saveQueuedOperations(operations);
+  // Let the service worker send it in the background, and tell the user when it is done
+  await requestQueueSync();
+  void requestNotificationPermission();
 
-  return newOperation.id;
+  return id;
 }
 
 /**
  * Remove an operation from the queue
  */
-export function removeFromQueue(id: string): void {
-  const operations = getQueuedOperations();
-  const filtered = operations.filter((op) => op.id !== id);
-  saveQueuedOperations(filtered);
+export async function removeFromQueue(id: string): Promise<void> {
+  await db.offlineQueue.delete(id);
+}
+
+/**
+ * Cancel a queued operation and restore the artifact's status
+ * once nothing else is waiting for it
+ */
+export async function cancelQueuedOperation(id: string): Promise<void> {
+  const operation = await db.offlineQueue.get(id);
+  if (!operation) return;
+
+  await removeFromQueue(id);
+
+  // One being sent right now is settled by its run, once it sees it's gone
+  const artifact = await getArtifact(operation.artifactId);
+  if (artifact?.status === 'queued') {
+    await settleArtifactStatus(artifact.id);
+  }
+}
+
+/**
+ * Set an artifact's status after one of its operations left the queue:
+ * queued while others wait, otherwise by the results it has. A failure
+ * only shows as an error when there's nothing else to show.
+ */
+async function settleArtifactStatus(artifactId: string, failed = false): Promise<void> {
+  const artifact = await getArtifact(artifactId);
+  if (!artifact) return;
+
+  const remaining = await db.offlineQueue.where('artifactId').equals(artifactId).count();
+  const hasResults = Boolean(
+    artifact.model3DId || artifact.infoCardId || artifact.colorVariantIds.length > 0
+  );
+  let status: ArtifactStatus;
+  if (remaining > 0) {
+    status = 'queued';
+  } else if (hasResults) {
+    status = 'complete';
+  } else {
+    status = failed ? 'error' : 'images-captured';
+  }
+  await updateArtifact(artifactId, { status });
+}
+
+/**
+ * Whether an operation is still in the queue: the user may cancel it
+ * while it's being sent
+ */
+async function isStillQueued(id: string): Promise<boolean> {
+  return (await db.offlineQueue.get(id)) !== undefined;
 }
 
 /**
  * Clear all queued operations
  */
-export function clearQueue(): void {
-  localStorage.removeItem(QUEUE_STORAGE_KEY);
+export async function clearQueue(): Promise<void> {
+  const operations = await getQueuedOperations();
+  for (const operation of operations) {
+    await cancelQueuedOperation(operation.id);
+  }
 }
 
 /**
  * Update retry count for an operation
  */
-export function incrementRetryCount(id: string): void {
-  const operations = getQueuedOperations();
-  const updated = operations.map((op) =>
-    op.id === id ? { ...op, retryCount: op.retryCount + 1 } : op
-  );
-  saveQueuedOperations(updated);
+export async function incrementRetryCount(id: string, lastError?: string): Promise<void> {
+  const operation = await db.offlineQueue.get(id);
+  if (operation) {
+    await db.offlineQueue.update(id, {
+      retryCount: operation.retryCount + 1,
+      lastError,
+    });
+  }
 }
 
 export interface ProcessQueueResult {
@@ -89,14 +164,332 @@ export interface ProcessQueueResult {
   remaining: number;
 }
 
+export interface ProcessQueueOptions {
+  /**
+   * Wait for server-side jobs to finish (the default). Otherwise a job is only
+   * started, or checked on, and stays queued until it has finished: for the
+   * service worker, whose sync events are ended long before a reconstruction is.
+   */
+  waitForJobs?: boolean;
+}
+
+/**
+ * How a run* helper ended: the result was saved, the operation was cancelled
+ * before it could be, or its server job is still running
+ */
+type RunResult = 'saved' | 'cancelled' | 'pending';
+
+/**
+ * Load the referenced images and encode them for the API
+ */
+async function loadImagesAsBase64(operation: QueuedOperation): Promise<string[]> {
+  const images = await getImagesByIds(operation.imageIds);
+  if (images.length === 0) {
+    throw new Error('Queued images no longer exist');
+  }
+  return Promise.all(images.map((image) => blobToBase64(image.blob)));
+}
+
+/**
+ * Remember the server job a queued reconstruction started, or forget it
+ */
+async function setReconstructionJobId(id: string, jobId: string | undefined): Promise<void> {
+  await db.offlineQueue.update(id, (operation) => {
+    if (operation.type === 'reconstruct3d') operation.jobId = jobId;
+  });
+}
+
+/**
+ * Run a queued 3D reconstruction and save the resulting model
+ * The run* helpers import the API client dynamically to avoid circular dependencies
+ */
+async function runReconstruct3D(
+  operation: QueuedReconstruct3D,
+  waitForJob: boolean
+): Promise<RunResult> {
+  const { startReconstructionJob, getReconstructionJobStatus, followReconstructionJob, APIError } =
+    await import('./client');
+  // Queued in the order they are sent, primary view first
+  const images = await getImagesByIds(operation.imageIds);
+  if (images.length === 0) {
+    throw new Error('Queued images no longer exist');
+  }
+
+  let jobId = operation.jobId;
+  if (!jobId) {
+    const encodedImages = await encodeReconstructionImages(images);
+    if (!(await isStillQueued(operation.id))) return 'cancelled';
+    await updateArtifact(operation.artifactId, { status: 'processing-3d' });
+
+    const started = await startReconstructionJob({
+      images: encodedImages,
+      method: operation.params.method,
+      removeBackground: operation.params.removeBackground,
+      trellisParams: operation.params.trellisParams,
+      triposrParams: operation.params.triposrParams,
+    });
+    if (!started.success || !started.jobId) {
+      throw new Error(started.error || 'Failed to start 3D reconstruction');
+    }
+    jobId = started.jobId;
+    // Should following it fail, the next attempt picks the job up again
+    await setReconstructionJobId(operation.id, jobId);
+  } else {
+    await updateArtifact(operation.artifactId, { status: 'processing-3d' });
+  }
+
+  let response: Reconstruct3DResponse;
+  try {
+    if (!waitForJob) {
+      const { job } = await getReconstructionJobStatus(jobId);
+      if (job?.phase !== 'complete' && job?.phase !== 'error') return 'pending';
+    }
+    response = await followReconstructionJob(jobId);
+  } catch (error) {
+    // The server no longer has the job (they're cleared after a day): start over
+    if (error instanceof APIError && error.statusCode === 404) {
+      await setReconstructionJobId(operation.id, undefined);
+    }
+    throw error;
+  }
+
+  if (!response.success || !response.modelBase64) {
+    // The job itself failed, so the next attempt starts a new one
+    await setReconstructionJobId(operation.id, undefined);
+    throw new Error(response.error || 'Failed to generate 3D model');
+  }
+
+  const blob = base64ToBlob(response.modelBase64, 'model/gltf-binary');
+  const sourceImageIds = getContributingImageIds(images, response.usedImages);
+  const model: Model3D = {
+    id: `model-${generateId()}`,
+    artifactId: operation.artifactId,
+    blob,
+    format: response.format || 'glb',
+    createdAt: new Date(),
+    // Multi-view only if more than one view actually went into the model
+    source: sourceImageIds.length > 1 ? '3d-multi' : '3d-single',
+    sourceImageIds,
+    generation: getModelGeneration(
+      response,
+      {
+        trellis: operation.params.trellisParams || DEFAULT_RECONSTRUCTION_PARAMS.trellis,
+        triposr: operation.params.triposrParams || DEFAULT_RECONSTRUCTION_PARAMS.triposr,
+      },
+      operation.params.presetId
+    ),
+    metadata: {
+      fileSize: blob.size,
+    },
+  };
+
+  if (!(await isStillQueued(operation.id))) return 'cancelled';
+  await saveModel(model);
+  return 'saved';
+}
+
+/**
+ * Run a queued info card generation and save the resulting card
+ */
+async function runGenerateInfoCard(operation: QueuedGenerateInfoCard): Promise<RunResult> {
+  const { generateInfoCard, getInfoCardTranslations } = await import('./client');
+  const images = await getImagesByIds(operation.imageIds);
+  if (images.length === 0) {
+    throw new Error('Queued images no longer exist');
+  }
+
+  const encodedImages = await encodeInfoCardImages(images);
+  if (!(await isStillQueued(operation.id))) return 'cancelled';
+  await updateArtifact(operation.artifactId, { status: 'processing-info' });
+
+  const response = await generateInfoCard({
+    images: encodedImages,
+    language: operation.params.language,
+    bilingual: operation.params.bilingual,
+    metadata: operation.params.metadata,
+  });
+
+  if (!response.success || !response.infoCard) {
+    throw new Error(response.error || 'Failed to generate info card');
+  }
+
+  const infoCard: InfoCard = {
+    id: `infocard-${generateId()}`,
+    artifactId: operation.artifactId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    material: response.infoCard.material,
+    estimatedAge: response.infoCard.estimatedAge,
+    possibleUse: response.infoCard.possibleUse,
+    culturalContext: response.infoCard.culturalContext,
+    similarArtifacts: response.infoCard.similarArtifacts || [],
+    preservationNotes: response.infoCard.preservationNotes,
+    aiModel: response.aiModel || 'gemini-2.0-flash-exp',
+    aiConfidence: response.infoCard.aiConfidence || 0.75,
+    isHumanEdited: false,
+    sourceImageIds: images.map((image) => image.id),
+    disclaimer: response.infoCard.disclaimer,
+    language: response.infoCard.language || 'en',
+    translations: getInfoCardTranslations(response),
+  };
+
+  if (!(await isStillQueued(operation.id))) return 'cancelled';
+  await saveInfoCard(infoCard);
+  return 'saved';
+}
+
+/**
+ * Run a queued colorization and save the resulting color variant
+ */
+async function runColorize(operation: QueuedColorize): Promise<RunResult> {
+  const { colorize } = await import('./client');
+  const [imageBase64] = await loadImagesAsBase64(operation);
+  if (!(await isStillQueued(operation.id))) return 'cancelled';
+
+  const response = await colorize({
+    imageBase64,
+    colorScheme: operation.params.colorScheme,
+    customPrompt: operation.params.customPrompt,
+    includeRestoration: operation.params.includeRestoration,
+  });
+
+  if (!response.success || !response.colorizedImageBase64) {
+    throw new Error(response.error || 'Failed to colorize image');
+  }
+
+  const variant: ColorVariant = {
+    id: `colorvariant-${generateId()}`,
+    artifactId: operation.artifactId,
+    blob: base64ToBlob(response.colorizedImageBase64, 'image/png'),
+    createdAt: new Date(),
+    colorScheme: operation.params.colorScheme,
+    prompt: operation.params.customPrompt || `${operation.params.colorScheme} color scheme`,
+    aiModel: 'gemini',
+    isSpeculative: true,
+  };
+
+  if (!(await isStillQueued(operation.id))) return 'cancelled';
+  await addColorVariant(variant);
+  return 'saved';
+}
+
+type ProcessOutcome = 'processed' | 'failed' | 'remaining' | 'dropped';
+
+/**
+ * Run one queued operation unless another run is already sending it
+ */
+async function processOperation(
+  operation: QueuedOperation,
+  options: ProcessQueueOptions = {}
+): Promise<ProcessOutcome> {
+  if (inFlight.has(operation.id)) {
+    return 'dropped';
+  }
+
+  inFlight.add(operation.id);
+  try {
+    // Read it again: the run works from a list taken when it started, and
+    // the user may have cancelled it since
+    const current = await db.offlineQueue.get(operation.id);
+    if (!current) return 'dropped';
+    return await runOperation(current, options);
+  } finally {
+    inFlight.delete(operation.id);
+  }
+}
+
+/**
+ * Run one queued operation and persist its result
+ */
+async function runOperation(
+  operation: QueuedOperation,
+  { waitForJobs = true }: ProcessQueueOptions
+): Promise<ProcessOutcome> {
+  // The artifact was deleted while the operation was waiting
+  if (!(await getArtifact(operation.artifactId))) {
+    await removeFromQueue(operation.id);
+    return 'dropped';
+  }
+
+  if (operation.retryCount >= MAX_RETRIES) {
+    // Too many retries, remove from queue
+    await removeFromQueue(operation.id);
+    await settleArtifactStatus(operation.artifactId, true);
+    return 'failed';
+  }
+
+  try {
+    let result: RunResult;
+    switch (operation.type) {
+      case 'reconstruct3d':
+        result = await runReconstruct3D(operation, waitForJobs);
+        break;
+      case 'generateInfoCard':
+        result = await runGenerateInfoCard(operation);
+        break;
+      case 'colorize':
+        result = await runColorize(operation);
+        break;
+    }
+
+    // Cancelled while it was being sent: the result is dropped
+    if (result === 'cancelled') {
+      await settleArtifactStatus(operation.artifactId);
+      return 'dropped';
+    }
+    // The server is still on it; a later run fetches the result
+    if (result === 'pending') {
+      await updateArtifact(operation.artifactId, { status: 'queued' });
+      return 'remaining';
+    }
+
+    await removeFromQueue(operation.id);
+    await settleArtifactStatus(operation.artifactId);
+    return 'processed';
+  } catch (error) {
+    console.error(`Failed to process queued operation ${operation.id}:`, error);
+    if (!(await isStillQueued(operation.id))) {
+      await settleArtifactStatus(operation.artifactId);
+      return 'dropped';
+    }
+    await incrementRetryCount(
+      operation.id,
+      error instanceof Error ? error.message : String(error)
+    );
+    // Still waiting in the queue for the next attempt
+    await updateArtifact(operation.artifactId, { status: 'queued' });
+    return 'remaining';
+  }
+}
+
+/**
+ * Run a task while holding the queue lock, where the Web Locks API exists
+ */
+async function withQueueLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return await task();
+  }
+  return await navigator.locks.request(QUEUE_LOCK, task);
+}
+
 /**
  * Process all queued operations
- * Imports API client dynamically to avoid circular dependencies
+ * Concurrent callers share the run that is already in progress
  */
-export async function processQueue(): Promise<ProcessQueueResult> {
-  const { reconstruct3D, generateInfoCard, colorize } = await import('./client');
+export function processQueue(options: ProcessQueueOptions = {}): Promise<ProcessQueueResult> {
+  if (!activeRun) {
+    activeRun = withQueueLock(() => runQueue(options)).finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
 
-  const operations = getQueuedOperations();
+/**
+ * Send every queued operation, oldest first
+ */
+async function runQueue(options: ProcessQueueOptions): Promise<ProcessQueueResult> {
+  const operations = await getQueuedOperations();
   const result: ProcessQueueResult = {
     processed: 0,
     failed: 0,
@@ -104,34 +497,30 @@ export async function processQueue(): Promise<ProcessQueueResult> {
   };
 
   for (const operation of operations) {
-    if (operation.retryCount >= MAX_RETRIES) {
-      // Too many retries, remove from queue
-      removeFromQueue(operation.id);
-      result.failed++;
-      continue;
-    }
-
-    try {
-      switch (operation.type) {
-        case 'reconstruct3d':
-          await reconstruct3D(operation.payload as Parameters<typeof reconstruct3D>[0]);
-          break;
-        case 'generateInfoCard':
-          await generateInfoCard(operation.payload as Parameters<typeof generateInfoCard>[0]);
-          break;
-        case 'colorize':
-          await colorize(operation.payload as Parameters<typeof colorize>[0]);
-          break;
-      }
-
-      removeFromQueue(operation.id);
-      result.processed++;
-    } catch (error) {
-      console.error(`Failed to process queued operation ${operation.id}:`, error);
-      incrementRetryCount(operation.id);
-      result.remaining++;
+    const outcome = await processOperation(operation, options);
+    if (outcome !== 'dropped') {
+      result[outcome]++;
     }
   }
 
   return result;
 }
+
+/**
+ * Retry a single queued operation right away, with a fresh retry budget
+ */
+export async function retryQueuedOperation(id: string): Promise<ProcessQueueResult> {
+  const result: ProcessQueueResult = { processed: 0, failed: 0, remaining: 0 };
+
+  await db.offlineQueue.update(id, { retryCount: 0 });
+
+  // Read it inside the lock, in case another context sent it meanwhile
+  const outcome = await withQueueLock(async (): Promise<ProcessOutcome> => {
+    const operation = await db.offlineQueue.get(id);
+    return operation ? processOperation(operation) : 'dropped';
+  });
+  if (outcome !== 'dropped') {
+    result[outcome]++;
+  }
+  return result;
+}
@@ -0,0 +1,66 @@
+/**
+ * Choosing and encoding the captured views sent for 3D reconstruction
+ */
+
+import type { ArtifactImage, ImageAngle } from '@/types';
+import { encodeImagesWithinBudget } from './imageEncoding';
+import type { ReconstructImage } from './client';
+
+/**
+ * Views that show the whole object, in the order they are sent
+ * TRELLIS.2 treats the first image as the primary view
+ */
+const VIEW_ORDER: ImageAngle[] = ['front', 'left', 'right', 'back', 'top', 'bottom'];
+
+/** Most views sent in one request: one per whole-object angle */
+export const MAX_RECONSTRUCTION_IMAGES = 6;
+
+const viewRank = (angle: ImageAngle): number => {
+  const index = VIEW_ORDER.indexOf(angle);
+  return index === -1 ? VIEW_ORDER.length : index;
+};
+
+/**
+ * Pick the views to reconstruct from, primary view first
+ *
+ * Multi-view uses one image per whole-object angle; close-ups ('detail') and
+ * in-situ shots ('context') only confuse the geometry, so they are used only
+ * when nothing else was captured. Single view uses the best one.
+ */
+export function selectReconstructionImages(
+  images: ArtifactImage[],
+  multiView: boolean
+): ArtifactImage[] {
+  const ranked = [...images].sort((a, b) => viewRank(a.angle) - viewRank(b.angle));
+  if (!multiView) {
+    return ranked.slice(0, 1);
+  }
+
+  const seenAngles = new Set<ImageAngle>();
+  const views = ranked.filter((image) => {
+    if (!VIEW_ORDER.includes(image.angle) || seenAngles.has(image.angle)) return false;
+    seenAngles.add(image.angle);
+    return true;
+  });
+
+  return (views.length > 0 ? views : ranked.slice(0, 1)).slice(0, MAX_RECONSTRUCTION_IMAGES);
+}
+
+/**
+ * Encode the selected views for the reconstruction API, downscaled where
+ * needed so the request fits reconstruct-3d-start's body limit
+ */
+export async function encodeReconstructionImages(images: ArtifactImage[]): Promise<ReconstructImage[]> {
+  return encodeImagesWithinBudget(images);
+}
+
+/**
+ * Ids of the images the server actually generated the model from
+ * Older servers don't report it, in which case only the primary view is assumed
+ */
+export function getContributingImageIds(images: ArtifactImage[], usedImages?: number[]): string[] {
+  const indices = usedImages && usedImages.length > 0 ? usedImages : [0];
+  return indices
+    .filter((index) => index >= 0 && index < images.length)
+    .map((index) => images[index].id);
+}
@@ -0,0 +1,146 @@
+/**
+ * Quality presets for 3D reconstruction
+ *
+ * Built-in presets trade speed, detail and file size; users can save their
+ * own (see useSettingsStore). Values match the reconstruct-3d function's
+ * parameters, and "balanced" matches its defaults.
+ */
+
+import type {
+  ModelGeneration,
+  ReconstructionParams,
+  ReconstructionPreset,
+  TrellisParams,
+} from '@/types';
+import type { Reconstruct3DResponse } from './client';
+
+const BALANCED_TRELLIS: TrellisParams = {
+  seed: 42,
+  ssGuidanceRescale: 0.7,
+  ssSamplingSteps: 12,
+  ssRescaleT: 5.0,
+  shapeGuidanceRescale: 0.5,
+  shapeSamplingSteps: 12,
+  shapeRescaleT: 3.0,
+  texGuidanceRescale: 0.0,
+  texSamplingSteps: 12,
+  texRescaleT: 3.0,
+  decimationTarget: 500000,
+  textureSize: 2048,
+};
+
+export const DEFAULT_PRESET_ID = 'balanced';
+
+export const DEFAULT_RECONSTRUCTION_PARAMS: ReconstructionParams = {
+  trellis: BALANCED_TRELLIS,
+  triposr: { foregroundRatio: 0.85, mcResolution: 256 },
+};
+
+export const BUILT_IN_PRESETS: ReconstructionPreset[] = [
+  {
+    id: 'fast-preview',
+    nameKey: 'components.reconstruction.presets.fastPreview',
+    descriptionKey: 'components.reconstruction.presets.fastPreviewDesc',
+    builtIn: true,
+    params: {
+      trellis: {
+        ...BALANCED_TRELLIS,
+        ssSamplingSteps: 6,
+        shapeSamplingSteps: 6,
+        texSamplingSteps: 6,
+        decimationTarget: 200000,
+        textureSize: 1024,
+      },
+      triposr: { foregroundRatio: 0.85, mcResolution: 192 },
+    },
+  },
+  {
+    id: DEFAULT_PRESET_ID,
+    nameKey: 'components.reconstruction.presets.balanced',
+    descriptionKey: 'components.reconstruction.presets.balancedDesc',
+    builtIn: true,
+    params: DEFAULT_RECONSTRUCTION_PARAMS,
+  },
+  {
+    id: 'publication',
+    nameKey: 'components.reconstruction.presets.publication',
+    descriptionKey: 'components.reconstruction.presets.publicationDesc',
+    builtIn: true,
+    params: {
+      trellis: {
+        ...BALANCED_TRELLIS,
+        ssSamplingSteps: 25,
+        shapeSamplingSteps: 25,
+        texSamplingSteps: 25,
+        decimationTarget: 1000000,
+        textureSize: 4096,
+      },
+      triposr: { foregroundRatio: 0.85, mcResolution: 320 },
+    },
+  },
+  {
+    id: 'small-file',
+    nameKey: 'components.reconstruction.presets.smallFile',
+    descriptionKey: 'components.reconstruction.presets.smallFileDesc',
+    builtIn: true,
+    params: {
+      trellis: {
+        ...BALANCED_TRELLIS,
+        decimationTarget: 100000,
+        textureSize: 1024,
+      },
+      triposr: { foregroundRatio: 0.85, mcResolution: 160 },
+    },
+  },
+];
+
+/**
+ * Find a preset by id among the built-in and custom presets
+ */
+export function findPreset(
+  id: string | null,
+  customPresets: ReconstructionPreset[]
+): ReconstructionPreset | undefined {
+  if (!id) return undefined;
+  return [...BUILT_IN_PRESETS, ...customPresets].find((preset) => preset.id === id);
+}
+
+/**
+ * Record how a model was generated from the server's response
+ * Older servers don't echo the parameters, so fall back to what was requested
+ */
+export function getModelGeneration(
+  response: Reconstruct3DResponse,
+  requested: ReconstructionParams,
+  presetId?: string
+): ModelGeneration {
+  const method = response.method || 'trellis';
+  const trellisParams = method === 'trellis'
+    ? response.params?.trellisParams || requested.trellis
+    : undefined;
+
+  return {
+    method,
+    presetId,
+    seed: trellisParams?.seed,
+    trellisParams,
+    triposrParams: method === 'triposr'
+      ? response.params?.triposrParams || requested.triposr
+      : undefined,
+    removeBackground: response.params?.removeBackground,
+  };
+}
+
+/**
+ * Parameters to regenerate a model with the same settings
+ * Fields the model didn't record keep the current values
+ */
+export function getGenerationParams(
+  generation: ModelGeneration,
+  current: ReconstructionParams
+): ReconstructionParams {
+  return {
+    trellis: generation.trellisParams || current.trellis,
+    triposr: generation.triposrParams || current.triposr,
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Database Backups
+ *
+ * A copy of every table, taken before the database is migrated to a new
+ * version. Backups are kept in a database of their own, so a migration that
+ * fails or loses records can't touch them.
+ */
+
+import Dexie, { type Table } from 'dexie';
+import { blobToBase64, generateId } from '@/lib/utils';
+import { MIGRATIONS } from './migrations';
+
+export interface DatabaseBackup {
+  id: string;
+  createdAt: Date;
+  /** Version the copy was taken at */
+  fromVersion: number;
+  /** Version the database was being migrated to */
+  toVersion: number;
+  /** Records per table */
+  counts: Record<string, number>;
+}
+
+interface BackupTable {
+  backupId: string;
+  name: string;
+  rows: unknown[];
+}
+
+/**
+ * Backups kept; older ones are deleted when a new one is taken. Backups of
+ * migrations that went well are deleted right away, so these are the ones
+ * still needed to recover.
+ */
+const KEPT_BACKUPS = 2;
+
+class BackupDB extends Dexie {
+  backups!: Table<DatabaseBackup, string>;
+  backupTables!: Table<BackupTable, [string, string]>;
+
+  constructor() {
+    super('ArchaeologyDB-backups');
+
+    this.version(1).stores({
+      backups: 'id, createdAt',
+      backupTables: '[backupId+name], backupId',
+    });
+  }
+}
+
+const backupDB = new BackupDB();
+
+/**
+ * The version of a database as it is on this device, without upgrading it;
+ * 0 when there's no such database yet
+ */
+export async function getInstalledVersion(name: string): Promise<number> {
+  if (!(await Dexie.exists(name))) return 0;
+
+  // Opened without a schema, Dexie takes the one installed
+  const installed = new Dexie(name);
+  try {
+    await installed.open();
+    return installed.verno;
+  } finally {
+    installed.close();
+  }
+}
+
+/**
+ * Copy every table of a database as it is installed, before migrating it
+ */
+export async function backupDatabase(name: string, toVersion: number): Promise<DatabaseBackup> {
+  const installed = new Dexie(name);
+  await installed.open();
+
+  try {
+    const backup: DatabaseBackup = {
+      id: `backup-${generateId()}`,
+      createdAt: new Date(),
+      fromVersion: installed.verno,
+      toVersion,
+      counts: {},
+    };
+
+    // Read everything in one go, as it was at one moment
+    const tables: BackupTable[] = await installed.transaction('r', installed.tables, () =>
+      Promise.all(installed.tables.map(async (table) => ({
+        backupId: backup.id,
+        name: table.name,
+        rows: await table.toArray(),
+      })))
+    );
+    for (const table of tables) {
+      backup.counts[table.name] = table.rows.length;
+    }
+
+    await backupDB.transaction('rw', [backupDB.backups, backupDB.backupTables], async () => {
+      await backupDB.backupTables.bulkAdd(tables);
+      await backupDB.backups.add(backup);
+    });
+    await pruneBackups();
+
+    return backup;
+  } finally {
+    installed.close();
+  }
+}
+
+async function pruneBackups(): Promise<void> {
+  const old = await backupDB.backups.orderBy('createdAt').reverse().offset(KEPT_BACKUPS).primaryKeys();
+  if (old.length === 0) return;
+
+  await backupDB.transaction('rw', [backupDB.backups, backupDB.backupTables], async () => {
+    await backupDB.backupTables.where('backupId').anyOf(old).delete();
+    await backupDB.backups.bulkDelete(old);
+  });
+}
+
+/**
+ * Delete every backup, once the database they were taken of has migrated
+ * and passed the check: each holds a copy of every photo and model
+ */
+export async function deleteBackups(): Promise<void> {
+  await backupDB.transaction('rw', [backupDB.backups, backupDB.backupTables], async () => {
+    await backupDB.backupTables.clear();
+    await backupDB.backups.clear();
+  });
+}
+
+/**
+ * Backups on this device, newest first
+ */
+export async function getBackups(): Promise<DatabaseBackup[]> {
+  return await backupDB.backups.orderBy('createdAt').reverse().toArray();
+}
+
+/**
+ * Put a database back as it was when backed up: deleted and made anew at
+ * the backup's version. The database must be closed.
+ */
+export async function restoreBackup(name: string, backupId: string): Promise<void> {
+  const backup = await backupDB.backups.get(backupId);
+  if (!backup) {
+    throw new Error(`Backup not found: ${backupId}`);
+  }
+  const tables = await backupDB.backupTables.where('backupId').equals(backupId).toArray();
+
+  await Dexie.delete(name);
+
+  // The schema as it was, without upgrades: the records are in that shape
+  const restored = new Dexie(name);
+  for (const migration of MIGRATIONS.filter((migration) => migration.version <= backup.fromVersion)) {
+    restored.version(migration.version).stores(migration.stores);
+  }
+
+  try {
+    await restored.open();
+    await restored.transaction('rw', restored.tables, async () => {
+      for (const table of tables) {
+        await restored.table(table.name).bulkAdd(table.rows);
+      }
+    });
+  } finally {
+    restored.close();
+  }
+}
+
+/**
+ * A backup as a JSON file, with files (photos, models) inlined as base64
+ */
+export async function exportBackup(backupId: string): Promise<Blob> {
+  const backup = await backupDB.backups.get(backupId);
+  if (!backup) {
+    throw new Error(`Backup not found: ${backupId}`);
+  }
+  const tables = await backupDB.backupTables.where('backupId').equals(backupId).toArray();
+
+  const data: Record<string, unknown[]> = {};
+  for (const table of tables) {
+    data[table.name] = await Promise.all(table.rows.map(serializeValue));
+  }
+
+  const json = JSON.stringify({ format: 'archaeology-db-backup', ...backup, tables: data }, null, 2);
+  return new Blob([json], { type: 'application/json' });
+}
+
+async function serializeValue(value: unknown): Promise<unknown> {
+  if (value instanceof Blob) {
+    return { type: value.type, base64: await blobToBase64(value) };
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(serializeValue));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, entry]) => [key, await serializeValue(entry)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
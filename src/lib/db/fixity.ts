@@ -0,0 +1,136 @@
+/**
+ * File Fixity
+ *
+ * Every stored file is kept under the SHA-256 digest of its content, taken
+ * when it was saved. Hashing the file again tells whether it's still what
+ * was recorded: storage can fail without a word, and the archives taking
+ * in the finds want checksums that hold. A file found not matching is
+ * marked corrupt until an intact copy (from an export, say) is saved over
+ * it.
+ */
+
+import { getSha256 } from '@/lib/utils';
+import { db } from './index';
+
+/** Tables whose records have a file */
+export type FileTable = 'images' | 'models' | 'colorVariants';
+
+export interface CorruptFile {
+  sha256: string;
+  corruptedAt: Date;
+  /** Records whose file it is */
+  records: { table: FileTable; recordId: string; artifactId: string }[];
+}
+
+export interface FixityStatus {
+  /** Files stored, each once */
+  files: number;
+  bytes: number;
+  /** Bytes records sharing a file would take if each had its own copy */
+  savedBytes: number;
+  /** Files verified in the last FIXITY_INTERVAL_DAYS */
+  verified: number;
+  corrupt: CorruptFile[];
+}
+
+/** Days after which a file is due to be verified again */
+export const FIXITY_INTERVAL_DAYS = 30;
+
+const FILE_TABLES: FileTable[] = ['images', 'models', 'colorVariants'];
+
+function getDueDate(): Date {
+  return new Date(Date.now() - FIXITY_INTERVAL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Hash a stored file again and compare it with its digest; resolves to
+ * whether it matched. A file that can't be read counts as not matching.
+ */
+async function verifyBlob(sha256: string): Promise<boolean> {
+  const stored = await db.blobs.get(sha256);
+  // Deleted meanwhile
+  if (!stored) return true;
+
+  let intact: boolean;
+  try {
+    intact = (await getSha256(stored.blob)) === sha256;
+  } catch {
+    intact = false;
+  }
+
+  const now = new Date();
+  await db.blobs.update(sha256, {
+    verifiedAt: now,
+    corruptedAt: intact ? undefined : (stored.corruptedAt ?? now),
+  });
+  return intact;
+}
+
+/**
+ * Verify the files due for it, longest unverified first, up to a limit;
+ * resolves to the number of files found corrupt
+ */
+export async function verifyDueBlobs(limit: number): Promise<number> {
+  const due = await db.blobs.where('verifiedAt').below(getDueDate()).limit(limit).primaryKeys();
+  let corrupt = 0;
+  // One file at a time: the files together may not fit in memory
+  for (const sha256 of due) {
+    if (!(await verifyBlob(sha256))) corrupt++;
+  }
+  return corrupt;
+}
+
+/**
+ * Verify every stored file, longest unverified first; resolves to the
+ * number of files found corrupt
+ */
+export async function verifyAllBlobs(onProgress?: (checked: number, total: number) => void): Promise<number> {
+  const all = await db.blobs.orderBy('verifiedAt').primaryKeys();
+  let corrupt = 0;
+  for (const [i, sha256] of all.entries()) {
+    if (!(await verifyBlob(sha256))) corrupt++;
+    onProgress?.(i + 1, all.length);
+  }
+  return corrupt;
+}
+
+/**
+ * Stored files, how many were verified lately and which were found corrupt,
+ * with the records they belong to
+ */
+export async function getFixityStatus(): Promise<FixityStatus> {
+  const dueDate = getDueDate();
+  const sizes = new Map<string, number>();
+  const status: FixityStatus = { files: 0, bytes: 0, savedBytes: 0, verified: 0, corrupt: [] };
+  await db.blobs.each((stored) => {
+    sizes.set(stored.sha256, stored.size);
+    status.files++;
+    status.bytes += stored.size;
+    if (stored.verifiedAt >= dueDate && !stored.corruptedAt) status.verified++;
+  });
+
+  // Every reference past the first to a file is a copy not stored
+  const seen = new Set<string>();
+  for (const name of FILE_TABLES) {
+    for (const key of await db.table(name).orderBy('sha256').keys()) {
+      const sha256 = String(key);
+      if (seen.has(sha256)) {
+        status.savedBytes += sizes.get(sha256) ?? 0;
+      }
+      seen.add(sha256);
+    }
+  }
+
+  // The corruptedAt index only holds files found corrupt
+  for (const { sha256, corruptedAt } of await db.blobs.orderBy('corruptedAt').toArray()) {
+    if (!corruptedAt) continue;
+    const records: CorruptFile['records'] = [];
+    for (const table of FILE_TABLES) {
+      const found = await db.table<{ id: string; artifactId: string }>(table).where('sha256').equals(sha256).toArray();
+      records.push(...found.map((record) => ({ table, recordId: record.id, artifactId: record.artifactId })));
+    }
+    status.corrupt.push({ sha256, corruptedAt, records });
+  }
+
+  return status;
+}
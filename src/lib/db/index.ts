@@ -1,12 +1,43 @@
 import Dexie, { type Table } from 'dexie';
+import { downscaleImage, generateId, getSha256 } from '@/lib/utils';
+import { mapInfoCardTerms, mergeVocabulary } from '@/lib/vocabulary';
+import { isSameName, type ArtifactLocation } from '@/lib/excavation';
+import {
+  DEFAULT_REGISTRATION_PATTERN,
+  formatRegistrationNumber,
+  getSequenceKey,
+  validatePattern,
+} from '@/lib/registration';
+import { getInfoCardContent, getChangedFields } from './infoCardRevisions';
+import { LATEST_VERSION, MIGRATIONS, PRESERVED_TABLES, getDateSpan, getTermIds } from './migrations';
+import { backupDatabase, deleteBackups, getInstalledVersion, restoreBackup, type DatabaseBackup } from './backup';
 import type {
   Artifact,
   ArtifactImage,
   Model3D,
   InfoCard,
+  InfoCardReview,
+  InfoCardRevision,
   ColorVariant,
+  QueuedOperation,
+  VocabularyTerm,
+  Site,
+  Season,
+  Area,
+  ExcavationContext,
+  RegistrationCounter,
+  TrashEntry,
+  TrashKind,
+  StoredTrashEntry,
+  StoredBlob,
+  StoredRecord,
 } from '@/types';
 
+export { getBackups, exportBackup, type DatabaseBackup } from './backup';
+export { MIGRATIONS, LATEST_VERSION, type Migration } from './migrations';
+
+const DB_NAME = 'ArchaeologyDB';
+
 /**
  * Archaeology App IndexedDB Database
  *
@@ -16,36 +47,288 @@ import type {
 export class ArchaeologyDB extends Dexie {
   // Tables
   artifacts!: Table<Artifact, string>;
-  images!: Table<ArtifactImage, string>;
-  models!: Table<Model3D, string>;
+  images!: Table<StoredRecord<ArtifactImage>, string>;
+  models!: Table<StoredRecord<Model3D>, string>;
   infoCards!: Table<InfoCard, string>;
-  colorVariants!: Table<ColorVariant, string>;
+  colorVariants!: Table<StoredRecord<ColorVariant>, string>;
+  offlineQueue!: Table<QueuedOperation, string>;
+  infoCardRevisions!: Table<InfoCardRevision, string>;
+  vocabularyTerms!: Table<VocabularyTerm, string>;
+  sites!: Table<Site, string>;
+  seasons!: Table<Season, string>;
+  areas!: Table<Area, string>;
+  contexts!: Table<ExcavationContext, string>;
+  registrationCounters!: Table<RegistrationCounter, string>;
+  trash!: Table<StoredTrashEntry, string>;
+  blobs!: Table<StoredBlob, string>;
 
   constructor() {
-    super('ArchaeologyDB');
-
-    // Define schema
-    // Note: Only indexed fields need to be listed
-    this.version(1).stores({
-      artifacts: 'id, createdAt, updatedAt, status, [metadata.siteName]',
-      images: 'id, artifactId, angle, createdAt',
-      models: 'id, artifactId, createdAt',
-      infoCards: 'id, artifactId, createdAt',
-      colorVariants: 'id, artifactId, colorScheme, createdAt',
-    });
+    super(DB_NAME);
+
+    // Schema versions and their upgrades, see ./migrations
+    for (const migration of MIGRATIONS) {
+      const version = this.version(migration.version).stores(migration.stores);
+      if (migration.upgrade) {
+        version.upgrade(migration.upgrade);
+      }
+    }
   }
 }
 
 // Singleton database instance
 export const db = new ArchaeologyDB();
 
+/**
+ * Run several of the helpers below as one: either all of their changes are
+ * saved or, when one throws, none are
+ */
+export function runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+  return db.transaction('rw', db.tables, work);
+}
+
+// Opening and migrating
+
+export type DatabaseUpgradeStage = 'backup' | 'migration' | 'check';
+
+/**
+ * Updating the database to the app's version failed: backing it up,
+ * migrating it or checking the migrated data
+ */
+export class DatabaseUpgradeError extends Error {
+  stage: DatabaseUpgradeStage;
+  fromVersion: number;
+  /** Backup taken before migrating, when there is one */
+  backup?: DatabaseBackup;
+  /** What the check found wrong */
+  problems: string[];
+
+  constructor(
+    message: string,
+    stage: DatabaseUpgradeStage,
+    fromVersion: number,
+    backup?: DatabaseBackup,
+    problems: string[] = []
+  ) {
+    super(message);
+    this.name = 'DatabaseUpgradeError';
+    this.stage = stage;
+    this.fromVersion = fromVersion;
+    this.backup = backup;
+    this.problems = problems;
+  }
+}
+
+/**
+ * Whether the database on this device is at an older version, waiting for
+ * the app to migrate it
+ */
+export async function isUpgradePending(): Promise<boolean> {
+  const installedVersion = await getInstalledVersion(DB_NAME);
+  return installedVersion > 0 && installedVersion < LATEST_VERSION;
+}
+
+/**
+ * Open the database, migrating it when it's at an older version: backed up
+ * before, checked after, the backup deleted once the check passes. Throws a DatabaseUpgradeError when a step fails;
+ * after a failed check the database is open with the migrated data.
+ */
+export async function openDatabase(options: { skipBackup?: boolean } = {}): Promise<void> {
+  const fromVersion = await getInstalledVersion(DB_NAME);
+  if (fromVersion === 0 || fromVersion >= LATEST_VERSION) {
+    await db.open();
+    return;
+  }
+
+  let backup: DatabaseBackup | undefined;
+  if (!options.skipBackup) {
+    try {
+      backup = await backupDatabase(DB_NAME, LATEST_VERSION);
+    } catch (error) {
+      throw new DatabaseUpgradeError(getErrorMessage(error), 'backup', fromVersion);
+    }
+  }
+
+  try {
+    await db.open();
+  } catch (error) {
+    // The upgrade transaction was aborted: the data is as it was
+    throw new DatabaseUpgradeError(getErrorMessage(error), 'migration', fromVersion, backup);
+  }
+
+  const problems = await checkMigratedData(backup);
+  if (problems.length > 0) {
+    throw new DatabaseUpgradeError('Migrated data failed the check', 'check', fromVersion, backup, problems);
+  }
+
+  // The migrated data is fine: the backups would only take up space
+  await deleteBackups();
+}
+
+/**
+ * Put the database back as it was before the update, from the backup taken
+ * then. The app migrates it again when it next opens the database.
+ */
+export async function restoreDatabase(backupId: string): Promise<void> {
+  db.close();
+  await restoreBackup(DB_NAME, backupId);
+}
+
+/**
+ * What's wrong with the data after migrating: finds or their files lost,
+ * or artifacts the date indexes can't see
+ */
+async function checkMigratedData(backup?: DatabaseBackup): Promise<string[]> {
+  const problems: string[] = [];
+
+  for (const name of PRESERVED_TABLES) {
+    const before = backup?.counts[name] ?? 0;
+    const after = await db.table(name).count();
+    if (after < before) {
+      problems.push(`${name}: ${before} records before the update, ${after} after`);
+    }
+  }
+
+  const undated = await db.artifacts
+    .filter((artifact) => !(artifact.createdAt instanceof Date) || isNaN(artifact.createdAt.getTime()))
+    .count();
+  if (undated > 0) {
+    problems.push(`artifacts: ${undated} without a valid creation date`);
+  }
+
+  return problems;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 /**
  * Database helper functions
  */
 
+// Files
+
+/**
+ * A file didn't match the SHA-256 digest it came with
+ */
+export class ChecksumMismatchError extends Error {
+  expected: string;
+  actual: string;
+
+  constructor(message: string, expected: string, actual: string) {
+    super(message);
+    this.name = 'ChecksumMismatchError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Keep a file in the blobs table, once per content; resolves to its
+ * digest. A copy stored before and found corrupt since is replaced by this
+ * one. Given the digest it should have, a file that doesn't is refused.
+ */
+async function storeBlob(blob: Blob, expected?: string): Promise<string> {
+  // Hashing isn't a database request: waitFor keeps a transaction around
+  // this open meanwhile
+  const sha256 = await Dexie.waitFor(getSha256(blob));
+  if (expected && expected !== sha256) {
+    throw new ChecksumMismatchError(`File doesn't match its checksum ${expected}`, expected, sha256);
+  }
+
+  const stored = await db.blobs.get(sha256);
+  if (!stored || stored.corruptedAt) {
+    const now = new Date();
+    await db.blobs.put({ sha256, blob, size: blob.size, createdAt: stored?.createdAt ?? now, verifiedAt: now });
+  }
+  return sha256;
+}
+
+/**
+ * A new record as it's kept, its file stored by digest
+ */
+async function toStored<T extends { blob: Blob; sha256?: string }>(record: T): Promise<StoredRecord<T>> {
+  const { blob, ...stored } = record;
+  return { ...stored, sha256: await storeBlob(blob, record.sha256) };
+}
+
+/**
+ * Records with their files, found by digest. A record whose file is gone
+ * is left out rather than handed on without one: checkIntegrity reports
+ * it as missingBlob, and repairing it deletes it.
+ */
+async function withBlobs<T extends { blob: Blob }>(records: StoredRecord<T>[]): Promise<T[]> {
+  const blobs = await db.blobs.bulkGet(records.map((record) => record.sha256 ?? ''));
+  const found: T[] = [];
+  records.forEach((record, i) => {
+    const blob = blobs[i]?.blob;
+    if (blob) found.push({ ...record, blob } as T);
+  });
+  return found;
+}
+
+/**
+ * Delete the files no record refers to any more, in their tables or in the
+ * trash
+ */
+export async function removeUnusedBlobs(): Promise<void> {
+  await db.transaction('rw', [db.blobs, db.images, db.models, db.colorVariants, db.trash], async () => {
+    const used = new Set<string>();
+    for (const table of [db.images, db.models, db.colorVariants]) {
+      for (const sha256 of await table.orderBy('sha256').uniqueKeys()) {
+        used.add(String(sha256));
+      }
+    }
+    await db.trash.each((entry) => {
+      for (const record of [...entry.images, ...entry.models, ...entry.colorVariants]) {
+        if (record.sha256) used.add(record.sha256);
+      }
+    });
+
+    const unused = (await db.blobs.toCollection().primaryKeys()).filter((sha256) => !used.has(sha256));
+    await db.blobs.bulkDelete(unused);
+  });
+}
+
+/**
+ * Bytes of each stored file, by digest
+ */
+async function getBlobSizes(): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  await db.blobs.each((stored) => sizes.set(stored.sha256, stored.size));
+  return sizes;
+}
+
 // Artifacts
-export async function createArtifact(artifact: Artifact): Promise<string> {
-  return await db.artifacts.add(artifact);
+
+/**
+ * Add an artifact. Given a registration pattern, it's numbered in the same
+ * transaction; a number it brings along (on import) is kept unless another
+ * artifact has it, in which case it's renumbered and keeps the old number
+ * as a former one.
+ */
+export async function createArtifact(
+  artifact: Artifact,
+  registration?: { pattern: string }
+): Promise<string> {
+  if (!registration) {
+    return await db.artifacts.add(artifact);
+  }
+
+  return await db.transaction('rw', [db.artifacts, db.registrationCounters, db.sites, db.areas, db.seasons, db.contexts, db.trash], async () => {
+    const { registrationNumber, formerRegistrationNumbers = [] } = artifact;
+    if (registrationNumber && !(await isRegistrationNumberTaken(registrationNumber))) {
+      return await db.artifacts.add(artifact);
+    }
+
+    return await db.artifacts.add({
+      ...artifact,
+      registrationNumber: await allocateRegistrationNumber(registration.pattern, artifact),
+      formerRegistrationNumbers: registrationNumber
+        ? [...formerRegistrationNumbers, registrationNumber]
+        : artifact.formerRegistrationNumbers,
+    });
+  });
 }
 
 export async function getArtifact(id: string): Promise<Artifact | undefined> {
@@ -63,38 +346,71 @@ export async function updateArtifact(
   await db.artifacts.update(id, { ...updates, updatedAt: new Date() });
 }
 
-export async function deleteArtifact(id: string): Promise<void> {
-  // Delete all related data
-  await db.transaction('rw', [db.artifacts, db.images, db.models, db.infoCards, db.colorVariants], async () => {
+/**
+ * Move an artifact to the trash with its photos, model, info card and
+ * color variants; resolves to the trash entry, if there was such an
+ * artifact. Jobs queued for it are dropped.
+ */
+export async function deleteArtifact(id: string): Promise<string | undefined> {
+  return await db.transaction('rw', [db.artifacts, db.images, db.models, db.infoCards, db.infoCardRevisions, db.colorVariants, db.offlineQueue, db.trash], async () => {
+    const artifact = await db.artifacts.get(id);
+    if (!artifact) return undefined;
+
+    const entryId = await addToTrash('artifact', id, {
+      artifact,
+      images: await db.images.where('artifactId').equals(id).toArray(),
+      models: await db.models.where('artifactId').equals(id).toArray(),
+      infoCards: await db.infoCards.where('artifactId').equals(id).toArray(),
+      infoCardRevisions: await db.infoCardRevisions.where('artifactId').equals(id).toArray(),
+      colorVariants: await db.colorVariants.where('artifactId').equals(id).toArray(),
+    });
+
     await db.images.where('artifactId').equals(id).delete();
     await db.models.where('artifactId').equals(id).delete();
     await db.infoCards.where('artifactId').equals(id).delete();
+    await db.infoCardRevisions.where('artifactId').equals(id).delete();
     await db.colorVariants.where('artifactId').equals(id).delete();
+    await db.offlineQueue.where('artifactId').equals(id).delete();
     await db.artifacts.delete(id);
+    return entryId;
   });
 }
 
 // Images
 export async function addImage(image: ArtifactImage): Promise<string> {
-  const id = await db.images.add(image);
-  // Update artifact's imageIds
-  const artifact = await db.artifacts.get(image.artifactId);
-  if (artifact) {
-    await db.artifacts.update(image.artifactId, {
-      imageIds: [...artifact.imageIds, image.id],
-      updatedAt: new Date(),
-    });
-  }
-  return id;
+  return await db.transaction('rw', [db.images, db.artifacts, db.blobs], async () => {
+    const id = await db.images.add(await toStored(image));
+    // Update artifact's imageIds
+    const artifact = await db.artifacts.get(image.artifactId);
+    if (artifact) {
+      await db.artifacts.update(image.artifactId, {
+        imageIds: [...artifact.imageIds, image.id],
+        updatedAt: new Date(),
+      });
+    }
+    return id;
+  });
+}
+
+export async function getImagesByIds(ids: string[]): Promise<ArtifactImage[]> {
+  const images = await db.images.bulkGet(ids);
+  return await withBlobs(images.filter((image): image is StoredRecord<ArtifactImage> => image !== undefined));
 }
 
 export async function getImagesForArtifact(artifactId: string): Promise<ArtifactImage[]> {
-  return await db.images.where('artifactId').equals(artifactId).toArray();
+  return await withBlobs(await db.images.where('artifactId').equals(artifactId).toArray());
 }
 
-export async function deleteImage(id: string): Promise<void> {
-  const image = await db.images.get(id);
-  if (image) {
+/**
+ * Move a photo to the trash; resolves to the trash entry, if there was
+ * such a photo
+ */
+export async function deleteImage(id: string): Promise<string | undefined> {
+  return await db.transaction('rw', [db.images, db.artifacts, db.trash], async () => {
+    const image = await db.images.get(id);
+    if (!image) return undefined;
+
+    const entryId = await addToTrash('image', image.artifactId, { images: [image] });
     // Remove from artifact's imageIds
     const artifact = await db.artifacts.get(image.artifactId);
     if (artifact) {
@@ -104,77 +420,923 @@ export async function deleteImage(id: string): Promise<void> {
       });
     }
     await db.images.delete(id);
-  }
+    return entryId;
+  });
 }
 
 // 3D Models
+
+/**
+ * Save a new model for an artifact, replacing (and deleting) its current one
+ */
 export async function saveModel(model: Model3D): Promise<string> {
-  const id = await db.models.add(model);
-  // Update artifact's model3DId
-  await db.artifacts.update(model.artifactId, {
-    model3DId: model.id,
-    updatedAt: new Date(),
+  const id = await db.transaction('rw', [db.models, db.artifacts, db.blobs], async () => {
+    await db.models.where('artifactId').equals(model.artifactId).delete();
+    const id = await db.models.add(await toStored(model));
+    // Update artifact's model3DId
+    await db.artifacts.update(model.artifactId, {
+      model3DId: model.id,
+      updatedAt: new Date(),
+    });
+    return id;
   });
+  await removeUnusedBlobs();
   return id;
 }
 
 export async function getModelForArtifact(artifactId: string): Promise<Model3D | undefined> {
-  return await db.models.where('artifactId').equals(artifactId).first();
+  const model = await db.models.where('artifactId').equals(artifactId).first();
+  return model && (await withBlobs([model]))[0];
 }
 
 // Info Cards
-export async function saveInfoCard(infoCard: InfoCard): Promise<string> {
-  const id = await db.infoCards.add(infoCard);
-  // Update artifact's infoCardId
-  await db.artifacts.update(infoCard.artifactId, {
-    infoCardId: infoCard.id,
-    updatedAt: new Date(),
+
+/**
+ * Who or what changed a card, recorded on its revision
+ */
+export interface InfoCardChange {
+  author: InfoCardRevision['author'];
+  aiModel?: string;
+  action: InfoCardRevision['action'];
+  restoredFrom?: string;
+}
+
+function addRevision(card: InfoCard, change: InfoCardChange, previous?: InfoCard): Promise<string> {
+  const content = getInfoCardContent(card);
+  return db.infoCardRevisions.add({
+    id: `revision-${generateId()}`,
+    artifactId: card.artifactId,
+    infoCardId: card.id,
+    createdAt: new Date(),
+    ...change,
+    changedFields: getChangedFields(previous && getInfoCardContent(previous), content),
+    content,
   });
-  return id;
+}
+
+/**
+ * Save a new card for an artifact, replacing its current card
+ * The replaced card's text stays in the revision history
+ */
+export async function saveInfoCard(
+  infoCard: InfoCard,
+  change: InfoCardChange = { author: 'ai', aiModel: infoCard.aiModel, action: 'generated' }
+): Promise<string> {
+  return db.transaction('rw', [db.artifacts, db.infoCards, db.infoCardRevisions, db.vocabularyTerms], async () => {
+    const previous = await db.infoCards.where('artifactId').equals(infoCard.artifactId).toArray();
+    await db.infoCards.bulkDelete(previous.map((card) => card.id));
+
+    const card: InfoCard = { ...infoCard, dateSpan: getDateSpan(infoCard) };
+    card.terms = mapInfoCardTerms(card, await getVocabularyTerms());
+    const id = await db.infoCards.add(card);
+    // Compared with the card it replaces, so only what the regeneration changed is marked
+    await addRevision(infoCard, change, previous[0]);
+
+    // Update artifact's infoCardId
+    await db.artifacts.update(infoCard.artifactId, {
+      infoCardId: infoCard.id,
+      infoCardReviewStatus: infoCard.review?.status ?? 'ai-draft',
+      infoCardTerms: getTermIds(card.terms),
+      updatedAt: new Date(),
+    });
+    return id;
+  });
+}
+
+export async function getInfoCardsByIds(ids: string[]): Promise<InfoCard[]> {
+  const cards = await db.infoCards.bulkGet(ids);
+  return cards.filter((card): card is InfoCard => card !== undefined);
 }
 
 export async function getInfoCardForArtifact(artifactId: string): Promise<InfoCard | undefined> {
   return await db.infoCards.where('artifactId').equals(artifactId).first();
 }
 
+/**
+ * Update a card, recording a revision if its content changed
+ * Without a change description the update is taken to be a human edit.
+ * A reviewed card whose content changes goes back into review, since the
+ * sign-off was for the earlier text.
+ */
 export async function updateInfoCard(
   id: string,
-  updates: Partial<InfoCard>
-): Promise<void> {
-  await db.infoCards.update(id, { ...updates, updatedAt: new Date() });
+  updates: Partial<InfoCard>,
+  change: InfoCardChange = { author: 'human', action: 'edited' }
+): Promise<InfoCard | undefined> {
+  return db.transaction('rw', [db.artifacts, db.infoCards, db.infoCardRevisions, db.vocabularyTerms], async () => {
+    const previous = await db.infoCards.get(id);
+    if (!previous) return undefined;
+
+    const updated: InfoCard = { ...previous, ...updates, updatedAt: new Date() };
+    updated.dateSpan = getDateSpan(updated);
+    updated.terms = mapInfoCardTerms(updated, await getVocabularyTerms());
+    await db.artifacts.update(updated.artifactId, { infoCardTerms: getTermIds(updated.terms) });
+    const changed = getChangedFields(getInfoCardContent(previous), getInfoCardContent(updated)).length > 0;
+
+    const reviewStatus = updated.review?.status;
+    if (changed && updated.review && (reviewStatus === 'verified' || reviewStatus === 'rejected')) {
+      updated.review = { ...updated.review, status: 'in-review' };
+      await db.artifacts.update(updated.artifactId, { infoCardReviewStatus: 'in-review' });
+    }
+
+    await db.infoCards.put(updated);
+
+    if (changed) {
+      await addRevision(updated, change, previous);
+    }
+    return updated;
+  });
+}
+
+/**
+ * Record a specialist's review of a card
+ */
+export async function setInfoCardReview(
+  id: string,
+  review: InfoCardReview
+): Promise<InfoCard | undefined> {
+  return db.transaction('rw', [db.artifacts, db.infoCards], async () => {
+    const card = await db.infoCards.get(id);
+    if (!card) return undefined;
+
+    const updated: InfoCard = { ...card, review, updatedAt: new Date() };
+    await db.infoCards.put(updated);
+    await db.artifacts.update(card.artifactId, {
+      infoCardReviewStatus: review.status,
+      updatedAt: new Date(),
+    });
+    return updated;
+  });
+}
+
+/**
+ * The revisions of an artifact's info card(s), oldest first
+ */
+export async function getInfoCardRevisions(artifactId: string): Promise<InfoCardRevision[]> {
+  return await db.infoCardRevisions.where('artifactId').equals(artifactId).sortBy('createdAt');
+}
+
+/**
+ * Add revisions as they are, e.g. the history of an imported card
+ */
+export async function addInfoCardRevisions(revisions: InfoCardRevision[]): Promise<void> {
+  await db.infoCardRevisions.bulkAdd(revisions);
+}
+
+/**
+ * Bring back an earlier revision's content as the card's current content
+ * The restore is itself a revision, so it can be undone the same way
+ */
+export async function restoreInfoCardRevision(
+  infoCardId: string,
+  revisionId: string
+): Promise<InfoCard | undefined> {
+  const revision = await db.infoCardRevisions.get(revisionId);
+  if (!revision) {
+    throw new Error(`Revision not found: ${revisionId}`);
+  }
+
+  return await updateInfoCard(infoCardId, revision.content, {
+    author: 'human',
+    action: 'restored',
+    restoredFrom: revision.id,
+  });
 }
 
 // Color Variants
 export async function addColorVariant(variant: ColorVariant): Promise<string> {
-  const id = await db.colorVariants.add(variant);
-  // Update artifact's colorVariantIds
+  return await db.transaction('rw', [db.colorVariants, db.artifacts, db.blobs], async () => {
+    const id = await db.colorVariants.add(await toStored(variant));
+    // Update artifact's colorVariantIds
+    const artifact = await db.artifacts.get(variant.artifactId);
+    if (artifact) {
+      await db.artifacts.update(variant.artifactId, {
+        colorVariantIds: [...artifact.colorVariantIds, variant.id],
+        updatedAt: new Date(),
+      });
+    }
+    return id;
+  });
+}
+
+export async function getColorVariantsForArtifact(artifactId: string): Promise<ColorVariant[]> {
+  return await withBlobs(await db.colorVariants.where('artifactId').equals(artifactId).toArray());
+}
+
+/**
+ * Move a color variant to the trash; resolves to the trash entry, if there
+ * was such a variant
+ */
+export async function deleteColorVariant(id: string): Promise<string | undefined> {
+  return await db.transaction('rw', [db.colorVariants, db.artifacts, db.trash], async () => {
+    const variant = await db.colorVariants.get(id);
+    if (!variant) return undefined;
+
+    const entryId = await addToTrash('colorVariant', variant.artifactId, { colorVariants: [variant] });
+    await removeColorVariant(variant);
+    return entryId;
+  });
+}
+
+async function removeColorVariant(variant: StoredRecord<ColorVariant>): Promise<void> {
+  // Remove from artifact's colorVariantIds
   const artifact = await db.artifacts.get(variant.artifactId);
   if (artifact) {
     await db.artifacts.update(variant.artifactId, {
-      colorVariantIds: [...artifact.colorVariantIds, variant.id],
+      colorVariantIds: artifact.colorVariantIds.filter((vId) => vId !== variant.id),
       updatedAt: new Date(),
     });
   }
-  return id;
+  await db.colorVariants.delete(variant.id);
 }
 
-export async function getColorVariantsForArtifact(artifactId: string): Promise<ColorVariant[]> {
-  return await db.colorVariants.where('artifactId').equals(artifactId).toArray();
+// Controlled vocabularies
+
+/**
+ * The vocabulary terms: the bundled ones with the user's edits, including
+ * terms the user hid
+ */
+export async function getVocabularyTerms(): Promise<VocabularyTerm[]> {
+  return mergeVocabulary(await db.vocabularyTerms.toArray());
 }
 
-export async function deleteColorVariant(id: string): Promise<void> {
-  const variant = await db.colorVariants.get(id);
-  if (variant) {
-    // Remove from artifact's colorVariantIds
-    const artifact = await db.artifacts.get(variant.artifactId);
-    if (artifact) {
-      await db.artifacts.update(variant.artifactId, {
-        colorVariantIds: artifact.colorVariantIds.filter((vId) => vId !== id),
+/**
+ * Map every info card to the terms again, after the vocabulary changed
+ */
+async function remapInfoCardTerms(): Promise<void> {
+  const terms = await getVocabularyTerms();
+  const cards = await db.infoCards.toArray();
+  for (const card of cards) {
+    card.terms = mapInfoCardTerms(card, terms);
+    await db.infoCards.put(card);
+    await db.artifacts.update(card.artifactId, { infoCardTerms: getTermIds(card.terms) });
+  }
+}
+
+/**
+ * Save an edited or added term, replacing the bundled term with its id
+ */
+export async function saveVocabularyTerm(term: VocabularyTerm): Promise<void> {
+  await db.transaction('rw', [db.artifacts, db.infoCards, db.vocabularyTerms], async () => {
+    await db.vocabularyTerms.put(term);
+    await remapInfoCardTerms();
+  });
+}
+
+/**
+ * Drop the user's version of a term: a bundled term is restored, an added
+ * term is deleted
+ */
+export async function resetVocabularyTerm(id: string): Promise<void> {
+  await db.transaction('rw', [db.artifacts, db.infoCards, db.vocabularyTerms], async () => {
+    await db.vocabularyTerms.delete(id);
+    await remapInfoCardTerms();
+  });
+}
+
+// Excavation structure
+
+export async function getSites(): Promise<Site[]> {
+  return await db.sites.orderBy('name').toArray();
+}
+
+export async function getSite(id: string): Promise<Site | undefined> {
+  return await db.sites.get(id);
+}
+
+export async function saveSite(site: Site): Promise<string> {
+  return await db.sites.put({ ...site, updatedAt: new Date() });
+}
+
+export async function getSeasonsForSite(siteId: string): Promise<Season[]> {
+  const seasons = await db.seasons.where('siteId').equals(siteId).toArray();
+  return seasons.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+export async function saveSeason(season: Season): Promise<string> {
+  return await db.seasons.put({ ...season, updatedAt: new Date() });
+}
+
+export async function getAreasForSite(siteId: string): Promise<Area[]> {
+  const areas = await db.areas.where('siteId').equals(siteId).toArray();
+  return areas.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+export async function saveArea(area: Area): Promise<string> {
+  return await db.areas.put({ ...area, updatedAt: new Date() });
+}
+
+export async function getContext(id: string): Promise<ExcavationContext | undefined> {
+  return await db.contexts.get(id);
+}
+
+export async function getContextsForSite(siteId: string): Promise<ExcavationContext[]> {
+  const contexts = await db.contexts.where('siteId').equals(siteId).toArray();
+  return contexts.sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }));
+}
+
+/**
+ * The context with a number at a site; numbers are compared as written,
+ * ignoring case
+ */
+export async function findContext(siteId: string, number: string): Promise<ExcavationContext | undefined> {
+  const contexts = await db.contexts.where('siteId').equals(siteId).toArray();
+  return contexts.find((context) => isSameName(context.number, number));
+}
+
+/**
+ * Save a context; its finds move along when it's moved to another area
+ */
+export async function saveContext(context: ExcavationContext): Promise<string> {
+  return await db.transaction('rw', [db.artifacts, db.contexts], async () => {
+    const existing = await findContext(context.siteId, context.number);
+    if (existing && existing.id !== context.id) {
+      throw new Error(`Context ${context.number} already exists at this site`);
+    }
+
+    await db.contexts.put({ ...context, updatedAt: new Date() });
+    await db.artifacts.where('contextId').equals(context.id).modify({ areaId: context.areaId });
+    return context.id;
+  });
+}
+
+/**
+ * Give a context a new number. When another context at the site already
+ * has that number, the two are merged: the finds move to the other context
+ * and this one is deleted. Resolves to the id of the context the finds are
+ * now in.
+ */
+export async function renumberContext(id: string, number: string): Promise<string> {
+  return await db.transaction('rw', [db.artifacts, db.contexts], async () => {
+    const context = await db.contexts.get(id);
+    if (!context) {
+      throw new Error(`Context not found: ${id}`);
+    }
+
+    const target = await findContext(context.siteId, number);
+    if (!target || target.id === id) {
+      await db.contexts.update(id, { number: number.trim(), updatedAt: new Date() });
+      return id;
+    }
+
+    const now = new Date();
+    await db.artifacts.where('contextId').equals(id).modify({
+      contextId: target.id,
+      areaId: target.areaId,
+      updatedAt: now,
+    });
+    await db.contexts.delete(id);
+    return target.id;
+  });
+}
+
+export async function getArtifactsForSite(siteId: string): Promise<Artifact[]> {
+  const artifacts = await db.artifacts.where('siteId').equals(siteId).toArray();
+  return artifacts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function getArtifactsForContext(contextId: string): Promise<Artifact[]> {
+  const artifacts = await db.artifacts.where('contextId').equals(contextId).toArray();
+  return artifacts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Record artifacts as found in a context, or only at a site (and area)
+ * when no context is given; the context's own site and area win
+ */
+export async function assignArtifacts(
+  artifactIds: string[],
+  location: { siteId?: string; areaId?: string; contextId?: string }
+): Promise<void> {
+  await db.transaction('rw', [db.artifacts, db.contexts], async () => {
+    const context = location.contextId ? await db.contexts.get(location.contextId) : undefined;
+    if (location.contextId && !context) {
+      throw new Error(`Context not found: ${location.contextId}`);
+    }
+
+    const now = new Date();
+    await db.artifacts.where('id').anyOf(artifactIds).modify({
+      siteId: context ? context.siteId : location.siteId,
+      areaId: context ? context.areaId : location.areaId,
+      contextId: context?.id,
+      updatedAt: now,
+    });
+  });
+}
+
+/**
+ * Where a new find is recorded, from the chosen site and context; choices
+ * deleted since are left out
+ */
+export async function getRecordingLocation(
+  siteId: string | null,
+  contextId: string | null
+): Promise<Pick<Artifact, 'siteId' | 'areaId' | 'contextId'>> {
+  const context = contextId ? await db.contexts.get(contextId) : undefined;
+  if (context) {
+    return { siteId: context.siteId, areaId: context.areaId, contextId: context.id };
+  }
+  const site = siteId ? await db.sites.get(siteId) : undefined;
+  return site ? { siteId: site.id } : {};
+}
+
+/**
+ * Find or add the site, area, season and context of an imported artifact:
+ * by id when this database has them, otherwise by name or number
+ */
+export async function importArtifactLocation(
+  location: ArtifactLocation
+): Promise<Pick<Artifact, 'siteId' | 'areaId' | 'contextId'>> {
+  const { site, area, season, context } = location;
+  if (!site) return {};
+
+  return await db.transaction('rw', [db.sites, db.seasons, db.areas, db.contexts], async () => {
+    const sites = await db.sites.toArray();
+    const existingSite = sites.find((existing) => existing.id === site.id)
+      ?? sites.find((existing) => isSameName(existing.name, site.name));
+    const siteId = existingSite?.id ?? await db.sites.add({
+      ...site,
+      createdAt: new Date(site.createdAt),
+      updatedAt: new Date(site.updatedAt),
+    });
+
+    let areaId: string | undefined;
+    if (area) {
+      const areas = await db.areas.where('siteId').equals(siteId).toArray();
+      const existingArea = areas.find((existing) => existing.id === area.id)
+        ?? areas.find((existing) => isSameName(existing.name, area.name));
+      areaId = existingArea?.id ?? await db.areas.add({
+        ...area,
+        siteId,
+        createdAt: new Date(area.createdAt),
+        updatedAt: new Date(area.updatedAt),
+      });
+    }
+
+    let seasonId: string | undefined;
+    if (season) {
+      const seasons = await db.seasons.where('siteId').equals(siteId).toArray();
+      const existingSeason = seasons.find((existing) => existing.id === season.id)
+        ?? seasons.find((existing) => isSameName(existing.name, season.name));
+      seasonId = existingSeason?.id ?? await db.seasons.add({
+        ...season,
+        siteId,
+        startDate: season.startDate && new Date(season.startDate),
+        endDate: season.endDate && new Date(season.endDate),
+        createdAt: new Date(season.createdAt),
+        updatedAt: new Date(season.updatedAt),
+      });
+    }
+
+    let contextId: string | undefined;
+    if (context) {
+      const existingContext = (await db.contexts.get(context.id)) ?? (await findContext(siteId, context.number));
+      contextId = existingContext?.id ?? await db.contexts.add({
+        ...context,
+        siteId,
+        areaId,
+        seasonId,
+        createdAt: new Date(context.createdAt),
+        updatedAt: new Date(context.updatedAt),
+      });
+      areaId = existingContext ? existingContext.areaId : areaId;
+    }
+
+    return { siteId, areaId, contextId };
+  });
+}
+
+// Registration numbers
+
+// Numbers of artifacts in the trash stay taken, so they can be restored
+async function isRegistrationNumberTaken(registrationNumber: string): Promise<boolean> {
+  return (
+    (await db.artifacts.where('registrationNumber').equals(registrationNumber).count()) > 0 ||
+    (await db.trash.where('registrationNumber').equals(registrationNumber).count()) > 0
+  );
+}
+
+/**
+ * Draw the next free number for an artifact from its site's pattern, or
+ * the default pattern. Runs in the caller's transaction over the artifacts,
+ * the counters and the excavation tables, so no two finds draw the same
+ * number.
+ */
+async function allocateRegistrationNumber(
+  defaultPattern: string,
+  artifact: Pick<Artifact, 'siteId' | 'areaId' | 'contextId' | 'createdAt'>
+): Promise<string> {
+  const [site, area, context] = await Promise.all([
+    artifact.siteId ? db.sites.get(artifact.siteId) : undefined,
+    artifact.areaId ? db.areas.get(artifact.areaId) : undefined,
+    artifact.contextId ? db.contexts.get(artifact.contextId) : undefined,
+  ]);
+  const season = context?.seasonId ? await db.seasons.get(context.seasonId) : undefined;
+
+  // A pattern without a sequence can't give out a second number
+  const pattern = [site?.registrationPattern, defaultPattern]
+    .find((candidate) => candidate && !validatePattern(candidate)) ?? DEFAULT_REGISTRATION_PATTERN;
+
+  const values = { site, area, season, context, date: new Date(artifact.createdAt) };
+  const key = getSequenceKey(pattern, values);
+  let sequence = (await db.registrationCounters.get(key))?.value ?? 0;
+  let registrationNumber: string;
+  // Skip numbers that came with imported finds
+  do {
+    sequence++;
+    registrationNumber = formatRegistrationNumber(pattern, values, sequence);
+  } while (await isRegistrationNumberTaken(registrationNumber));
+
+  await db.registrationCounters.put({ key, value: sequence });
+  return registrationNumber;
+}
+
+/**
+ * Number an artifact that has no registration number yet; resolves to its
+ * number either way
+ */
+export async function assignRegistrationNumber(id: string, pattern: string): Promise<string> {
+  return await db.transaction('rw', [db.artifacts, db.registrationCounters, db.sites, db.areas, db.seasons, db.contexts, db.trash], async () => {
+    const artifact = await db.artifacts.get(id);
+    if (!artifact) {
+      throw new Error(`Artifact not found: ${id}`);
+    }
+    if (artifact.registrationNumber) {
+      return artifact.registrationNumber;
+    }
+
+    const registrationNumber = await allocateRegistrationNumber(pattern, artifact);
+    await db.artifacts.update(id, { registrationNumber, updatedAt: new Date() });
+    return registrationNumber;
+  });
+}
+
+// Trash
+
+/**
+ * A photo or variant can't be restored while its artifact is in the trash
+ */
+export class TrashRestoreError extends Error {
+  artifactId: string;
+
+  constructor(message: string, artifactId: string) {
+    super(message);
+    this.name = 'TrashRestoreError';
+    this.artifactId = artifactId;
+  }
+}
+
+function addToTrash(
+  kind: TrashKind,
+  artifactId: string,
+  records: Partial<Pick<StoredTrashEntry, 'artifact' | 'images' | 'models' | 'infoCards' | 'infoCardRevisions' | 'colorVariants'>>
+): Promise<string> {
+  return db.trash.add({
+    id: `trash-${generateId()}`,
+    kind,
+    deletedAt: new Date(),
+    artifactId,
+    registrationNumber: records.artifact?.registrationNumber,
+    images: [],
+    models: [],
+    infoCards: [],
+    infoCardRevisions: [],
+    colorVariants: [],
+    ...records,
+  });
+}
+
+/**
+ * Move a model or info card that isn't its artifact's current one to the
+ * trash. The card's revisions stay in the artifact's history.
+ */
+export async function moveDuplicateToTrash(table: 'models' | 'infoCards', id: string): Promise<void> {
+  await db.transaction('rw', [db.models, db.infoCards, db.trash], async () => {
+    if (table === 'models') {
+      const model = await db.models.get(id);
+      if (!model) return;
+      await addToTrash('model', model.artifactId, { models: [model] });
+      await db.models.delete(id);
+    } else {
+      const card = await db.infoCards.get(id);
+      if (!card) return;
+      await addToTrash('infoCard', card.artifactId, { infoCards: [card] });
+      await db.infoCards.delete(id);
+    }
+  });
+}
+
+/**
+ * What's in the trash, most recently deleted first
+ */
+export async function getTrash(): Promise<TrashEntry[]> {
+  const entries = await db.trash.orderBy('deletedAt').reverse().toArray();
+  return await Promise.all(
+    entries.map(async (entry) => ({
+      ...entry,
+      images: await withBlobs(entry.images),
+      models: await withBlobs(entry.models),
+      colorVariants: await withBlobs(entry.colorVariants),
+    }))
+  );
+}
+
+/**
+ * Bytes of the files a trash entry holds
+ */
+export function getTrashEntrySize(entry: TrashEntry): number {
+  return [
+    entry.artifact?.thumbnailBlob,
+    ...entry.images.map((image) => image.blob),
+    ...entry.models.map((model) => model.blob),
+    ...entry.colorVariants.map((variant) => variant.blob),
+  ].reduce((sum, blob) => sum + (blob?.size ?? 0), 0);
+}
+
+/**
+ * Put what was deleted back as it was. A site, area or context deleted
+ * since is left out, and a registration number another find has taken
+ * becomes a former number. An artifact's queued jobs aren't kept, so one
+ * deleted while waiting for them comes back settled. A model or info card
+ * put back becomes its artifact's current one, and the one it displaces
+ * goes to the trash.
+ */
+export async function restoreFromTrash(entryId: string): Promise<void> {
+  await db.transaction('rw', [db.trash, db.artifacts, db.images, db.models, db.infoCards, db.infoCardRevisions, db.colorVariants, db.sites, db.areas, db.contexts], async () => {
+    const entry = await db.trash.get(entryId);
+    if (!entry) {
+      throw new Error(`Trash entry not found: ${entryId}`);
+    }
+    // Out of the trash first, so its registration number is free again
+    await db.trash.delete(entryId);
+
+    if (entry.artifact) {
+      const artifact: Artifact = { ...entry.artifact };
+      if (artifact.siteId && !(await db.sites.get(artifact.siteId))) delete artifact.siteId;
+      if (artifact.areaId && !(await db.areas.get(artifact.areaId))) delete artifact.areaId;
+      if (artifact.contextId && !(await db.contexts.get(artifact.contextId))) delete artifact.contextId;
+      if (artifact.registrationNumber && (await isRegistrationNumberTaken(artifact.registrationNumber))) {
+        artifact.formerRegistrationNumbers = [...(artifact.formerRegistrationNumbers ?? []), artifact.registrationNumber];
+        delete artifact.registrationNumber;
+      }
+      if (artifact.status === 'queued' || artifact.status === 'processing-3d' || artifact.status === 'processing-info') {
+        const hasResults = Boolean(
+          artifact.model3DId || artifact.infoCardId || artifact.colorVariantIds.length > 0
+        );
+        artifact.status = hasResults ? 'complete' : 'images-captured';
+      }
+      await db.artifacts.add(artifact);
+    } else {
+      const artifact = await db.artifacts.get(entry.artifactId);
+      if (!artifact) {
+        throw new TrashRestoreError(`Artifact not found: ${entry.artifactId}`, entry.artifactId);
+      }
+      const [model] = entry.models;
+      const [card] = entry.infoCards;
+      await db.artifacts.update(artifact.id, {
+        imageIds: [...artifact.imageIds, ...entry.images.map((image) => image.id)],
+        colorVariantIds: [...artifact.colorVariantIds, ...entry.colorVariants.map((variant) => variant.id)],
+        ...(model && { model3DId: model.id }),
+        ...(card && {
+          infoCardId: card.id,
+          infoCardReviewStatus: card.review?.status ?? 'ai-draft',
+          infoCardTerms: card.terms ? getTermIds(card.terms) : undefined,
+        }),
         updatedAt: new Date(),
       });
+      if (model && artifact.model3DId && artifact.model3DId !== model.id) {
+        await moveDuplicateToTrash('models', artifact.model3DId);
+      }
+      if (card && artifact.infoCardId && artifact.infoCardId !== card.id) {
+        await moveDuplicateToTrash('infoCards', artifact.infoCardId);
+      }
     }
-    await db.colorVariants.delete(id);
+
+    await db.images.bulkAdd(entry.images);
+    await db.models.bulkAdd(entry.models);
+    await db.infoCards.bulkAdd(entry.infoCards);
+    await db.infoCardRevisions.bulkAdd(entry.infoCardRevisions);
+    await db.colorVariants.bulkAdd(entry.colorVariants);
+  });
+}
+
+/**
+ * Delete trash entries for good; purging an artifact also purges the
+ * photos and variants deleted from it earlier
+ */
+export async function purgeTrashEntries(ids: string[]): Promise<void> {
+  await db.transaction('rw', db.trash, async () => {
+    const entries = await db.trash.bulkGet(ids);
+    const artifactIds = entries
+      .filter((entry): entry is StoredTrashEntry => entry?.kind === 'artifact')
+      .map((entry) => entry.artifactId);
+    await db.trash.bulkDelete(ids);
+    await db.trash.where('artifactId').anyOf(artifactIds).delete();
+  });
+  await removeUnusedBlobs();
+}
+
+/**
+ * Delete what has been in the trash for longer than the retention period
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<void> {
+  const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  await purgeTrashEntries(await db.trash.where('deletedAt').below(before).primaryKeys());
+}
+
+export async function emptyTrash(): Promise<void> {
+  await db.trash.clear();
+  await removeUnusedBlobs();
+}
+
+// Storage
+
+/** Longer side of photos downscaled to save space */
+const DOWNSCALED_DIMENSION = 1280;
+
+export interface ArtifactStorage {
+  artifactId: string;
+  images: number;
+  models: number;
+  colorVariants: number;
+  /** All of the above and the thumbnail, in bytes */
+  total: number;
+}
+
+export interface StorageUsage {
+  /**
+   * Bytes of files per table; thumbnails are kept on the artifacts. A file
+   * shared by records counts for each.
+   */
+  tables: { images: number; models: number; colorVariants: number; thumbnails: number; trash: number };
+  /** Largest first */
+  artifacts: ArtifactStorage[];
+}
+
+/**
+ * Bytes of photos, models and color variants, per table and per artifact
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const tables = { images: 0, models: 0, colorVariants: 0, thumbnails: 0, trash: 0 };
+  const byArtifact = new Map<string, ArtifactStorage>();
+  const add = (artifactId: string, table: 'images' | 'models' | 'colorVariants' | 'thumbnails', bytes: number) => {
+    tables[table] += bytes;
+    let entry = byArtifact.get(artifactId);
+    if (!entry) {
+      entry = { artifactId, images: 0, models: 0, colorVariants: 0, total: 0 };
+      byArtifact.set(artifactId, entry);
+    }
+    if (table !== 'thumbnails') entry[table] += bytes;
+    entry.total += bytes;
+  };
+
+  const sizes = await getBlobSizes();
+  const sizeOf = (record: { sha256?: string }) => sizes.get(record.sha256 ?? '') ?? 0;
+
+  await db.images.each((image) => add(image.artifactId, 'images', sizeOf(image)));
+  await db.models.each((model) => add(model.artifactId, 'models', sizeOf(model)));
+  await db.colorVariants.each((variant) => add(variant.artifactId, 'colorVariants', sizeOf(variant)));
+  // One artifact at a time: the thumbnails together may not fit in memory
+  await db.artifacts.each((artifact) => add(artifact.id, 'thumbnails', artifact.thumbnailBlob?.size ?? 0));
+  await db.trash.each((entry) => {
+    tables.trash += [...entry.images, ...entry.models, ...entry.colorVariants].reduce(
+      (sum, record) => sum + sizeOf(record),
+      entry.artifact?.thumbnailBlob?.size ?? 0
+    );
+  });
+
+  return {
+    tables,
+    artifacts: [...byArtifact.values()].sort((a, b) => b.total - a.total),
+  };
+}
+
+export interface CleanupCandidate {
+  ids: string[];
+  /** Bytes the records' files take */
+  bytes: number;
+}
+
+export interface CleanupCandidates {
+  /** Full-resolution photos of finds exported since the photo was taken */
+  exportedPhotos: CleanupCandidate;
+  /** Color variants of finds that are gone, and older variants of a scheme */
+  unusedVariants: CleanupCandidate;
+  /** 3D models replaced by a newer one, or of finds that are gone */
+  replacedModels: CleanupCandidate;
+}
+
+/**
+ * What the storage cleanup tools would remove or shrink
+ */
+export async function getCleanupCandidates(): Promise<CleanupCandidates> {
+  const artifacts = new Map((await db.artifacts.toArray()).map((artifact) => [artifact.id, artifact]));
+  const candidates: CleanupCandidates = {
+    exportedPhotos: { ids: [], bytes: 0 },
+    unusedVariants: { ids: [], bytes: 0 },
+    replacedModels: { ids: [], bytes: 0 },
+  };
+  const sizes = await getBlobSizes();
+  const add = (candidate: CleanupCandidate, record: { id: string; sha256?: string }) => {
+    candidate.ids.push(record.id);
+    candidate.bytes += sizes.get(record.sha256 ?? '') ?? 0;
+  };
+
+  await db.images.each((image) => {
+    const exportedAt = artifacts.get(image.artifactId)?.exportedAt;
+    if (exportedAt && exportedAt >= image.createdAt && !image.downscaledAt) {
+      add(candidates.exportedPhotos, image);
+    }
+  });
+
+  // Newest variant of each scheme per artifact
+  const variants = await db.colorVariants.orderBy('createdAt').reverse().toArray();
+  const kept = new Set<string>();
+  for (const variant of variants) {
+    const artifact = artifacts.get(variant.artifactId);
+    const scheme = `${variant.artifactId}:${variant.colorScheme}`;
+    if (!artifact || !artifact.colorVariantIds.includes(variant.id) || kept.has(scheme)) {
+      add(candidates.unusedVariants, variant);
+    } else {
+      kept.add(scheme);
+    }
+  }
+
+  await db.models.each((model) => {
+    if (artifacts.get(model.artifactId)?.model3DId !== model.id) {
+      add(candidates.replacedModels, model);
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * Replace full-resolution photos by smaller copies; resolves to the bytes
+ * saved. Photos a smaller copy doesn't help are left as they are.
+ */
+export async function downscaleImages(ids: string[]): Promise<number> {
+  let saved = 0;
+  // Each photo by itself: downscaling can't run inside a transaction
+  for (const id of ids) {
+    const image = await db.images.get(id);
+    if (!image || image.downscaledAt) continue;
+    const original = image.sha256 ? (await db.blobs.get(image.sha256))?.blob : undefined;
+    if (!original) continue;
+
+    const blob = await downscaleImage(original, DOWNSCALED_DIMENSION, 0.8);
+    if (blob.size >= original.size) {
+      await db.images.update(id, { downscaledAt: new Date() });
+      continue;
+    }
+
+    const bitmap = await createImageBitmap(blob);
+    await db.images.update(id, {
+      sha256: await storeBlob(blob),
+      width: bitmap.width,
+      height: bitmap.height,
+      downscaledAt: new Date(),
+    });
+    bitmap.close();
+    saved += original.size - blob.size;
   }
+  // The full-resolution files, unless a photo left as it was shares one
+  await removeUnusedBlobs();
+  return saved;
+}
+
+/**
+ * Delete color variants for good, without the trash: they're removed to
+ * free space
+ */
+export async function deleteColorVariants(ids: string[]): Promise<void> {
+  await db.transaction('rw', [db.colorVariants, db.artifacts], async () => {
+    for (const variant of await db.colorVariants.bulkGet(ids)) {
+      if (variant) await removeColorVariant(variant);
+    }
+  });
+  await removeUnusedBlobs();
+}
+
+/**
+ * Delete 3D models; an artifact showing one of them is left without a model
+ */
+export async function deleteModels(ids: string[]): Promise<void> {
+  await db.transaction('rw', [db.models, db.artifacts], async () => {
+    await db.artifacts
+      .filter((artifact) => artifact.model3DId !== undefined && ids.includes(artifact.model3DId))
+      .modify({ model3DId: undefined });
+    await db.models.bulkDelete(ids);
+  });
+  await removeUnusedBlobs();
+}
+
+/**
+ * Record that artifacts were saved to an export file
+ */
+export async function markArtifactsExported(ids: string[]): Promise<void> {
+  const now = new Date();
+  await db.artifacts.where('id').anyOf(ids).modify({ exportedAt: now });
 }
 
 // Export/Import
@@ -187,19 +1349,58 @@ export async function exportAllData(): Promise<{
 }> {
   return {
     artifacts: await db.artifacts.toArray(),
-    images: await db.images.toArray(),
-    models: await db.models.toArray(),
+    images: await withBlobs(await db.images.toArray()),
+    models: await withBlobs(await db.models.toArray()),
     infoCards: await db.infoCards.toArray(),
-    colorVariants: await db.colorVariants.toArray(),
+    colorVariants: await withBlobs(await db.colorVariants.toArray()),
   };
 }
 
+/**
+ * Move every artifact to the trash and clear everything else. The sites,
+ * areas and contexts the trashed finds were recorded in stay, as do the
+ * number counters, so a find put back comes back where it was found and
+ * new finds don't start over at numbers the trash still holds.
+ */
 export async function clearAllData(): Promise<void> {
-  await db.transaction('rw', [db.artifacts, db.images, db.models, db.infoCards, db.colorVariants], async () => {
+  await db.transaction('rw', [db.artifacts, db.images, db.models, db.infoCards, db.infoCardRevisions, db.colorVariants, db.offlineQueue, db.sites, db.seasons, db.areas, db.contexts, db.registrationCounters, db.trash], async () => {
+    for (const id of await db.artifacts.toCollection().primaryKeys()) {
+      await deleteArtifact(id);
+    }
     await db.artifacts.clear();
     await db.images.clear();
     await db.models.clear();
     await db.infoCards.clear();
     await db.colorVariants.clear();
+    await db.offlineQueue.clear();
+
+    const siteIds = new Set<string>();
+    const areaIds = new Set<string>();
+    const contextIds = new Set<string>();
+    await db.trash.each(({ artifact }) => {
+      if (artifact?.siteId) siteIds.add(artifact.siteId);
+      if (artifact?.areaId) areaIds.add(artifact.areaId);
+      if (artifact?.contextId) contextIds.add(artifact.contextId);
+    });
+
+    const contexts = await db.contexts.toArray();
+    for (const context of contexts.filter((context) => contextIds.has(context.id))) {
+      siteIds.add(context.siteId);
+      if (context.areaId) areaIds.add(context.areaId);
+    }
+    await db.contexts.bulkDelete(contexts.filter((context) => !contextIds.has(context.id)).map((context) => context.id));
+
+    const areas = await db.areas.toArray();
+    for (const area of areas.filter((area) => areaIds.has(area.id))) {
+      siteIds.add(area.siteId);
+    }
+    await db.areas.bulkDelete(areas.filter((area) => !areaIds.has(area.id)).map((area) => area.id));
+
+    await db.seasons.filter((season) => !siteIds.has(season.siteId)).delete();
+    await db.sites.filter((site) => !siteIds.has(site.id)).delete();
+
+    if ((await db.trash.count()) === 0) {
+      await db.registrationCounters.clear();
+    }
   });
 }
@@ -0,0 +1,80 @@
+/**
+ * Info Card Revisions
+ *
+ * Snapshots and field-level diffs of info cards, for the revision history
+ * kept in the infoCardRevisions table.
+ */
+
+import { INFO_CARD_FIELDS } from '@/lib/api/infoCardSchema';
+import type { InfoCard, InfoCardContent, InfoCardField } from '@/types';
+
+export interface InfoCardFieldChange<F extends InfoCardField = InfoCardField> {
+  field: F;
+  from: InfoCard[F];
+  to: InfoCard[F];
+  changed: boolean;
+}
+
+/**
+ * The part of a card that revisions record
+ */
+export function getInfoCardContent(card: InfoCardContent): InfoCardContent {
+  return {
+    material: card.material,
+    estimatedAge: card.estimatedAge,
+    possibleUse: card.possibleUse,
+    culturalContext: card.culturalContext,
+    similarArtifacts: card.similarArtifacts || [],
+    preservationNotes: card.preservationNotes,
+    aiConfidence: card.aiConfidence,
+    isHumanEdited: card.isHumanEdited,
+    humanEditedFields: card.humanEditedFields,
+    language: card.language,
+    translations: card.translations,
+  };
+}
+
+/**
+ * Compare one field, ignoring differences that don't show (an empty
+ * reasoning, a missing list)
+ */
+function isSameValue<F extends InfoCardField>(field: F, a: InfoCard[F], b: InfoCard[F]): boolean {
+  if (field === 'estimatedAge') {
+    const ageA = a as InfoCard['estimatedAge'];
+    const ageB = b as InfoCard['estimatedAge'];
+    return (
+      ageA.range === ageB.range &&
+      ageA.confidence === ageB.confidence &&
+      (ageA.reasoning || '') === (ageB.reasoning || '')
+    );
+  }
+  if (field === 'similarArtifacts') {
+    const listA = (a as string[] | undefined) || [];
+    const listB = (b as string[] | undefined) || [];
+    return listA.length === listB.length && listA.every((item, index) => item === listB[index]);
+  }
+  return a === b;
+}
+
+/**
+ * Field-by-field comparison of two versions of a card
+ */
+export function diffInfoCardContent(from: InfoCardContent, to: InfoCardContent): InfoCardFieldChange[] {
+  return INFO_CARD_FIELDS.map((field) => ({
+    field,
+    from: from[field],
+    to: to[field],
+    changed: !isSameValue(field, from[field], to[field]),
+  }));
+}
+
+/**
+ * The fields that differ between two versions of a card
+ * With nothing to compare against, every field counts as changed
+ */
+export function getChangedFields(from: InfoCardContent | undefined, to: InfoCardContent): InfoCardField[] {
+  if (!from) return [...INFO_CARD_FIELDS];
+  return diffInfoCardContent(from, to)
+    .filter((change) => change.changed)
+    .map((change) => change.field);
+}
@@ -0,0 +1,299 @@
+/**
+ * Database Integrity
+ *
+ * Artifacts refer to their photos, model, info card and color variants by
+ * id, and those records refer back to their artifact. Writes interrupted
+ * halfway, or made before the helpers ran in transactions, can leave the two
+ * sides disagreeing. checkIntegrity finds where they do; every issue has a
+ * repair that only removes what nothing can show, or links up what's there.
+ */
+
+import { db, moveDuplicateToTrash, removeUnusedBlobs } from './index';
+import { getTermIds } from './migrations';
+import type { Artifact } from '@/types';
+
+/** Tables whose records belong to an artifact */
+export type ArtifactRecordTable = 'images' | 'models' | 'infoCards' | 'infoCardRevisions' | 'colorVariants';
+
+/** Fields of an artifact referring to other records */
+export type ArtifactReference =
+  | 'imageIds'
+  | 'model3DId'
+  | 'infoCardId'
+  | 'colorVariantIds'
+  | 'siteId'
+  | 'areaId'
+  | 'contextId';
+
+export type IntegrityIssue =
+  | {
+      /**
+       * orphan: its artifact is gone; missingBlob, emptyBlob: the file is
+       * gone or empty; unlisted: its artifact doesn't refer to it;
+       * duplicate: a model or card next to the artifact's current one
+       */
+      kind: 'orphan' | 'missingBlob' | 'emptyBlob' | 'unlisted' | 'duplicate';
+      table: ArtifactRecordTable;
+      recordId: string;
+      artifactId: string;
+    }
+  | {
+      /** The artifact refers to a record that isn't there */
+      kind: 'danglingReference';
+      field: ArtifactReference;
+      recordId: string;
+      artifactId: string;
+    };
+
+export type IntegrityIssueKind = IntegrityIssue['kind'];
+
+const REFERENCES: Partial<Record<ArtifactRecordTable, ArtifactReference>> = {
+  images: 'imageIds',
+  models: 'model3DId',
+  infoCards: 'infoCardId',
+  colorVariants: 'colorVariantIds',
+};
+
+interface RecordSummary {
+  id: string;
+  artifactId: string;
+  createdAt: Date;
+  /** Whether its file is there and not empty */
+  healthy: boolean;
+}
+
+function getBlobIssue(size: number | undefined): 'missingBlob' | 'emptyBlob' | null {
+  if (size === undefined) return 'missingBlob';
+  return size === 0 ? 'emptyBlob' : null;
+}
+
+/**
+ * Look through every artifact and the records belonging to them for
+ * references that don't match up
+ */
+export async function checkIntegrity(): Promise<IntegrityIssue[]> {
+  const issues: IntegrityIssue[] = [];
+  const artifacts = new Map((await db.artifacts.toArray()).map((artifact) => [artifact.id, artifact]));
+
+  // Files are kept apart, by digest
+  const sizes = new Map<string, number>();
+  await db.blobs.each((stored) => sizes.set(stored.sha256, stored.size));
+
+  const images = new Map<string, RecordSummary>();
+  const variants = new Map<string, RecordSummary>();
+  const models: RecordSummary[] = [];
+  const summarize = (
+    table: 'images' | 'models' | 'colorVariants',
+    record: { id: string; artifactId: string; createdAt: Date; sha256?: string }
+  ): RecordSummary | null => {
+    if (!artifacts.has(record.artifactId)) {
+      issues.push({ kind: 'orphan', table, recordId: record.id, artifactId: record.artifactId });
+      return null;
+    }
+    const blobIssue = getBlobIssue(record.sha256 ? sizes.get(record.sha256) : undefined);
+    if (blobIssue) {
+      issues.push({ kind: blobIssue, table, recordId: record.id, artifactId: record.artifactId });
+    }
+    return { id: record.id, artifactId: record.artifactId, createdAt: record.createdAt, healthy: !blobIssue };
+  };
+
+  await db.images.each((image) => {
+    const summary = summarize('images', image);
+    if (summary) images.set(summary.id, summary);
+  });
+  await db.colorVariants.each((variant) => {
+    const summary = summarize('colorVariants', variant);
+    if (summary) variants.set(summary.id, summary);
+  });
+  await db.models.each((model) => {
+    const summary = summarize('models', model);
+    if (summary) models.push(summary);
+  });
+
+  const cards: RecordSummary[] = [];
+  for (const card of await db.infoCards.toArray()) {
+    if (!artifacts.has(card.artifactId)) {
+      issues.push({ kind: 'orphan', table: 'infoCards', recordId: card.id, artifactId: card.artifactId });
+    } else {
+      cards.push({ id: card.id, artifactId: card.artifactId, createdAt: card.createdAt, healthy: true });
+    }
+  }
+
+  await db.infoCardRevisions.each((revision) => {
+    if (!artifacts.has(revision.artifactId)) {
+      issues.push({ kind: 'orphan', table: 'infoCardRevisions', recordId: revision.id, artifactId: revision.artifactId });
+    }
+  });
+
+  const [siteIds, areaIds, contextIds] = await Promise.all([
+    db.sites.toCollection().primaryKeys(),
+    db.areas.toCollection().primaryKeys(),
+    db.contexts.toCollection().primaryKeys(),
+  ]);
+  const locations: ['siteId' | 'areaId' | 'contextId', Set<string>][] = [
+    ['siteId', new Set(siteIds)],
+    ['areaId', new Set(areaIds)],
+    ['contextId', new Set(contextIds)],
+  ];
+
+  // Photos and variants missing from their artifact's list
+  for (const [table, records] of [['images', images], ['colorVariants', variants]] as const) {
+    const field = table === 'images' ? 'imageIds' : 'colorVariantIds';
+    for (const record of records.values()) {
+      if (!artifacts.get(record.artifactId)?.[field]?.includes(record.id)) {
+        issues.push({ kind: 'unlisted', table, recordId: record.id, artifactId: record.artifactId });
+      }
+    }
+  }
+
+  const modelsByArtifact = groupByArtifact(models);
+  const cardsByArtifact = groupByArtifact(cards);
+  for (const artifact of artifacts.values()) {
+    checkList(issues, artifact, 'imageIds', images);
+    checkList(issues, artifact, 'colorVariantIds', variants);
+    checkCurrent(issues, artifact, 'models', modelsByArtifact.get(artifact.id) ?? []);
+    checkCurrent(issues, artifact, 'infoCards', cardsByArtifact.get(artifact.id) ?? []);
+
+    for (const [field, ids] of locations) {
+      const id = artifact[field];
+      if (id && !ids.has(id)) {
+        issues.push({ kind: 'danglingReference', field, recordId: id, artifactId: artifact.id });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function groupByArtifact(records: RecordSummary[]): Map<string, RecordSummary[]> {
+  const groups = new Map<string, RecordSummary[]>();
+  for (const record of records) {
+    groups.set(record.artifactId, [...(groups.get(record.artifactId) ?? []), record]);
+  }
+  return groups;
+}
+
+/**
+ * An artifact's list of photos or variants against the records: every id
+ * listed is one of its records
+ */
+function checkList(
+  issues: IntegrityIssue[],
+  artifact: Artifact,
+  field: 'imageIds' | 'colorVariantIds',
+  records: Map<string, RecordSummary>
+): void {
+  for (const id of new Set(artifact[field] ?? [])) {
+    if (records.get(id)?.artifactId !== artifact.id) {
+      issues.push({ kind: 'danglingReference', field, recordId: id, artifactId: artifact.id });
+    }
+  }
+}
+
+/**
+ * An artifact's one model or card against the records saying they're its:
+ * a current one that's gone is replaced by the newest that's fine, and the
+ * rest are duplicates
+ */
+function checkCurrent(
+  issues: IntegrityIssue[],
+  artifact: Artifact,
+  table: 'models' | 'infoCards',
+  records: RecordSummary[]
+): void {
+  const field = table === 'models' ? 'model3DId' : 'infoCardId';
+  const currentId = artifact[field];
+  const current = records.find((record) => record.id === currentId && record.healthy);
+  const replacement = current
+    ? undefined
+    : records.filter((record) => record.healthy).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+  if (currentId && !records.some((record) => record.id === currentId) && !replacement) {
+    issues.push({ kind: 'danglingReference', field, recordId: currentId, artifactId: artifact.id });
+  }
+  for (const record of records) {
+    if (record === replacement) {
+      issues.push({ kind: 'unlisted', table, recordId: record.id, artifactId: artifact.id });
+    } else if (record.id !== currentId && record.healthy) {
+      issues.push({ kind: 'duplicate', table, recordId: record.id, artifactId: artifact.id });
+    }
+  }
+}
+
+/**
+ * Repair the issues found by checkIntegrity, in one transaction: records
+ * no one can see are deleted, models and cards next to the current one
+ * moved to the trash, references to what isn't there dropped, and
+ * records missing from their artifact added to it. Files left to no record
+ * are deleted after.
+ */
+export async function repairIntegrityIssues(issues: IntegrityIssue[]): Promise<void> {
+  await db.transaction('rw', [db.artifacts, db.images, db.models, db.infoCards, db.infoCardRevisions, db.colorVariants, db.trash], async () => {
+    for (const issue of issues) {
+      await repairIssue(issue);
+    }
+  });
+  await removeUnusedBlobs();
+}
+
+async function repairIssue(issue: IntegrityIssue): Promise<void> {
+  switch (issue.kind) {
+    case 'orphan':
+      await db.table(issue.table).delete(issue.recordId);
+      return;
+    case 'duplicate':
+      // It may be the copy someone edited: kept in the trash, to restore
+      if (issue.table === 'models' || issue.table === 'infoCards') {
+        await moveDuplicateToTrash(issue.table, issue.recordId);
+      }
+      return;
+    case 'missingBlob':
+    case 'emptyBlob': {
+      await db.table(issue.table).delete(issue.recordId);
+      const field = REFERENCES[issue.table];
+      if (field) await removeReference(issue.artifactId, field, issue.recordId);
+      return;
+    }
+    case 'unlisted':
+      await addReference(issue.artifactId, issue.table, issue.recordId);
+      return;
+    case 'danglingReference':
+      await removeReference(issue.artifactId, issue.field, issue.recordId);
+      return;
+  }
+}
+
+async function removeReference(artifactId: string, field: ArtifactReference, id: string): Promise<void> {
+  await db.artifacts.where('id').equals(artifactId).modify((artifact) => {
+    if (field === 'imageIds' || field === 'colorVariantIds') {
+      artifact[field] = artifact[field].filter((listedId) => listedId !== id);
+    } else if (artifact[field] === id) {
+      delete artifact[field];
+      if (field === 'infoCardId') {
+        delete artifact.infoCardReviewStatus;
+        delete artifact.infoCardTerms;
+      }
+    }
+  });
+}
+
+async function addReference(artifactId: string, table: ArtifactRecordTable, id: string): Promise<void> {
+  if (table === 'images' || table === 'colorVariants') {
+    const field = table === 'images' ? 'imageIds' : 'colorVariantIds';
+    await db.artifacts.where('id').equals(artifactId).modify((artifact) => {
+      if (!artifact[field].includes(id)) {
+        artifact[field] = [...artifact[field], id];
+      }
+    });
+  } else if (table === 'models') {
+    await db.artifacts.update(artifactId, { model3DId: id });
+  } else if (table === 'infoCards') {
+    const card = await db.infoCards.get(id);
+    if (!card) return;
+    await db.artifacts.update(artifactId, {
+      infoCardId: card.id,
+      infoCardReviewStatus: card.review?.status ?? 'ai-draft',
+      infoCardTerms: card.terms ? getTermIds(card.terms) : undefined,
+    });
+  }
+}
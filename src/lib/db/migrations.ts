@@ -0,0 +1,350 @@
+/**
+ * Database Migrations
+ *
+ * The schema of every database version, in order, with the upgrade that
+ * brings existing records along. A migration runs once, when the app first
+ * opens the database after an update; it never changes once released, and
+ * later changes get a migration of their own.
+ *
+ * An upgrade runs in one transaction: if it throws, the database stays at
+ * the version before it. The app backs the database up before migrating and
+ * checks the data afterwards (see openDatabase).
+ */
+
+import Dexie, { type Transaction } from 'dexie';
+import { generateId, getSha256 } from '@/lib/utils';
+import { parseDateRange } from '@/lib/utils/dateRange';
+import { BUNDLED_TERMS, mapInfoCardTerms } from '@/lib/vocabulary';
+import { isSameName, parseContextLabel } from '@/lib/excavation';
+import { getInfoCardContent, getChangedFields } from './infoCardRevisions';
+import type {
+  Artifact,
+  DateSpan,
+  InfoCard,
+  InfoCardRevision,
+  VocabularyMatches,
+  VocabularyName,
+  Site,
+  Area,
+  ExcavationContext,
+  StoredBlob,
+} from '@/types';
+
+export interface Migration {
+  version: number;
+  /** What changes, shown when a migration fails */
+  description: string;
+  /** Indexes of the tables added or changed; null deletes a table */
+  stores: Record<string, string | null>;
+  upgrade?: (tx: Transaction) => Promise<void> | void;
+}
+
+/**
+ * Tables holding what can't be made again (the finds and their photos,
+ * models and colorized images with their files, also in the trash): no
+ * migration may lose their records
+ */
+export const PRESERVED_TABLES = ['artifacts', 'images', 'models', 'colorVariants', 'trash', 'blobs'] as const;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Artifacts, images, models, info cards and color variants',
+    // Note: Only indexed fields need to be listed
+    stores: {
+      artifacts: 'id, createdAt, updatedAt, status, [metadata.siteName]',
+      images: 'id, artifactId, angle, createdAt',
+      models: 'id, artifactId, createdAt',
+      infoCards: 'id, artifactId, createdAt',
+      colorVariants: 'id, artifactId, colorScheme, createdAt',
+    },
+  },
+  {
+    version: 2,
+    description: 'Offline operation queue (previously held in localStorage)',
+    stores: {
+      offlineQueue: 'id, artifactId, type, createdAt',
+    },
+    upgrade: () => {
+      // Legacy entries inlined base64 images without an artifact reference,
+      // so they cannot be replayed against the new queue
+      try {
+        localStorage.removeItem('archaeology-offline-queue');
+      } catch {
+        // localStorage not available
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Info card revision history',
+    stores: {
+      infoCardRevisions: 'id, artifactId, infoCardId, createdAt',
+    },
+    upgrade: async (tx) => {
+      // Regenerating used to add a card next to the old one; keep the old
+      // cards' text as revisions and only the current card as a record
+      const artifacts = await tx.table<Artifact, string>('artifacts').toArray();
+      const currentIds = new Map(artifacts.map((artifact) => [artifact.id, artifact.infoCardId]));
+      const cards = await tx.table<InfoCard, string>('infoCards').orderBy('createdAt').toArray();
+
+      const latest = new Map<string, InfoCard>();
+      for (const card of cards) {
+        latest.set(card.artifactId, card);
+      }
+
+      const revisions: InfoCardRevision[] = cards.map((card) => ({
+        id: `revision-${generateId()}`,
+        artifactId: card.artifactId,
+        infoCardId: card.id,
+        createdAt: card.updatedAt || card.createdAt,
+        author: card.isHumanEdited ? 'human' : 'ai',
+        aiModel: card.isHumanEdited ? undefined : card.aiModel,
+        action: card.isHumanEdited ? 'edited' : 'generated',
+        changedFields: getChangedFields(undefined, card),
+        content: getInfoCardContent(card),
+      }));
+      await tx.table('infoCardRevisions').bulkAdd(revisions);
+
+      const superseded = cards.filter((card) => {
+        const currentId = currentIds.get(card.artifactId) || latest.get(card.artifactId)?.id;
+        return card.id !== currentId;
+      });
+      await tx.table('infoCards').bulkDelete(superseded.map((card) => card.id));
+    },
+  },
+  {
+    version: 4,
+    description: 'Estimated age as years, indexed for sorting by date',
+    stores: {
+      infoCards: 'id, artifactId, createdAt, dateSpan.start',
+    },
+    upgrade: async (tx) => {
+      await tx.table<InfoCard, string>('infoCards').toCollection().modify((card) => {
+        card.dateSpan = getDateSpan(card);
+      });
+    },
+  },
+  {
+    version: 5,
+    description: 'Controlled vocabularies; existing cards are mapped to the bundled terms',
+    stores: {
+      vocabularyTerms: 'id, vocabulary',
+    },
+    upgrade: async (tx) => {
+      const cards = await tx.table<InfoCard, string>('infoCards').toArray();
+      for (const card of cards) {
+        card.terms = mapInfoCardTerms(card, BUNDLED_TERMS);
+        await tx.table('infoCards').put(card);
+        await tx.table('artifacts').update(card.artifactId, { infoCardTerms: getTermIds(card.terms) });
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Sites, seasons, areas and contexts as records instead of names in the artifact metadata',
+    stores: {
+      artifacts: 'id, createdAt, updatedAt, status, siteId, contextId',
+      sites: 'id, name',
+      seasons: 'id, siteId',
+      areas: 'id, siteId',
+      contexts: 'id, siteId, areaId, seasonId, [siteId+number]',
+    },
+    upgrade: async (tx) => {
+      const now = new Date();
+      const sites: Site[] = [];
+      const areas: Area[] = [];
+      const contexts: ExcavationContext[] = [];
+
+      // A location or layer means nothing without its site, so those
+      // artifacts keep their text
+      await tx.table<Artifact, string>('artifacts').toCollection().modify((artifact) => {
+        const { siteName, discoveryLocation, excavationLayer } = artifact.metadata ?? {};
+        if (!siteName?.trim()) return;
+
+        let site = sites.find((existing) => isSameName(existing.name, siteName));
+        if (!site) {
+          site = { id: `site-${generateId()}`, name: siteName.trim(), createdAt: now, updatedAt: now };
+          sites.push(site);
+        }
+        artifact.siteId = site.id;
+        delete artifact.metadata.siteName;
+
+        if (discoveryLocation?.trim()) {
+          let area = areas.find((existing) => existing.siteId === site.id && isSameName(existing.name, discoveryLocation));
+          if (!area) {
+            area = { id: `area-${generateId()}`, siteId: site.id, name: discoveryLocation.trim(), createdAt: now, updatedAt: now };
+            areas.push(area);
+          }
+          artifact.areaId = area.id;
+          delete artifact.metadata.discoveryLocation;
+        }
+
+        if (excavationLayer?.trim()) {
+          const { number, type } = parseContextLabel(excavationLayer);
+          let context = contexts.find((existing) => existing.siteId === site.id && isSameName(existing.number, number));
+          if (!context) {
+            context = {
+              id: `context-${generateId()}`,
+              siteId: site.id,
+              areaId: artifact.areaId,
+              number,
+              type,
+              createdAt: now,
+              updatedAt: now,
+            };
+            contexts.push(context);
+          }
+          // The context's area wins where finds disagreed
+          artifact.contextId = context.id;
+          artifact.areaId = context.areaId;
+          delete artifact.metadata.excavationLayer;
+        }
+      });
+
+      await tx.table('sites').bulkAdd(sites);
+      await tx.table('areas').bulkAdd(areas);
+      await tx.table('contexts').bulkAdd(contexts);
+    },
+  },
+  {
+    version: 7,
+    description: 'Registration numbers, unique, drawn from counters per pattern',
+    stores: {
+      artifacts: 'id, createdAt, updatedAt, status, siteId, contextId, &registrationNumber',
+      registrationCounters: 'key',
+    },
+  },
+  {
+    version: 8,
+    description: 'Creation and update dates on records saved without them',
+    stores: {},
+    upgrade: async (tx) => {
+      // Early builds and hand-edited imports left dates out or kept them as
+      // text, which drops the records from every date index
+      const now = new Date();
+      for (const name of ['artifacts', 'infoCards']) {
+        await tx.table<{ createdAt?: unknown; updatedAt?: unknown }>(name).toCollection().modify((record) => {
+          record.createdAt = toDate(record.createdAt) ?? toDate(record.updatedAt) ?? now;
+          record.updatedAt = toDate(record.updatedAt) ?? record.createdAt;
+        });
+      }
+      for (const name of ['images', 'models', 'colorVariants']) {
+        await tx.table<{ createdAt?: unknown }>(name).toCollection().modify((record) => {
+          record.createdAt = toDate(record.createdAt) ?? now;
+        });
+      }
+    },
+  },
+  {
+    version: 9,
+    description: 'Trash for deleted artifacts, photos and color variants',
+    stores: {
+      trash: 'id, deletedAt, artifactId, registrationNumber',
+    },
+  },
+  {
+    version: 10,
+    description: 'Files of photos, models and color variants stored once per content, by SHA-256 digest',
+    stores: {
+      images: 'id, artifactId, angle, createdAt, sha256',
+      models: 'id, artifactId, createdAt, sha256',
+      colorVariants: 'id, artifactId, colorScheme, createdAt, sha256',
+      blobs: 'sha256, verifiedAt, corruptedAt',
+    },
+    upgrade: async (tx) => {
+      // A record at a time: the files together may not fit in memory
+      for (const name of ['images', 'models', 'colorVariants']) {
+        const table = tx.table<FileRecord, string>(name);
+        for (const id of await table.toCollection().primaryKeys()) {
+          const record = await table.get(id);
+          if (record) await table.put(await moveBlob(tx, record));
+        }
+      }
+
+      // Records in the trash keep their files the same way
+      const trash = tx.table<Record<'images' | 'models' | 'colorVariants', FileRecord[]> & { id: string }, string>('trash');
+      for (const id of await trash.toCollection().primaryKeys()) {
+        const entry = await trash.get(id);
+        if (!entry) continue;
+        for (const name of ['images', 'models', 'colorVariants'] as const) {
+          const records: FileRecord[] = [];
+          for (const record of entry[name]) {
+            records.push(await moveBlob(tx, record));
+          }
+          entry[name] = records;
+        }
+        await trash.put(entry);
+      }
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+interface FileRecord {
+  id: string;
+  blob?: Blob;
+  sha256?: string;
+}
+
+/**
+ * Move a record's file to the blobs table, keyed by its digest; records
+ * without a file are left as they are
+ */
+async function moveBlob(tx: Transaction, record: FileRecord): Promise<FileRecord> {
+  const { blob, ...stored } = record;
+  if (!(blob instanceof Blob)) return record;
+
+  // Hashing isn't a database request: waitFor keeps the upgrade open meanwhile
+  const sha256 = await Dexie.waitFor(getSha256(blob));
+  const blobs = tx.table<StoredBlob, string>('blobs');
+  if (!(await blobs.get(sha256))) {
+    const now = new Date();
+    await blobs.add({ sha256, blob, size: blob.size, createdAt: now, verifiedAt: now });
+  }
+  return { ...stored, sha256 };
+}
+
+/**
+ * A date kept as a Date, a timestamp or text, or nothing when it isn't one
+ */
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * A card's estimated age as years, read from its own text or, failing that,
+ * from a translation
+ */
+export function getDateSpan(card: InfoCard): DateSpan | undefined {
+  const ranges = [
+    card.estimatedAge.range,
+    ...Object.values(card.translations || {}).map((translation) => translation?.estimatedAge.range),
+  ];
+  for (const range of ranges) {
+    const span = range ? parseDateRange(range) : null;
+    if (span) return span;
+  }
+  return undefined;
+}
+
+/**
+ * The term ids of a card's vocabulary matches, as kept on its artifact
+ */
+export function getTermIds(matches: VocabularyMatches): Partial<Record<VocabularyName, string>> {
+  const ids: Partial<Record<VocabularyName, string>> = {};
+  for (const [vocabulary, match] of Object.entries(matches) as [VocabularyName, VocabularyMatches[VocabularyName]][]) {
+    if (match) {
+      ids[vocabulary] = match.termId;
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,115 @@
+/**
+ * Excavation structure
+ *
+ * Naming of sites, areas and contexts, and the find spot of an artifact as
+ * the text fields the AI and the exports still use.
+ */
+
+import { generateId } from '@/lib/utils';
+import type {
+  Area,
+  ArtifactMetadata,
+  ExcavationContext,
+  ExcavationContextType,
+  Season,
+  Site,
+} from '@/types';
+
+export const CONTEXT_TYPES: ExcavationContextType[] = ['locus', 'context', 'layer', 'feature'];
+
+/**
+ * Whether two names refer to the same site or area ("Tel Megiddo" and
+ * "tel megiddo ")
+ */
+export function isSameName(a: string, b: string): boolean {
+  return a.trim().toLocaleLowerCase() === b.trim().toLocaleLowerCase();
+}
+
+/**
+ * Read a context number from how finders wrote it: "Locus 1234" is locus
+ * 1234, "Stratum IV" is layer IV; anything else is kept as the number
+ */
+export function parseContextLabel(text: string): { number: string; type: ExcavationContextType } {
+  const trimmed = text.trim();
+  const match = /^(locus|context|layer|stratum|feature|l\.|ctx\.|str\.|f\.)(?:\s+|(?<=\.)|(?=\d))(\S.*)$/i.exec(trimmed);
+  if (!match) {
+    return { number: trimmed, type: 'context' };
+  }
+
+  const prefix = match[1].toLowerCase();
+  const type: ExcavationContextType = prefix.startsWith('l.') || prefix === 'locus'
+    ? 'locus'
+    : prefix.startsWith('c')
+      ? 'context'
+      : prefix.startsWith('f')
+        ? 'feature'
+        : 'layer';
+  return { number: match[2].trim(), type };
+}
+
+/**
+ * A context as it's referred to, e.g. "Locus 1234"
+ */
+export function formatContextLabel(
+  context: Pick<ExcavationContext, 'number' | 'type'>,
+  t: (key: string, options?: Record<string, unknown>) => string
+): string {
+  return t(`components.excavation.contextTypes.${context.type}`, { number: context.number });
+}
+
+export interface ArtifactLocation {
+  site?: Site;
+  area?: Area;
+  season?: Season;
+  context?: ExcavationContext;
+}
+
+/**
+ * Records for a find spot given by name, as artifacts had it before sites
+ * were recorded; nothing without a site name
+ */
+export function getLegacyLocation(
+  metadata: Pick<ArtifactMetadata, 'siteName' | 'discoveryLocation' | 'excavationLayer'> | undefined
+): ArtifactLocation {
+  const siteName = metadata?.siteName?.trim();
+  if (!siteName) return {};
+
+  const now = new Date();
+  const site: Site = { id: `site-${generateId()}`, name: siteName, createdAt: now, updatedAt: now };
+  const areaName = metadata?.discoveryLocation?.trim();
+  const area: Area | undefined = areaName
+    ? { id: `area-${generateId()}`, siteId: site.id, name: areaName, createdAt: now, updatedAt: now }
+    : undefined;
+  const context: ExcavationContext | undefined = metadata?.excavationLayer?.trim()
+    ? {
+        id: `context-${generateId()}`,
+        siteId: site.id,
+        areaId: area?.id,
+        ...parseContextLabel(metadata.excavationLayer),
+        createdAt: now,
+        updatedAt: now,
+      }
+    : undefined;
+  return { site, area, context };
+}
+
+/**
+ * An artifact's metadata with its find spot filled in from the site, area
+ * and context it's recorded in
+ */
+export function getLocationMetadata(
+  metadata: ArtifactMetadata | undefined,
+  location: ArtifactLocation,
+  t: (key: string, options?: Record<string, unknown>) => string
+): ArtifactMetadata {
+  const { site, area, season, context } = location;
+  const layer = context
+    ? [formatContextLabel(context, t), season?.name].filter(Boolean).join(', ')
+    : undefined;
+  return {
+    ...metadata,
+    siteName: site?.name ?? metadata?.siteName,
+    discoveryLocation: area?.name ?? metadata?.discoveryLocation,
+    excavationLayer: layer ?? metadata?.excavationLayer,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Background Sync registration for the offline queue
+ *
+ * Where the browser supports it, the service worker drains the queue
+ * (even with the tab closed); otherwise the page processes it itself.
+ */
+
+export const QUEUE_SYNC_TAG = 'offline-queue';
+
+// How often periodic sync may retry jobs that failed during a one-off sync
+const PERIODIC_SYNC_INTERVAL = 12 * 60 * 60 * 1000; // 12 hours
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+}
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: SyncManager;
+  periodicSync?: PeriodicSyncManager;
+};
+
+/**
+ * Whether the service worker can process the queue in the background
+ */
+export function isBackgroundSyncSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'SyncManager' in window &&
+    navigator.serviceWorker.controller !== null
+  );
+}
+
+/**
+ * Ask the service worker to process the queue once the device is online
+ * Returns false when the page has to process the queue itself
+ */
+export async function requestQueueSync(): Promise<boolean> {
+  if (!isBackgroundSyncSupported()) return false;
+
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | SyncCapableRegistration
+      | undefined;
+    if (!registration?.sync) return false;
+
+    await registration.sync.register(QUEUE_SYNC_TAG);
+
+    // Best effort: periodic sync needs an installed app and permission
+    try {
+      await registration.periodicSync?.register(QUEUE_SYNC_TAG, {
+        minInterval: PERIODIC_SYNC_INTERVAL,
+      });
+    } catch {
+      // Periodic sync not granted
+    }
+
+    return true;
+  } catch (error) {
+    console.warn('[BackgroundSync] Registration failed:', error);
+    return false;
+  }
+}
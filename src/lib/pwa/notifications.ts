@@ -0,0 +1,74 @@
+/**
+ * Notifications for finished offline queue jobs
+ *
+ * Used by both the page and the service worker, so the text comes from its
+ * own small module instead of i18next and the locale files.
+ */
+
+import { queueNotificationStrings, type QueueNotificationStrings } from '@/i18n/queueNotification';
+import type { ProcessQueueResult } from '@/lib/api/offlineQueue';
+
+const NOTIFICATION_TAG = 'offline-queue-result';
+
+function getStrings(language: string): QueueNotificationStrings {
+  return language.startsWith('he') ? queueNotificationStrings.he : queueNotificationStrings.en;
+}
+
+function interpolate(template: string, count: number): string {
+  return template.replace('{{count}}', String(count));
+}
+
+/**
+ * Ask for notification permission (no-op if already decided)
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission !== 'default') {
+    return Notification.permission === 'granted';
+  }
+
+  try {
+    return (await Notification.requestPermission()) === 'granted';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Notify the user that queued jobs have finished
+ * Without a service worker registration the page shows the notification itself
+ */
+export async function showQueueNotification(
+  result: ProcessQueueResult,
+  language: string,
+  registration?: ServiceWorkerRegistration
+): Promise<void> {
+  if (result.processed === 0 && result.failed === 0) return;
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  const strings = getStrings(language);
+  const lines: string[] = [];
+  if (result.processed > 0) {
+    lines.push(interpolate(result.processed === 1 ? strings.processed : strings.processed_plural, result.processed));
+  }
+  if (result.failed > 0) {
+    lines.push(interpolate(result.failed === 1 ? strings.failed : strings.failed_plural, result.failed));
+  }
+
+  const options: NotificationOptions = {
+    body: lines.join('\n'),
+    icon: '/logo-192.png',
+    badge: '/logo-64.png',
+    tag: NOTIFICATION_TAG,
+  };
+
+  try {
+    if (registration) {
+      await registration.showNotification(strings.title, options);
+    } else {
+      new Notification(strings.title, options);
+    }
+  } catch (error) {
+    console.warn('[Notifications] Failed to show notification:', error);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Service worker registration and update handling
+ */
+
+type UpdateListener = (waiting: ServiceWorker | null) => void;
+
+let waitingWorker: ServiceWorker | null = null;
+// Set once the user has asked for the new version
+let isUpdating = false;
+const listeners = new Set<UpdateListener>();
+
+function setWaitingWorker(worker: ServiceWorker | null): void {
+  waitingWorker = worker;
+  listeners.forEach((listener) => listener(worker));
+}
+
+/**
+ * Watch a registration for a new version that has finished installing
+ */
+function trackUpdates(registration: ServiceWorkerRegistration): void {
+  // A new version may already be waiting from an earlier visit
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    setWaitingWorker(registration.waiting);
+  }
+
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    if (!installing) return;
+
+    installing.addEventListener('statechange', () => {
+      // Without a controller this is the first install, not an update
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        setWaitingWorker(installing);
+      }
+    });
+  });
+}
+
+/**
+ * Register the service worker (production builds only, since the
+ * precache list is generated at build time)
+ */
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  // Reload once the new version the user asked for has taken over. On a
+  // first visit the worker takes control by itself; reloading then would
+  // lose whatever is being captured or typed
+  let isReloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (isReloading || !isUpdating) return;
+    isReloading = true;
+    window.location.reload();
+  });
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(trackUpdates)
+      .catch((error) => {
+        // Offline support and PWA install just won't be available
+        console.error('[ServiceWorker] Registration failed:', error);
+      });
+  });
+}
+
+/**
+ * Subscribe to "new version available" changes
+ */
+export function subscribeToUpdates(listener: UpdateListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the installed service worker waiting to take over, if any
+ */
+export function getWaitingWorker(): ServiceWorker | null {
+  return waitingWorker;
+}
+
+/**
+ * Activate the waiting version; the page reloads on controllerchange
+ */
+export function applyUpdate(): void {
+  if (!waitingWorker) return;
+  isUpdating = true;
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+}
@@ -0,0 +1,67 @@
+/**
+ * Storage quota and persistence
+ *
+ * Photos, models and color variants are kept in IndexedDB, which the
+ * browser may evict under storage pressure unless the site's storage is
+ * persistent.
+ */
+
+export interface StorageEstimate {
+  /** Bytes used by this site */
+  usage: number;
+  /** Bytes this site may use */
+  quota: number;
+  /** Whether the browser keeps the data under storage pressure */
+  persisted: boolean;
+}
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+// Share of the quota in use at which to warn
+const WARNING_RATIO = 0.8;
+const CRITICAL_RATIO = 0.95;
+
+/**
+ * Whether the browser reports storage use and can persist storage
+ */
+export function isStorageManagerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'storage' in navigator && 'estimate' in navigator.storage;
+}
+
+/**
+ * How much storage is used and available; null where the browser doesn't say
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!isStorageManagerSupported()) return null;
+
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = (await navigator.storage.persisted?.()) ?? false;
+    return { usage, quota, persisted };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask the browser to keep this site's data under storage pressure.
+ * Browsers may grant it silently, prompt, or refuse (often until the app is
+ * installed or used more); resolves to whether storage is persistent now
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!isStorageManagerSupported() || !navigator.storage.persist) return false;
+
+  try {
+    return await navigator.storage.persist();
+  } catch {
+    return false;
+  }
+}
+
+export function getQuotaLevel(estimate: StorageEstimate): QuotaLevel {
+  if (estimate.quota <= 0) return 'ok';
+  const ratio = estimate.usage / estimate.quota;
+  if (ratio >= CRITICAL_RATIO) return 'critical';
+  if (ratio >= WARNING_RATIO) return 'warning';
+  return 'ok';
+}
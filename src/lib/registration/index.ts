@@ -0,0 +1,121 @@
+/**
+ * Registration numbers
+ *
+ * Finds are numbered by a pattern such as "{SITE}-{YEAR}-{SEQ:4}", where
+ * the sequence counts up separately for every value the rest of the
+ * pattern takes (MEG-2025-0001 and MEG-2026-0001 are both first finds).
+ * Numbers are allocated in the database (see allocateRegistrationNumber).
+ *
+ * No two finds share a number. Devices that number finds offline and are
+ * merged later avoid collisions with {DEVICE} in the pattern; otherwise an
+ * imported find whose number is taken here is numbered anew, keeping the
+ * old number in formerRegistrationNumbers, and the import lists it.
+ */
+
+import type { Area, ExcavationContext, Season, Site } from '@/types';
+
+export const DEFAULT_REGISTRATION_PATTERN = '{SITE}-{YEAR}-{SEQ:4}';
+
+export const REGISTRATION_TOKENS = ['SITE', 'YEAR', 'SEASON', 'AREA', 'LOCUS', 'DEVICE', 'SEQ'] as const;
+
+export type RegistrationToken = (typeof REGISTRATION_TOKENS)[number];
+
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+
+// Separators left next to each other, or at an end, by empty tokens
+const SEPARATORS = '[-./_ ]';
+
+const DEVICE_CODE_KEY = 'archaeology-device-code';
+const DEVICE_CODE_LENGTH = 6;
+// No 0/O or 1/I, which read alike on a label
+const DEVICE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface RegistrationValues {
+  site?: Site;
+  area?: Area;
+  season?: Season;
+  context?: ExcavationContext;
+  /** Creation date of the artifact */
+  date: Date;
+}
+
+export type PatternError = 'noSequence' | 'unknownToken';
+
+/**
+ * What's wrong with a pattern, if anything: it needs a sequence to give
+ * every find its own number, and only known tokens
+ */
+export function validatePattern(pattern: string): PatternError | null {
+  const tokens = [...pattern.matchAll(TOKEN_PATTERN)].map((match) => match[1]);
+  if (tokens.some((token) => !(REGISTRATION_TOKENS as readonly string[]).includes(token))) {
+    return 'unknownToken';
+  }
+  return tokens.filter((token) => token === 'SEQ').length === 1 ? null : 'noSequence';
+}
+
+/**
+ * A site's code for numbers: its own code, or the start of its name
+ */
+export function getSiteCode(site: Site): string {
+  if (site.code?.trim()) return site.code.trim();
+  return site.name.replace(/[^\p{L}\p{N}]/gu, '').slice(0, 3).toUpperCase();
+}
+
+/**
+ * A short code for this browser, so devices numbering finds offline with
+ * {DEVICE} in the pattern never give out the same number. Without storage
+ * to keep it in there's no code that stays this device's, so it throws.
+ */
+export function getDeviceCode(): string {
+  let code = localStorage.getItem(DEVICE_CODE_KEY);
+  if (!code) {
+    // 32 symbols: each random byte maps onto one evenly
+    const bytes = crypto.getRandomValues(new Uint8Array(DEVICE_CODE_LENGTH));
+    code = Array.from(bytes, (byte) => DEVICE_CODE_ALPHABET[byte % DEVICE_CODE_ALPHABET.length]).join('');
+    localStorage.setItem(DEVICE_CODE_KEY, code);
+  }
+  return code;
+}
+
+function getTokenValue(token: string, values: RegistrationValues): string {
+  switch (token) {
+    case 'SITE':
+      return values.site ? getSiteCode(values.site) : '';
+    case 'YEAR':
+      return String(values.date.getFullYear());
+    case 'SEASON':
+      return values.season?.name.replace(/\s+/g, '') ?? '';
+    case 'AREA':
+      return values.area?.name.replace(/\s+/g, '') ?? '';
+    case 'LOCUS':
+      return values.context?.number.replace(/\s+/g, '') ?? '';
+    case 'DEVICE':
+      return getDeviceCode();
+    default:
+      return '';
+  }
+}
+
+/**
+ * Fill in the pattern; the sequence is left as "{SEQ}" when none is given.
+ * Tokens without a value are dropped with a separator next to them, so a
+ * find without a site is numbered "2026-0001".
+ */
+export function formatRegistrationNumber(pattern: string, values: RegistrationValues, sequence?: number): string {
+  const filled = pattern.replace(TOKEN_PATTERN, (match, token: string, width?: string) => {
+    if (token !== 'SEQ') return getTokenValue(token, values);
+    if (sequence === undefined) return match;
+    return String(sequence).padStart(width ? Number(width) : 1, '0');
+  });
+  return filled
+    .replace(new RegExp(`(${SEPARATORS})${SEPARATORS}+`, 'g'), '$1')
+    .replace(new RegExp(`^${SEPARATORS}+|${SEPARATORS}+$`, 'g'), '');
+}
+
+/**
+ * The counter a number is drawn from: the pattern filled in except for the
+ * sequence, so it changes with the site, year, locus, ...
+ */
+export function getSequenceKey(pattern: string, values: RegistrationValues): string {
+  return formatRegistrationNumber(pattern, values);
+}
@@ -0,0 +1,337 @@
+/**
+ * Date Range Parsing
+ *
+ * Turns the free-text dating of info cards ("500-300 BCE", "late 2nd century CE",
+ * "c. 1200 BC", "המאה ה-2 לפנה״ס") into numeric years, so cards can be sorted,
+ * filtered and drawn on a timeline.
+ *
+ * Years are historical years: BCE years are negative and there is no year 0,
+ * so 1 BCE is -1 and the year after it is 1 CE.
+ */
+
+import type { DateSpan } from '@/types';
+
+type Era = 'bce' | 'ce' | 'bp';
+type Unit = 'year' | 'decade' | 'hundreds' | 'century' | 'millennium';
+type Qualifier = 'early' | 'mid' | 'late' | 'firsthalf' | 'secondhalf';
+
+interface Term {
+  value: number;
+  unit: Unit | undefined;
+  qualifier?: Qualifier;
+  index: number;
+  end: number;
+}
+
+// Radiocarbon "before present" counts back from 1950
+const BP_REFERENCE_YEAR = 1950;
+
+const ENGLISH_ORDINALS = [
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth',
+  'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth',
+  'eighteenth', 'nineteenth', 'twentieth',
+];
+
+// Masculine (millennium, אלף) and feminine (century, מאה) forms
+const HEBREW_ORDINALS: string[][] = [
+  ['ראשון', 'ראשונה'],
+  ['שני', 'שנייה', 'שניה'],
+  ['שלישי', 'שלישית'],
+  ['רביעי', 'רביעית'],
+  ['חמישי', 'חמישית'],
+  ['שישי', 'שישית', 'ששי', 'ששית'],
+  ['שביעי', 'שביעית'],
+  ['שמיני', 'שמינית'],
+  ['תשיעי', 'תשיעית'],
+  ['עשירי', 'עשירית'],
+];
+
+const TERM_PATTERN =
+  /(?:\b(early|mid|late|firsthalf|secondhalf)\s+(?:the\s+)?)?(\d+)(st|nd|rd|th)?(s)?(?:\s*-?\s*(century|centuries|millennium|millennia|millenium))?/g;
+
+const ERA_PATTERN = /\b(bce|ce|bp)\b/g;
+
+// What may stand between the two ends of a range
+const SEPARATOR_PATTERN = /^\s*(?:-|to|until|till|and|or|\/|עד|ל-?|ו-?|או)?\s*$/;
+
+/**
+ * A Hebrew ordinal ("השנייה", "ה-2") as a number
+ */
+function parseHebrewOrdinal(word: string): number | null {
+  const bare = word.replace(/^ו?ה?[-־]?\s*/, '');
+  if (/^\d+$/.test(bare)) return parseInt(bare, 10);
+  const index = HEBREW_ORDINALS.findIndex((forms) => forms.includes(bare));
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Rewrite the text into one vocabulary: lower case, English era markers and
+ * qualifiers, Hebrew centuries in English word order, and "~" for circa
+ */
+function normalize(text: string): string {
+  let s = ` ${text.toLowerCase()} `
+    .replace(/[״“”]/g, '"')
+    .replace(/[–—−‒]/g, '-')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/(\d)'s\b/g, '$1s');
+
+  // Hebrew era markers
+  s = s
+    .replace(/לפנה"ס|לפני\s+הספירה|לפסה"נ|לפני\s+ספירת\s+הנוצרים/g, ' bce ')
+    .replace(/לספירה|לסה"נ|לספירת\s+הנוצרים|אחרי\s+הספירה|אחה"ס/g, ' ce ');
+
+  // English era markers
+  s = s
+    .replace(/\bb\.\s*c\.(?:\s*e\.?)?/g, ' bce ')
+    .replace(/\bc\.\s*e\.?(?![a-z])/g, ' ce ')
+    .replace(/\ba\.\s*d\.?(?![a-z])/g, ' ce ')
+    .replace(/\bbce?\b/g, ' bce ')
+    .replace(/\bad\b/g, ' ce ')
+    .replace(/\bbefore\s+present\b/g, ' bp ');
+
+  // Qualifiers
+  s = s
+    .replace(/ב?(?:ה?מחצית|חציה)\s+ה?ראשונה(?:\s+של)?\s+/g, ' firsthalf ')
+    .replace(/ב?(?:ה?מחצית|חציה)\s+ה?שניי?ה(?:\s+של)?\s+/g, ' secondhalf ')
+    .replace(/ב?(?:תחילת|ראשית)\s+/g, ' early ')
+    .replace(/ב?אמצע\s+/g, ' mid ')
+    .replace(/ב?(?:סוף|שלהי)\s+/g, ' late ')
+    .replace(/\b(?:first|1st)\s+half\s+of\s+(?:the\s+)?/g, ' firsthalf ')
+    .replace(/\b(?:second|2nd|latter)\s+half\s+of\s+(?:the\s+)?/g, ' secondhalf ')
+    .replace(/\b(?:early|beginning\s+of|start\s+of)(?:\s+the)?[\s-]+/g, ' early ')
+    .replace(/\b(?:mid|middle)(?:\s+of)?(?:\s+the)?[\s-]+/g, ' mid ')
+    .replace(/\b(?:late|end\s+of)(?:\s+the)?[\s-]+/g, ' late ');
+
+  // Hebrew centuries and millennia: "המאות ה-3-2" -> "3th-2th century"
+  s = s.replace(
+    /(ה?מאות|ה?מאה|ה?אלפים|ה?אלף)\s+(ה?[-־]?\s?[א-ת\d]+)(?:\s*(-|עד|ו)\s*(ה?[-־]?\s?[א-ת\d]+))?/g,
+    (match, word: string, first: string, _separator, second: string | undefined) => {
+      const from = parseHebrewOrdinal(first);
+      const to = second ? parseHebrewOrdinal(second) : null;
+      if (from === null || (second && to === null)) return match;
+      const unit = word.includes('מא') ? 'century' : 'millennium';
+      return ` ${from}th${to !== null ? `-${to}th` : ''} ${unit} `;
+    }
+  );
+
+  // English ordinal words and abbreviations
+  s = s
+    .replace(
+      new RegExp(`\\b(${ENGLISH_ORDINALS.join('|')})\\b`, 'g'),
+      (word) => `${ENGLISH_ORDINALS.indexOf(word) + 1}th`
+    )
+    .replace(/(\d+(?:st|nd|rd|th))\s*c\.?(?![a-z])/g, '$1 century')
+    .replace(/\bcent\.?(?![a-z])/g, 'century');
+
+  // Circa
+  s = s
+    .replace(/\b(?:circa|ca\.|c\.|approx\.?|approximately|around|about|roughly)\s*/g, ' ~ ')
+    .replace(/(?:בערך|לערך|בקירוב|בסביבות|סביב)\s*/g, ' ~ ')
+    .replace(/(^|\s)כ-?(?=\d)/g, '$1 ~ ');
+
+  return s;
+}
+
+/**
+ * Years of uncertainty for a circa date, by how round the number is:
+ * "c. 79" is close, "c. 1000" much less so
+ */
+function getCircaUncertainty(value: number): number {
+  let zeros = 0;
+  for (let n = value; n >= 10 && n % 10 === 0; n /= 10) {
+    zeros++;
+  }
+  return [10, 25, 50, 100, 500, 1000][Math.min(zeros, 5)];
+}
+
+/**
+ * The years a term covers, earliest first
+ */
+function getTermSpan(term: Term, era: Era): [number, number] {
+  const { value, unit } = term;
+  let span: [number, number];
+
+  switch (unit) {
+    case 'century':
+    case 'millennium': {
+      const size = unit === 'century' ? 100 : 1000;
+      span = era === 'ce'
+        ? [(value - 1) * size + 1, value * size]
+        : [-value * size, -((value - 1) * size + 1)];
+      break;
+    }
+    case 'decade':
+    case 'hundreds': {
+      const size = unit === 'decade' ? 10 : 100;
+      span = era === 'ce' ? [value, value + size - 1] : [-(value + size - 1), -value];
+      break;
+    }
+    default: {
+      if (era === 'bp') {
+        const year = BP_REFERENCE_YEAR - value;
+        span = [year <= 0 ? year - 1 : year, year <= 0 ? year - 1 : year];
+      } else {
+        span = era === 'ce' ? [value, value] : [-value, -value];
+      }
+    }
+  }
+
+  // Part of a century or millennium
+  const [start, end] = span;
+  const length = end - start + 1;
+  const third = Math.round(length / 3);
+  switch (unit === 'century' || unit === 'millennium' ? term.qualifier : undefined) {
+    case 'early':
+      return [start, start + third - 1];
+    case 'mid':
+      return [start + third, end - third];
+    case 'late':
+      return [end - third + 1, end];
+    case 'firsthalf':
+      return [start, start + length / 2 - 1];
+    case 'secondhalf':
+      return [start + length / 2, end];
+    default:
+      return span;
+  }
+}
+
+/**
+ * Parse a free-text date or date range into years
+ * Returns null when the text has no recognisable date (e.g. "Iron Age II")
+ */
+export function parseDateRange(text: string): DateSpan | null {
+  const s = normalize(text);
+
+  const terms: Term[] = [];
+  for (const match of s.matchAll(TERM_PATTERN)) {
+    const [full, qualifier, digits, ordinalSuffix, plural, unitWord] = match;
+    const value = parseInt(digits, 10);
+    let unit: Unit | undefined;
+    if (unitWord) {
+      unit = unitWord.startsWith('cent') ? 'century' : 'millennium';
+    } else if (plural) {
+      unit = value % 100 === 0 ? 'hundreds' : 'decade';
+    } else if (!ordinalSuffix) {
+      unit = 'year';
+    }
+    const index = match.index + full.indexOf(digits);
+    terms.push({
+      value,
+      unit,
+      qualifier: qualifier as Qualifier | undefined,
+      index,
+      end: match.index + full.length,
+    });
+  }
+
+  const eras = [...s.matchAll(ERA_PATTERN)].map((match) => ({
+    era: match[1] as Era,
+    index: match.index,
+  }));
+
+  // Split into ranges ("500-300 BCE", "2nd to 3rd century")
+  const between = (from: number, to: number) =>
+    s.slice(from, to).replace(ERA_PATTERN, ' ').replace(/~/g, ' ');
+  const ranges: Term[][] = [];
+  for (const term of terms) {
+    const range = ranges[ranges.length - 1];
+    const previous = range?.[range.length - 1];
+    if (previous && SEPARATOR_PATTERN.test(between(previous.end, term.index))) {
+      range.push(term);
+    } else {
+      ranges.push([term]);
+    }
+  }
+
+  const dated: Term[][] = [];
+  for (const range of ranges) {
+    // "2nd-3rd century", "המאות ה-3-2": the first end takes its unit from the second
+    for (let i = range.length - 2; i >= 0; i--) {
+      const next = range[i + 1];
+      if (next.unit !== 'century' && next.unit !== 'millennium') continue;
+      const limit = next.unit === 'century' ? 30 : 10;
+      if (range[i].unit === undefined || (range[i].unit === 'year' && range[i].value <= limit)) {
+        range[i].unit = next.unit;
+      }
+    }
+
+    // An ordinal on its own ("the 2nd phase") isn't a date
+    const terms = range.filter((term) => term.unit !== undefined && term.value > 0);
+    if (terms.length > 0) {
+      dated.push(terms);
+    }
+  }
+  if (dated.length === 0) return null;
+
+  // Prefer the first range that is clearly a date: a century or millennium,
+  // or years followed by an era
+  const group =
+    dated.find((range, i) => {
+      const last = range[range.length - 1];
+      const next = dated[i + 1]?.[0];
+      return (
+        range.some((term) => term.unit !== 'year') ||
+        eras.some((era) => era.index >= last.end && (!next || era.index < next.index))
+      );
+    }) ?? dated[0];
+
+  // Each end takes the era marker after it ("500-300 BCE", "100 BCE - 50 CE"),
+  // or the one before it ("AD 79"); without any, a falling range is BCE
+  const last = group[group.length - 1];
+  const defaultEra: Era =
+    group.length > 1 && group[0].unit === 'year' && last.unit === 'year' && group[0].value > last.value
+      ? 'bce'
+      : 'ce';
+  const getEra = (term: Term): Era =>
+    eras.find((era) => era.index >= term.end)?.era ??
+    [...eras].reverse().find((era) => era.index < term.index)?.era ??
+    defaultEra;
+
+  let start = Infinity;
+  let end = -Infinity;
+  for (const term of group) {
+    const [termStart, termEnd] = getTermSpan(term, getEra(term));
+    start = Math.min(start, termStart);
+    end = Math.max(end, termEnd);
+  }
+
+  const approximate = s.includes('~');
+  return {
+    start,
+    end,
+    uncertainty: approximate ? Math.max(...group.map((term) => getCircaUncertainty(term.value))) : 0,
+  };
+}
+
+/**
+ * A year for display, e.g. "500 BCE" or "79 CE"
+ */
+export function formatYear(
+  year: number,
+  t: (key: string, options?: Record<string, unknown>) => string
+): string {
+  return year < 0
+    ? t('common.dates.yearBce', { year: -year })
+    : t('common.dates.yearCe', { year });
+}
+
+/**
+ * A date span for display, e.g. "500–300 BCE", "c. 1200 BCE" or "100 BCE – 50 CE"
+ */
+export function formatDateSpan(
+  span: DateSpan,
+  t: (key: string, options?: Record<string, unknown>) => string
+): string {
+  let text: string;
+  if (span.start === span.end) {
+    text = formatYear(span.start, t);
+  } else if (span.end < 0) {
+    text = t('common.dates.rangeBce', { start: -span.start, end: -span.end });
+  } else if (span.start > 0) {
+    text = t('common.dates.rangeCe', { start: span.start, end: span.end });
+  } else {
+    text = t('common.dates.range', { start: formatYear(span.start, t), end: formatYear(span.end, t) });
+  }
+  return span.uncertainty > 0 ? t('common.dates.circa', { date: text }) : text;
+}
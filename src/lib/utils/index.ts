@@ -88,6 +88,48 @@ export async function compressImage(
   });
 }
 
+/**
+ * Downscale an image so its longer side is at most maxDimension, as JPEG
+ * Uses OffscreenCanvas, so it also works in the service worker
+ */
+export async function downscaleImage(
+  blob: Blob,
+  maxDimension: number,
+  quality: number = 0.85
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * A byte count for people: "1.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 || value >= 10 ? 0 : 1)} ${units[unit]}`;
+}
+
 /**
  * Convert blob to base64
  */
@@ -111,6 +153,27 @@ export function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
+/**
+ * Convert base64 string to blob
+ */
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  const base64Data = base64.includes(',') ? base64.split(',')[1] : base64;
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * SHA-256 digest of a blob's content, as hex
+ */
+export async function getSha256(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Download a file
  */
@@ -0,0 +1,291 @@
+/**
+ * Controlled vocabularies
+ *
+ * Maps free text (the AI's "Terracotta with red slip", a finder's
+ * "terra cotta") to preferred terms of the thesauri, and suggests terms
+ * while typing. The user's edits to the bundled terms are stored in the
+ * database (see getVocabularyTerms) and merged over these.
+ */
+
+import type {
+  DateSpan,
+  InfoCard,
+  VocabularyMatches,
+  VocabularyName,
+  VocabularyTerm,
+} from '@/types';
+import { formatDateSpan } from '@/lib/utils/dateRange';
+import { BUNDLED_TERMS } from './terms';
+
+export { BUNDLED_TERMS, MATERIAL_TERMS, PERIOD_TERMS, OBJECT_TYPE_TERMS } from './terms';
+
+export const VOCABULARY_NAMES: VocabularyName[] = ['material', 'period', 'objectType'];
+
+// Hebrew prefixes (and, the, in, to, from, that, as) written onto the word
+const HEBREW_PREFIXES = '[ובהלמשכ]{0,2}';
+
+// Only texts of about a word or two are compared letter by letter
+const MIN_FUZZY_LENGTH = 4;
+const MAX_FUZZY_LENGTH = 24;
+
+/**
+ * Text reduced for comparison: lowercase, without accents, niqqud,
+ * apostrophes or punctuation
+ */
+export function normalizeTerm(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f\u0591-\u05c7]/g, '')
+    .toLowerCase()
+    .replace(/['"`\u2019\u05f3\u05f4]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * The bundled terms with the user's edits and additions, in bundled order
+ * with added terms after them
+ */
+export function mergeVocabulary(edits: VocabularyTerm[]): VocabularyTerm[] {
+  const editsById = new Map(edits.map((term) => [term.id, term]));
+  const merged = BUNDLED_TERMS.map((term) => editsById.get(term.id) ?? term);
+  const bundledIds = new Set(BUNDLED_TERMS.map((term) => term.id));
+  return [...merged, ...edits.filter((term) => !bundledIds.has(term.id))];
+}
+
+/**
+ * A term's preferred label in a language, falling back to English
+ */
+export function getTermLabel(term: VocabularyTerm, language: string): string {
+  return (language.startsWith('he') && term.label.he) || term.label.en;
+}
+
+/**
+ * A term as the text of a field: periods come with their years, so the
+ * dating can still be placed on the timeline
+ */
+export function getTermText(
+  term: VocabularyTerm,
+  language: string,
+  t: (key: string, options?: Record<string, unknown>) => string
+): string {
+  const label = getTermLabel(term, language);
+  if (term.start === undefined || term.end === undefined) return label;
+  return `${label} (${formatDateSpan({ start: term.start, end: term.end, uncertainty: 0 }, t)})`;
+}
+
+/**
+ * Every name a term is known by: its labels first, then its synonyms
+ */
+export function getTermNames(term: VocabularyTerm): string[] {
+  return [term.label.en, term.label.he, ...term.synonyms].filter((name): name is string => Boolean(name));
+}
+
+interface TermPattern {
+  term: VocabularyTerm;
+  name: string;
+  pattern: RegExp;
+}
+
+const patternCache = new WeakMap<VocabularyTerm[], TermPattern[]>();
+
+/**
+ * Whole-phrase patterns for every name of the terms; Hebrew names may carry
+ * a prefix
+ */
+function getPatterns(terms: VocabularyTerm[]): TermPattern[] {
+  let patterns = patternCache.get(terms);
+  if (!patterns) {
+    patterns = [];
+    for (const term of terms) {
+      if (term.hidden) continue;
+      for (const name of new Set(getTermNames(term).map(normalizeTerm))) {
+        if (!name) continue;
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const prefix = /^[א-ת]/.test(name) ? HEBREW_PREFIXES : '';
+        patterns.push({ term, name, pattern: new RegExp(`(?<= )${prefix}${escaped}(?= )`) });
+      }
+    }
+    patternCache.set(terms, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Levenshtein distance, for misspellings of short values
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The preferred term a text refers to
+ *
+ * The first term named in the text wins, the longest name on a tie, so
+ * "Bronze with iron rivets" is bronze and "Iron Age I" isn't Iron Age II.
+ * A narrower term beats a broader one named alongside it ("stone, probably
+ * limestone" is limestone). Short texts that name no term are compared
+ * with every name to catch misspellings.
+ */
+export function findTerm(
+  terms: VocabularyTerm[],
+  vocabulary: VocabularyName,
+  text: string
+): VocabularyTerm | undefined {
+  const normalized = normalizeTerm(text);
+  if (!normalized) return undefined;
+
+  const padded = ` ${normalized} `;
+  const found: { term: VocabularyTerm; index: number; length: number }[] = [];
+  for (const { term, name, pattern } of getPatterns(terms)) {
+    if (term.vocabulary !== vocabulary) continue;
+    const match = pattern.exec(padded);
+    if (match) {
+      found.push({ term, index: match.index, length: name.length });
+    }
+  }
+
+  if (found.length > 0) {
+    const broader = new Set(found.map(({ term }) => term.broader));
+    const [best] = found
+      .filter(({ term }) => !broader.has(term.id))
+      .sort((a, b) => a.index - b.index || b.length - a.length);
+    return best?.term;
+  }
+
+  if (normalized.length < MIN_FUZZY_LENGTH || normalized.length > MAX_FUZZY_LENGTH) return undefined;
+
+  let closest: { term: VocabularyTerm; distance: number } | undefined;
+  for (const { term, name } of getPatterns(terms)) {
+    if (term.vocabulary !== vocabulary) continue;
+    const allowed = name.length <= 5 ? 1 : 2;
+    const distance = editDistance(normalized, name);
+    if (distance <= allowed && (!closest || distance < closest.distance)) {
+      closest = { term, distance };
+    }
+  }
+  return closest?.term;
+}
+
+/**
+ * The period a dating refers to: a period it names or, for a dating in
+ * years, the period covering most of it
+ */
+export function findPeriod(
+  terms: VocabularyTerm[],
+  text: string,
+  span?: DateSpan
+): VocabularyTerm | undefined {
+  const named = findTerm(terms, 'period', text);
+  if (named || !span) return named;
+
+  const length = span.end - span.start + 1;
+  let best: { term: VocabularyTerm; share: number; duration: number } | undefined;
+  for (const term of terms) {
+    if (term.vocabulary !== 'period' || term.hidden || term.start === undefined || term.end === undefined) {
+      continue;
+    }
+    const overlap = Math.min(span.end, term.end) - Math.max(span.start, term.start) + 1;
+    if (overlap <= 0) continue;
+    const share = overlap / length;
+    const duration = term.end - term.start;
+    // The shorter period on a tie, as the more precise one
+    if (!best || share > best.share || (share === best.share && duration < best.duration)) {
+      best = { term, share, duration };
+    }
+  }
+  return best?.term;
+}
+
+/**
+ * Map an info card's AI text to preferred terms, keeping the text that was
+ * mapped; a translation is tried when the card's own text names no term
+ */
+export function mapInfoCardTerms(card: InfoCard, terms: VocabularyTerm[]): VocabularyMatches {
+  const versions = [card, ...Object.values(card.translations || {}).filter((version) => version !== undefined)];
+  const matches: VocabularyMatches = {};
+
+  const match = (vocabulary: VocabularyName, getText: (version: (typeof versions)[number]) => string) => {
+    for (const version of versions) {
+      const raw = getText(version);
+      const term = findTerm(terms, vocabulary, raw);
+      if (term) {
+        matches[vocabulary] = { termId: term.id, raw };
+        return;
+      }
+    }
+  };
+
+  match('material', (version) => version.material);
+  match('period', (version) => version.estimatedAge.range);
+  match('objectType', (version) => version.possibleUse);
+
+  // A dating in years that names no period in any language
+  if (!matches.period && card.dateSpan) {
+    const term = findPeriod(terms, '', card.dateSpan);
+    if (term) {
+      matches.period = { termId: term.id, raw: card.estimatedAge.range };
+    }
+  }
+  return matches;
+}
+
+export interface TermSuggestion {
+  term: VocabularyTerm;
+  /** The synonym the query matched, when it wasn't a label */
+  synonym?: string;
+}
+
+/**
+ * Terms of a vocabulary for a partly typed value, best first: labels that
+ * start with it, then synonyms that do, then names with a word that does.
+ * An empty query lists the vocabulary in order.
+ */
+export function searchTerms(
+  terms: VocabularyTerm[],
+  vocabulary: VocabularyName,
+  query: string,
+  limit = 8
+): TermSuggestion[] {
+  const active = terms.filter((term) => term.vocabulary === vocabulary && !term.hidden);
+  const normalized = normalizeTerm(query);
+  if (!normalized) {
+    return active.slice(0, limit).map((term) => ({ term }));
+  }
+
+  const ranked: (TermSuggestion & { rank: number })[] = [];
+  for (const term of active) {
+    const labels = [term.label.en, term.label.he].filter((label): label is string => Boolean(label));
+    let best: (TermSuggestion & { rank: number }) | undefined;
+    for (const name of [...labels, ...term.synonyms]) {
+      const isLabel = labels.includes(name);
+      const candidate = normalizeTerm(name);
+      const rank = candidate.startsWith(normalized)
+        ? (isLabel ? 0 : 1)
+        : candidate.split(' ').some((word) => word.startsWith(normalized))
+          ? 2
+          : -1;
+      if (rank >= 0 && (!best || rank < best.rank)) {
+        best = { term, synonym: isLabel ? undefined : name, rank };
+      }
+    }
+    if (best) ranked.push(best);
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ term, synonym }) => ({ term, synonym }));
+}
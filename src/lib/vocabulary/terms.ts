@@ -0,0 +1,487 @@
+/**
+ * Bundled thesauri
+ *
+ * Preferred terms with English and Hebrew labels and the synonyms they are
+ * found under. Periods follow the PeriodO model of a named span of years in
+ * a region, with the conventional dates for the Southern Levant.
+ */
+
+import type { VocabularyName, VocabularyTerm } from '@/types';
+
+type TermDefinition = Omit<VocabularyTerm, 'id' | 'vocabulary' | 'label' | 'broader'> & {
+  en: string;
+  he: string;
+  broader?: string;
+};
+
+function defineTerms(
+  vocabulary: VocabularyName,
+  definitions: Record<string, TermDefinition>
+): VocabularyTerm[] {
+  return Object.entries(definitions).map(([slug, { en, he, broader, ...rest }]) => ({
+    id: `${vocabulary}:${slug}`,
+    vocabulary,
+    label: { en, he },
+    ...rest,
+    broader: broader && `${vocabulary}:${broader}`,
+  }));
+}
+
+export const MATERIAL_TERMS = defineTerms('material', {
+  'fired-clay': {
+    en: 'Fired clay',
+    he: 'חרס',
+    synonyms: ['clay', 'terracotta', 'terra cotta', 'terra-cotta', 'ceramic', 'ceramics', 'pottery', 'earthenware', 'baked clay', 'טרקוטה', 'קרמיקה', 'חרסית שרופה', 'כלי חרס'],
+  },
+  'unfired-clay': {
+    en: 'Unfired clay',
+    he: 'חומר לא שרוף',
+    synonyms: ['sun-dried clay', 'raw clay', 'mud', 'mud brick', 'mudbrick', 'חרסית', 'טין', 'לבני בוץ'],
+  },
+  stone: {
+    en: 'Stone',
+    he: 'אבן',
+    synonyms: ['rock'],
+  },
+  limestone: {
+    en: 'Limestone',
+    he: 'אבן גיר',
+    broader: 'stone',
+    synonyms: ['גיר'],
+  },
+  chalk: {
+    en: 'Chalk',
+    he: 'קירטון',
+    broader: 'stone',
+    synonyms: [],
+  },
+  basalt: {
+    en: 'Basalt',
+    he: 'בזלת',
+    broader: 'stone',
+    synonyms: [],
+  },
+  flint: {
+    en: 'Flint',
+    he: 'צור',
+    broader: 'stone',
+    synonyms: ['chert', 'silex', 'צורן'],
+  },
+  obsidian: {
+    en: 'Obsidian',
+    he: 'אובסידיאן',
+    broader: 'stone',
+    synonyms: ['volcanic glass'],
+  },
+  marble: {
+    en: 'Marble',
+    he: 'שיש',
+    broader: 'stone',
+    synonyms: [],
+  },
+  sandstone: {
+    en: 'Sandstone',
+    he: 'אבן חול',
+    broader: 'stone',
+    synonyms: ['kurkar', 'כורכר'],
+  },
+  alabaster: {
+    en: 'Alabaster',
+    he: 'בהט',
+    broader: 'stone',
+    synonyms: ['calcite', 'gypsum', 'אלבסטר', 'גבס'],
+  },
+  metal: {
+    en: 'Metal',
+    he: 'מתכת',
+    synonyms: [],
+  },
+  copper: {
+    en: 'Copper',
+    he: 'נחושת',
+    broader: 'metal',
+    synonyms: ['copper alloy'],
+  },
+  bronze: {
+    en: 'Bronze',
+    he: 'ארד',
+    broader: 'metal',
+    synonyms: ['brass', 'פליז', 'ברונזה'],
+  },
+  iron: {
+    en: 'Iron',
+    he: 'ברזל',
+    broader: 'metal',
+    synonyms: ['wrought iron', 'cast iron', 'steel', 'פלדה'],
+  },
+  lead: {
+    en: 'Lead',
+    he: 'עופרת',
+    broader: 'metal',
+    synonyms: [],
+  },
+  silver: {
+    en: 'Silver',
+    he: 'כסף',
+    broader: 'metal',
+    synonyms: [],
+  },
+  gold: {
+    en: 'Gold',
+    he: 'זהב',
+    broader: 'metal',
+    synonyms: ['gilt', 'gilded', 'gold leaf', 'מוזהב'],
+  },
+  glass: {
+    en: 'Glass',
+    he: 'זכוכית',
+    synonyms: [],
+  },
+  faience: {
+    en: 'Faience',
+    he: 'פאיאנס',
+    synonyms: ['frit', 'egyptian faience', 'glazed composition'],
+  },
+  bone: {
+    en: 'Bone',
+    he: 'עצם',
+    synonyms: ['antler', 'horn', 'קרן'],
+  },
+  ivory: {
+    en: 'Ivory',
+    he: 'שנהב',
+    synonyms: ['tusk'],
+  },
+  shell: {
+    en: 'Shell',
+    he: 'צדף',
+    synonyms: ['seashell', 'mollusc shell', 'mother of pearl', 'קונכייה', 'קונכיה', 'צדפה'],
+  },
+  wood: {
+    en: 'Wood',
+    he: 'עץ',
+    synonyms: ['timber', 'charcoal', 'פחם'],
+  },
+  textile: {
+    en: 'Textile',
+    he: 'אריג',
+    synonyms: ['cloth', 'fabric', 'linen', 'wool', 'פשתן', 'צמר', 'בד'],
+  },
+  leather: {
+    en: 'Leather',
+    he: 'עור',
+    synonyms: ['hide', 'skin', 'parchment', 'קלף'],
+  },
+  plaster: {
+    en: 'Plaster',
+    he: 'טיח',
+    synonyms: ['lime plaster', 'mortar', 'stucco', 'סיד'],
+  },
+});
+
+export const PERIOD_TERMS = defineTerms('period', {
+  natufian: {
+    en: 'Natufian',
+    he: 'התקופה הנאטופית',
+    synonyms: ['epipaleolithic', 'epipalaeolithic', 'נאטופי', 'נאטופית', 'אפיפליאוליתית'],
+    start: -12500,
+    end: -9500,
+    region: 'Southern Levant',
+  },
+  'pre-pottery-neolithic': {
+    en: 'Pre-Pottery Neolithic',
+    he: 'התקופה הנאוליתית הקדם-קרמית',
+    synonyms: ['pre pottery neolithic', 'ppn', 'ppna', 'ppnb', 'נאוליתית קדם קרמית'],
+    start: -9500,
+    end: -6400,
+    region: 'Southern Levant',
+  },
+  'pottery-neolithic': {
+    en: 'Pottery Neolithic',
+    he: 'התקופה הנאוליתית הקרמית',
+    synonyms: ['neolithic', 'late neolithic', 'נאוליתית', 'נאוליתית קרמית'],
+    start: -6400,
+    end: -4500,
+    region: 'Southern Levant',
+  },
+  chalcolithic: {
+    en: 'Chalcolithic',
+    he: 'התקופה הכלקוליתית',
+    synonyms: ['copper age', 'eneolithic', 'ghassulian', 'כלקוליתית', 'תקופת הנחושת'],
+    start: -4500,
+    end: -3600,
+    region: 'Southern Levant',
+  },
+  'early-bronze': {
+    en: 'Early Bronze Age',
+    he: 'תקופת הברונזה הקדומה',
+    synonyms: ['early bronze', 'eb', 'eba', 'eb i', 'eb ii', 'eb iii', 'ברונזה קדומה'],
+    start: -3600,
+    end: -2500,
+    region: 'Southern Levant',
+  },
+  'intermediate-bronze': {
+    en: 'Intermediate Bronze Age',
+    he: 'תקופת הברונזה הביניימית',
+    synonyms: ['intermediate bronze', 'eb iv', 'mb i', 'early bronze iv', 'ברונזה ביניימית'],
+    start: -2500,
+    end: -2000,
+    region: 'Southern Levant',
+  },
+  'middle-bronze': {
+    en: 'Middle Bronze Age',
+    he: 'תקופת הברונזה התיכונה',
+    synonyms: ['middle bronze', 'mb', 'mba', 'mb ii', 'canaanite', 'ברונזה תיכונה', 'כנעני', 'כנענית'],
+    start: -2000,
+    end: -1550,
+    region: 'Southern Levant',
+  },
+  'late-bronze': {
+    en: 'Late Bronze Age',
+    he: 'תקופת הברונזה המאוחרת',
+    synonyms: ['late bronze', 'lb', 'lba', 'ברונזה מאוחרת'],
+    start: -1550,
+    end: -1200,
+    region: 'Southern Levant',
+  },
+  'iron-1': {
+    en: 'Iron Age I',
+    he: "תקופת הברזל א'",
+    synonyms: ['iron i', 'iron 1', 'iron age 1', 'early iron age', 'philistine', "ברזל א'", 'ברזל א', 'פלשתי', 'פלשתית'],
+    start: -1200,
+    end: -1000,
+    region: 'Southern Levant',
+  },
+  'iron-2': {
+    en: 'Iron Age II',
+    he: "תקופת הברזל ב'",
+    synonyms: ['iron ii', 'iron 2', 'iron age 2', 'iron age', 'israelite', 'first temple', "ברזל ב'", 'ברזל ב', 'תקופת הברזל', 'ישראלית', 'בית ראשון'],
+    start: -1000,
+    end: -586,
+    region: 'Southern Levant',
+  },
+  persian: {
+    en: 'Babylonian and Persian',
+    he: 'התקופה הבבלית והפרסית',
+    synonyms: ['persian', 'babylonian', 'achaemenid', 'פרסית', 'בבלית', 'שיבת ציון'],
+    start: -586,
+    end: -332,
+    region: 'Southern Levant',
+  },
+  hellenistic: {
+    en: 'Hellenistic',
+    he: 'התקופה ההלניסטית',
+    synonyms: ['ptolemaic', 'seleucid', 'hasmonean', 'helenistic', 'הלניסטית', 'חשמונאית', 'חשמונאי'],
+    start: -332,
+    end: -63,
+    region: 'Southern Levant',
+  },
+  roman: {
+    en: 'Roman',
+    he: 'התקופה הרומית',
+    synonyms: ['early roman', 'late roman', 'herodian', 'second temple', 'mishnah and talmud', 'רומית', 'רומי', 'הרודיאנית', 'בית שני'],
+    start: -63,
+    end: 324,
+    region: 'Southern Levant',
+  },
+  byzantine: {
+    en: 'Byzantine',
+    he: 'התקופה הביזנטית',
+    synonyms: ['late antique', 'late antiquity', 'ביזנטית', 'ביזנטי'],
+    start: 324,
+    end: 638,
+    region: 'Southern Levant',
+  },
+  'early-islamic': {
+    en: 'Early Islamic',
+    he: 'התקופה המוסלמית הקדומה',
+    synonyms: ['umayyad', 'abbasid', 'fatimid', 'אומיית', 'עבאסית', 'פאטמית', 'מוסלמית קדומה'],
+    start: 638,
+    end: 1099,
+    region: 'Southern Levant',
+  },
+  crusader: {
+    en: 'Crusader and Ayyubid',
+    he: 'התקופה הצלבנית והאיובית',
+    synonyms: ['crusader', 'ayyubid', 'medieval', 'צלבנית', 'צלבני', 'איובית'],
+    start: 1099,
+    end: 1291,
+    region: 'Southern Levant',
+  },
+  mamluk: {
+    en: 'Mamluk',
+    he: 'התקופה הממלוכית',
+    synonyms: ['mameluke', 'ממלוכית', 'ממלוכי'],
+    start: 1260,
+    end: 1516,
+    region: 'Southern Levant',
+  },
+  ottoman: {
+    en: 'Ottoman',
+    he: "התקופה העות'מאנית",
+    synonyms: ['turkish', "עות'מאנית", 'עותמאנית', "עות'מאני"],
+    start: 1516,
+    end: 1917,
+    region: 'Southern Levant',
+  },
+  modern: {
+    en: 'Modern',
+    he: 'התקופה המודרנית',
+    synonyms: ['british mandate', 'mandate', 'contemporary', '20th century', 'המנדט הבריטי', 'מודרנית'],
+    start: 1917,
+    end: 2020,
+    region: 'Southern Levant',
+  },
+});
+
+export const OBJECT_TYPE_TERMS = defineTerms('objectType', {
+  vessel: {
+    en: 'Vessel',
+    he: 'כלי',
+    synonyms: ['container', 'pot', 'receptacle', 'כלי קיבול'],
+  },
+  'storage-jar': {
+    en: 'Storage jar',
+    he: 'קנקן',
+    broader: 'vessel',
+    synonyms: ['jar', 'pithos', 'amphora', 'amphoriskos', 'אמפורה', 'פיתוס'],
+  },
+  'cooking-pot': {
+    en: 'Cooking pot',
+    he: 'סיר בישול',
+    broader: 'vessel',
+    synonyms: ['cooking vessel', 'casserole', 'סיר'],
+  },
+  bowl: {
+    en: 'Bowl',
+    he: 'קערה',
+    broader: 'vessel',
+    synonyms: ['dish', 'plate', 'krater', 'chalice', 'צלחת', 'קובעת', 'אגן'],
+  },
+  jug: {
+    en: 'Jug',
+    he: 'פך',
+    broader: 'vessel',
+    synonyms: ['juglet', 'pitcher', 'flask', 'pilgrim flask', 'cup', 'goblet', 'קנקנון', 'כד', 'כוס', 'מימייה'],
+  },
+  lamp: {
+    en: 'Oil lamp',
+    he: 'נר',
+    synonyms: ['lamp', 'oil lamp', 'lighting', 'נר שמן', 'מנורה'],
+  },
+  figurine: {
+    en: 'Figurine',
+    he: 'צלמית',
+    synonyms: ['statuette', 'idol', 'votive figure', 'pillar figurine', 'פסלון', 'צלמיות'],
+  },
+  coin: {
+    en: 'Coin',
+    he: 'מטבע',
+    synonyms: ['currency', 'money', 'token'],
+  },
+  seal: {
+    en: 'Seal',
+    he: 'חותם',
+    synonyms: ['scarab', 'scaraboid', 'cylinder seal', 'stamp seal', 'seal impression', 'bulla', 'sealing', 'חרפושית', 'בולה', 'טביעת חותם'],
+  },
+  jewelry: {
+    en: 'Jewelry',
+    he: 'תכשיט',
+    synonyms: ['jewellery', 'ornament', 'adornment', 'personal ornament', 'ring', 'earring', 'bracelet', 'pendant', 'amulet', 'necklace', 'טבעת', 'עגיל', 'צמיד', 'תליון', 'קמע', 'ענק'],
+  },
+  bead: {
+    en: 'Bead',
+    he: 'חרוז',
+    broader: 'jewelry',
+    synonyms: ['beads', 'חרוזים'],
+  },
+  weapon: {
+    en: 'Weapon',
+    he: 'כלי נשק',
+    synonyms: ['weaponry', 'נשק'],
+  },
+  arrowhead: {
+    en: 'Arrowhead',
+    he: 'ראש חץ',
+    broader: 'weapon',
+    synonyms: ['arrow head', 'projectile point', 'חץ'],
+  },
+  spearhead: {
+    en: 'Spearhead',
+    he: 'ראש חנית',
+    broader: 'weapon',
+    synonyms: ['spear head', 'javelin', 'lance', 'חנית', 'רומח'],
+  },
+  'sling-stone': {
+    en: 'Sling stone',
+    he: 'אבן קלע',
+    broader: 'weapon',
+    synonyms: ['slingstone', 'sling bullet', 'קלע'],
+  },
+  tool: {
+    en: 'Tool',
+    he: 'כלי עבודה',
+    synonyms: ['implement', 'utensil', 'instrument'],
+  },
+  blade: {
+    en: 'Blade',
+    he: 'להב',
+    broader: 'tool',
+    synonyms: ['knife', 'sickle blade', 'sickle', 'scraper', 'flake', 'סכין', 'מגל', 'מגרד'],
+  },
+  'grinding-stone': {
+    en: 'Grinding stone',
+    he: 'אבן שחיקה',
+    broader: 'tool',
+    synonyms: ['quern', 'millstone', 'grinder', 'mortar', 'pestle', 'ריחיים', 'מכתש', 'עלי', 'אבן ריחיים'],
+  },
+  'spindle-whorl': {
+    en: 'Spindle whorl',
+    he: 'פלך',
+    broader: 'tool',
+    synonyms: ['whorl', 'spinning', 'משקולת פלך'],
+  },
+  'loom-weight': {
+    en: 'Loom weight',
+    he: 'משקולת נול',
+    broader: 'tool',
+    synonyms: ['weaving', 'loomweight', 'אריגה'],
+  },
+  needle: {
+    en: 'Needle or pin',
+    he: 'מחט או סיכה',
+    broader: 'tool',
+    synonyms: ['needle', 'pin', 'awl', 'fibula', 'מחט', 'סיכה', 'מרצע'],
+  },
+  weight: {
+    en: 'Weight',
+    he: 'משקולת',
+    synonyms: ['scale weight', 'balance weight', 'shekel weight', 'משקל'],
+  },
+  inscription: {
+    en: 'Inscription',
+    he: 'כתובת',
+    synonyms: ['ostracon', 'ostraca', 'inscribed', 'tablet', 'אוסטרקון', 'חרס כתוב', 'לוח'],
+  },
+  'game-piece': {
+    en: 'Game piece',
+    he: 'כלי משחק',
+    synonyms: ['gaming piece', 'counter', 'dice', 'toy', 'knucklebone', 'astragalus', 'קובייה', 'צעצוע', 'אסטרגל'],
+  },
+  architectural: {
+    en: 'Architectural element',
+    he: 'פריט אדריכלי',
+    synonyms: ['building material', 'column', 'capital', 'roof tile', 'tile', 'tessera', 'mosaic', 'brick', 'עמוד', 'כותרת', 'רעף', 'פסיפס', 'אבן פסיפס'],
+  },
+  cultic: {
+    en: 'Cultic object',
+    he: 'חפץ פולחני',
+    synonyms: ['ritual', 'religious', 'votive', 'offering', 'incense', 'altar', 'cult stand', 'פולחן', 'פולחני', 'מזבח', 'קטורת', 'מנחה'],
+  },
+});
+
+export const BUNDLED_TERMS: VocabularyTerm[] = [
+  ...MATERIAL_TERMS,
+  ...PERIOD_TERMS,
+  ...OBJECT_TYPE_TERMS,
+];
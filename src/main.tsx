@@ -2,13 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/pwa/serviceWorker'
 
-// Register minimal service worker for PWA installation
-if ('serviceWorker' in navigator) {
-  navigator.serviceWorker.register('/sw.js').catch(() => {
-    // Silent fail - PWA install just won't be available
-  });
-}
+// Register the service worker for offline support and PWA installation
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
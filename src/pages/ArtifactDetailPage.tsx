@@ -1,17 +1,22 @@
 import { useParams, Link, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Box, Image, FileText, Palette, Download, Share2, Plus, ImageOff } from 'lucide-react';
+import { ArrowLeft, Box, Image, FileText, Palette, Download, Share2, Plus, ImageOff, History, ClipboardCheck } from 'lucide-react';
 import { useState, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
-import { useArtifactData, useReconstruct3D, useColorize } from '@/hooks';
-import { ReconstructionCard } from '@/components/reconstruction';
+import { useArtifactData, useReconstruct3D, useColorize, useArtifactLocation } from '@/hooks';
+import { getLocationMetadata } from '@/lib/excavation';
+import { ReconstructionCard, ModelGenerationDetails } from '@/components/reconstruction';
 import { ModelViewer } from '@/components/viewer';
 import { LoadingSpinner } from '@/components/ui';
+import { ArtifactContextPanel } from '@/components/excavation';
 import {
   InfoCardDisplay,
   InfoCardEditor,
   InfoCardExport,
   InfoCardGeneration,
+  InfoCardRefine,
+  InfoCardHistory,
+  InfoCardReviewPanel,
 } from '@/components/info-card';
 import {
   ColorizationCard,
@@ -23,6 +28,7 @@ import type { ReconstructionMethod } from '@/components/reconstruction';
 import type { ReconstructionStatus } from '@/components/reconstruction/ReconstructionProgress';
 import type { InfoCard, ColorVariant, ColorScheme, ArtifactImage } from '@/types';
 import { deleteColorVariant } from '@/lib/db';
+import { useAppStore } from '@/stores';
 
 type Tab = '3d' | 'photos' | 'info' | 'colors';
 
@@ -89,6 +95,9 @@ export function ArtifactDetailPage() {
           <h2 className="font-heading font-semibold text-charcoal truncate">
             {artifactName}
           </h2>
+          {artifact.registrationNumber && (
+            <span dir="ltr" className="text-sm font-mono text-stone-gray truncate">{artifact.registrationNumber}</span>
+          )}
         </div>
 
         {/* Tab Navigation */}
@@ -134,13 +143,16 @@ export function ArtifactDetailPage() {
         )}
         {activeTab === 'photos' && <PhotosTab images={images} />}
         {activeTab === 'info' && (
-          <InfoTab
-            artifactId={artifact.id}
-            artifact={artifact}
-            images={images}
-            infoCard={data.infoCard}
-            onRefetch={refetch}
-          />
+          <div className="space-y-4">
+            <ArtifactContextPanel artifact={artifact} onChange={refetch} />
+            <InfoTab
+              artifactId={artifact.id}
+              artifact={artifact}
+              images={images}
+              infoCard={data.infoCard}
+              onRefetch={refetch}
+            />
+          </div>
         )}
         {activeTab === 'colors' && (
           <ColorsTab
@@ -219,6 +231,7 @@ function Model3DTab({
     cancel,
     state,
     progress,
+    job,
     error,
     reset,
   } = useReconstruct3D({
@@ -245,9 +258,7 @@ function Model3DTab({
   const handleStart = useCallback(async () => {
     if (images.length === 0) return;
 
-    // Get image blobs
-    const imageBlobs = images.map((img) => img.blob);
-    await startReconstruction(imageBlobs, selectedMethod === 'single' ? 'single' : 'multi');
+    await startReconstruction(images, selectedMethod === 'single' ? 'single' : 'multi');
   }, [images, selectedMethod, startReconstruction]);
 
   // Handle view result - scroll to model viewer
@@ -285,7 +296,11 @@ function Model3DTab({
             <div>
               <p className="text-stone-gray">{t('components.modelViewer.source')}</p>
               <p className="text-charcoal font-medium">
-                {model.source === '3d-single' ? t('components.modelViewer.singleImage') : t('components.modelViewer.multiImage')}
+                {model.source === '3d-single'
+                  ? t('components.modelViewer.singleImage')
+                  : model.sourceImageIds
+                    ? t('components.modelViewer.multiImageViews', { count: model.sourceImageIds.length })
+                    : t('components.modelViewer.multiImage')}
               </p>
             </div>
             <div>
@@ -304,6 +319,13 @@ function Model3DTab({
             </div>
           </div>
 
+          {model.generation && (
+            <ModelGenerationDetails
+              generation={model.generation}
+              className="pt-3 border-t border-desert-sand"
+            />
+          )}
+
           {/* Download Button */}
           <button
             onClick={() => {
@@ -341,6 +363,7 @@ function Model3DTab({
       status={uiStatus}
       progress={progress}
       statusMessage={getStatusMessage(state, progress, t)}
+      job={job}
       errorMessage={error?.message}
       selectedMethod={selectedMethod}
       onMethodChange={setSelectedMethod}
@@ -429,10 +452,18 @@ interface InfoTabProps {
 
 function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabProps) {
   const { t } = useTranslation();
-  const [mode, setMode] = useState<'view' | 'edit' | 'generate'>('view');
+  const [mode, setMode] = useState<'view' | 'edit' | 'generate' | 'history' | 'review'>('view');
   const [showExport, setShowExport] = useState(false);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
   const [currentInfoCard, setCurrentInfoCard] = useState<InfoCard | null>(infoCard);
 
+  // The find spot is sent to the AI by name
+  const location = useArtifactLocation(artifact);
+  const metadata = useMemo(
+    () => getLocationMetadata(artifact?.metadata, location, t),
+    [artifact, location, t]
+  );
+
   // Update current info card when prop changes
   useMemo(() => {
     if (infoCard) {
@@ -454,13 +485,41 @@ function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabP
     onRefetch();
   }, [onRefetch]);
 
+  const handleRefineUpdate = useCallback((updatedCard: InfoCard) => {
+    setCurrentInfoCard(updatedCard);
+    onRefetch();
+  }, [onRefetch]);
+
+  const handleRestore = useCallback((restoredCard: InfoCard) => {
+    setCurrentInfoCard(restoredCard);
+    onRefetch();
+  }, [onRefetch]);
+
+  const handleReviewSave = useCallback((reviewedCard: InfoCard) => {
+    setCurrentInfoCard(reviewedCard);
+    setMode('view');
+    onRefetch();
+  }, [onRefetch]);
+
+  // A new card replaces the archaeologist's edits, so ask first
+  const handleRegenerateAll = useCallback(() => {
+    if (currentInfoCard?.isHumanEdited && !confirmRegenerate) {
+      setConfirmRegenerate(true);
+      return;
+    }
+    setConfirmRegenerate(false);
+    setMode('generate');
+  }, [currentInfoCard, confirmRegenerate]);
+
   // No info card yet - show generation UI
   if (!currentInfoCard || mode === 'generate') {
     return (
       <InfoCardGeneration
+        // Start over with the find spot once it's loaded
+        key={[location.site?.id, location.area?.id, location.context?.id].join()}
         artifactId={artifactId}
         images={images}
-        initialMetadata={artifact?.metadata}
+        initialMetadata={metadata}
         onComplete={handleGenerationComplete}
         onCancel={currentInfoCard ? () => setMode('view') : undefined}
       />
@@ -478,6 +537,28 @@ function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabP
     );
   }
 
+  if (mode === 'history') {
+    return (
+      <InfoCardHistory
+        artifactId={artifactId}
+        infoCard={currentInfoCard}
+        onRestore={handleRestore}
+        onClose={() => setMode('view')}
+      />
+    );
+  }
+
+  if (mode === 'review') {
+    return (
+      <InfoCardReviewPanel
+        key={currentInfoCard.id}
+        infoCard={currentInfoCard}
+        onSave={handleReviewSave}
+        onClose={() => setMode('view')}
+      />
+    );
+  }
+
   // View mode
   return (
     <div className="space-y-4">
@@ -491,13 +572,47 @@ function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabP
           {t('pages.artifact.export')}
         </button>
         <button
-          onClick={() => setMode('generate')}
+          onClick={() => setMode('history')}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+        >
+          <History className="h-3.5 w-3.5" />
+          {t('pages.artifact.history')}
+        </button>
+        <button
+          onClick={() => setMode('review')}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+        >
+          <ClipboardCheck className="h-3.5 w-3.5" />
+          {t('pages.artifact.review')}
+        </button>
+        <button
+          onClick={handleRegenerateAll}
           className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
         >
           {t('pages.artifact.regenerate')}
         </button>
       </div>
 
+      {confirmRegenerate && (
+        <div className="rounded-lg bg-gold-ochre/10 border border-gold-ochre/30 p-3 space-y-3">
+          <p className="text-sm text-charcoal">{t('pages.artifact.confirmRegenerateEdited')}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setConfirmRegenerate(false)}
+              className="flex-1 py-2 px-3 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal hover:bg-aged-paper transition-colors"
+            >
+              {t('common.buttons.cancel')}
+            </button>
+            <button
+              onClick={handleRegenerateAll}
+              className="flex-1 py-2 px-3 rounded-lg bg-gold-ochre text-charcoal text-sm font-medium hover:bg-gold-ochre/90 transition-colors"
+            >
+              {t('pages.artifact.regenerateAnyway')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Info card display */}
       <InfoCardDisplay
         infoCard={currentInfoCard}
@@ -505,6 +620,14 @@ function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabP
         showEditButton
       />
 
+      <InfoCardRefine
+        key={currentInfoCard.id}
+        infoCard={currentInfoCard}
+        images={images}
+        metadata={metadata}
+        onUpdate={handleRefineUpdate}
+      />
+
       {/* Export modal */}
       {showExport && artifact && (
         <InfoCardExport
@@ -529,6 +652,7 @@ interface ColorsTabProps {
 
 function ColorsTab({ artifactId, colorVariants, images, onRefetch }: ColorsTabProps) {
   const { t } = useTranslation();
+  const setLastDeleted = useAppStore((s) => s.setLastDeleted);
   // State management
   const [mode, setMode] = useState<ColorsTabMode>(colorVariants.length > 0 ? 'gallery' : 'generate');
   const [selectedVariant, setSelectedVariant] = useState<ColorVariant | null>(null);
@@ -580,7 +704,7 @@ function ColorsTab({ artifactId, colorVariants, images, onRefetch }: ColorsTabPr
     if (!sourceImage) return;
     setErrorMessage(null);
     await colorize(
-      sourceImage.blob,
+      sourceImage,
       selectedScheme,
       selectedScheme === 'custom' ? customPrompt : undefined
     );
@@ -595,14 +719,17 @@ function ColorsTab({ artifactId, colorVariants, images, onRefetch }: ColorsTabPr
   // Handle variant delete
   const handleVariantDelete = useCallback(async (variantId: string) => {
     try {
-      await deleteColorVariant(variantId);
+      const trashEntryId = await deleteColorVariant(variantId);
+      if (trashEntryId) {
+        setLastDeleted({ trashEntryId, kind: 'colorVariant', onRestored: onRefetch });
+      }
       onRefetch();
       setSelectedVariant(null);
       setMode('gallery');
     } catch (err) {
       console.error('Failed to delete color variant:', err);
     }
-  }, [onRefetch]);
+  }, [onRefetch, setLastDeleted]);
 
   // Handle download variant
   const handleDownload = useCallback(() => {
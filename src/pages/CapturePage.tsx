@@ -5,7 +5,7 @@ import { useTranslation } from 'react-i18next';
 import { CaptureSession, FileUpload } from '@/components/camera';
 import { cn } from '@/lib/utils';
 import { compressImage, generateId } from '@/lib/utils';
-import { db } from '@/lib/db';
+import { addImage, db } from '@/lib/db';
 import { useAppStore } from '@/stores';
 import type { ImageAngle, Artifact } from '@/types';
 
@@ -47,7 +47,7 @@ export function CapturePage() {
         const compressed = await compressImage(blob, 2, 1920);
         const imageId = generateId();
 
-        await db.images.add({
+        await addImage({
           id: imageId,
           artifactId,
           blob: compressed,
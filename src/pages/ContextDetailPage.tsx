@@ -0,0 +1,422 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowLeft, ArrowRightLeft, Hash, Layers, Pencil, Save, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  assignArtifacts,
+  findContext,
+  getArtifactsForContext,
+  getAreasForSite,
+  getContext,
+  getContextsForSite,
+  getSeasonsForSite,
+  getSite,
+  renumberContext,
+  saveContext,
+} from '@/lib/db';
+import { CONTEXT_TYPES, formatContextLabel } from '@/lib/excavation';
+import { FindsList } from '@/components/excavation';
+import { LoadingSpinner } from '@/components/ui';
+import type { Area, ExcavationContext, ExcavationContextType, Season } from '@/types';
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50';
+const labelClassName = 'text-xs font-medium text-stone-gray uppercase tracking-wide mb-1 block';
+
+// Select value for finds kept at the site without a context
+const NO_CONTEXT = '__none';
+
+/**
+ * A context with its finds: renumber it (merging it into the context that
+ * already has the number) and move finds to another context
+ */
+export function ContextDetailPage() {
+  const { siteId = '', contextId = '' } = useParams<{ siteId: string; contextId: string }>();
+  const { t } = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const context = useLiveQuery(async () => (await getContext(contextId)) ?? null, [contextId]);
+  const site = useLiveQuery(() => getSite(siteId), [siteId]);
+  const areas = useLiveQuery(() => getAreasForSite(siteId), [siteId]);
+  const seasons = useLiveQuery(() => getSeasonsForSite(siteId), [siteId]);
+  const artifacts = useLiveQuery(() => getArtifactsForContext(contextId), [contextId]);
+
+  if (context === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (context === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center">
+          <Layers className="h-16 w-16 text-stone-gray/30 mx-auto mb-4" />
+          <h2 className="font-heading text-xl font-semibold text-charcoal mb-4">{t('pages.context.notFound')}</h2>
+          <Link
+            to={`/sites/${siteId}`}
+            className="inline-flex items-center gap-2 rounded-lg bg-terracotta px-4 py-2 text-bone-white hover:bg-clay transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t('pages.context.backToSite')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const area = areas?.find((candidate) => candidate.id === context.areaId);
+  const season = seasons?.find((candidate) => candidate.id === context.seasonId);
+  // Finds no longer here drop out of the selection
+  const selected = new Set((artifacts || []).filter((artifact) => selectedIds.has(artifact.id)).map((artifact) => artifact.id));
+
+  return (
+    <div className="px-4 py-6 pb-24 lg:px-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <Link to={`/sites/${siteId}`} className="rounded-full p-2 hover:bg-aged-paper transition-colors">
+          <ArrowLeft className="h-5 w-5 text-charcoal rtl:rotate-180" />
+        </Link>
+        <div className="flex-1 min-w-0">
+          <h1 className="font-heading text-xl font-bold text-sienna truncate">{formatContextLabel(context, t)}</h1>
+          <p className="text-sm text-stone-gray truncate">
+            {[site?.name, area?.name, season?.name].filter(Boolean).join(' · ')}
+          </p>
+          {context.description && <p className="mt-1 text-sm text-charcoal whitespace-pre-line">{context.description}</p>}
+        </div>
+        {!isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+            {t('components.excavation.edit')}
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <ContextForm
+          key={context.id}
+          context={context}
+          areas={areas || []}
+          seasons={seasons || []}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+
+      <RenumberForm key={`renumber-${context.id}`} context={context} />
+
+      {/* Finds */}
+      <section>
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-3">
+          {t('pages.sites.finds')}
+          {artifacts && <span className="ms-2 text-sm font-normal text-stone-gray">{artifacts.length}</span>}
+        </h3>
+
+        {selected.size > 0 && (
+          <MoveFindsForm
+            context={context}
+            artifactIds={[...selected]}
+            onMoved={() => setSelectedIds(new Set())}
+          />
+        )}
+
+        {artifacts === undefined ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <FindsList artifacts={artifacts} selectedIds={selected} onSelectionChange={setSelectedIds} />
+        )}
+      </section>
+    </div>
+  );
+}
+
+interface ContextFormProps {
+  context: ExcavationContext;
+  areas: Area[];
+  seasons: Season[];
+  onClose: () => void;
+}
+
+/**
+ * Type, area, season and description of a context; the number is changed
+ * by renumbering
+ */
+function ContextForm({ context, areas, seasons, onClose }: ContextFormProps) {
+  const { t } = useTranslation();
+  const [type, setType] = useState<ExcavationContextType>(context.type);
+  const [areaId, setAreaId] = useState(context.areaId ?? '');
+  const [seasonId, setSeasonId] = useState(context.seasonId ?? '');
+  const [description, setDescription] = useState(context.description ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveContext({
+        ...context,
+        type,
+        areaId: areaId || undefined,
+        seasonId: seasonId || undefined,
+        description: description.trim() || undefined,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save context:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-desert-sand bg-aged-paper/50 p-4 space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label htmlFor="context-type" className={labelClassName}>{t('components.excavation.contextType')}</label>
+          <select
+            id="context-type"
+            value={type}
+            onChange={(e) => setType(e.target.value as ExcavationContextType)}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            {CONTEXT_TYPES.map((option) => (
+              <option key={option} value={option}>{t(`components.excavation.types.${option}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="context-area" className={labelClassName}>{t('components.excavation.area')}</label>
+          <select
+            id="context-area"
+            value={areaId}
+            onChange={(e) => setAreaId(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            <option value="">{t('components.excavation.noArea')}</option>
+            {areas.map((area) => (
+              <option key={area.id} value={area.id}>{area.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="context-season" className={labelClassName}>{t('components.excavation.season')}</label>
+          <select
+            id="context-season"
+            value={seasonId}
+            onChange={(e) => setSeasonId(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            <option value="">{t('components.excavation.noSeason')}</option>
+            {seasons.map((season) => (
+              <option key={season.id} value={season.id}>{season.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label htmlFor="context-description" className={labelClassName}>{t('components.excavation.description')}</label>
+        <textarea
+          id="context-description"
+          dir="auto"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          disabled={isSaving}
+          className={`${inputClassName} resize-none`}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-3.5 w-3.5" />}
+          {t('components.excavation.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSaving}
+          className="ms-auto p-1.5 rounded-lg text-stone-gray hover:text-charcoal hover:bg-aged-paper transition-colors"
+          aria-label={t('common.buttons.cancel')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * New number for a context; taking the number of another context merges
+ * the two after asking
+ */
+function RenumberForm({ context }: { context: ExcavationContext }) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [number, setNumber] = useState(context.number);
+  const [mergeTarget, setMergeTarget] = useState<ExcavationContext | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const trimmed = number.trim();
+  const canRenumber = trimmed.length > 0 && trimmed !== context.number && !isSaving;
+
+  const renumber = async (confirmed: boolean) => {
+    if (!canRenumber) return;
+    setIsSaving(true);
+    try {
+      const existing = await findContext(context.siteId, trimmed);
+      if (existing && existing.id !== context.id && !confirmed) {
+        setMergeTarget(existing);
+        return;
+      }
+      const id = await renumberContext(context.id, trimmed);
+      setMergeTarget(null);
+      if (id !== context.id) {
+        navigate(`/sites/${context.siteId}/contexts/${id}`, { replace: true });
+      }
+    } catch (error) {
+      console.error('Failed to renumber context:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-2">
+      <label htmlFor="context-number" className={labelClassName}>
+        <Hash className="h-3.5 w-3.5 inline mr-1" />
+        {t('pages.context.renumber')}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="context-number"
+          type="text"
+          dir="auto"
+          value={number}
+          onChange={(e) => {
+            setNumber(e.target.value);
+            setMergeTarget(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && renumber(false)}
+          disabled={isSaving}
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={() => renumber(false)}
+          disabled={!canRenumber}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50 whitespace-nowrap"
+        >
+          {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-3.5 w-3.5" />}
+          {t('pages.context.renumberButton')}
+        </button>
+      </div>
+      <p className="text-xs text-stone-gray">{t('pages.context.renumberHint')}</p>
+
+      {mergeTarget && (
+        <div className="rounded-lg bg-gold-ochre/10 border border-gold-ochre/30 p-3 space-y-3">
+          <p className="text-sm text-charcoal">
+            {t('pages.context.confirmMerge', {
+              target: formatContextLabel(mergeTarget, t),
+              context: formatContextLabel(context, t),
+            })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setMergeTarget(null)}
+              className="flex-1 py-2 px-3 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal hover:bg-aged-paper transition-colors"
+            >
+              {t('common.buttons.cancel')}
+            </button>
+            <button
+              onClick={() => renumber(true)}
+              disabled={isSaving}
+              className="flex-1 py-2 px-3 rounded-lg bg-gold-ochre text-charcoal text-sm font-medium hover:bg-gold-ochre/90 transition-colors disabled:opacity-50"
+            >
+              {t('pages.context.merge')}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+interface MoveFindsFormProps {
+  context: ExcavationContext;
+  artifactIds: string[];
+  onMoved: () => void;
+}
+
+/**
+ * Move the selected finds to another context of the site
+ */
+function MoveFindsForm({ context, artifactIds, onMoved }: MoveFindsFormProps) {
+  const { t } = useTranslation();
+  const [targetId, setTargetId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const contexts = useLiveQuery(() => getContextsForSite(context.siteId), [context.siteId]);
+  const targets = (contexts || []).filter((candidate) => candidate.id !== context.id);
+
+  const handleMove = async () => {
+    if (!targetId) return;
+    setIsSaving(true);
+    try {
+      await assignArtifacts(artifactIds, {
+        siteId: context.siteId,
+        contextId: targetId === NO_CONTEXT ? undefined : targetId,
+      });
+      onMoved();
+    } catch (error) {
+      console.error('Failed to move finds:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-3 flex items-center gap-2 rounded-xl border border-terracotta/30 bg-terracotta/5 p-3">
+      <span className="text-sm text-charcoal whitespace-nowrap">
+        {t('pages.context.selected', { count: artifactIds.length })}
+      </span>
+      <select
+        value={targetId}
+        onChange={(e) => setTargetId(e.target.value)}
+        aria-label={t('pages.context.moveTo')}
+        disabled={isSaving}
+        className={inputClassName}
+      >
+        <option value="">{t('pages.context.moveTo')}</option>
+        {targets.map((target) => (
+          <option key={target.id} value={target.id}>{formatContextLabel(target, t)}</option>
+        ))}
+        <option value={NO_CONTEXT}>{t('pages.context.noContext')}</option>
+      </select>
+      <button
+        type="button"
+        onClick={handleMove}
+        disabled={!targetId || isSaving}
+        className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50 whitespace-nowrap"
+      >
+        {isSaving ? <LoadingSpinner size="sm" /> : <ArrowRightLeft className="h-3.5 w-3.5" />}
+        {t('pages.context.move')}
+      </button>
+    </div>
+  );
+}
@@ -2,9 +2,9 @@ import { useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '@/lib/db';
 import { useGalleryFilters } from '@/hooks';
-import { GalleryGrid, GalleryList, GalleryToolbar } from '@/components/gallery';
+import { GalleryGrid, GalleryList, GalleryTimeline, GalleryToolbar } from '@/components/gallery';
 
-type ViewMode = 'grid' | 'list';
+type ViewMode = 'grid' | 'list' | 'timeline';
 
 export function GalleryPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
@@ -20,6 +20,8 @@ export function GalleryPage() {
     filters,
     setSearch,
     setStatus,
+    setReview,
+    setTerm,
     setSortBy,
     toggleSortOrder,
     filteredArtifacts,
@@ -37,6 +39,8 @@ export function GalleryPage() {
         filters={filters}
         setSearch={setSearch}
         setStatus={setStatus}
+        setReview={setReview}
+        setTerm={setTerm}
         setSortBy={setSortBy}
         toggleSortOrder={toggleSortOrder}
         resultCount={resultCount}
@@ -49,11 +53,16 @@ export function GalleryPage() {
             artifacts={filteredArtifacts}
             isLoading={isLoading}
           />
-        ) : (
+        ) : viewMode === 'list' ? (
           <GalleryList
             artifacts={filteredArtifacts}
             isLoading={isLoading}
           />
+        ) : (
+          <GalleryTimeline
+            artifacts={filteredArtifacts}
+            isLoading={isLoading}
+          />
         )}
       </div>
     </div>
@@ -1,10 +1,12 @@
-import { useParams, Link } from 'react-router-dom';
-import { ArrowLeft, Palette, Image, Plus, ImageOff } from 'lucide-react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Palette, Image, Plus, ImageOff, Trash2 } from 'lucide-react';
 import { useState, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
-import { useArtifactData, useColorize } from '@/hooks';
-import { LoadingSpinner } from '@/components/ui';
+import { useArtifactData, useColorize, useDeleteArtifact } from '@/hooks';
+import { LoadingSpinner, QueuedOperationsNotice } from '@/components/ui';
+import { ArtifactContextPanel } from '@/components/excavation';
+import { DeleteConfirmDialog } from '@/components/data-management';
 import {
   ColorizationCard,
   ColorVariantGallery,
@@ -13,6 +15,7 @@ import {
 import type { ColorizationStatus } from '@/components/colorization';
 import type { ColorVariant, ColorScheme, ArtifactImage } from '@/types';
 import { deleteColorVariant } from '@/lib/db';
+import { useAppStore } from '@/stores';
 
 type Tab = 'colors' | 'photos';
 
@@ -25,6 +28,11 @@ export function PaletteArtifactDetailPage() {
   // Load artifact data
   const { data, isLoading, error, refetch } = useArtifactData(id);
 
+  // Deleting moves the artifact to the trash; the undo toast offers it back
+  const navigate = useNavigate();
+  const { showConfirm, pendingDeleteName, isDeleting, confirmDelete, cancelDelete, executeDelete } =
+    useDeleteArtifact(() => navigate('/palette/gallery'));
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -80,7 +88,18 @@ export function PaletteArtifactDetailPage() {
             <h2 className="font-heading font-semibold text-charcoal truncate">
               {artifactName}
             </h2>
+            {artifact.registrationNumber && (
+              <span dir="ltr" className="text-sm font-mono text-stone-gray truncate">{artifact.registrationNumber}</span>
+            )}
           </div>
+          <button
+            onClick={() => confirmDelete(artifact.id)}
+            className="ms-auto rounded-full p-2 text-stone-gray hover:text-rust-red hover:bg-aged-paper transition-colors"
+            aria-label={t('pages.artifact.moveToTrash')}
+            title={t('pages.artifact.moveToTrash')}
+          >
+            <Trash2 className="h-5 w-5" />
+          </button>
         </div>
 
         {/* Tab Navigation - Only Colors and Photos */}
@@ -105,6 +124,7 @@ export function PaletteArtifactDetailPage() {
 
       {/* Tab Content */}
       <div className="p-4">
+        <QueuedOperationsNotice artifactId={artifact.id} onProcessed={refetch} className="mb-4" />
         {activeTab === 'colors' && (
           <ColorsTab
             artifactId={artifact.id}
@@ -113,8 +133,21 @@ export function PaletteArtifactDetailPage() {
             onRefetch={refetch}
           />
         )}
-        {activeTab === 'photos' && <PhotosTab images={images} />}
+        {activeTab === 'photos' && (
+          <div className="space-y-4">
+            <ArtifactContextPanel artifact={artifact} onChange={refetch} />
+            <PhotosTab images={images} />
+          </div>
+        )}
       </div>
+
+      <DeleteConfirmDialog
+        isOpen={showConfirm}
+        artifactName={pendingDeleteName}
+        isDeleting={isDeleting}
+        onConfirm={() => executeDelete().catch(() => alert(t('pages.artifact.failedToDelete')))}
+        onCancel={cancelDelete}
+      />
     </div>
   );
 }
@@ -170,6 +203,7 @@ interface ColorsTabProps {
 
 function ColorsTab({ artifactId, colorVariants, images, onRefetch }: ColorsTabProps) {
   const { t } = useTranslation();
+  const setLastDeleted = useAppStore((s) => s.setLastDeleted);
   const [mode, setMode] = useState<ColorsTabMode>(colorVariants.length > 0 ? 'gallery' : 'generate');
   const [selectedVariant, setSelectedVariant] = useState<ColorVariant | null>(null);
   const [selectedScheme, setSelectedScheme] = useState<ColorScheme>('original');
@@ -196,6 +230,11 @@ function ColorsTab({ artifactId, colorVariants, images, onRefetch }: ColorsTabPr
     onError: (error) => {
       setErrorMessage(error.message);
     },
+    onQueued: () => {
+      // The job runs from the offline queue; the notice above the tabs tracks it
+      reset();
+      setMode(colorVariants.length > 0 ? 'gallery' : 'generate');
+    },
   });
 
   const colorizationStatus: ColorizationStatus = useMemo(() => {
@@ -216,7 +255,7 @@ function ColorsTab({ artifactId, colorVariants, images, onRefetch }: ColorsTabPr
     if (!sourceImage) return;
     setErrorMessage(null);
     await colorize(
-      sourceImage.blob,
+      sourceImage,
       selectedScheme,
       selectedScheme === 'custom' ? customPrompt : undefined
     );
@@ -229,14 +268,17 @@ function ColorsTab({ artifactId, colorVariants, images, onRefetch }: ColorsTabPr
 
   const handleVariantDelete = useCallback(async (variantId: string) => {
     try {
-      await deleteColorVariant(variantId);
+      const trashEntryId = await deleteColorVariant(variantId);
+      if (trashEntryId) {
+        setLastDeleted({ trashEntryId, kind: 'colorVariant', onRestored: onRefetch });
+      }
       onRefetch();
       setSelectedVariant(null);
       setMode('gallery');
     } catch (err) {
       console.error('Failed to delete color variant:', err);
     }
-  }, [onRefetch]);
+  }, [onRefetch, setLastDeleted]);
 
   const handleDownload = useCallback(() => {
     if (!selectedVariant) return;
@@ -5,9 +5,9 @@ import { ArrowLeft, Palette, Plus } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { db } from '@/lib/db';
 import { useGalleryFilters } from '@/hooks';
-import { GalleryGrid, GalleryList, GalleryToolbar } from '@/components/gallery';
+import { GalleryGrid, GalleryList, GalleryTimeline, GalleryToolbar } from '@/components/gallery';
 
-type ViewMode = 'grid' | 'list';
+type ViewMode = 'grid' | 'list' | 'timeline';
 
 export function PaletteGalleryPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
@@ -30,6 +30,8 @@ export function PaletteGalleryPage() {
     filters,
     setSearch,
     setStatus,
+    setReview,
+    setTerm,
     setSortBy,
     toggleSortOrder,
     filteredArtifacts,
@@ -80,6 +82,8 @@ export function PaletteGalleryPage() {
         filters={filters}
         setSearch={setSearch}
         setStatus={setStatus}
+        setReview={setReview}
+        setTerm={setTerm}
         setSortBy={setSortBy}
         toggleSortOrder={toggleSortOrder}
         resultCount={resultCount}
@@ -93,12 +97,18 @@ export function PaletteGalleryPage() {
             isLoading={isLoading}
             basePath="/palette"
           />
-        ) : (
+        ) : viewMode === 'list' ? (
           <GalleryList
             artifacts={filteredArtifacts}
             isLoading={isLoading}
             basePath="/palette"
           />
+        ) : (
+          <GalleryTimeline
+            artifacts={filteredArtifacts}
+            isLoading={isLoading}
+            basePath="/palette"
+          />
         )}
       </div>
     </div>
@@ -3,9 +3,10 @@ import { useNavigate, Link } from 'react-router-dom';
 import { Camera, Upload, Info, Palette, Layers, FolderOpen, ArrowRight } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { CaptureSession, FileUpload } from '@/components/camera';
+import { RecordingLocationPicker } from '@/components/excavation';
 import { compressImage, generateId } from '@/lib/utils';
-import { db } from '@/lib/db';
-import { useAppStore } from '@/stores';
+import { addImage, createArtifact, getRecordingLocation } from '@/lib/db';
+import { useAppStore, useSettingsStore } from '@/stores';
 import type { ImageAngle, Artifact } from '@/types';
 
 type CaptureMethod = 'camera' | 'upload' | null;
@@ -13,6 +14,7 @@ type CaptureMethod = 'camera' | 'upload' | null;
 export function PastPalettePage() {
   const navigate = useNavigate();
   const { setCurrentArtifact, setProcessingStatus } = useAppStore();
+  const { registrationPattern, recordingSiteId, recordingContextId } = useSettingsStore();
   const { t } = useTranslation();
 
   const [captureMethod, setCaptureMethod] = useState<CaptureMethod>(null);
@@ -28,6 +30,7 @@ export function PastPalettePage() {
         status: 'images-captured',
         imageIds: [],
         colorVariantIds: [],
+        ...(await getRecordingLocation(recordingSiteId, recordingContextId)),
         metadata: {
           captureMode: 'palette', // Mark as Past Palette artifact
         },
@@ -39,7 +42,7 @@ export function PastPalettePage() {
         const compressed = await compressImage(blob, 2, 1920);
         const imageId = generateId();
 
-        await db.images.add({
+        await addImage({
           id: imageId,
           artifactId,
           blob: compressed,
@@ -57,7 +60,7 @@ export function PastPalettePage() {
       const thumbnailBlob = await compressImage(images[0].blob, 0.5, 400);
       newArtifact.thumbnailBlob = thumbnailBlob;
 
-      await db.artifacts.add(newArtifact);
+      await createArtifact(newArtifact, { pattern: registrationPattern });
 
       setCurrentArtifact(artifactId);
       setProcessingStatus({
@@ -72,7 +75,7 @@ export function PastPalettePage() {
     } catch (error) {
       console.error('Failed to save captured images:', error);
     }
-  }, [navigate, setCurrentArtifact, setProcessingStatus]);
+  }, [navigate, setCurrentArtifact, setProcessingStatus, registrationPattern, recordingSiteId, recordingContextId]);
 
   const handleFileUploadComplete = useCallback(async (files: File[]) => {
     const images: Array<{ blob: Blob; angle: ImageAngle }> = files.map((file, index) => ({
@@ -148,6 +151,9 @@ export function PastPalettePage() {
         </div>
       </div>
 
+      {/* Where the finds are recorded */}
+      <RecordingLocationPicker className="mb-6" />
+
       {/* Capture Options */}
       <div className="space-y-4">
         <h3 className="font-heading text-lg font-semibold text-charcoal">
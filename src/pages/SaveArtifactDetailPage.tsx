@@ -1,17 +1,23 @@
-import { useParams, Link } from 'react-router-dom';
-import { ArrowLeft, Box, Image, FileText, Download, Share2 } from 'lucide-react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Box, Image, FileText, Download, Share2, History, ClipboardCheck, Trash2 } from 'lucide-react';
 import { useState, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
-import { useArtifactData, useReconstruct3D } from '@/hooks';
-import { ReconstructionCard } from '@/components/reconstruction';
+import { useArtifactData, useReconstruct3D, useArtifactLocation, useDeleteArtifact } from '@/hooks';
+import { getLocationMetadata } from '@/lib/excavation';
+import { ReconstructionCard, ModelGenerationDetails } from '@/components/reconstruction';
 import { ModelViewer } from '@/components/viewer';
-import { LoadingSpinner } from '@/components/ui';
+import { LoadingSpinner, QueuedOperationsNotice } from '@/components/ui';
+import { ArtifactContextPanel } from '@/components/excavation';
+import { DeleteConfirmDialog } from '@/components/data-management';
 import {
   InfoCardDisplay,
   InfoCardEditor,
   InfoCardExport,
   InfoCardGeneration,
+  InfoCardRefine,
+  InfoCardHistory,
+  InfoCardReviewPanel,
 } from '@/components/info-card';
 import type { ReconstructionMethod } from '@/components/reconstruction';
 import type { ReconstructionStatus } from '@/components/reconstruction/ReconstructionProgress';
@@ -28,6 +34,11 @@ export function SaveArtifactDetailPage() {
   // Load artifact data
   const { data, isLoading, error, refetch } = useArtifactData(id);
 
+  // Deleting moves the artifact to the trash; the undo toast offers it back
+  const navigate = useNavigate();
+  const { showConfirm, pendingDeleteName, isDeleting, confirmDelete, cancelDelete, executeDelete } =
+    useDeleteArtifact(() => navigate('/save/gallery'));
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -83,7 +94,18 @@ export function SaveArtifactDetailPage() {
             <h2 className="font-heading font-semibold text-charcoal truncate">
               {artifactName}
             </h2>
+            {artifact.registrationNumber && (
+              <span dir="ltr" className="text-sm font-mono text-stone-gray truncate">{artifact.registrationNumber}</span>
+            )}
           </div>
+          <button
+            onClick={() => confirmDelete(artifact.id)}
+            className="ms-auto rounded-full p-2 text-stone-gray hover:text-rust-red hover:bg-aged-paper transition-colors"
+            aria-label={t('pages.artifact.moveToTrash')}
+            title={t('pages.artifact.moveToTrash')}
+          >
+            <Trash2 className="h-5 w-5" />
+          </button>
         </div>
 
         {/* Tab Navigation - Only 3D, Photos, Info */}
@@ -112,6 +134,7 @@ export function SaveArtifactDetailPage() {
 
       {/* Tab Content */}
       <div className="p-4">
+        <QueuedOperationsNotice artifactId={artifact.id} onProcessed={refetch} className="mb-4" />
         {activeTab === '3d' && (
           <Model3DTab
             artifactId={artifact.id}
@@ -123,15 +146,26 @@ export function SaveArtifactDetailPage() {
         )}
         {activeTab === 'photos' && <PhotosTab images={images} />}
         {activeTab === 'info' && (
-          <InfoTab
-            artifactId={artifact.id}
-            artifact={artifact}
-            images={images}
-            infoCard={data.infoCard}
-            onRefetch={refetch}
-          />
+          <div className="space-y-4">
+            <ArtifactContextPanel artifact={artifact} onChange={refetch} />
+            <InfoTab
+              artifactId={artifact.id}
+              artifact={artifact}
+              images={images}
+              infoCard={data.infoCard}
+              onRefetch={refetch}
+            />
+          </div>
         )}
       </div>
+
+      <DeleteConfirmDialog
+        isOpen={showConfirm}
+        artifactName={pendingDeleteName}
+        isDeleting={isDeleting}
+        onConfirm={() => executeDelete().catch(() => alert(t('pages.artifact.failedToDelete')))}
+        onCancel={cancelDelete}
+      />
     </div>
   );
 }
@@ -198,6 +232,7 @@ function Model3DTab({
     cancel,
     state,
     progress,
+    job,
     error,
     reset,
   } = useReconstruct3D({
@@ -208,6 +243,9 @@ function Model3DTab({
     onError: (err) => {
       console.error('Reconstruction failed:', err);
     },
+    onQueued: () => {
+      onReconstructionComplete();
+    },
   });
 
   const uiStatus: ReconstructionStatus = useMemo(() => {
@@ -221,8 +259,7 @@ function Model3DTab({
 
   const handleStart = useCallback(async () => {
     if (images.length === 0) return;
-    const imageBlobs = images.map((img) => img.blob);
-    await startReconstruction(imageBlobs, selectedMethod === 'single' ? 'single' : 'multi');
+    await startReconstruction(images, selectedMethod === 'single' ? 'single' : 'multi');
   }, [images, selectedMethod, startReconstruction]);
 
   const handleViewResult = useCallback(() => {
@@ -255,7 +292,11 @@ function Model3DTab({
             <div>
               <p className="text-stone-gray">{t('components.modelViewer.source')}</p>
               <p className="text-charcoal font-medium">
-                {model.source === '3d-single' ? t('components.modelViewer.singleImage') : t('components.modelViewer.multiImage')}
+                {model.source === '3d-single'
+                  ? t('components.modelViewer.singleImage')
+                  : model.sourceImageIds
+                    ? t('components.modelViewer.multiImageViews', { count: model.sourceImageIds.length })
+                    : t('components.modelViewer.multiImage')}
               </p>
             </div>
             <div>
@@ -274,6 +315,13 @@ function Model3DTab({
             </div>
           </div>
 
+          {model.generation && (
+            <ModelGenerationDetails
+              generation={model.generation}
+              className="pt-3 border-t border-desert-sand"
+            />
+          )}
+
           <button
             onClick={() => {
               const link = document.createElement('a');
@@ -308,6 +356,7 @@ function Model3DTab({
       status={uiStatus}
       progress={progress}
       statusMessage={getStatusMessage(state, progress, t)}
+      job={job}
       errorMessage={error?.message}
       selectedMethod={selectedMethod}
       onMethodChange={setSelectedMethod}
@@ -396,10 +445,18 @@ interface InfoTabProps {
 
 function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabProps) {
   const { t } = useTranslation();
-  const [mode, setMode] = useState<'view' | 'edit' | 'generate'>('view');
+  const [mode, setMode] = useState<'view' | 'edit' | 'generate' | 'history' | 'review'>('view');
   const [showExport, setShowExport] = useState(false);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
   const [currentInfoCard, setCurrentInfoCard] = useState<InfoCard | null>(infoCard);
 
+  // The find spot is sent to the AI by name
+  const location = useArtifactLocation(artifact);
+  const metadata = useMemo(
+    () => getLocationMetadata(artifact?.metadata, location, t),
+    [artifact, location, t]
+  );
+
   useMemo(() => {
     if (infoCard) {
       setCurrentInfoCard(infoCard);
@@ -418,12 +475,40 @@ function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabP
     onRefetch();
   }, [onRefetch]);
 
+  const handleRefineUpdate = useCallback((updatedCard: InfoCard) => {
+    setCurrentInfoCard(updatedCard);
+    onRefetch();
+  }, [onRefetch]);
+
+  const handleRestore = useCallback((restoredCard: InfoCard) => {
+    setCurrentInfoCard(restoredCard);
+    onRefetch();
+  }, [onRefetch]);
+
+  const handleReviewSave = useCallback((reviewedCard: InfoCard) => {
+    setCurrentInfoCard(reviewedCard);
+    setMode('view');
+    onRefetch();
+  }, [onRefetch]);
+
+  // A new card replaces the archaeologist's edits, so ask first
+  const handleRegenerateAll = useCallback(() => {
+    if (currentInfoCard?.isHumanEdited && !confirmRegenerate) {
+      setConfirmRegenerate(true);
+      return;
+    }
+    setConfirmRegenerate(false);
+    setMode('generate');
+  }, [currentInfoCard, confirmRegenerate]);
+
   if (!currentInfoCard || mode === 'generate') {
     return (
       <InfoCardGeneration
+        // Start over with the find spot once it's loaded
+        key={[location.site?.id, location.area?.id, location.context?.id].join()}
         artifactId={artifactId}
         images={images}
-        initialMetadata={artifact?.metadata}
+        initialMetadata={metadata}
         onComplete={handleGenerationComplete}
         onCancel={currentInfoCard ? () => setMode('view') : undefined}
       />
@@ -440,6 +525,28 @@ function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabP
     );
   }
 
+  if (mode === 'history') {
+    return (
+      <InfoCardHistory
+        artifactId={artifactId}
+        infoCard={currentInfoCard}
+        onRestore={handleRestore}
+        onClose={() => setMode('view')}
+      />
+    );
+  }
+
+  if (mode === 'review') {
+    return (
+      <InfoCardReviewPanel
+        key={currentInfoCard.id}
+        infoCard={currentInfoCard}
+        onSave={handleReviewSave}
+        onClose={() => setMode('view')}
+      />
+    );
+  }
+
   return (
     <div className="space-y-4">
       <div className="flex gap-2 justify-end rtl:flex-row-reverse">
@@ -451,19 +558,61 @@ function InfoTab({ artifactId, artifact, images, infoCard, onRefetch }: InfoTabP
           {t('pages.artifact.export')}
         </button>
         <button
-          onClick={() => setMode('generate')}
+          onClick={() => setMode('history')}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+        >
+          <History className="h-3.5 w-3.5" />
+          {t('pages.artifact.history')}
+        </button>
+        <button
+          onClick={() => setMode('review')}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+        >
+          <ClipboardCheck className="h-3.5 w-3.5" />
+          {t('pages.artifact.review')}
+        </button>
+        <button
+          onClick={handleRegenerateAll}
           className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
         >
           {t('pages.artifact.regenerate')}
         </button>
       </div>
 
+      {confirmRegenerate && (
+        <div className="rounded-lg bg-gold-ochre/10 border border-gold-ochre/30 p-3 space-y-3">
+          <p className="text-sm text-charcoal">{t('pages.artifact.confirmRegenerateEdited')}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setConfirmRegenerate(false)}
+              className="flex-1 py-2 px-3 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal hover:bg-aged-paper transition-colors"
+            >
+              {t('common.buttons.cancel')}
+            </button>
+            <button
+              onClick={handleRegenerateAll}
+              className="flex-1 py-2 px-3 rounded-lg bg-gold-ochre text-charcoal text-sm font-medium hover:bg-gold-ochre/90 transition-colors"
+            >
+              {t('pages.artifact.regenerateAnyway')}
+            </button>
+          </div>
+        </div>
+      )}
+
       <InfoCardDisplay
         infoCard={currentInfoCard}
         onEdit={() => setMode('edit')}
         showEditButton
       />
 
+      <InfoCardRefine
+        key={currentInfoCard.id}
+        infoCard={currentInfoCard}
+        images={images}
+        metadata={metadata}
+        onUpdate={handleRefineUpdate}
+      />
+
       {showExport && artifact && (
         <InfoCardExport
           infoCard={currentInfoCard}
@@ -5,9 +5,9 @@ import { ArrowLeft, Box, Plus } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { db } from '@/lib/db';
 import { useGalleryFilters } from '@/hooks';
-import { GalleryGrid, GalleryList, GalleryToolbar } from '@/components/gallery';
+import { GalleryGrid, GalleryList, GalleryTimeline, GalleryToolbar } from '@/components/gallery';
 
-type ViewMode = 'grid' | 'list';
+type ViewMode = 'grid' | 'list' | 'timeline';
 
 export function SaveGalleryPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
@@ -32,6 +32,8 @@ export function SaveGalleryPage() {
     filters,
     setSearch,
     setStatus,
+    setReview,
+    setTerm,
     setSortBy,
     toggleSortOrder,
     filteredArtifacts,
@@ -82,6 +84,8 @@ export function SaveGalleryPage() {
         filters={filters}
         setSearch={setSearch}
         setStatus={setStatus}
+        setReview={setReview}
+        setTerm={setTerm}
         setSortBy={setSortBy}
         toggleSortOrder={toggleSortOrder}
         resultCount={resultCount}
@@ -95,12 +99,18 @@ export function SaveGalleryPage() {
             isLoading={isLoading}
             basePath="/save"
           />
-        ) : (
+        ) : viewMode === 'list' ? (
           <GalleryList
             artifacts={filteredArtifacts}
             isLoading={isLoading}
             basePath="/save"
           />
+        ) : (
+          <GalleryTimeline
+            artifacts={filteredArtifacts}
+            isLoading={isLoading}
+            basePath="/save"
+          />
         )}
       </div>
     </div>
@@ -3,10 +3,11 @@ import { useNavigate, Link } from 'react-router-dom';
 import { Camera, Upload, Info, Zap, Layers, Box, Sparkles, FolderOpen, ArrowRight } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { CaptureSession, FileUpload } from '@/components/camera';
+import { RecordingLocationPicker } from '@/components/excavation';
 import { cn } from '@/lib/utils';
 import { compressImage, generateId } from '@/lib/utils';
-import { db } from '@/lib/db';
-import { useAppStore } from '@/stores';
+import { addImage, createArtifact, getRecordingLocation } from '@/lib/db';
+import { useAppStore, useSettingsStore } from '@/stores';
 import type { ImageAngle, Artifact } from '@/types';
 
 type CaptureMethod = 'camera' | 'upload' | null;
@@ -15,6 +16,7 @@ type ReconstructionMode = 'single' | 'multi';
 export function SaveThePastPage() {
   const navigate = useNavigate();
   const { setCurrentArtifact, setProcessingStatus } = useAppStore();
+  const { registrationPattern, recordingSiteId, recordingContextId } = useSettingsStore();
   const { t } = useTranslation();
 
   const [captureMethod, setCaptureMethod] = useState<CaptureMethod>(null);
@@ -31,6 +33,7 @@ export function SaveThePastPage() {
         status: 'images-captured',
         imageIds: [],
         colorVariantIds: [],
+        ...(await getRecordingLocation(recordingSiteId, recordingContextId)),
         metadata: {
           captureMode: 'save', // Mark as Save the Past artifact
         },
@@ -42,7 +45,7 @@ export function SaveThePastPage() {
         const compressed = await compressImage(blob, 2, 1920);
         const imageId = generateId();
 
-        await db.images.add({
+        await addImage({
           id: imageId,
           artifactId,
           blob: compressed,
@@ -60,7 +63,7 @@ export function SaveThePastPage() {
       const thumbnailBlob = await compressImage(images[0].blob, 0.5, 400);
       newArtifact.thumbnailBlob = thumbnailBlob;
 
-      await db.artifacts.add(newArtifact);
+      await createArtifact(newArtifact, { pattern: registrationPattern });
 
       setCurrentArtifact(artifactId);
       setProcessingStatus({
@@ -75,7 +78,7 @@ export function SaveThePastPage() {
     } catch (error) {
       console.error('Failed to save captured images:', error);
     }
-  }, [navigate, setCurrentArtifact, setProcessingStatus]);
+  }, [navigate, setCurrentArtifact, setProcessingStatus, registrationPattern, recordingSiteId, recordingContextId]);
 
   const handleFileUploadComplete = useCallback(async (files: File[]) => {
     const images: Array<{ blob: Blob; angle: ImageAngle }> = files.map((file, index) => ({
@@ -212,6 +215,9 @@ export function SaveThePastPage() {
         </div>
       </div>
 
+      {/* Where the finds are recorded */}
+      <RecordingLocationPicker className="mb-6" />
+
       {/* Capture Options */}
       <div className="space-y-4">
         <h3 className="font-heading text-lg font-semibold text-charcoal">
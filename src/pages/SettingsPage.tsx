@@ -1,5 +1,5 @@
+import { useState } from 'react';
 import {
-  Database,
   Download,
   Upload,
   Trash2,
@@ -7,17 +7,36 @@ import {
   Sun,
   Info,
   ExternalLink,
-  Vibrate
+  Vibrate,
+  ArchiveRestore
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { useTranslation } from 'react-i18next';
 import { useSettingsStore } from '../stores/appStore';
 import { isHapticsSupported } from '@/lib/utils';
 import { LanguageSelector } from '@/components/ui';
+import { VocabularyEditor } from '@/components/vocabulary';
+import { RecordingLocationPicker, RegistrationPatternInput } from '@/components/excavation';
+import { DatabaseCheck, FixityCheck, StoragePanel } from '@/components/data-management';
+import { validatePattern } from '@/lib/registration';
+import { db } from '@/lib/db';
 
 export function SettingsPage() {
-  const { theme, setTheme, hapticsEnabled, setHapticsEnabled } = useSettingsStore();
+  const {
+    theme,
+    setTheme,
+    hapticsEnabled,
+    setHapticsEnabled,
+    registrationPattern,
+    setRegistrationPattern,
+  } = useSettingsStore();
+  // Edited here, saved whenever it's a valid pattern
+  const [patternDraft, setPatternDraft] = useState(registrationPattern);
   const hapticsSupported = isHapticsSupported();
   const { t } = useTranslation();
+  const navigate = useNavigate();
+  const trashCount = useLiveQuery(() => db.trash.count(), []);
 
   return (
     <div className="px-4 py-6">
@@ -63,6 +82,36 @@ export function SettingsPage() {
         <LanguageSelector variant="full" />
       </section>
 
+      {/* Controlled Vocabularies */}
+      <section className="mb-8">
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-1">
+          {t('pages.settings.vocabularies')}
+        </h3>
+        <p className="text-sm text-stone-gray mb-4">{t('pages.settings.vocabulariesDesc')}</p>
+        <VocabularyEditor />
+      </section>
+
+      {/* Registration Numbers */}
+      <section className="mb-8">
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-1">
+          {t('pages.settings.registration')}
+        </h3>
+        <p className="text-sm text-stone-gray mb-4">{t('pages.settings.registrationDesc')}</p>
+        <label htmlFor="registration-pattern" className="text-xs font-medium text-stone-gray uppercase tracking-wide mb-1 block">
+          {t('pages.settings.registrationPattern')}
+        </label>
+        <RegistrationPatternInput
+          id="registration-pattern"
+          value={patternDraft}
+          onChange={(pattern) => {
+            setPatternDraft(pattern);
+            if (!validatePattern(pattern)) setRegistrationPattern(pattern);
+          }}
+          className="mb-4"
+        />
+        <RecordingLocationPicker />
+      </section>
+
       {/* Mobile Experience */}
       {hapticsSupported && (
         <section className="mb-8">
@@ -95,6 +144,31 @@ export function SettingsPage() {
         </section>
       )}
 
+      {/* Storage */}
+      <section id="storage" className="mb-8">
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-1">
+          {t('pages.settings.storage')}
+        </h3>
+        <p className="text-sm text-stone-gray mb-4">{t('pages.settings.storageDesc')}</p>
+        <StoragePanel />
+      </section>
+
+      {/* Database check */}
+      <section className="mb-8">
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-4">
+          {t('pages.settings.databaseCheck')}
+        </h3>
+        <DatabaseCheck />
+      </section>
+
+      {/* File checksums */}
+      <section className="mb-8">
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-4">
+          {t('pages.settings.fixityCheck')}
+        </h3>
+        <FixityCheck />
+      </section>
+
       {/* Data Management */}
       <section className="mb-8">
         <h3 className="font-heading text-lg font-semibold text-charcoal mb-4">
@@ -102,12 +176,10 @@ export function SettingsPage() {
         </h3>
         <div className="rounded-xl bg-aged-paper border border-desert-sand overflow-hidden divide-y divide-desert-sand">
           <SettingsButton
-            icon={Database}
-            title={t('pages.settings.storageUsed')}
-            subtitle={t('pages.settings.calculating')}
-            onClick={() => {
-              // TODO: Show storage details
-            }}
+            icon={ArchiveRestore}
+            title={t('pages.settings.trash')}
+            subtitle={t('pages.settings.trashDesc', { count: trashCount ?? 0 })}
+            onClick={() => navigate('/trash')}
           />
           <SettingsButton
             icon={Download}
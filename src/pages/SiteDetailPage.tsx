@@ -0,0 +1,496 @@
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowLeft, ChevronRight, MapPinned, Pencil, Plus, Save, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  findContext,
+  getArtifactsForSite,
+  getAreasForSite,
+  getContextsForSite,
+  getSeasonsForSite,
+  getSite,
+  saveArea,
+  saveContext,
+  saveSeason,
+  saveSite,
+} from '@/lib/db';
+import { generateId } from '@/lib/utils';
+import { CONTEXT_TYPES, formatContextLabel, isSameName } from '@/lib/excavation';
+import { validatePattern } from '@/lib/registration';
+import { useSettingsStore } from '@/stores';
+import { FindsList, RegistrationPatternInput } from '@/components/excavation';
+import { LoadingSpinner } from '@/components/ui';
+import type { Area, ExcavationContextType, Season, Site } from '@/types';
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50';
+const labelClassName = 'text-xs font-medium text-stone-gray uppercase tracking-wide mb-1 block';
+
+/**
+ * A site with its seasons, areas and contexts, and every find recorded at it
+ */
+export function SiteDetailPage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const site = useLiveQuery(async () => (await getSite(id)) ?? null, [id]);
+  const seasons = useLiveQuery(() => getSeasonsForSite(id), [id]);
+  const areas = useLiveQuery(() => getAreasForSite(id), [id]);
+  const contexts = useLiveQuery(() => getContextsForSite(id), [id]);
+  const artifacts = useLiveQuery(() => getArtifactsForSite(id), [id]);
+
+  const findCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const artifact of artifacts || []) {
+      if (artifact.contextId) counts.set(artifact.contextId, (counts.get(artifact.contextId) ?? 0) + 1);
+    }
+    return counts;
+  }, [artifacts]);
+
+  if (site === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (site === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center">
+          <MapPinned className="h-16 w-16 text-stone-gray/30 mx-auto mb-4" />
+          <h2 className="font-heading text-xl font-semibold text-charcoal mb-4">{t('pages.sites.notFound')}</h2>
+          <Link
+            to="/sites"
+            className="inline-flex items-center gap-2 rounded-lg bg-terracotta px-4 py-2 text-bone-white hover:bg-clay transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t('pages.sites.backToSites')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const areaNames = new Map((areas || []).map((area) => [area.id, area.name]));
+  const seasonNames = new Map((seasons || []).map((season) => [season.id, season.name]));
+
+  return (
+    <div className="px-4 py-6 pb-24 lg:px-8 space-y-8">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <Link to="/sites" className="rounded-full p-2 hover:bg-aged-paper transition-colors">
+          <ArrowLeft className="h-5 w-5 text-charcoal rtl:rotate-180" />
+        </Link>
+        <div className="flex-1 min-w-0">
+          <h1 className="font-heading text-xl font-bold text-sienna truncate">
+            {site.name}
+            {site.code && <span className="ms-2 text-sm font-normal text-stone-gray">{site.code}</span>}
+          </h1>
+          {site.region && <p className="text-sm text-stone-gray">{site.region}</p>}
+          {site.description && <p className="mt-1 text-sm text-charcoal whitespace-pre-line">{site.description}</p>}
+        </div>
+        {!isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-aged-paper border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+            {t('components.excavation.edit')}
+          </button>
+        )}
+      </div>
+
+      {isEditing && <SiteForm site={site} onClose={() => setIsEditing(false)} />}
+
+      {/* Seasons */}
+      <section>
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-3">{t('pages.sites.seasons')}</h3>
+        <NameList
+          names={(seasons || []).map((season) => ({ id: season.id, name: season.name }))}
+          empty={t('pages.sites.noSeasons')}
+        />
+        <AddNameForm
+          label={t('pages.sites.addSeason')}
+          placeholder={t('pages.sites.seasonPlaceholder')}
+          existingNames={(seasons || []).map((season) => season.name)}
+          onAdd={(name) => {
+            const now = new Date();
+            const season: Season = { id: `season-${generateId()}`, siteId: site.id, name, createdAt: now, updatedAt: now };
+            return saveSeason(season);
+          }}
+        />
+      </section>
+
+      {/* Areas */}
+      <section>
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-3">{t('pages.sites.areas')}</h3>
+        <NameList
+          names={(areas || []).map((area) => ({ id: area.id, name: area.name }))}
+          empty={t('pages.sites.noAreas')}
+        />
+        <AddNameForm
+          label={t('pages.sites.addArea')}
+          placeholder={t('components.excavation.areaNamePlaceholder')}
+          existingNames={(areas || []).map((area) => area.name)}
+          onAdd={(name) => {
+            const now = new Date();
+            const area: Area = { id: `area-${generateId()}`, siteId: site.id, name, createdAt: now, updatedAt: now };
+            return saveArea(area);
+          }}
+        />
+      </section>
+
+      {/* Contexts */}
+      <section>
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-3">{t('pages.sites.contexts')}</h3>
+        {contexts && contexts.length > 0 ? (
+          <ul className="rounded-xl border border-desert-sand bg-bone-white divide-y divide-desert-sand mb-3">
+            {contexts.map((context) => (
+              <li key={context.id}>
+                <Link
+                  to={`/sites/${site.id}/contexts/${context.id}`}
+                  className="flex items-center gap-3 px-3 py-2.5 hover:bg-aged-paper/50 transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-charcoal">{formatContextLabel(context, t)}</p>
+                    <p className="text-xs text-stone-gray truncate">
+                      {[
+                        context.areaId && areaNames.get(context.areaId),
+                        context.seasonId && seasonNames.get(context.seasonId),
+                        t('pages.sites.findCount', { count: findCounts.get(context.id) ?? 0 }),
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <ChevronRight className="h-4 w-4 text-stone-gray rtl:rotate-180" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-stone-gray mb-3">{t('pages.sites.noContexts')}</p>
+        )}
+        <NewContextForm siteId={site.id} areas={areas || []} seasons={seasons || []} />
+      </section>
+
+      {/* Finds */}
+      <section>
+        <h3 className="font-heading text-lg font-semibold text-charcoal mb-3">
+          {t('pages.sites.finds')}
+          {artifacts && <span className="ms-2 text-sm font-normal text-stone-gray">{artifacts.length}</span>}
+        </h3>
+        {artifacts === undefined ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <FindsList artifacts={artifacts} />
+        )}
+      </section>
+    </div>
+  );
+}
+
+function SiteForm({ site, onClose }: { site: Site; onClose: () => void }) {
+  const { t } = useTranslation();
+  const [name, setName] = useState(site.name);
+  const [code, setCode] = useState(site.code ?? '');
+  const [region, setRegion] = useState(site.region ?? '');
+  const [description, setDescription] = useState(site.description ?? '');
+  const [registrationPattern, setRegistrationPattern] = useState(site.registrationPattern ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const defaultPattern = useSettingsStore((s) => s.registrationPattern);
+
+  const patternError = registrationPattern.trim() ? validatePattern(registrationPattern.trim()) : null;
+  const canSave = name.trim().length > 0 && !patternError && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      await saveSite({
+        ...site,
+        name: name.trim(),
+        code: code.trim() || undefined,
+        region: region.trim() || undefined,
+        description: description.trim() || undefined,
+        registrationPattern: registrationPattern.trim() || undefined,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save site:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-desert-sand bg-aged-paper/50 p-4 space-y-3">
+      <div>
+        <label htmlFor="site-name" className={labelClassName}>{t('components.excavation.siteName')}</label>
+        <input
+          id="site-name"
+          type="text"
+          dir="auto"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isSaving}
+          className={inputClassName}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="site-code" className={labelClassName}>{t('components.excavation.siteCode')}</label>
+          <input
+            id="site-code"
+            type="text"
+            dir="ltr"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={t('components.excavation.siteCodePlaceholder')}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="site-region" className={labelClassName}>{t('components.excavation.region')}</label>
+          <input
+            id="site-region"
+            type="text"
+            dir="auto"
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor="site-description" className={labelClassName}>{t('components.excavation.description')}</label>
+        <textarea
+          id="site-description"
+          dir="auto"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          disabled={isSaving}
+          className={`${inputClassName} resize-none`}
+        />
+      </div>
+      <div>
+        <label htmlFor="site-registration-pattern" className={labelClassName}>
+          {t('components.registration.sitePattern')}
+        </label>
+        <RegistrationPatternInput
+          id="site-registration-pattern"
+          value={registrationPattern}
+          onChange={setRegistrationPattern}
+          site={{ ...site, name: name.trim() || site.name, code: code.trim() || undefined }}
+          placeholder={defaultPattern}
+          disabled={isSaving}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-3.5 w-3.5" />}
+          {t('components.excavation.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSaving}
+          className="ms-auto p-1.5 rounded-lg text-stone-gray hover:text-charcoal hover:bg-aged-paper transition-colors"
+          aria-label={t('common.buttons.cancel')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function NameList({ names, empty }: { names: { id: string; name: string }[]; empty: string }) {
+  if (names.length === 0) {
+    return <p className="text-sm text-stone-gray mb-3">{empty}</p>;
+  }
+  return (
+    <ul className="flex flex-wrap gap-2 mb-3">
+      {names.map(({ id, name }) => (
+        <li key={id} className="px-2.5 py-1 rounded-full bg-aged-paper border border-desert-sand text-sm text-charcoal">
+          {name}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface AddNameFormProps {
+  label: string;
+  placeholder: string;
+  existingNames: string[];
+  onAdd: (name: string) => Promise<unknown>;
+}
+
+/**
+ * One-field form for adding a season or an area
+ */
+function AddNameForm({ label, placeholder, existingNames, onAdd }: AddNameFormProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDuplicate = existingNames.some((existing) => isSameName(existing, name));
+  const canAdd = name.trim().length > 0 && !isDuplicate && !isSaving;
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    setIsSaving(true);
+    try {
+      await onAdd(name.trim());
+      setName('');
+    } catch (error) {
+      console.error('Failed to add:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <input
+        type="text"
+        dir="auto"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        placeholder={placeholder}
+        aria-label={label}
+        disabled={isSaving}
+        className={inputClassName}
+      />
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={!canAdd}
+        className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50 whitespace-nowrap"
+      >
+        {isSaving ? <LoadingSpinner size="sm" /> : <Plus className="h-4 w-4" />}
+        {label}
+      </button>
+    </div>
+  );
+}
+
+interface NewContextFormProps {
+  siteId: string;
+  areas: Area[];
+  seasons: Season[];
+}
+
+function NewContextForm({ siteId, areas, seasons }: NewContextFormProps) {
+  const { t } = useTranslation();
+  const [type, setType] = useState<ExcavationContextType>('locus');
+  const [number, setNumber] = useState('');
+  const [areaId, setAreaId] = useState('');
+  const [seasonId, setSeasonId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleAdd = async () => {
+    if (!number.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      if (await findContext(siteId, number)) {
+        alert(t('components.excavation.contextExists', { number: number.trim() }));
+        return;
+      }
+      const now = new Date();
+      await saveContext({
+        id: `context-${generateId()}`,
+        siteId,
+        areaId: areaId || undefined,
+        seasonId: seasonId || undefined,
+        number: number.trim(),
+        type,
+        createdAt: now,
+        updatedAt: now,
+      });
+      setNumber('');
+    } catch (error) {
+      console.error('Failed to add context:', error);
+      alert(t('components.excavation.failedToSave'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-desert-sand bg-aged-paper/50 p-3 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as ExcavationContextType)}
+          aria-label={t('components.excavation.contextType')}
+          disabled={isSaving}
+          className={inputClassName}
+        >
+          {CONTEXT_TYPES.map((option) => (
+            <option key={option} value={option}>{t(`components.excavation.types.${option}`)}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          dir="auto"
+          value={number}
+          onChange={(e) => setNumber(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={t('components.excavation.numberPlaceholder')}
+          aria-label={t('components.excavation.number')}
+          disabled={isSaving}
+          className={inputClassName}
+        />
+        <select
+          value={areaId}
+          onChange={(e) => setAreaId(e.target.value)}
+          aria-label={t('components.excavation.area')}
+          disabled={isSaving}
+          className={inputClassName}
+        >
+          <option value="">{t('components.excavation.noArea')}</option>
+          {areas.map((area) => (
+            <option key={area.id} value={area.id}>{area.name}</option>
+          ))}
+        </select>
+        <select
+          value={seasonId}
+          onChange={(e) => setSeasonId(e.target.value)}
+          aria-label={t('components.excavation.season')}
+          disabled={isSaving}
+          className={inputClassName}
+        >
+          <option value="">{t('components.excavation.noSeason')}</option>
+          {seasons.map((season) => (
+            <option key={season.id} value={season.id}>{season.name}</option>
+          ))}
+        </select>
+      </div>
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={!number.trim() || isSaving}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+      >
+        {isSaving ? <LoadingSpinner size="sm" /> : <Plus className="h-3.5 w-3.5" />}
+        {t('pages.sites.addContext')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ChevronRight, MapPinned, Plus, Save, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { db, getSites, saveSite } from '@/lib/db';
+import { generateId } from '@/lib/utils';
+import { isSameName } from '@/lib/excavation';
+import { LoadingSpinner } from '@/components/ui';
+
+/**
+ * The excavation sites, with how many finds and contexts each has recorded
+ */
+export function SitesPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [isAdding, setIsAdding] = useState(false);
+
+  const sites = useLiveQuery(() => getSites(), []);
+  const artifacts = useLiveQuery(() => db.artifacts.toArray(), []);
+  const contexts = useLiveQuery(() => db.contexts.toArray(), []);
+
+  const counts = useMemo(() => {
+    const finds = new Map<string, number>();
+    for (const artifact of artifacts || []) {
+      if (artifact.siteId) finds.set(artifact.siteId, (finds.get(artifact.siteId) ?? 0) + 1);
+    }
+    const contextCounts = new Map<string, number>();
+    for (const context of contexts || []) {
+      contextCounts.set(context.siteId, (contextCounts.get(context.siteId) ?? 0) + 1);
+    }
+    return { finds, contexts: contextCounts };
+  }, [artifacts, contexts]);
+
+  return (
+    <div className="px-4 py-6 pb-24 lg:px-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <div className="flex items-center justify-center w-10 h-10 rounded-xl bg-gradient-to-br from-terracotta to-clay">
+            <MapPinned className="w-5 h-5 text-bone-white" />
+          </div>
+          <div>
+            <h1 className="font-heading text-xl font-bold text-sienna">{t('pages.sites.title')}</h1>
+            <p className="text-sm text-stone-gray">{t('pages.sites.subtitle')}</p>
+          </div>
+        </div>
+
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-terracotta text-bone-white text-sm font-medium hover:bg-clay transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {t('pages.sites.newSite')}
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <NewSiteForm
+          existingNames={(sites || []).map((site) => site.name)}
+          onClose={() => setIsAdding(false)}
+          onSave={(id) => navigate(`/sites/${id}`)}
+        />
+      )}
+
+      {sites === undefined ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : sites.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+          <div className="w-16 h-16 rounded-full bg-aged-paper border-2 border-desert-sand flex items-center justify-center mb-4">
+            <MapPinned className="w-8 h-8 text-stone-gray/50" />
+          </div>
+          <h3 className="font-heading text-lg font-semibold text-charcoal mb-2">{t('pages.sites.noSites')}</h3>
+          <p className="text-sm text-stone-gray max-w-xs">{t('pages.sites.noSitesDesc')}</p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {sites.map((site) => (
+            <li key={site.id}>
+              <Link
+                to={`/sites/${site.id}`}
+                className="flex items-center gap-3 p-4 rounded-xl bg-bone-white border border-desert-sand hover:bg-aged-paper/50 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-charcoal truncate">
+                    {site.name}
+                    {site.code && <span className="ms-2 text-xs text-stone-gray">{site.code}</span>}
+                  </p>
+                  <p className="text-xs text-stone-gray">
+                    {[
+                      site.region,
+                      t('pages.sites.findCount', { count: counts.finds.get(site.id) ?? 0 }),
+                      t('pages.sites.contextCount', { count: counts.contexts.get(site.id) ?? 0 }),
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <ChevronRight className="h-4 w-4 text-stone-gray rtl:rotate-180" />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface NewSiteFormProps {
+  existingNames: string[];
+  onClose: () => void;
+  onSave: (id: string) => void;
+}
+
+function NewSiteForm({ existingNames, onClose, onSave }: NewSiteFormProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const [region, setRegion] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDuplicate = existingNames.some((existing) => isSameName(existing, name));
+  const canSave = name.trim().length > 0 && !isDuplicate && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      const now = new Date();
+      const id = await saveSite({
+        id: `site-${generateId()}`,
+        name: name.trim(),
+        code: code.trim() || undefined,
+        region: region.trim() || undefined,
+        createdAt: now,
+        updatedAt: now,
+      });
+      onSave(id);
+    } catch (error) {
+      console.error('Failed to save site:', error);
+      alert(t('components.excavation.failedToSave'));
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta disabled:opacity-50';
+  const labelClassName = 'text-xs font-medium text-stone-gray uppercase tracking-wide mb-1 block';
+
+  return (
+    <div className="mb-6 rounded-xl border border-desert-sand bg-aged-paper/50 p-4 space-y-3">
+      <div>
+        <label htmlFor="new-site-name" className={labelClassName}>{t('components.excavation.siteName')}</label>
+        <input
+          id="new-site-name"
+          type="text"
+          dir="auto"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('components.excavation.siteNamePlaceholder')}
+          disabled={isSaving}
+          className={inputClassName}
+        />
+        {isDuplicate && <p className="mt-1 text-xs text-rust-red">{t('pages.sites.siteExists')}</p>}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="new-site-code" className={labelClassName}>{t('components.excavation.siteCode')}</label>
+          <input
+            id="new-site-code"
+            type="text"
+            dir="ltr"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={t('components.excavation.siteCodePlaceholder')}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="new-site-region" className={labelClassName}>{t('components.excavation.region')}</label>
+          <input
+            id="new-site-region"
+            type="text"
+            dir="auto"
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-3.5 w-3.5" />}
+          {t('components.excavation.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSaving}
+          className="ms-auto p-1.5 rounded-lg text-stone-gray hover:text-charcoal hover:bg-aged-paper transition-colors"
+          aria-label={t('common.buttons.cancel')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
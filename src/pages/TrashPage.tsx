@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowLeft, Box, FileText, Image, Palette, RotateCcw, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  TrashRestoreError,
+  emptyTrash,
+  getTrash,
+  getTrashEntrySize,
+  purgeTrashEntries,
+  restoreFromTrash,
+} from '@/lib/db';
+import { formatBytes, formatDate } from '@/lib/utils';
+import { useSettingsStore } from '@/stores';
+import { LoadingSpinner } from '@/components/ui';
+import type { TrashEntry } from '@/types';
+
+const RETENTION_OPTIONS = [7, 30, 90, 365];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted artifacts, photos and color variants, to restore or purge before
+ * the retention period does
+ */
+export function TrashPage() {
+  const { t } = useTranslation();
+  const { trashRetentionDays, setTrashRetentionDays } = useSettingsStore();
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  // Days left are counted from when the page opened
+  const [now] = useState(Date.now);
+
+  const entries = useLiveQuery(() => getTrash(), []);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setWorkingId(entry.id);
+    try {
+      await restoreFromTrash(entry.id);
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      alert(error instanceof TrashRestoreError ? t('pages.trash.restoreArtifactFirst') : t('pages.trash.failedToRestore'));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handlePurge = async (entry: TrashEntry) => {
+    setWorkingId(entry.id);
+    try {
+      await purgeTrashEntries([entry.id]);
+    } catch (error) {
+      console.error('Failed to purge from trash:', error);
+      alert(t('pages.trash.failedToPurge'));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    setConfirmEmpty(false);
+    try {
+      await emptyTrash();
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      alert(t('pages.trash.failedToPurge'));
+    }
+  };
+
+  return (
+    <div className="px-4 py-6 pb-24 lg:px-8">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <Link to="/settings" className="rounded-full p-2 hover:bg-aged-paper transition-colors">
+          <ArrowLeft className="h-5 w-5 text-charcoal rtl:rotate-180" />
+        </Link>
+        <div className="flex-1">
+          <h1 className="font-heading text-xl font-bold text-sienna">{t('pages.trash.title')}</h1>
+          <p className="text-sm text-stone-gray">{t('pages.trash.subtitle')}</p>
+        </div>
+        {entries && entries.length > 0 && (
+          <button
+            onClick={() => setConfirmEmpty(true)}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-aged-paper border border-desert-sand text-sm text-rust-red hover:bg-desert-sand/50 transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+            {t('pages.trash.empty')}
+          </button>
+        )}
+      </div>
+
+      {confirmEmpty && (
+        <div className="mb-4 rounded-lg bg-gold-ochre/10 border border-gold-ochre/30 p-3 space-y-2">
+          <p className="text-sm text-charcoal">{t('pages.trash.confirmEmpty')}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleEmpty}
+              className="px-3 py-1.5 rounded-lg bg-rust-red text-bone-white text-sm hover:bg-rust-red/90 transition-colors"
+            >
+              {t('pages.trash.empty')}
+            </button>
+            <button
+              onClick={() => setConfirmEmpty(false)}
+              className="px-3 py-1.5 rounded-lg bg-bone-white border border-desert-sand text-sm text-charcoal hover:bg-desert-sand/50 transition-colors"
+            >
+              {t('common.buttons.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Retention */}
+      <div className="mb-6 rounded-xl bg-aged-paper border border-desert-sand p-4">
+        <label htmlFor="trash-retention" className="text-xs font-medium text-stone-gray uppercase tracking-wide mb-1 block">
+          {t('pages.trash.retention')}
+        </label>
+        <select
+          id="trash-retention"
+          value={trashRetentionDays}
+          onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+          className="w-full px-3 py-2 rounded-lg border border-desert-sand bg-bone-white text-sm text-charcoal focus:outline-none focus:ring-2 focus:ring-terracotta/30 focus:border-terracotta"
+        >
+          {RETENTION_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {t('pages.trash.retentionDays', { count: days })}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-stone-gray">{t('pages.trash.retentionDesc')}</p>
+      </div>
+
+      {entries === undefined ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+          <div className="w-16 h-16 rounded-full bg-aged-paper border-2 border-desert-sand flex items-center justify-center mb-4">
+            <Trash2 className="w-8 h-8 text-stone-gray/50" />
+          </div>
+          <h3 className="font-heading text-lg font-semibold text-charcoal mb-2">{t('pages.trash.isEmpty')}</h3>
+          <p className="text-sm text-stone-gray max-w-xs">{t('pages.trash.isEmptyDesc')}</p>
+        </div>
+      ) : (
+        <ul className="rounded-xl bg-aged-paper border border-desert-sand divide-y divide-desert-sand overflow-hidden">
+          {entries.map((entry) => (
+            <TrashEntryItem
+              key={entry.id}
+              entry={entry}
+              retentionDays={trashRetentionDays}
+              now={now}
+              isWorking={workingId === entry.id}
+              onRestore={() => handleRestore(entry)}
+              onPurge={() => handlePurge(entry)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface TrashEntryItemProps {
+  entry: TrashEntry;
+  retentionDays: number;
+  now: number;
+  isWorking: boolean;
+  onRestore: () => void;
+  onPurge: () => void;
+}
+
+function TrashEntryItem({ entry, retentionDays, now, isWorking, onRestore, onPurge }: TrashEntryItemProps) {
+  const { t } = useTranslation();
+
+  const previewBlob = entry.artifact?.thumbnailBlob ?? entry.images[0]?.blob ?? entry.colorVariants[0]?.blob;
+  const previewUrl = useMemo(() => (previewBlob ? URL.createObjectURL(previewBlob) : null), [previewBlob]);
+
+  // Cleanup object URL on unmount
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const name = entry.artifact
+    ? entry.artifact.metadata?.name || entry.artifact.registrationNumber || t('pages.gallery.unnamedArtifact')
+    : t(`pages.trash.kinds.${entry.kind}`);
+  const daysLeft = Math.max(0, Math.ceil((entry.deletedAt.getTime() + retentionDays * DAY - now) / DAY));
+  const Icon = entry.kind === 'colorVariant' ? Palette : entry.kind === 'model' ? Box : entry.kind === 'infoCard' ? FileText : Image;
+
+  return (
+    <li className="flex items-center gap-3 p-3">
+      <div className="w-14 h-14 rounded-lg bg-desert-sand/40 overflow-hidden shrink-0 flex items-center justify-center">
+        {previewUrl ? (
+          <img src={previewUrl} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <Icon className="h-6 w-6 text-stone-gray/50" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-charcoal truncate">{name}</p>
+        <p className="text-xs text-stone-gray truncate">
+          {t('pages.trash.deletedOn', { date: formatDate(entry.deletedAt) })} · {formatBytes(getTrashEntrySize(entry))}
+        </p>
+        <p className="text-xs text-stone-gray">{t('pages.trash.daysLeft', { count: daysLeft })}</p>
+      </div>
+      {isWorking ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={onRestore}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-terracotta text-bone-white text-sm hover:bg-clay transition-colors"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            {t('pages.trash.restore')}
+          </button>
+          <button
+            onClick={onPurge}
+            className="p-2 rounded-lg text-rust-red hover:bg-rust-red/10 transition-colors"
+            aria-label={t('pages.trash.deleteForever')}
+            title={t('pages.trash.deleteForever')}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -1,6 +1,14 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { ProcessingStatus, ProcessingStep } from '@/types';
+import { DEFAULT_PRESET_ID, DEFAULT_RECONSTRUCTION_PARAMS } from '@/lib/api/reconstructionPresets';
+import { DEFAULT_REGISTRATION_PATTERN } from '@/lib/registration';
+import type {
+  ProcessingStatus,
+  ProcessingStep,
+  ReconstructionParams,
+  ReconstructionPreset,
+  TrashKind,
+} from '@/types';
 
 /**
  * Main application store
@@ -17,6 +25,14 @@ interface AppState {
   // UI state
   isOnline: boolean;
   isSidebarOpen: boolean;
+  /** What was just moved to the trash, offered to undo */
+  lastDeleted: {
+    trashEntryId: string;
+    kind: TrashKind;
+    name?: string;
+    /** Called once it's back, for views that don't update by themselves */
+    onRestored?: () => void;
+  } | null;
 
   // Actions
   setCurrentArtifact: (id: string | null) => void;
@@ -27,6 +43,7 @@ interface AppState {
   setOnlineStatus: (isOnline: boolean) => void;
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
+  setLastDeleted: (deleted: AppState['lastDeleted']) => void;
 }
 
 export const useAppStore = create<AppState>()((set, get) => ({
@@ -35,6 +52,7 @@ export const useAppStore = create<AppState>()((set, get) => ({
   processingStatus: null,
   isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
   isSidebarOpen: false,
+  lastDeleted: null,
 
   // Actions
   setCurrentArtifact: (id) => set({ currentArtifactId: id }),
@@ -85,6 +103,8 @@ export const useAppStore = create<AppState>()((set, get) => ({
   toggleSidebar: () => set((state) => ({ isSidebarOpen: !state.isSidebarOpen })),
 
   setSidebarOpen: (open) => set({ isSidebarOpen: open }),
+
+  setLastDeleted: (deleted) => set({ lastDeleted: deleted }),
 }));
 
 /**
@@ -102,9 +122,29 @@ interface SettingsState {
   // 3D reconstruction preferences
   default3DMethod: 'single' | 'multi';
   autoRemoveBackground: boolean;
+  /** Parameters for the next reconstruction */
+  reconstructionParams: ReconstructionParams;
+  /** Preset the parameters came from; null once they are edited */
+  reconstructionPresetId: string | null;
+  customReconstructionPresets: ReconstructionPreset[];
 
   // Info card preferences
   autoGenerateInfoCard: boolean;
+  /** Also generate info cards in the other interface language */
+  bilingualInfoCards: boolean;
+  /** Name entered when reviewing info cards, filled in for the next review */
+  reviewerName: string;
+
+  // Recording preferences
+  /** Pattern for registration numbers at sites without their own */
+  registrationPattern: string;
+  /** Site and context new finds are recorded in */
+  recordingSiteId: string | null;
+  recordingContextId: string | null;
+
+  // Data preferences
+  /** Days deleted items stay in the trash before they're purged */
+  trashRetentionDays: number;
 
   // Mobile UX preferences
   hapticsEnabled: boolean;
@@ -114,7 +154,16 @@ interface SettingsState {
   setLanguage: (language: 'en' | 'he' | 'system') => void;
   setDefault3DMethod: (method: 'single' | 'multi') => void;
   setAutoRemoveBackground: (auto: boolean) => void;
+  applyReconstructionPreset: (preset: ReconstructionPreset) => void;
+  setReconstructionParams: (params: ReconstructionParams, presetId?: string | null) => void;
+  saveReconstructionPreset: (name: string) => string;
+  deleteReconstructionPreset: (id: string) => void;
   setAutoGenerateInfoCard: (auto: boolean) => void;
+  setBilingualInfoCards: (bilingual: boolean) => void;
+  setReviewerName: (name: string) => void;
+  setRegistrationPattern: (pattern: string) => void;
+  setRecordingLocation: (siteId: string | null, contextId?: string | null) => void;
+  setTrashRetentionDays: (days: number) => void;
   setHapticsEnabled: (enabled: boolean) => void;
 }
 
@@ -126,7 +175,16 @@ export const useSettingsStore = create<SettingsState>()(
       language: 'system', // Auto-detect from browser
       default3DMethod: 'single',
       autoRemoveBackground: true,
+      reconstructionParams: DEFAULT_RECONSTRUCTION_PARAMS,
+      reconstructionPresetId: DEFAULT_PRESET_ID,
+      customReconstructionPresets: [],
       autoGenerateInfoCard: true,
+      bilingualInfoCards: false,
+      reviewerName: '',
+      registrationPattern: DEFAULT_REGISTRATION_PATTERN,
+      recordingSiteId: null,
+      recordingContextId: null,
+      trashRetentionDays: 30,
       hapticsEnabled: true, // Enabled by default on supported devices
 
       // Actions
@@ -134,7 +192,36 @@ export const useSettingsStore = create<SettingsState>()(
       setLanguage: (language) => set({ language }),
       setDefault3DMethod: (method) => set({ default3DMethod: method }),
       setAutoRemoveBackground: (auto) => set({ autoRemoveBackground: auto }),
+      applyReconstructionPreset: (preset) =>
+        set({ reconstructionParams: preset.params, reconstructionPresetId: preset.id }),
+      setReconstructionParams: (params, presetId = null) =>
+        set({ reconstructionParams: params, reconstructionPresetId: presetId }),
+      saveReconstructionPreset: (name) => {
+        const id = `custom-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        set((state) => ({
+          customReconstructionPresets: [
+            ...state.customReconstructionPresets,
+            { id, name, params: state.reconstructionParams },
+          ],
+          reconstructionPresetId: id,
+        }));
+        return id;
+      },
+      deleteReconstructionPreset: (id) =>
+        set((state) => ({
+          customReconstructionPresets: state.customReconstructionPresets.filter(
+            (preset) => preset.id !== id
+          ),
+          reconstructionPresetId:
+            state.reconstructionPresetId === id ? null : state.reconstructionPresetId,
+        })),
       setAutoGenerateInfoCard: (auto) => set({ autoGenerateInfoCard: auto }),
+      setBilingualInfoCards: (bilingual) => set({ bilingualInfoCards: bilingual }),
+      setReviewerName: (name) => set({ reviewerName: name }),
+      setRegistrationPattern: (pattern) => set({ registrationPattern: pattern }),
+      setRecordingLocation: (siteId, contextId = null) =>
+        set({ recordingSiteId: siteId, recordingContextId: contextId }),
+      setTrashRetentionDays: (days) => set({ trashRetentionDays: days }),
       setHapticsEnabled: (enabled) => set({ hapticsEnabled: enabled }),
     }),
     {
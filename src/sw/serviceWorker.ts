@@ -0,0 +1,166 @@
+/**
+ * Service Worker - offline-first app shell and background queue processing
+ *
+ * Built separately from the app by the service worker plugin in vite.config.ts,
+ * which also injects the precache list and cache version.
+ */
+
+import { processQueue, getQueuedOperations } from '@/lib/api/offlineQueue';
+import { isUpgradePending } from '@/lib/db';
+import { QUEUE_SYNC_TAG } from '@/lib/pwa/backgroundSync';
+import { showQueueNotification } from '@/lib/pwa/notifications';
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __CACHE_VERSION__: string;
+declare const __PRECACHE_URLS__: string[];
+
+/** Background Sync / Periodic Background Sync events (not in lib.webworker yet) */
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+  readonly lastChance?: boolean;
+}
+
+const CACHE_PREFIX = 'relic-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}${__CACHE_VERSION__}`;
+
+// Navigations to a file (a name with an extension) go to the network;
+// every other path is a client-side route, served with index.html
+const STATIC_ASSET = /\/[^/]+\.[^/]+$/;
+
+self.addEventListener('install', (event) => {
+  // Precache the app shell; the new worker then waits until the app asks it to take over
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(__PRECACHE_URLS__))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Remove app shell caches from previous versions
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  // Sent by the "new version available" prompt
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Only handle our own origin, and never cache API calls
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith('/.netlify/')) return;
+
+  if (request.mode === 'navigate') {
+    if (!STATIC_ASSET.test(url.pathname)) {
+      event.respondWith(serveAppShell(request));
+    }
+    return;
+  }
+
+  event.respondWith(cacheFirst(request));
+});
+
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === QUEUE_SYNC_TAG) {
+    syncEvent.waitUntil(drainQueue(true));
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === QUEUE_SYNC_TAG) {
+    syncEvent.waitUntil(drainQueue(false));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(focusOrOpenApp());
+});
+
+/**
+ * Serve index.html from the cache, falling back to the network
+ */
+async function serveAppShell(request: Request): Promise<Response> {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match('/index.html');
+  if (cached) return cached;
+
+  try {
+    return await fetch(request);
+  } catch (error) {
+    // Last resort: any cached shell from an older version
+    const fallback = await caches.match('/index.html');
+    if (fallback) return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Serve precached files from the cache, everything else from the network
+ */
+async function cacheFirst(request: Request): Promise<Response> {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  return cached || fetch(request);
+}
+
+/**
+ * Send the queued AI jobs and notify the user about the outcome
+ * A one-off sync rejects while jobs remain, so the browser retries it later.
+ * Reconstructions are only started or checked on: the browser ends a sync
+ * event after a few minutes, and the page or a later sync fetches the model.
+ */
+async function drainQueue(retryOnFailure: boolean): Promise<void> {
+  // The app migrates the database, backing it up first; opening it here
+  // would migrate it without
+  if (await isUpgradePending()) return;
+  if ((await getQueuedOperations()).length === 0) return;
+
+  const result = await processQueue({ waitForJobs: false });
+
+  if (!(await hasVisibleClient())) {
+    await showQueueNotification(result, self.navigator.language, self.registration);
+  }
+
+  if (retryOnFailure && result.remaining > 0) {
+    throw new Error(`${result.remaining} queued operation(s) still pending`);
+  }
+}
+
+/**
+ * Whether the user is currently looking at the app
+ */
+async function hasVisibleClient(): Promise<boolean> {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  return windows.some((client) => client.visibilityState === 'visible');
+}
+
+/**
+ * Focus an open app window, or open one, when a notification is clicked
+ */
+async function focusOrOpenApp(): Promise<void> {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length > 0) {
+    await windows[0].focus();
+    return;
+  }
+  await self.clients.openWindow('/');
+}
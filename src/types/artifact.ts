@@ -2,14 +2,21 @@
  * Core artifact types for the archaeology app
  */
 
+import type { ModelGeneration } from './reconstruction';
+import type { VocabularyMatches, VocabularyName } from './vocabulary';
+
 export interface ArtifactImage {
   id: string;
   artifactId: string;
   blob: Blob;
+  /** SHA-256 digest of the file, hex; taken when it's saved */
+  sha256?: string;
   angle: ImageAngle;
   createdAt: Date;
   width: number;
   height: number;
+  /** When the full-resolution photo was replaced by a smaller copy to save space */
+  downscaledAt?: Date;
 }
 
 export type ImageAngle =
@@ -26,9 +33,15 @@ export interface Model3D {
   id: string;
   artifactId: string;
   blob: Blob;
+  /** SHA-256 digest of the file, hex; taken when it's saved */
+  sha256?: string;
   format: 'glb' | 'gltf' | 'obj';
   createdAt: Date;
   source: '3d-single' | '3d-multi';
+  /** Images the model was generated from, primary view first */
+  sourceImageIds?: string[];
+  /** Method, parameters and seed the model was generated with */
+  generation?: ModelGeneration;
   metadata?: {
     vertices?: number;
     faces?: number;
@@ -58,15 +71,163 @@ export interface InfoCard {
   aiModel: string;
   aiConfidence: number;
   isHumanEdited: boolean;
+  /**
+   * Fields a human has edited; AI regeneration must not replace these without
+   * confirmation (cards edited before this was recorded have isHumanEdited only)
+   */
+  humanEditedFields?: InfoCardField[];
+  /** Images the card was derived from */
+  sourceImageIds?: string[];
 
   // Required disclaimer
   disclaimer: string;
+
+  /** Language of the fields above (cards from before this was recorded are English) */
+  language?: 'en' | 'he';
+  /** The AI text in other languages, for bilingual cards */
+  translations?: Partial<Record<'en' | 'he', InfoCardTranslation>>;
+
+  /**
+   * estimatedAge.range as years, for sorting and the timeline; absent when
+   * the range isn't a recognisable date
+   */
+  dateSpan?: DateSpan;
+
+  /** Follow-up questions about the artifact and the AI's answers, oldest first */
+  questions?: InfoCardQuestion[];
+
+  /** Specialist review; cards without one are AI drafts */
+  review?: InfoCardReview;
+
+  /** Material, possible use and age mapped to controlled vocabulary terms */
+  terms?: VocabularyMatches;
+}
+
+export type InfoCardReviewStatus =
+  | 'ai-draft'  // Not looked at by a specialist yet
+  | 'in-review' // A specialist is checking it
+  | 'verified'  // Signed off by a specialist
+  | 'rejected'; // Found unreliable by a specialist
+
+/**
+ * A specialist's review of an info card
+ */
+export interface InfoCardReview {
+  status: InfoCardReviewStatus;
+  /** Who reviewed the card */
+  reviewerName?: string;
+  /** When the status last changed */
+  reviewedAt?: Date;
+  /** Overall comment */
+  comment?: string;
+  /** Comments on individual fields */
+  fieldComments?: Partial<Record<InfoCardField, string>>;
+}
+
+/**
+ * A date range in years; BCE years are negative and there is no year 0
+ */
+export interface DateSpan {
+  /** Earliest year */
+  start: number;
+  /** Latest year */
+  end: number;
+  /** Years either side the range may extend, for circa dates */
+  uncertainty: number;
+}
+
+/**
+ * The fields of a card that can be edited or regenerated one at a time
+ */
+export type InfoCardField =
+  | 'material'
+  | 'estimatedAge'
+  | 'possibleUse'
+  | 'culturalContext'
+  | 'similarArtifacts'
+  | 'preservationNotes';
+
+/**
+ * One question in an info card's Q&A thread
+ */
+export interface InfoCardQuestion {
+  id: string;
+  question: string;
+  answer: string;
+  askedAt: Date;
+  aiModel: string;
+}
+
+/**
+ * An info card's text in one language
+ */
+export type InfoCardTranslation = Pick<
+  InfoCard,
+  | 'material'
+  | 'estimatedAge'
+  | 'possibleUse'
+  | 'culturalContext'
+  | 'similarArtifacts'
+  | 'preservationNotes'
+  | 'disclaimer'
+>;
+
+/**
+ * The content of an info card at one point in its history
+ */
+export type InfoCardContent = Pick<
+  InfoCard,
+  | 'material'
+  | 'estimatedAge'
+  | 'possibleUse'
+  | 'culturalContext'
+  | 'similarArtifacts'
+  | 'preservationNotes'
+  | 'aiConfidence'
+  | 'isHumanEdited'
+  | 'humanEditedFields'
+  | 'language'
+  | 'translations'
+>;
+
+export type InfoCardRevisionAction =
+  | 'generated'   // New card from the AI
+  | 'edited'      // Changed in the editor
+  | 'regenerated' // One field regenerated by the AI
+  | 'restored'    // An earlier revision restored
+  | 'imported';   // Card brought in from an export
+
+/**
+ * A saved revision of an artifact's info card
+ * Kept per artifact, so a card's history survives regenerating the card
+ */
+export interface InfoCardRevision {
+  id: string;
+  artifactId: string;
+  /** Card the revision was made to */
+  infoCardId: string;
+  createdAt: Date;
+
+  /** Who produced the revision */
+  author: 'ai' | 'human';
+  /** Model, for AI revisions */
+  aiModel?: string;
+  action: InfoCardRevisionAction;
+  /** Revision brought back, for 'restored' */
+  restoredFrom?: string;
+
+  /** Fields that differ from the previous revision */
+  changedFields: InfoCardField[];
+  /** The card's content after the change */
+  content: InfoCardContent;
 }
 
 export interface ColorVariant {
   id: string;
   artifactId: string;
   blob: Blob;
+  /** SHA-256 digest of the file, hex; taken when it's saved */
+  sha256?: string;
   createdAt: Date;
 
   colorScheme: ColorScheme;
@@ -89,12 +250,21 @@ export type ColorScheme =
 export interface ArtifactMetadata {
   // User-provided
   name?: string;
+  /**
+   * Free-text find spot from before sites and contexts were recorded;
+   * kept only where it couldn't be moved to a site (see Artifact.contextId)
+   */
   discoveryLocation?: string;
   excavationLayer?: string;
   siteName?: string;
   dateFound?: Date;
   notes?: string;
 
+  // Identification by the finder, preferably vocabulary terms
+  material?: string;
+  period?: string;
+  objectType?: string;
+
   // GPS coordinates (optional)
   coordinates?: {
     latitude: number;
@@ -114,6 +284,14 @@ export interface Artifact {
   createdAt: Date;
   updatedAt: Date;
 
+  /** Registration (find) number, unique across the database */
+  registrationNumber?: string;
+  /**
+   * Numbers the artifact had before, when it was renumbered because its
+   * number was taken on import; oldest first
+   */
+  formerRegistrationNumbers?: string[];
+
   // Status
   status: ArtifactStatus;
 
@@ -121,18 +299,32 @@ export interface Artifact {
   imageIds: string[];
   model3DId?: string;
   infoCardId?: string;
+  /** Review status of the info card, kept here for filtering the gallery */
+  infoCardReviewStatus?: InfoCardReviewStatus;
+  /** Vocabulary term ids of the info card, kept here for filtering the gallery */
+  infoCardTerms?: Partial<Record<VocabularyName, string>>;
   colorVariantIds: string[];
 
+  // Find spot; area and site follow from the context and are kept here for
+  // listing finds (an artifact may have a site without a context yet)
+  siteId?: string;
+  areaId?: string;
+  contextId?: string;
+
   // Inline metadata
   metadata: ArtifactMetadata;
 
   // Thumbnail for gallery (compressed)
   thumbnailBlob?: Blob;
+
+  /** Last time the artifact was saved to an export file */
+  exportedAt?: Date;
 }
 
 export type ArtifactStatus =
   | 'draft'           // Just created, no processing done
   | 'images-captured' // Images uploaded
+  | 'queued'          // Waiting in the offline queue
   | 'processing-3d'   // 3D reconstruction in progress
   | 'processing-info' // Info card generation in progress
   | 'complete'        // All processing done
@@ -0,0 +1,27 @@
+/**
+ * Stored file types
+ *
+ * The files of photos, models and color variants are kept apart from their
+ * records, once per content: records refer to them by SHA-256 digest, so a
+ * photo imported twice takes its space once. The digest also lets the
+ * fixity check find files that no longer match what was saved.
+ */
+
+export interface StoredBlob {
+  /** SHA-256 digest of the content, hex */
+  sha256: string;
+  blob: Blob;
+  size: number;
+  createdAt: Date;
+  /** Last time the content was hashed and compared with its digest */
+  verifiedAt: Date;
+  /** When the content was found not matching its digest, until it does again */
+  corruptedAt?: Date;
+}
+
+/**
+ * A photo, model or variant as kept in its table: without its file, which
+ * is found by digest. Records whose file was gone before digests were
+ * taken have none.
+ */
+export type StoredRecord<T extends { blob: Blob }> = Omit<T, 'blob'> & { sha256?: string };
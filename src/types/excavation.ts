@@ -0,0 +1,75 @@
+/**
+ * Excavation structure types
+ *
+ * How an excavation is organised: a site is dug in seasons and divided into
+ * areas (or trenches), and finds are recorded by context (or locus), the
+ * smallest excavated unit. Artifacts reference their context by id.
+ */
+
+export interface Site {
+  id: string;
+  name: string;
+  /** Short code used in registration numbers, e.g. "MEG" */
+  code?: string;
+  /** Numbering for finds at this site, instead of the default pattern */
+  registrationPattern?: string;
+  region?: string;
+  description?: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Season {
+  id: string;
+  siteId: string;
+  /** e.g. "2024" or "Spring 2024" */
+  name: string;
+  startDate?: Date;
+  endDate?: Date;
+  director?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Area {
+  id: string;
+  siteId: string;
+  /** e.g. "Area A" or "Trench 3" */
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ExcavationContextType =
+  | 'locus'    // Excavation unit in the locus system
+  | 'context'  // Single-context recording
+  | 'layer'    // Stratigraphic layer
+  | 'feature'; // Wall, pit, installation, ...
+
+export interface ExcavationContext {
+  id: string;
+  siteId: string;
+  areaId?: string;
+  /** Season the context was opened in */
+  seasonId?: string;
+  /** Locus or context number, unique within the site */
+  number: string;
+  type: ExcavationContextType;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Last sequence number drawn for a registration pattern, by the pattern
+ * filled in except for the sequence ("MEG-2026-{SEQ:4}")
+ */
+export interface RegistrationCounter {
+  key: string;
+  value: number;
+}
@@ -1,5 +1,11 @@
 export * from './artifact';
 export * from './camera';
+export * from './queue';
+export * from './reconstruction';
+export * from './vocabulary';
+export * from './excavation';
+export * from './trash';
+export * from './blobs';
 
 // Re-export commonly used types
 export type {
@@ -9,6 +15,15 @@ export type {
   ArtifactStatus,
   Model3D,
   InfoCard,
+  InfoCardTranslation,
+  InfoCardField,
+  InfoCardQuestion,
+  InfoCardContent,
+  InfoCardRevision,
+  InfoCardRevisionAction,
+  InfoCardReview,
+  InfoCardReviewStatus,
+  DateSpan,
   ColorVariant,
   ColorScheme,
   ProcessingStatus,
@@ -26,3 +41,46 @@ export type {
   UseCameraOptions,
   UseCameraReturn,
 } from './camera';
+
+export type {
+  QueuedOperation,
+  QueuedOperationType,
+  QueuedReconstruct3D,
+  QueuedGenerateInfoCard,
+  QueuedColorize,
+} from './queue';
+
+export type {
+  TrellisParams,
+  TripoSRParams,
+  ReconstructionParams,
+  ReconstructionPreset,
+  ModelGeneration,
+} from './reconstruction';
+
+export type {
+  VocabularyName,
+  VocabularyTerm,
+  VocabularyMatch,
+  VocabularyMatches,
+} from './vocabulary';
+
+export type {
+  Site,
+  Season,
+  Area,
+  ExcavationContext,
+  ExcavationContextType,
+  RegistrationCounter,
+} from './excavation';
+
+export type {
+  TrashKind,
+  TrashEntry,
+  StoredTrashEntry,
+} from './trash';
+
+export type {
+  StoredBlob,
+  StoredRecord,
+} from './blobs';
@@ -0,0 +1,63 @@
+/**
+ * Offline operation queue types
+ *
+ * Queued operations reference images by ID instead of inlining base64,
+ * so the queue stays small and lives next to the artifacts in IndexedDB.
+ */
+
+import type { ColorScheme } from './artifact';
+import type { TrellisParams, TripoSRParams } from './reconstruction';
+
+export type QueuedOperationType = 'reconstruct3d' | 'generateInfoCard' | 'colorize';
+
+interface QueuedOperationBase {
+  id: string;
+  artifactId: string;
+  // Ordered ArtifactImage IDs to send with the request
+  imageIds: string[];
+  createdAt: Date;
+  retryCount: number;
+  lastError?: string;
+}
+
+export interface QueuedReconstruct3D extends QueuedOperationBase {
+  type: 'reconstruct3d';
+  params: {
+    method: 'trellis' | 'triposr';
+    removeBackground?: boolean;
+    source: '3d-single' | '3d-multi';
+    trellisParams?: TrellisParams;
+    triposrParams?: TripoSRParams;
+    presetId?: string;
+  };
+  // Server job already started for it; followed rather than sending the images again
+  jobId?: string;
+}
+
+export interface QueuedGenerateInfoCard extends QueuedOperationBase {
+  type: 'generateInfoCard';
+  params: {
+    language?: 'en' | 'he';
+    bilingual?: boolean;
+    metadata?: {
+      discoveryLocation?: string;
+      excavationLayer?: string;
+      siteName?: string;
+      notes?: string;
+      material?: string;
+      period?: string;
+      objectType?: string;
+    };
+  };
+}
+
+export interface QueuedColorize extends QueuedOperationBase {
+  type: 'colorize';
+  params: {
+    colorScheme: ColorScheme;
+    customPrompt?: string;
+    includeRestoration?: boolean;
+  };
+}
+
+export type QueuedOperation = QueuedReconstruct3D | QueuedGenerateInfoCard | QueuedColorize;
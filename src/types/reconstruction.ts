@@ -0,0 +1,60 @@
+/**
+ * 3D reconstruction parameter types
+ *
+ * Mirrors the trellisParams / triposrParams accepted by the reconstruct-3d
+ * functions, so presets, queued jobs and saved models share one shape.
+ */
+
+export interface TrellisParams {
+  seed: number;
+  ssGuidanceRescale: number;
+  ssSamplingSteps: number;
+  ssRescaleT: number;
+  shapeGuidanceRescale: number;
+  shapeSamplingSteps: number;
+  shapeRescaleT: number;
+  texGuidanceRescale: number;
+  texSamplingSteps: number;
+  texRescaleT: number;
+  /** Target face count of the exported mesh */
+  decimationTarget: number;
+  /** Texture edge length in pixels */
+  textureSize: number;
+}
+
+export interface TripoSRParams {
+  foregroundRatio: number;
+  /** Marching cubes grid resolution */
+  mcResolution: number;
+}
+
+export interface ReconstructionParams {
+  trellis: TrellisParams;
+  triposr: TripoSRParams;
+}
+
+export interface ReconstructionPreset {
+  id: string;
+  /** User-given name (custom presets) */
+  name?: string;
+  /** Translation keys (built-in presets) */
+  nameKey?: string;
+  descriptionKey?: string;
+  builtIn?: boolean;
+  params: ReconstructionParams;
+}
+
+/**
+ * How a model was generated, as reported by the server
+ * Enough to regenerate it with the same settings
+ */
+export interface ModelGeneration {
+  method: 'trellis' | 'triposr';
+  /** Preset the parameters came from, if they weren't edited */
+  presetId?: string;
+  /** Seed used (TRELLIS.2 only; TripoSR is deterministic) */
+  seed?: number;
+  trellisParams?: TrellisParams;
+  triposrParams?: TripoSRParams;
+  removeBackground?: boolean;
+}
@@ -0,0 +1,40 @@
+/**
+ * Trash types
+ *
+ * Deleted artifacts, photos and color variants are moved to the trash as
+ * they were, with everything belonging to them, until they're restored or
+ * purged once the retention period is over.
+ */
+
+import type { Artifact, ArtifactImage, ColorVariant, InfoCard, InfoCardRevision, Model3D } from './artifact';
+import type { StoredRecord } from './blobs';
+
+export type TrashKind = 'artifact' | 'image' | 'colorVariant' | 'model' | 'infoCard';
+
+export interface TrashEntry {
+  id: string;
+  kind: TrashKind;
+  deletedAt: Date;
+  /** The artifact deleted, or the one the other records belonged to */
+  artifactId: string;
+  /** The deleted artifact's number, kept from other finds until purged */
+  registrationNumber?: string;
+
+  // The records as they were
+  artifact?: Artifact;
+  images: ArtifactImage[];
+  models: Model3D[];
+  infoCards: InfoCard[];
+  infoCardRevisions: InfoCardRevision[];
+  colorVariants: ColorVariant[];
+}
+
+/**
+ * A trash entry as kept: its photos, models and variants without their
+ * files, as in their tables
+ */
+export type StoredTrashEntry = Omit<TrashEntry, 'images' | 'models' | 'colorVariants'> & {
+  images: StoredRecord<ArtifactImage>[];
+  models: StoredRecord<Model3D>[];
+  colorVariants: StoredRecord<ColorVariant>[];
+};
@@ -0,0 +1,44 @@
+/**
+ * Controlled vocabulary types
+ *
+ * Thesauri of preferred terms with synonyms, so "terracotta", "terra cotta"
+ * and "ceramic" all mean the same material. The bundled terms can be edited
+ * and extended; edits are stored as whole terms that replace the bundled one.
+ */
+
+export type VocabularyName = 'material' | 'period' | 'objectType';
+
+export interface VocabularyTerm {
+  /** Stable id, prefixed with the vocabulary (e.g. "material:fired-clay") */
+  id: string;
+  vocabulary: VocabularyName;
+  /** Preferred term per language; English is always present */
+  label: { en: string; he?: string };
+  /** Other names for the term, in any language */
+  synonyms: string[];
+  /** A broader term (e.g. limestone → stone); the narrower one wins a match */
+  broader?: string;
+
+  // Periods, PeriodO-style: a named span of years in a region
+  /** First year, BCE negative */
+  start?: number;
+  /** Last year, BCE negative */
+  end?: number;
+  /** Where the period applies */
+  region?: string;
+
+  /** Added by the user rather than bundled */
+  custom?: boolean;
+  /** Bundled term the user removed */
+  hidden?: boolean;
+}
+
+/**
+ * A value mapped to a preferred term, keeping the text it came from
+ */
+export interface VocabularyMatch {
+  termId: string;
+  raw: string;
+}
+
+export type VocabularyMatches = Partial<Record<VocabularyName, VocabularyMatch>>;
@@ -1,13 +1,79 @@
-import { defineConfig } from 'vite'
+import { defineConfig, build, type Plugin, type ResolvedConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import fs from 'fs'
+import { createHash } from 'crypto'
+
+const alias = {
+  '@': path.resolve(__dirname, './src'),
+}
+
+// Public files that belong to the app shell (icons and the web app manifest)
+const PRECACHE_PUBLIC_FILES = /^(manifest\.json|logo(-\d+)?\.png)$/
+
+/**
+ * Builds src/sw/serviceWorker.ts into dist/sw.js after the app build, injecting
+ * the list of built files and a cache version so the app shell can be precached
+ */
+function serviceWorker(): Plugin {
+  let config: ResolvedConfig
+
+  return {
+    name: 'relic-service-worker',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved
+    },
+    async writeBundle(_options, bundle) {
+      const publicFiles = fs.existsSync(config.publicDir)
+        ? fs.readdirSync(config.publicDir).filter((file) => PRECACHE_PUBLIC_FILES.test(file))
+        : []
+
+      const urls = [...Object.keys(bundle), ...publicFiles]
+        .filter((file) => !file.endsWith('.map'))
+        .map((file) => `/${file}`)
+        .sort()
+
+      // index.html and the hashed assets change with every release, so their names
+      // (plus index.html's contents) identify the version
+      const outDir = path.resolve(config.root, config.build.outDir)
+      const indexHtml = fs.readFileSync(path.join(outDir, 'index.html'), 'utf-8')
+      const version = createHash('sha256')
+        .update(urls.join('\n'))
+        .update(indexHtml)
+        .digest('hex')
+        .slice(0, 12)
+
+      // Service workers can't share the app's chunks, so bundle it on its own
+      await build({
+        configFile: false,
+        logLevel: 'warn',
+        resolve: { alias },
+        define: {
+          __CACHE_VERSION__: JSON.stringify(version),
+          __PRECACHE_URLS__: JSON.stringify(urls),
+          'process.env.NODE_ENV': JSON.stringify('production'),
+        },
+        build: {
+          outDir,
+          emptyOutDir: false,
+          copyPublicDir: false,
+          lib: {
+            entry: path.resolve(config.root, 'src/sw/serviceWorker.ts'),
+            formats: ['iife'],
+            name: 'serviceWorker',
+            fileName: () => 'sw.js',
+          },
+        },
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
-    },
+    alias,
   },
 })